@@ -11,6 +11,9 @@ import { HexString, MaybeHexString, Memoize } from "../utils";
 import * as Gen from "../generated/index";
 import { AccountAddress, AuthenticationKey, Ed25519PublicKey } from "../aptos_types";
 import { bcsToBytes } from "../bcs";
+import { isSigner, Signer } from "./signer";
+import { decryptKeystore, encryptKeystore, Keystore, KeystoreOptions } from "./keystore";
+import { combineShamirShares, ShamirGroup, ShamirOptions, splitShamirShares } from "./shamir";
 
 export interface AptosAccountObject {
   address?: Gen.HexEncodedBytes;
@@ -21,7 +24,12 @@ export interface AptosAccountObject {
 /**
  * Class for creating and managing Aptos account
  */
-export class AptosAccount {
+export class AptosAccount implements Signer {
+  /**
+   * Aptos accounts sign with Ed25519 keys
+   */
+  readonly scheme = "ed25519";
+
   /**
    * A private key and public key, associated with the given account
    */
@@ -36,6 +44,28 @@ export class AptosAccount {
     return new AptosAccount(HexString.ensure(obj.privateKeyHex).toUint8Array(), obj.address);
   }
 
+  /**
+   * Decrypts an account from a keystore created by `toKeystore`
+   * @param keystore The keystore, or its JSON
+   * @param password The password the keystore was encrypted with
+   * @returns AptosAccount
+   */
+  static async fromKeystore(keystore: Keystore | string, password: string): Promise<AptosAccount> {
+    const secret = await decryptKeystore(keystore, password, "aptos_account");
+    return AptosAccount.fromAptosAccountObject(JSON.parse(new TextDecoder().decode(secret)));
+  }
+
+  /**
+   * Recovers an account from shares created by `toShamirShares`
+   * @param shares The mnemonics of enough shares, of any group
+   * @param passphrase The passphrase the private key was split with
+   * @param address The address of the account, if its auth key was rotated
+   * @returns AptosAccount
+   */
+  static fromShamirShares(shares: string[], passphrase?: string, address?: MaybeHexString): AptosAccount {
+    return new AptosAccount(combineShamirShares(shares, passphrase), address);
+  }
+
   /**
    * Test derive path
    */
@@ -147,6 +177,13 @@ export class AptosAccount {
     return HexString.fromUint8Array(this.signingKey.publicKey);
   }
 
+  /**
+   * @returns The raw public key for the associated account
+   */
+  publicKeyBytes(): Uint8Array {
+    return this.signingKey.publicKey;
+  }
+
   /**
    * Signs specified `buffer` with account's private key
    * @param buffer A buffer to sign
@@ -157,6 +194,15 @@ export class AptosAccount {
     return HexString.fromUint8Array(signature);
   }
 
+  /**
+   * Signs specified `message` with account's private key, as a `Signer`
+   * @param message A message to sign
+   * @returns The raw signature
+   */
+  async sign(message: Uint8Array): Promise<Uint8Array> {
+    return this.signBuffer(message).toUint8Array();
+  }
+
   /**
    * Signs specified `hexString` with account's private key
    * @param hexString A regular string or HexString to sign
@@ -198,9 +244,31 @@ export class AptosAccount {
       privateKeyHex: HexString.fromUint8Array(this.signingKey.secretKey.slice(0, 32)).hex(),
     };
   }
+
+  /**
+   * Encrypts the private key of the account with a password, unlike `toPrivateKeyObject`
+   * @param password The password to encrypt with
+   * @param options The key derivation function and its parameters, scrypt by default
+   * @returns The keystore, to be stored as JSON and decrypted with `AptosAccount.fromKeystore`
+   */
+  async toKeystore(password: string, options?: KeystoreOptions): Promise<Keystore> {
+    const secret = new TextEncoder().encode(JSON.stringify(this.toPrivateKeyObject()));
+    return encryptKeystore("aptos_account", secret, password, options, this.address());
+  }
+
+  /**
+   * Splits the private key of the account into groups of shares, to be recovered with `AptosAccount.fromShamirShares`.
+   * The address is not part of the shares.
+   * @param groups The threshold and number of shares of each group
+   * @param options The group threshold and passphrase
+   * @returns The mnemonics of the shares of each group
+   */
+  toShamirShares(groups: ShamirGroup[], options?: ShamirOptions): string[][] {
+    return splitShamirShares(this.signingKey.secretKey.slice(0, 32), groups, options);
+  }
 }
 
-// Returns an account address as a HexString given either an AptosAccount or a MaybeHexString.
-export function getAddressFromAccountOrAddress(accountOrAddress: AptosAccount | MaybeHexString): HexString {
-  return accountOrAddress instanceof AptosAccount ? accountOrAddress.address() : HexString.ensure(accountOrAddress);
+// Returns an account address as a HexString given either a Signer, such as an AptosAccount, or a MaybeHexString.
+export function getAddressFromAccountOrAddress(accountOrAddress: Signer | MaybeHexString): HexString {
+  return isSigner(accountOrAddress) ? accountOrAddress.address() : HexString.ensure(accountOrAddress);
 }
@@ -1 +1,8 @@
 export * from "./aptos_account";
+export * from "./multi_ed25519_account";
+export * from "./secp256k1_account";
+export * from "./signer";
+export * from "./keystore";
+export * from "./shamir";
+export * from "./sign_in_message";
+export * from "./rotation_proof";
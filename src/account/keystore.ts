@@ -0,0 +1,227 @@
+// Copyright © Aptos Foundation
+// SPDX-License-Identifier: Apache-2.0
+
+import nacl from "tweetnacl";
+import { scryptAsync } from "@noble/hashes/scrypt";
+import { pbkdf2Async } from "@noble/hashes/pbkdf2";
+import { sha256 } from "@noble/hashes/sha256";
+import { HexString, MaybeHexString } from "../utils";
+
+export const KEYSTORE_VERSION = 1;
+
+/**
+ * What a keystore holds: the private key of an `AptosAccount`, or the mnemonic and accounts of a `Wallet`
+ */
+export type KeystoreType = "aptos_account" | "wallet";
+
+export interface ScryptParams {
+  dklen: number;
+  salt: string;
+  n: number;
+  r: number;
+  p: number;
+}
+
+export interface Pbkdf2Params {
+  dklen: number;
+  salt: string;
+  c: number;
+  prf: "hmac-sha256";
+}
+
+/**
+ * A password-encrypted secret, to be stored as JSON. The format follows the Ethereum V3 keystore, except that
+ * AES-256-GCM authenticates the ciphertext, so that there is no separate MAC.
+ */
+export interface Keystore {
+  version: number;
+  id: string;
+  type: KeystoreType;
+  // Left in clear to find the keystore of an account, authenticated along with the ciphertext
+  address?: string;
+  crypto: {
+    cipher: "aes-256-gcm";
+    cipherparams: { iv: string };
+    ciphertext: string;
+    kdf: "scrypt" | "pbkdf2";
+    kdfparams: ScryptParams | Pbkdf2Params;
+  };
+}
+
+/**
+ * The key derivation function turning the password into the encryption key, and its cost parameters.
+ * Scrypt with n = 2^15, r = 8 and p = 1 by default, or PBKDF2-HMAC-SHA256 with 262144 iterations.
+ * At most n = 2^20 and r * p = 16, or 10000000 iterations, are accepted.
+ */
+export interface KeystoreOptions {
+  kdf?: "scrypt" | "pbkdf2";
+  n?: number;
+  r?: number;
+  p?: number;
+  c?: number;
+}
+
+const KEY_LENGTH = 32;
+const SALT_LENGTH = 32;
+const IV_LENGTH = 12;
+
+// Upper bounds of the key derivation costs, as keystores may come from untrusted sources.
+// Scrypt uses 128 * n * r bytes of memory, 1 GiB with the largest n and r = 8
+const MAX_SCRYPT_N = 2 ** 20;
+const MAX_SCRYPT_RP = 16;
+const MAX_PBKDF2_ITERATIONS = 10000000;
+
+const isPositiveInteger = (value: unknown): value is number => Number.isSafeInteger(value) && (value as number) > 0;
+
+function subtleCrypto(): SubtleCrypto {
+  const subtle = globalThis.crypto?.subtle;
+  if (!subtle) {
+    throw new Error("Keystores require the Web Crypto API");
+  }
+  return subtle;
+}
+
+function deriveKey(password: string, kdf: Keystore["crypto"]["kdf"], params: ScryptParams | Pbkdf2Params) {
+  if (params.dklen !== KEY_LENGTH) {
+    throw new Error(`Unsupported derived key length ${params.dklen}, expected ${KEY_LENGTH}`);
+  }
+  const salt = HexString.ensure(params.salt).toUint8Array();
+  switch (kdf) {
+    case "scrypt": {
+      const { n, r, p, dklen } = params as ScryptParams;
+      // A power of two has a single bit set
+      // eslint-disable-next-line no-bitwise
+      if (!isPositiveInteger(n) || n < 2 || n > MAX_SCRYPT_N || (n & (n - 1)) !== 0) {
+        throw new Error(`Unsupported scrypt parameter n=${n}, expected a power of two up to ${MAX_SCRYPT_N}`);
+      }
+      if (!isPositiveInteger(r) || !isPositiveInteger(p) || r * p > MAX_SCRYPT_RP) {
+        throw new Error(`Unsupported scrypt parameters r=${r} and p=${p}, expected r * p up to ${MAX_SCRYPT_RP}`);
+      }
+      return scryptAsync(password, salt, { N: n, r, p, dkLen: dklen });
+    }
+    case "pbkdf2": {
+      const { c, prf, dklen } = params as Pbkdf2Params;
+      if (prf !== "hmac-sha256") {
+        throw new Error(`Unsupported PBKDF2 pseudorandom function ${prf}`);
+      }
+      if (!isPositiveInteger(c) || c > MAX_PBKDF2_ITERATIONS) {
+        throw new Error(`Unsupported PBKDF2 iteration count ${c}, expected up to ${MAX_PBKDF2_ITERATIONS}`);
+      }
+      return pbkdf2Async(sha256, password, salt, { c, dkLen: dklen });
+    }
+    default:
+      throw new Error(`Unsupported key derivation function ${kdf}`);
+  }
+}
+
+// Binds the clear fields of the keystore to its ciphertext
+function additionalData(type: KeystoreType, address?: string): Uint8Array {
+  return new TextEncoder().encode(`${KEYSTORE_VERSION}:${type}:${address ?? ""}`);
+}
+
+function uuid(): string {
+  const bytes = nacl.randomBytes(16);
+  // Version 4, variant 1
+  bytes[6] = 0x40 + (bytes[6] % 0x10);
+  bytes[8] = 0x80 + (bytes[8] % 0x40);
+  const hex = HexString.fromUint8Array(bytes).noPrefix();
+  return [hex.slice(0, 8), hex.slice(8, 12), hex.slice(12, 16), hex.slice(16, 20), hex.slice(20)].join("-");
+}
+
+/**
+ * Encrypts a secret with a password
+ *
+ * @param type What the secret is
+ * @param secret The secret to encrypt
+ * @param password The password
+ * @param options The key derivation function and its parameters
+ * @param address The address of the account the secret belongs to, if any
+ * @returns The keystore, to be stored as JSON
+ */
+export async function encryptKeystore(
+  type: KeystoreType,
+  secret: Uint8Array,
+  password: string,
+  options: KeystoreOptions = {},
+  address?: MaybeHexString,
+): Promise<Keystore> {
+  const salt = HexString.fromUint8Array(nacl.randomBytes(SALT_LENGTH)).noPrefix();
+  const kdf = options.kdf ?? "scrypt";
+  const kdfparams: ScryptParams | Pbkdf2Params =
+    kdf === "pbkdf2"
+      ? { dklen: KEY_LENGTH, salt, c: options.c ?? 262144, prf: "hmac-sha256" }
+      : { dklen: KEY_LENGTH, salt, n: options.n ?? 2 ** 15, r: options.r ?? 8, p: options.p ?? 1 };
+  const addressHex = address === undefined ? undefined : HexString.ensure(address).hex();
+
+  const key = await subtleCrypto().importKey("raw", await deriveKey(password, kdf, kdfparams), "AES-GCM", false, [
+    "encrypt",
+  ]);
+  const iv = nacl.randomBytes(IV_LENGTH);
+  const ciphertext = await subtleCrypto().encrypt(
+    { name: "AES-GCM", iv, additionalData: additionalData(type, addressHex) },
+    key,
+    secret,
+  );
+
+  return {
+    version: KEYSTORE_VERSION,
+    id: uuid(),
+    type,
+    address: addressHex,
+    crypto: {
+      cipher: "aes-256-gcm",
+      cipherparams: { iv: HexString.fromUint8Array(iv).noPrefix() },
+      ciphertext: HexString.fromUint8Array(new Uint8Array(ciphertext)).noPrefix(),
+      kdf,
+      kdfparams,
+    },
+  };
+}
+
+/**
+ * Decrypts the secret of a keystore
+ *
+ * @param keystore The keystore, or its JSON
+ * @param password The password it was encrypted with
+ * @param type What the secret is expected to be
+ * @returns The secret
+ */
+export async function decryptKeystore(
+  keystore: Keystore | string,
+  password: string,
+  type: KeystoreType,
+): Promise<Uint8Array> {
+  const {
+    version,
+    type: keystoreType,
+    address,
+    crypto,
+  } = typeof keystore === "string" ? (JSON.parse(keystore) as Keystore) : keystore;
+  if (version !== KEYSTORE_VERSION) {
+    throw new Error(`Unsupported keystore version ${version}`);
+  }
+  if (keystoreType !== type) {
+    throw new Error(`Expected a keystore of type ${type}, got ${keystoreType}`);
+  }
+  if (crypto.cipher !== "aes-256-gcm") {
+    throw new Error(`Unsupported cipher ${crypto.cipher}`);
+  }
+
+  const derivedKey = await deriveKey(password, crypto.kdf, crypto.kdfparams);
+  try {
+    const key = await subtleCrypto().importKey("raw", derivedKey, "AES-GCM", false, ["decrypt"]);
+    const secret = await subtleCrypto().decrypt(
+      {
+        name: "AES-GCM",
+        iv: HexString.ensure(crypto.cipherparams.iv).toUint8Array(),
+        additionalData: additionalData(keystoreType, address),
+      },
+      key,
+      HexString.ensure(crypto.ciphertext).toUint8Array(),
+    );
+    return new Uint8Array(secret);
+  } catch (e) {
+    // AES-GCM cannot tell a wrong password from a tampered keystore
+    throw new Error("Invalid password or corrupted keystore");
+  }
+}
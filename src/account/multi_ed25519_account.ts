@@ -0,0 +1,237 @@
+// Copyright © Aptos Foundation
+// SPDX-License-Identifier: Apache-2.0
+
+import nacl from "tweetnacl";
+import { AptosAccount } from "./aptos_account";
+import { Signer } from "./signer";
+import { HexString, MaybeHexString } from "../utils";
+import * as Gen from "../generated/index";
+import {
+  AuthenticationKey,
+  Ed25519PublicKey,
+  Ed25519Signature,
+  FeePayerRawTransaction,
+  MultiAgentRawTransaction,
+  MultiEd25519PublicKey,
+  MultiEd25519Signature,
+  RawTransaction,
+} from "../aptos_types";
+import { TransactionBuilder, TransactionBuilderMultiEd25519 } from "../transaction_builder/builder";
+
+/**
+ * The signature of a message by one of the keys of a multi Ed25519 account.
+ * It only holds hex strings, so that it can be sent as JSON to whoever combines the signatures.
+ */
+export interface MultiEd25519PartialSignature {
+  publicKey: Gen.HexEncodedBytes;
+  signature: Gen.HexEncodedBytes;
+}
+
+/**
+ * Class for a K-of-N multi Ed25519 account, i.e. an account whose transactions must be signed by
+ * at least K of its N keys.
+ *
+ * The keys are usually held by different parties. Each of them signs with `partialSign` on its own,
+ * in any order, and the partial signatures are then combined into a `MultiEd25519Signature`.
+ * Keys available locally can also be given as `signers`, they then sign without further ado.
+ *
+ * @example
+ * ```
+ * const account = MultiEd25519Account.fromPublicKeys([alice.pubKey(), bob.pubKey(), carol.pubKey()], 2);
+ * const rawTxn = await client.generateRawTransaction(account.address(), payload);
+ * // On every signer's machine
+ * const partialSignature = account.partialSignTransaction(bob, rawTxn);
+ * // Once enough partial signatures were collected
+ * const signedTxn = account.generateBCSTransaction(rawTxn, [partialSignature, ...]);
+ * ```
+ */
+export class MultiEd25519Account implements Signer {
+  readonly scheme = "multi_ed25519";
+
+  readonly publicKey: MultiEd25519PublicKey;
+
+  private readonly accountAddress: HexString;
+
+  private readonly signers: AptosAccount[];
+
+  /**
+   * @param publicKey The keys of the account, along with the number of signatures required
+   * @param options.address The address of the account, if its auth key was rotated.
+   * Derived from the public key otherwise
+   * @param options.signers The accounts of the keys available locally
+   */
+  constructor(publicKey: MultiEd25519PublicKey, options?: { address?: MaybeHexString; signers?: AptosAccount[] }) {
+    if (publicKey.threshold < 1 || publicKey.threshold > publicKey.public_keys.length) {
+      throw new Error(`Invalid threshold ${publicKey.threshold} for ${publicKey.public_keys.length} keys`);
+    }
+    this.publicKey = publicKey;
+    this.accountAddress = HexString.ensure(options?.address ?? this.authKey().hex());
+    this.signers = options?.signers ?? [];
+    this.signers.forEach((signer) => this.indexOfSigner(signer));
+  }
+
+  /**
+   * Creates a K-of-N multi Ed25519 account
+   *
+   * @param publicKeys The N Ed25519 public keys, in order. The order changes the address of the account
+   * @param threshold K, the number of signatures required
+   * @param options see constructor
+   */
+  static fromPublicKeys(
+    publicKeys: MaybeHexString[],
+    threshold: number,
+    options?: { address?: MaybeHexString; signers?: AptosAccount[] },
+  ): MultiEd25519Account {
+    const keys = publicKeys.map((publicKey) => new Ed25519PublicKey(HexString.ensure(publicKey).toUint8Array()));
+    return new MultiEd25519Account(new MultiEd25519PublicKey(keys, threshold), options);
+  }
+
+  /**
+   * @returns Address associated with the given account
+   */
+  address(): HexString {
+    return this.accountAddress;
+  }
+
+  /**
+   * @returns Authentication key of the multi Ed25519 public key,
+   * i.e. `sha3-256(p_1 | … | p_n | K | 0x01)`
+   */
+  authKey(): HexString {
+    return AuthenticationKey.fromMultiEd25519PublicKey(this.publicKey).derivedAddress();
+  }
+
+  /**
+   * @returns The number of signatures required
+   */
+  get threshold(): number {
+    return this.publicKey.threshold;
+  }
+
+  /**
+   * @returns The raw multi Ed25519 public key, i.e. `p_1 | … | p_n | K`
+   */
+  publicKeyBytes(): Uint8Array {
+    return this.publicKey.toBytes();
+  }
+
+  /**
+   * @param publicKey An Ed25519 public key
+   * @returns The position of the key in the account, or -1 if it is not one of its keys
+   */
+  indexOf(publicKey: MaybeHexString): number {
+    const key = HexString.ensure(publicKey).toUint8Array();
+    return this.publicKey.public_keys.findIndex(
+      ({ value }) => value.length === key.length && value.every((byte, i) => byte === key[i]),
+    );
+  }
+
+  /**
+   * Signs a message with one of the keys of the account
+   *
+   * @param signer The account of one of the keys
+   * @param message The message to sign
+   * @returns The partial signature, to combine with the ones of the other keys
+   */
+  partialSign(signer: AptosAccount, message: Uint8Array): MultiEd25519PartialSignature {
+    this.indexOfSigner(signer);
+    return {
+      publicKey: signer.pubKey().hex(),
+      signature: signer.signBuffer(message).hex(),
+    };
+  }
+
+  /**
+   * Signs a transaction with one of the keys of the account
+   *
+   * @param signer The account of one of the keys
+   * @param rawTxn The transaction to sign
+   * @returns The partial signature, to combine with the ones of the other keys
+   */
+  partialSignTransaction(
+    signer: AptosAccount,
+    rawTxn: RawTransaction | MultiAgentRawTransaction | FeePayerRawTransaction,
+  ): MultiEd25519PartialSignature {
+    return this.partialSign(signer, TransactionBuilder.getSigningMessage(rawTxn));
+  }
+
+  /**
+   * Combines partial signatures of a message into a multi Ed25519 signature. Partial signatures can be given in
+   * any order, the bitmap of the signature is built from the positions of their keys. Signatures of the same key
+   * are only counted once, and only `threshold` signatures are kept.
+   *
+   * @param message The signed message
+   * @param partialSignatures The partial signatures
+   * @returns The multi Ed25519 signature
+   */
+  combineSignatures(message: Uint8Array, partialSignatures: MultiEd25519PartialSignature[]): MultiEd25519Signature {
+    const signatures = new Map<number, Uint8Array>();
+    partialSignatures.forEach(({ publicKey, signature }) => {
+      const index = this.indexOf(publicKey);
+      if (index < 0) {
+        throw new Error(`${HexString.ensure(publicKey).hex()} is not a key of the multi Ed25519 account`);
+      }
+      const signatureBytes = HexString.ensure(signature).toUint8Array();
+      if (!nacl.sign.detached.verify(message, signatureBytes, this.publicKey.public_keys[index].value)) {
+        throw new Error(`Invalid signature of ${HexString.ensure(publicKey).hex()}`);
+      }
+      signatures.set(index, signatureBytes);
+    });
+
+    if (signatures.size < this.threshold) {
+      throw new Error(`Expected at least ${this.threshold} signatures, got ${signatures.size}`);
+    }
+
+    // Signatures must be in the order of the keys
+    const indices = [...signatures.keys()].sort((a, b) => a - b).slice(0, this.threshold);
+    return new MultiEd25519Signature(
+      indices.map((index) => new Ed25519Signature(signatures.get(index)!)),
+      MultiEd25519Signature.createBitmap(indices),
+    );
+  }
+
+  /**
+   * Signs a message with the local signers of the account, along with the given partial signatures
+   *
+   * @param message The message to sign
+   * @param partialSignatures The signatures of the keys not available locally
+   * @returns The multi Ed25519 signature
+   */
+  signBuffer(message: Uint8Array, partialSignatures: MultiEd25519PartialSignature[] = []): MultiEd25519Signature {
+    const localSignatures = this.signers.map((signer) => this.partialSign(signer, message));
+    return this.combineSignatures(message, [...partialSignatures, ...localSignatures]);
+  }
+
+  /**
+   * Signs a message with the local signers of the account, as a `Signer`
+   *
+   * @param message The message to sign
+   * @returns The raw multi Ed25519 signature
+   */
+  async sign(message: Uint8Array): Promise<Uint8Array> {
+    return this.signBuffer(message).toBytes();
+  }
+
+  /**
+   * Generates a signed transaction that can be submitted to the chain for execution
+   *
+   * @param rawTxn The transaction to sign
+   * @param partialSignatures The signatures of the keys not available locally
+   * @returns The BCS encoded signed transaction
+   */
+  generateBCSTransaction(rawTxn: RawTransaction, partialSignatures: MultiEd25519PartialSignature[] = []): Uint8Array {
+    const txnBuilder = new TransactionBuilderMultiEd25519(
+      (signingMessage) => this.signBuffer(signingMessage, partialSignatures),
+      this.publicKey,
+    );
+    return txnBuilder.sign(rawTxn);
+  }
+
+  private indexOfSigner(signer: AptosAccount): number {
+    const index = this.indexOf(signer.pubKey());
+    if (index < 0) {
+      throw new Error(`${signer.pubKey().hex()} is not a key of the multi Ed25519 account`);
+    }
+    return index;
+  }
+}
@@ -0,0 +1,205 @@
+// Copyright © Aptos Foundation
+// SPDX-License-Identifier: Apache-2.0
+
+import { HexString, MaybeHexString } from "../utils";
+import { AccountAddress, EntryFunction, RotationProofChallenge, TransactionPayloadEntryFunction } from "../aptos_types";
+import { AnyNumber, bcsSerializeBytes, bcsSerializeU8, bcsToBytes } from "../bcs";
+import { authKeyOfScheme, authKeyScheme, Signer, SigningScheme, verifySignature } from "./signer";
+
+/**
+ * The public part of a key an account is rotated from or to
+ */
+export type RotationKey = Pick<Signer, "scheme" | "publicKeyBytes">;
+
+/**
+ * Proof that both the current and the new key of an account agree on rotating its auth key, as expected by
+ * `0x1::account::rotate_authentication_key`. Hex encoded, to be passed around as JSON while it is being signed.
+ */
+export interface RotationProof {
+  address: string;
+  sequenceNumber: string;
+  currentAuthKey: string;
+  fromScheme: SigningScheme;
+  fromPublicKey: string;
+  toScheme: SigningScheme;
+  toPublicKey: string;
+  signedByCurrentKey: string;
+  signedByNewKey: string;
+}
+
+function checkScheme(scheme: SigningScheme) {
+  if (scheme !== "ed25519" && scheme !== "multi_ed25519") {
+    throw new Error(`Cannot rotate auth keys from or to ${scheme} keys`);
+  }
+}
+
+function challengeOf(proof: Omit<RotationProof, "signedByCurrentKey" | "signedByNewKey">): Uint8Array {
+  return bcsToBytes(
+    new RotationProofChallenge(
+      AccountAddress.CORE_CODE_ADDRESS,
+      "account",
+      "RotationProofChallenge",
+      BigInt(proof.sequenceNumber),
+      AccountAddress.fromHex(proof.address),
+      AccountAddress.fromHex(proof.currentAuthKey),
+      HexString.ensure(proof.toPublicKey).toUint8Array(),
+    ),
+  );
+}
+
+/**
+ * Collects the signatures of a rotation proof, which both keys sign offline. Multi Ed25519 keys whose signers are
+ * apart can collect partial signatures of `challenge()` with `MultiEd25519Account.partialSign`, and add their
+ * combined signature, i.e. `signature.toBytes()`.
+ *
+ * @example
+ * ```
+ * const builder = await client.createRotationProofBuilder(account, newAccount);
+ * await builder.signWithCurrentKey(account);
+ * await builder.signWithNewKey(newAccount);
+ * await client.rotateAuthKeyWithProof(account, builder.build());
+ * ```
+ */
+export class RotationProofBuilder {
+  private readonly proof: Omit<RotationProof, "signedByCurrentKey" | "signedByNewKey">;
+
+  private signedByCurrentKey?: Uint8Array;
+
+  private signedByNewKey?: Uint8Array;
+
+  /**
+   * @param address The address of the account
+   * @param sequenceNumber The sequence number the account will be at when rotating
+   * @param currentAuthKey The current auth key of the account, which `from` must be the key of
+   * @param from The current key of the account
+   * @param to The new key of the account
+   */
+  constructor(
+    address: MaybeHexString,
+    sequenceNumber: AnyNumber,
+    currentAuthKey: MaybeHexString,
+    from: RotationKey,
+    to: RotationKey,
+  ) {
+    checkScheme(from.scheme);
+    checkScheme(to.scheme);
+    const authKey = HexString.ensure(currentAuthKey);
+    if (authKeyOfScheme(from.scheme, from.publicKeyBytes()).toShortString() !== authKey.toShortString()) {
+      throw new Error(`The current key is not the auth key ${authKey.hex()}`);
+    }
+    this.proof = {
+      address: HexString.ensure(address).hex(),
+      sequenceNumber: sequenceNumber.toString(),
+      currentAuthKey: authKey.hex(),
+      fromScheme: from.scheme,
+      fromPublicKey: HexString.fromUint8Array(from.publicKeyBytes()).hex(),
+      toScheme: to.scheme,
+      toPublicKey: HexString.fromUint8Array(to.publicKeyBytes()).hex(),
+    };
+  }
+
+  /**
+   * @returns The BCS encoded `0x1::account::RotationProofChallenge`, which both keys sign
+   */
+  challenge(): Uint8Array {
+    return challengeOf(this.proof);
+  }
+
+  /**
+   * Adds the raw signature of the challenge by the current key, checking it
+   */
+  addCurrentKeySignature(signature: Uint8Array): this {
+    const publicKey = HexString.ensure(this.proof.fromPublicKey).toUint8Array();
+    if (!verifySignature(this.proof.fromScheme, publicKey, this.challenge(), signature)) {
+      throw new Error("Invalid rotation proof signature of the current key");
+    }
+    this.signedByCurrentKey = signature;
+    return this;
+  }
+
+  /**
+   * Adds the raw signature of the challenge by the new key, checking it
+   */
+  addNewKeySignature(signature: Uint8Array): this {
+    const publicKey = HexString.ensure(this.proof.toPublicKey).toUint8Array();
+    if (!verifySignature(this.proof.toScheme, publicKey, this.challenge(), signature)) {
+      throw new Error("Invalid rotation proof signature of the new key");
+    }
+    this.signedByNewKey = signature;
+    return this;
+  }
+
+  async signWithCurrentKey(signer: Signer): Promise<this> {
+    return this.addCurrentKeySignature(await signer.sign(this.challenge()));
+  }
+
+  async signWithNewKey(signer: Signer): Promise<this> {
+    return this.addNewKeySignature(await signer.sign(this.challenge()));
+  }
+
+  build(): RotationProof {
+    if (!this.signedByCurrentKey || !this.signedByNewKey) {
+      throw new Error("A rotation proof needs the signatures of both the current and the new key");
+    }
+    return {
+      ...this.proof,
+      signedByCurrentKey: HexString.fromUint8Array(this.signedByCurrentKey).hex(),
+      signedByNewKey: HexString.fromUint8Array(this.signedByNewKey).hex(),
+    };
+  }
+}
+
+/**
+ * Verifies a rotation proof offline: both signatures of its challenge, and that the current key is the current
+ * auth key of the proof. Whether it is still the auth key of the account on chain is left to the chain.
+ *
+ * @param proof The rotation proof
+ * @returns Whether the proof is valid
+ */
+export function verifyRotationProof(proof: RotationProof): boolean {
+  try {
+    checkScheme(proof.fromScheme);
+    checkScheme(proof.toScheme);
+    const fromPublicKey = HexString.ensure(proof.fromPublicKey).toUint8Array();
+    const challenge = challengeOf(proof);
+    return (
+      authKeyOfScheme(proof.fromScheme, fromPublicKey).toShortString() ===
+        HexString.ensure(proof.currentAuthKey).toShortString() &&
+      verifySignature(
+        proof.fromScheme,
+        fromPublicKey,
+        challenge,
+        HexString.ensure(proof.signedByCurrentKey).toUint8Array(),
+      ) &&
+      verifySignature(
+        proof.toScheme,
+        HexString.ensure(proof.toPublicKey).toUint8Array(),
+        challenge,
+        HexString.ensure(proof.signedByNewKey).toUint8Array(),
+      )
+    );
+  } catch (e) {
+    return false;
+  }
+}
+
+/**
+ * @returns The `0x1::account::rotate_authentication_key` payload submitting the proof, to be sent by its account
+ */
+export function rotationProofPayload(proof: RotationProof): TransactionPayloadEntryFunction {
+  return new TransactionPayloadEntryFunction(
+    EntryFunction.natural(
+      "0x1::account",
+      "rotate_authentication_key",
+      [],
+      [
+        bcsSerializeU8(authKeyScheme(proof.fromScheme)),
+        bcsSerializeBytes(HexString.ensure(proof.fromPublicKey).toUint8Array()),
+        bcsSerializeU8(authKeyScheme(proof.toScheme)),
+        bcsSerializeBytes(HexString.ensure(proof.toPublicKey).toUint8Array()),
+        bcsSerializeBytes(HexString.ensure(proof.signedByCurrentKey).toUint8Array()),
+        bcsSerializeBytes(HexString.ensure(proof.signedByNewKey).toUint8Array()),
+      ],
+    ),
+  );
+}
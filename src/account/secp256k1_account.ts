@@ -0,0 +1,173 @@
+// Copyright © Aptos Foundation
+// SPDX-License-Identifier: Apache-2.0
+
+import * as secp from "@noble/secp256k1";
+import * as bip39 from "@scure/bip39";
+import { HDKey } from "@scure/bip32";
+import { hmac } from "@noble/hashes/hmac";
+import { sha256 } from "@noble/hashes/sha256";
+import { sha3_256 as sha3Hash } from "@noble/hashes/sha3";
+import { concatBytes } from "@noble/hashes/utils";
+import { HexString, MaybeHexString, Memoize } from "../utils";
+import {
+  AnyPublicKeySecp256k1Ecdsa,
+  AuthenticationKey,
+  RawTransaction,
+  Secp256k1PublicKey,
+  Secp256k1Signature,
+} from "../aptos_types";
+import { TransactionBuilderSecp256k1 } from "../transaction_builder/builder";
+import { AptosAccountObject } from "./aptos_account";
+import { Signer, verifySignature } from "./signer";
+
+// Deterministic (RFC 6979) signing needs a synchronous HMAC, which noble leaves to the caller
+if (!secp.utils.hmacSha256Sync) {
+  secp.utils.hmacSha256Sync = (key, ...messages) => hmac(sha256, key, concatBytes(...messages));
+}
+
+/**
+ * Class for an account whose key is a Secp256k1 ECDSA key, such as the keys of EVM wallets.
+ *
+ * On chain, such an account is a single key account: its auth key is `sha3-256(bcs(AnyPublicKey) | 0x02)`, and
+ * its transactions are signed by signing the SHA3-256 hash of the signing message.
+ */
+export class Secp256k1Account implements Signer {
+  readonly scheme = "secp256k1_ecdsa";
+
+  readonly publicKey: Secp256k1PublicKey;
+
+  private readonly privateKey: Uint8Array;
+
+  private readonly accountAddress: HexString;
+
+  static fromAptosAccountObject(obj: AptosAccountObject): Secp256k1Account {
+    return new Secp256k1Account(HexString.ensure(obj.privateKeyHex).toUint8Array(), obj.address);
+  }
+
+  /**
+   * Test derive path, i.e. a BIP-44 path, any coin type, whose change and address index levels may not be hardened
+   */
+  static isValidPath(path: string): boolean {
+    return /^m\/44'\/[0-9]+'\/[0-9]+'\/[0-9]+'?\/[0-9]+'?$/.test(path);
+  }
+
+  /**
+   * Creates new account with BIP-32 derivation of a bip44 path and mnemonics
+   * @param path. (e.g. m/44'/637'/0'/0/0, or m/44'/60'/0'/0/0 for the keys of EVM wallets)
+   * Detailed description: {@link https://github.com/bitcoin/bips/blob/master/bip-0032.mediawiki}
+   * @param mnemonics.
+   * @returns Secp256k1Account
+   */
+  static fromDerivePath(path: string, mnemonics: string): Secp256k1Account {
+    if (!Secp256k1Account.isValidPath(path)) {
+      throw new Error("Invalid derivation path");
+    }
+
+    const normalizeMnemonics = mnemonics
+      .trim()
+      .split(/\s+/)
+      .map((part) => part.toLowerCase())
+      .join(" ");
+
+    const { privateKey } = HDKey.fromMasterSeed(bip39.mnemonicToSeedSync(normalizeMnemonics)).derive(path);
+    return new Secp256k1Account(privateKey!);
+  }
+
+  /**
+   * Creates new account instance
+   * @param privateKeyBytes 32 bytes private key. If not specified, a new one is generated
+   * @param address Account address, to handle key rotation. If not specified, derived from the public key
+   */
+  constructor(privateKeyBytes?: Uint8Array, address?: MaybeHexString) {
+    this.privateKey = privateKeyBytes ?? secp.utils.randomPrivateKey();
+    if (!secp.utils.isValidPrivateKey(this.privateKey)) {
+      throw new Error("Invalid Secp256k1 private key");
+    }
+    this.publicKey = new Secp256k1PublicKey(secp.getPublicKey(this.privateKey, false));
+    this.accountAddress = HexString.ensure(address || this.authKey().hex());
+  }
+
+  /**
+   * @returns Address associated with the given account
+   */
+  address(): HexString {
+    return this.accountAddress;
+  }
+
+  /**
+   * @returns Authentication key of the single key account, i.e. `sha3-256(bcs(AnyPublicKey) | 0x02)`
+   */
+  @Memoize()
+  authKey(): HexString {
+    return AuthenticationKey.fromAnyPublicKey(new AnyPublicKeySecp256k1Ecdsa(this.publicKey)).derivedAddress();
+  }
+
+  /**
+   * @returns The uncompressed public key for the associated account
+   */
+  pubKey(): HexString {
+    return HexString.fromUint8Array(this.publicKey.value);
+  }
+
+  /**
+   * @returns The raw uncompressed public key for the associated account
+   */
+  publicKeyBytes(): Uint8Array {
+    return this.publicKey.value;
+  }
+
+  /**
+   * Signs the SHA3-256 hash of specified `buffer` with account's private key
+   * @param buffer A buffer to sign
+   * @returns A signature HexString, `r | s` with a low `s`
+   */
+  signBuffer(buffer: Uint8Array): HexString {
+    const signature = secp.signSync(sha3Hash(buffer), this.privateKey, { canonical: true, der: false });
+    return HexString.fromUint8Array(signature);
+  }
+
+  /**
+   * Signs specified `message` with account's private key, as a `Signer`
+   * @param message A message to sign
+   * @returns The raw signature
+   */
+  async sign(message: Uint8Array): Promise<Uint8Array> {
+    return this.signBuffer(message).toUint8Array();
+  }
+
+  /**
+   * Verifies the signature of the message with the public key of the account
+   * @param message a signed message
+   * @param signature the signature of the message
+   */
+  verifySignature(message: MaybeHexString, signature: MaybeHexString): boolean {
+    const rawMessage = HexString.ensure(message).toUint8Array();
+    const rawSignature = HexString.ensure(signature).toUint8Array();
+    return verifySignature(this.scheme, this.publicKey.value, rawMessage, rawSignature);
+  }
+
+  /**
+   * Generates a signed transaction that can be submitted to the chain for execution
+   * @param rawTxn The transaction to sign
+   * @returns The BCS encoded signed transaction
+   */
+  generateBCSTransaction(rawTxn: RawTransaction): Uint8Array {
+    const txnBuilder = new TransactionBuilderSecp256k1(
+      (signingMessage) => new Secp256k1Signature(this.signBuffer(signingMessage).toUint8Array()),
+      this.publicKey,
+    );
+    return txnBuilder.sign(rawTxn);
+  }
+
+  /**
+   * Derives account address, public key and private key
+   * @returns AptosAccountObject instance.
+   */
+  toPrivateKeyObject(): AptosAccountObject {
+    return {
+      address: this.address().hex(),
+      publicKeyHex: this.pubKey().hex(),
+      privateKeyHex: HexString.fromUint8Array(this.privateKey).hex(),
+    };
+  }
+}
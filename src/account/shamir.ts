@@ -0,0 +1,390 @@
+// Copyright © Aptos Foundation
+// SPDX-License-Identifier: Apache-2.0
+
+/* eslint-disable no-bitwise */
+
+import nacl from "tweetnacl";
+import { hmac } from "@noble/hashes/hmac";
+import { pbkdf2 } from "@noble/hashes/pbkdf2";
+import { sha256 } from "@noble/hashes/sha256";
+import { concatBytes } from "@noble/hashes/utils";
+import { wordlist } from "./slip39_wordlist";
+
+/**
+ * @param threshold - shares of the group needed to recover its part of the secret
+ * @param count - shares in the group, at most 16
+ */
+export interface ShamirGroup {
+  threshold: number;
+  count: number;
+}
+
+/**
+ * @param groupThreshold - groups needed to recover the secret. Defaults to 1
+ * @param passphrase - encrypts the secret, so that the shares alone do not reveal it. Empty by default
+ * @param iterationExponent - PBKDF2 rounds of the encryption are 10000 * 2^iterationExponent. Defaults to 1
+ * @param extendable - whether more shares of the same secret can be split later with the same passphrase.
+ * Defaults to false, as wallets implementing an earlier version of SLIP-39 cannot read extendable shares
+ */
+export interface ShamirOptions {
+  groupThreshold?: number;
+  passphrase?: string;
+  iterationExponent?: number;
+  extendable?: boolean;
+}
+
+/**
+ * The fields of a share, as encoded in its mnemonic
+ */
+export interface ShamirShare {
+  identifier: number;
+  extendable: boolean;
+  iterationExponent: number;
+  groupIndex: number;
+  groupThreshold: number;
+  groupCount: number;
+  memberIndex: number;
+  memberThreshold: number;
+  value: Uint8Array;
+}
+
+const RADIX_BITS = 10;
+const ID_LENGTH_BITS = 15;
+const EXTENDABLE_FLAG_LENGTH_BITS = 1;
+const ITERATION_EXP_LENGTH_BITS = 4;
+const MAX_ITERATION_EXP = (1 << ITERATION_EXP_LENGTH_BITS) - 1;
+const CHECKSUM_LENGTH_WORDS = 3;
+// Identifier, extendable flag and iteration exponent, then group and member parameters
+const METADATA_LENGTH_WORDS = 4 + CHECKSUM_LENGTH_WORDS;
+const MIN_SECRET_LENGTH = 16;
+const MAX_SHARE_COUNT = 16;
+const DIGEST_LENGTH = 4;
+const DIGEST_INDEX = 254;
+const SECRET_INDEX = 255;
+const ROUND_COUNT = 4;
+const BASE_ITERATION_COUNT = 10000;
+const CUSTOMIZATION = new TextEncoder().encode("shamir");
+const EXTENDABLE_CUSTOMIZATION = new TextEncoder().encode("shamir_extendable");
+
+const WORD_INDICES = new Map(wordlist.map((word, index) => [word, index]));
+
+// Logarithms and exponents in GF(256) with the Rijndael polynomial, 3 being the generator
+const EXP = new Uint8Array(255);
+const LOG = new Uint8Array(256);
+for (let i = 0, poly = 1; i < 255; i += 1) {
+  EXP[i] = poly;
+  LOG[poly] = i;
+  poly ^= poly << 1;
+  if (poly & 0x100) poly ^= 0x11b;
+}
+
+function rs1024Polymod(values: number[]): number {
+  const GEN = [
+    0xe0e040, 0x1c1c080, 0x3838100, 0x7070200, 0xe0e0009, 0x1c0c2412, 0x38086c24, 0x3090fc48, 0x21b1f890, 0x3f3f120,
+  ];
+  let chk = 1;
+  values.forEach((value) => {
+    const b = chk >>> 20;
+    chk = ((chk & 0xfffff) << 10) ^ value;
+    for (let i = 0; i < 10; i += 1) {
+      if ((b >>> i) & 1) chk ^= GEN[i];
+    }
+  });
+  return chk;
+}
+
+function rs1024Customization(extendable: boolean): Uint8Array {
+  return extendable ? EXTENDABLE_CUSTOMIZATION : CUSTOMIZATION;
+}
+
+function rs1024Checksum(data: number[], extendable: boolean): number[] {
+  const polymod = rs1024Polymod([...rs1024Customization(extendable), ...data, 0, 0, 0]) ^ 1;
+  return [2, 1, 0].map((i) => (polymod >>> (RADIX_BITS * i)) & 1023);
+}
+
+// Evaluates at `x` the polynomial of lowest degree going through `shares`
+function interpolate(shares: [number, Uint8Array][], x: number): Uint8Array {
+  const match = shares.find(([index]) => index === x);
+  if (match) return match[1];
+
+  const logProduct = shares.reduce((sum, [index]) => sum + LOG[index ^ x], 0);
+  const result = new Uint8Array(shares[0][1].length);
+  shares.forEach(([index, value]) => {
+    const logBasis =
+      (((logProduct - LOG[index ^ x] - shares.reduce((sum, [other]) => sum + LOG[index ^ other], 0)) % 255) + 255) %
+      255;
+    value.forEach((byte, i) => {
+      if (byte !== 0) result[i] ^= EXP[(LOG[byte] + logBasis) % 255];
+    });
+  });
+  return result;
+}
+
+function digest(randomPart: Uint8Array, secret: Uint8Array): Uint8Array {
+  return hmac(sha256, randomPart, secret).slice(0, DIGEST_LENGTH);
+}
+
+function splitSecret(threshold: number, count: number, secret: Uint8Array): Uint8Array[] {
+  if (threshold < 1 || threshold > count) {
+    throw new Error(`Threshold must be between 1 and ${count}, got ${threshold}`);
+  }
+  if (count > MAX_SHARE_COUNT) {
+    throw new Error(`At most ${MAX_SHARE_COUNT} shares are allowed, got ${count}`);
+  }
+  if (threshold === 1) {
+    return Array.from({ length: count }, () => secret.slice());
+  }
+
+  const shares: [number, Uint8Array][] = Array.from({ length: threshold - 2 }, (_, i) => [
+    i,
+    nacl.randomBytes(secret.length),
+  ]);
+  const randomPart = nacl.randomBytes(secret.length - DIGEST_LENGTH);
+  const baseShares: [number, Uint8Array][] = [
+    ...shares,
+    [DIGEST_INDEX, concatBytes(digest(randomPart, secret), randomPart)],
+    [SECRET_INDEX, secret],
+  ];
+  return [
+    ...shares.map(([, value]) => value),
+    ...Array.from({ length: count - threshold + 2 }, (_, i) => interpolate(baseShares, threshold - 2 + i)),
+  ];
+}
+
+function recoverSecret(threshold: number, shares: [number, Uint8Array][]): Uint8Array {
+  if (threshold === 1) return shares[0][1];
+
+  const secret = interpolate(shares, SECRET_INDEX);
+  const digestShare = interpolate(shares, DIGEST_INDEX);
+  const expected = digest(digestShare.slice(DIGEST_LENGTH), secret);
+  if (!expected.every((byte, i) => byte === digestShare[i])) {
+    throw new Error("Invalid digest of the shared secret");
+  }
+  return secret;
+}
+
+// The Feistel network encrypting the secret with the passphrase, run backwards to decrypt
+function feistel(
+  secret: Uint8Array,
+  passphrase: string,
+  iterationExponent: number,
+  identifier: number,
+  extendable: boolean,
+  decrypt: boolean,
+): Uint8Array {
+  const half = secret.length / 2;
+  let left = secret.slice(0, half);
+  let right = secret.slice(half);
+  // Extendable shares don't tie the encryption to the identifier, so that new shares can have another one
+  const salt = extendable
+    ? new Uint8Array()
+    : concatBytes(CUSTOMIZATION, new Uint8Array([identifier >>> 8, identifier & 0xff]));
+  const password = new TextEncoder().encode(passphrase);
+  const c = (BASE_ITERATION_COUNT << iterationExponent) / ROUND_COUNT;
+  for (let round = 0; round < ROUND_COUNT; round += 1) {
+    const i = decrypt ? ROUND_COUNT - 1 - round : round;
+    const f = pbkdf2(sha256, concatBytes(new Uint8Array([i]), password), concatBytes(salt, right), {
+      c,
+      dkLen: half,
+    });
+    const next = left.map((byte, j) => byte ^ f[j]);
+    left = right;
+    right = next;
+  }
+  return concatBytes(right, left);
+}
+
+function toWords(value: bigint, count: number): number[] {
+  return Array.from({ length: count }, (_, i) =>
+    Number((value >> BigInt(RADIX_BITS * (count - 1 - i))) & BigInt(1023)),
+  );
+}
+
+function fromWords(words: number[]): bigint {
+  return words.reduce((value, word) => (value << BigInt(RADIX_BITS)) | BigInt(word), BigInt(0));
+}
+
+function bytesToBigInt(bytes: Uint8Array): bigint {
+  return bytes.reduce((value, byte) => (value << BigInt(8)) | BigInt(byte), BigInt(0));
+}
+
+function bigIntToBytes(value: bigint, length: number): Uint8Array {
+  return Uint8Array.from({ length }, (_, i) => Number((value >> BigInt(8 * (length - 1 - i))) & BigInt(0xff)));
+}
+
+/**
+ * Encodes a share as a SLIP-39 mnemonic {@link https://github.com/satoshilabs/slips/blob/master/slip-0039.md},
+ * which SLIP-39 wallets can recover the secret from
+ */
+export function encodeShamirShare(share: ShamirShare): string {
+  const valueWordCount = Math.ceil((share.value.length * 8) / RADIX_BITS);
+  const idExp =
+    (share.identifier << (EXTENDABLE_FLAG_LENGTH_BITS + ITERATION_EXP_LENGTH_BITS)) |
+    (Number(share.extendable) << ITERATION_EXP_LENGTH_BITS) |
+    share.iterationExponent;
+  const params =
+    (share.groupIndex << 16) |
+    ((share.groupThreshold - 1) << 12) |
+    ((share.groupCount - 1) << 8) |
+    (share.memberIndex << 4) |
+    (share.memberThreshold - 1);
+  const data = [
+    ...toWords(BigInt(idExp), 2),
+    ...toWords(BigInt(params), 2),
+    ...toWords(bytesToBigInt(share.value), valueWordCount),
+  ];
+  return [...data, ...rs1024Checksum(data, share.extendable)].map((word) => wordlist[word]).join(" ");
+}
+
+/**
+ * Decodes a share encoded with `encodeShamirShare`, checking its checksum
+ */
+export function decodeShamirShare(mnemonic: string): ShamirShare {
+  const words = mnemonic
+    .trim()
+    .toLowerCase()
+    .split(/\s+/)
+    .map((word) => {
+      const index = WORD_INDICES.get(word);
+      if (index === undefined) {
+        throw new Error(`Invalid share word ${word}`);
+      }
+      return index;
+    });
+
+  const valueWordCount = words.length - METADATA_LENGTH_WORDS;
+  const length = Math.floor((valueWordCount * RADIX_BITS) / 8);
+  if (length < MIN_SECRET_LENGTH || (valueWordCount * RADIX_BITS) % 16 > 8) {
+    throw new Error(`Invalid share length of ${words.length} words`);
+  }
+  const idExp = Number(fromWords(words.slice(0, 2)));
+  const extendable = ((idExp >>> ITERATION_EXP_LENGTH_BITS) & 1) === 1;
+  if (rs1024Polymod([...rs1024Customization(extendable), ...words]) !== 1) {
+    throw new Error("Invalid share checksum");
+  }
+
+  const value = fromWords(words.slice(4, 4 + valueWordCount));
+  if (value >> BigInt(length * 8) !== BigInt(0)) {
+    throw new Error("Invalid share padding");
+  }
+  const params = Number(fromWords(words.slice(2, 4)));
+  const share: ShamirShare = {
+    identifier: idExp >>> (EXTENDABLE_FLAG_LENGTH_BITS + ITERATION_EXP_LENGTH_BITS),
+    extendable,
+    iterationExponent: idExp & MAX_ITERATION_EXP,
+    groupIndex: params >>> 16,
+    groupThreshold: ((params >>> 12) & 0xf) + 1,
+    groupCount: ((params >>> 8) & 0xf) + 1,
+    memberIndex: (params >>> 4) & 0xf,
+    memberThreshold: (params & 0xf) + 1,
+    value: bigIntToBytes(value, length),
+  };
+  if (share.groupThreshold > share.groupCount) {
+    throw new Error("Invalid share, its group threshold exceeds its group count");
+  }
+  return share;
+}
+
+/**
+ * Splits a secret into groups of shares, any `groupThreshold` groups of which recover it, each with `threshold` of
+ * its shares.
+ *
+ * @param secret The secret, of an even length of at least 16 bytes
+ * @param groups The threshold and number of shares of each group
+ * @param options The group threshold and passphrase
+ * @returns The mnemonics of the shares of each group
+ */
+export function splitShamirShares(secret: Uint8Array, groups: ShamirGroup[], options: ShamirOptions = {}): string[][] {
+  const { groupThreshold = 1, passphrase = "", iterationExponent = 1, extendable = false } = options;
+  if (secret.length < MIN_SECRET_LENGTH || secret.length % 2 !== 0) {
+    throw new Error(`The secret must be an even number of at least ${MIN_SECRET_LENGTH} bytes`);
+  }
+  if (!Number.isInteger(iterationExponent) || iterationExponent < 0 || iterationExponent > MAX_ITERATION_EXP) {
+    throw new Error(`Invalid iteration exponent ${iterationExponent}`);
+  }
+  if (groups.some(({ threshold, count }) => threshold === 1 && count > 1)) {
+    throw new Error("Groups with a threshold of 1 must have a single share");
+  }
+
+  const [high, low] = nacl.randomBytes(2);
+  const identifier = ((high << 8) | low) & ((1 << ID_LENGTH_BITS) - 1);
+  const encrypted = feistel(secret, passphrase, iterationExponent, identifier, extendable, false);
+  const groupSecrets = splitSecret(groupThreshold, groups.length, encrypted);
+
+  return groups.map(({ threshold, count }, groupIndex) =>
+    splitSecret(threshold, count, groupSecrets[groupIndex]).map((value, memberIndex) =>
+      encodeShamirShare({
+        identifier,
+        extendable,
+        iterationExponent,
+        groupIndex,
+        groupThreshold,
+        groupCount: groups.length,
+        memberIndex,
+        memberThreshold: threshold,
+        value,
+      }),
+    ),
+  );
+}
+
+/**
+ * Recovers a secret split with `splitShamirShares`. Shares beyond the thresholds are ignored.
+ *
+ * @param mnemonics The mnemonics of the shares, of any group, in any order
+ * @param passphrase The passphrase the secret was split with
+ * @returns The secret
+ */
+export function combineShamirShares(mnemonics: string[], passphrase: string = ""): Uint8Array {
+  if (mnemonics.length === 0) {
+    throw new Error("No shares to recover the secret from");
+  }
+  const shares = mnemonics.map(decodeShamirShare);
+  const [first] = shares;
+  shares.forEach((share) => {
+    if (
+      share.identifier !== first.identifier ||
+      share.extendable !== first.extendable ||
+      share.iterationExponent !== first.iterationExponent ||
+      share.groupThreshold !== first.groupThreshold ||
+      share.groupCount !== first.groupCount ||
+      share.value.length !== first.value.length
+    ) {
+      throw new Error("The shares do not belong to the same secret");
+    }
+  });
+
+  const groups = new Map<number, Map<number, ShamirShare>>();
+  shares.forEach((share) => {
+    const members = groups.get(share.groupIndex) ?? new Map<number, ShamirShare>();
+    groups.set(share.groupIndex, members);
+    const [other] = Array.from(members.values());
+    if (other && other.memberThreshold !== share.memberThreshold) {
+      throw new Error(`The shares of group ${share.groupIndex} have different thresholds`);
+    }
+    const duplicate = members.get(share.memberIndex);
+    if (duplicate && !duplicate.value.every((byte, i) => byte === share.value[i])) {
+      throw new Error(`Group ${share.groupIndex} has different shares with index ${share.memberIndex}`);
+    }
+    members.set(share.memberIndex, share);
+  });
+
+  const groupShares: [number, Uint8Array][] = [];
+  groups.forEach((members, groupIndex) => {
+    const [{ memberThreshold }] = Array.from(members.values());
+    if (members.size >= memberThreshold && groupShares.length < first.groupThreshold) {
+      const memberShares = Array.from(members.values())
+        .slice(0, memberThreshold)
+        .map(({ memberIndex, value }): [number, Uint8Array] => [memberIndex, value]);
+      groupShares.push([groupIndex, recoverSecret(memberThreshold, memberShares)]);
+    }
+  });
+  if (groupShares.length < first.groupThreshold) {
+    throw new Error(
+      `${first.groupThreshold} complete groups of shares are needed to recover the secret, got ${groupShares.length}`,
+    );
+  }
+
+  const encrypted = recoverSecret(first.groupThreshold, groupShares);
+  return feistel(encrypted, passphrase, first.iterationExponent, first.identifier, first.extendable, true);
+}
@@ -0,0 +1,411 @@
+// Copyright © Aptos Foundation
+// SPDX-License-Identifier: Apache-2.0
+
+import nacl from "tweetnacl";
+import { sha3_256 as sha3Hash } from "@noble/hashes/sha3";
+import { HexString, MaybeHexString } from "../utils";
+import { AccountAddress } from "../aptos_types";
+import { authKeyOfScheme, Signer, SigningScheme, verifySignature } from "./signer";
+
+export const SIGN_IN_MESSAGE_VERSION = "1";
+
+// Prefixes the signed bytes, so that a sign in message can never be signed as a transaction
+const SIGN_IN_MESSAGE_SALT = "APTOS::SignInMessage";
+
+const HEADER_SUFFIX = " wants you to sign in with your Aptos account:";
+
+/**
+ * The fields of a "Sign in with Aptos" message, modelled after EIP-4361
+ * {@link https://eips.ethereum.org/EIPS/eip-4361}
+ *
+ * @param domain - the domain requesting the sign in, e.g. `example.com`
+ * @param address - the address of the account signing in
+ * @param statement - a single line the user agrees to by signing
+ * @param application - the name of the application requesting the sign in
+ * @param uri - the resource the sign in is for, e.g. `https://example.com/login`
+ * @param chainId - the chain the account is on
+ * @param nonce - a random alphanumeric string of at least 8 characters, chosen by the server to prevent replays
+ * @param issuedAt - when the message was issued
+ * @param expirationTime - when the message stops being valid, if ever
+ * @param notBefore - when the message starts being valid, if not right away
+ * @param resources - URIs the user wishes to have resolved as part of the sign in
+ */
+export interface SignInMessageFields {
+  domain: string;
+  address: HexString;
+  statement?: string;
+  application?: string;
+  uri?: string;
+  version: string;
+  chainId: number;
+  nonce: string;
+  issuedAt: Date;
+  expirationTime?: Date;
+  notBefore?: Date;
+  resources?: string[];
+}
+
+/**
+ * A signed sign in message, as sent from the wallet to the server
+ */
+export interface SignedSignInMessage {
+  message: string;
+  scheme: SigningScheme;
+  publicKey: string;
+  signature: string;
+}
+
+/**
+ * What the server expects of a sign in message. Fields left out are not checked, except for the validity period
+ * and issuance time of the message which are always checked against `time`, the current time by default.
+ */
+export interface SignInExpectations {
+  domain?: string;
+  address?: MaybeHexString;
+  chainId?: number;
+  nonce?: string;
+  uri?: string;
+  time?: Date;
+}
+
+// How far ahead of the server the clock of the wallet issuing a message may be
+const MAX_CLOCK_SKEW_MS = 5 * 60 * 1000;
+
+function normalizeAddress(address: MaybeHexString): HexString {
+  return HexString.fromUint8Array(AccountAddress.fromHex(address).address);
+}
+
+function checkLine(value: string | undefined, name: string) {
+  if (value !== undefined && (value.length === 0 || /[\r\n]/.test(value))) {
+    throw new Error(`Sign in message ${name} must be a non empty single line`);
+  }
+}
+
+/**
+ * A "Sign in with Aptos" message. Its canonical serialization is a human readable text, which is what the wallet
+ * displays and signs:
+ *
+ * ```
+ * example.com wants you to sign in with your Aptos account:
+ * 0x0000000000000000000000000000000000000000000000000000000000000001
+ *
+ * I accept the Terms of Service of example.com
+ *
+ * Application: Example
+ * URI: https://example.com/login
+ * Version: 1
+ * Chain ID: 1
+ * Nonce: 32891756
+ * Issued At: 2023-10-19T16:25:24.000Z
+ * Expiration Time: 2023-10-19T16:35:24.000Z
+ * Resources:
+ * - https://example.com/terms
+ * ```
+ */
+export class SignInMessage {
+  readonly fields: SignInMessageFields;
+
+  constructor(fields: SignInMessageFields) {
+    if (!/^[^\s]+$/.test(fields.domain)) {
+      throw new Error(`Invalid sign in message domain ${fields.domain}`);
+    }
+    checkLine(fields.statement, "statement");
+    checkLine(fields.application, "application");
+    checkLine(fields.uri, "URI");
+    (fields.resources ?? []).forEach((resource) => checkLine(resource, "resource"));
+    if (fields.version !== SIGN_IN_MESSAGE_VERSION) {
+      throw new Error(`Unsupported sign in message version ${fields.version}`);
+    }
+    if (!Number.isInteger(fields.chainId) || fields.chainId < 0 || fields.chainId > 255) {
+      throw new Error(`Invalid sign in message chain id ${fields.chainId}`);
+    }
+    if (!/^[A-Za-z0-9]{8,}$/.test(fields.nonce)) {
+      throw new Error("Sign in message nonce must be at least 8 alphanumeric characters");
+    }
+    [fields.issuedAt, fields.expirationTime, fields.notBefore].forEach((date) => {
+      if (date !== undefined && Number.isNaN(date.getTime())) {
+        throw new Error("Invalid sign in message date");
+      }
+    });
+    this.fields = { ...fields, address: normalizeAddress(fields.address) };
+  }
+
+  get address(): HexString {
+    return this.fields.address;
+  }
+
+  /**
+   * Parses the text of a message, which must be canonical
+   * @param text The text of the message, as returned by `toString`
+   * @returns SignInMessage
+   */
+  static parse(text: string): SignInMessage {
+    const lines = text.split("\n");
+    if (lines.length < 6 || !lines[0].endsWith(HEADER_SUFFIX) || lines[2] !== "") {
+      throw new Error("Invalid sign in message");
+    }
+    // The statement is the only field followed by an empty line
+    const hasStatement = lines[4] === "";
+    const values = new Map<string, string>();
+    const resources: string[] = [];
+    let inResources = false;
+    lines.slice(hasStatement ? 5 : 3).forEach((line) => {
+      if (inResources && line.startsWith("- ")) {
+        resources.push(line.slice(2));
+        return;
+      }
+      const separator = line.indexOf(": ");
+      if (line === "Resources:") {
+        inResources = true;
+      } else if (separator > 0 && !inResources) {
+        values.set(line.slice(0, separator), line.slice(separator + 2));
+      } else {
+        throw new Error(`Invalid sign in message line ${line}`);
+      }
+    });
+
+    const required = (name: string) => {
+      const value = values.get(name);
+      if (value === undefined) {
+        throw new Error(`Sign in message misses ${name}`);
+      }
+      return value;
+    };
+    const date = (value: string | undefined) => (value === undefined ? undefined : new Date(value));
+    const message = new SignInMessage({
+      domain: lines[0].slice(0, -HEADER_SUFFIX.length),
+      address: new HexString(lines[1]),
+      statement: hasStatement ? lines[3] : undefined,
+      application: values.get("Application"),
+      uri: values.get("URI"),
+      version: required("Version"),
+      chainId: Number(required("Chain ID")),
+      nonce: required("Nonce"),
+      issuedAt: new Date(required("Issued At")),
+      expirationTime: date(values.get("Expiration Time")),
+      notBefore: date(values.get("Not Before")),
+      resources: inResources ? resources : undefined,
+    });
+    if (message.toString() !== text) {
+      throw new Error("Sign in message is not canonical");
+    }
+    return message;
+  }
+
+  /**
+   * @returns The canonical text of the message
+   */
+  toString(): string {
+    const { fields } = this;
+    const lines = [`${fields.domain}${HEADER_SUFFIX}`, fields.address.hex(), ""];
+    if (fields.statement !== undefined) {
+      lines.push(fields.statement, "");
+    }
+    if (fields.application !== undefined) lines.push(`Application: ${fields.application}`);
+    if (fields.uri !== undefined) lines.push(`URI: ${fields.uri}`);
+    lines.push(
+      `Version: ${fields.version}`,
+      `Chain ID: ${fields.chainId}`,
+      `Nonce: ${fields.nonce}`,
+      `Issued At: ${fields.issuedAt.toISOString()}`,
+    );
+    if (fields.expirationTime !== undefined) lines.push(`Expiration Time: ${fields.expirationTime.toISOString()}`);
+    if (fields.notBefore !== undefined) lines.push(`Not Before: ${fields.notBefore.toISOString()}`);
+    if (fields.resources !== undefined) {
+      lines.push("Resources:", ...fields.resources.map((resource) => `- ${resource}`));
+    }
+    return lines.join("\n");
+  }
+
+  /**
+   * @returns The bytes to sign: `sha3-256("APTOS::SignInMessage") | utf8(text)`
+   */
+  signingMessage(): Uint8Array {
+    return SignInMessage.signingMessage(this.toString());
+  }
+
+  static signingMessage(text: string): Uint8Array {
+    const prefix = sha3Hash(SIGN_IN_MESSAGE_SALT);
+    const body = new TextEncoder().encode(text);
+
+    const mergedArray = new Uint8Array(prefix.length + body.length);
+    mergedArray.set(prefix);
+    mergedArray.set(body, prefix.length);
+
+    return mergedArray;
+  }
+
+  /**
+   * Checks the fields of the message against what the server expects, and its validity period
+   * @param expected The expected fields and the current time
+   */
+  check(expected: SignInExpectations = {}) {
+    const { fields } = this;
+    if (expected.domain !== undefined && expected.domain !== fields.domain) {
+      throw new Error(`Expected a sign in to ${expected.domain}, got ${fields.domain}`);
+    }
+    if (expected.address !== undefined && normalizeAddress(expected.address).hex() !== fields.address.hex()) {
+      throw new Error(`Expected a sign in of ${HexString.ensure(expected.address).hex()}, got ${fields.address.hex()}`);
+    }
+    if (expected.chainId !== undefined && expected.chainId !== fields.chainId) {
+      throw new Error(`Expected a sign in on chain ${expected.chainId}, got ${fields.chainId}`);
+    }
+    if (expected.nonce !== undefined && expected.nonce !== fields.nonce) {
+      throw new Error("Sign in message nonce does not match");
+    }
+    if (expected.uri !== undefined && expected.uri !== fields.uri) {
+      throw new Error(`Expected a sign in for ${expected.uri}, got ${fields.uri}`);
+    }
+    const time = (expected.time ?? new Date()).getTime();
+    if (fields.issuedAt.getTime() > time + MAX_CLOCK_SKEW_MS) {
+      throw new Error("Sign in message is issued in the future");
+    }
+    if (fields.expirationTime !== undefined && time >= fields.expirationTime.getTime()) {
+      throw new Error("Sign in message has expired");
+    }
+    if (fields.notBefore !== undefined && time < fields.notBefore.getTime()) {
+      throw new Error("Sign in message is not valid yet");
+    }
+  }
+}
+
+/**
+ * Builds a sign in message, with a random nonce issued now unless set otherwise
+ *
+ * @example
+ * ```
+ * const message = new SignInMessageBuilder("example.com", account.address())
+ *   .statement("I accept the Terms of Service of example.com")
+ *   .chainId(await client.getChainId())
+ *   .expiresIn(600)
+ *   .build();
+ * ```
+ */
+export class SignInMessageBuilder {
+  private readonly fields: Partial<SignInMessageFields>;
+
+  constructor(domain: string, address: MaybeHexString) {
+    this.fields = {
+      domain,
+      address: HexString.ensure(address),
+      version: SIGN_IN_MESSAGE_VERSION,
+      nonce: HexString.fromUint8Array(nacl.randomBytes(16)).noPrefix(),
+      issuedAt: new Date(),
+    };
+  }
+
+  statement(statement: string): this {
+    this.fields.statement = statement;
+    return this;
+  }
+
+  application(application: string): this {
+    this.fields.application = application;
+    return this;
+  }
+
+  uri(uri: string): this {
+    this.fields.uri = uri;
+    return this;
+  }
+
+  chainId(chainId: number): this {
+    this.fields.chainId = chainId;
+    return this;
+  }
+
+  nonce(nonce: string): this {
+    this.fields.nonce = nonce;
+    return this;
+  }
+
+  issuedAt(issuedAt: Date): this {
+    this.fields.issuedAt = issuedAt;
+    return this;
+  }
+
+  expirationTime(expirationTime: Date): this {
+    this.fields.expirationTime = expirationTime;
+    return this;
+  }
+
+  /**
+   * Expires the message `seconds` after it was issued
+   */
+  expiresIn(seconds: number): this {
+    this.fields.expirationTime = new Date(this.fields.issuedAt!.getTime() + seconds * 1000);
+    return this;
+  }
+
+  notBefore(notBefore: Date): this {
+    this.fields.notBefore = notBefore;
+    return this;
+  }
+
+  resources(resources: string[]): this {
+    this.fields.resources = resources;
+    return this;
+  }
+
+  build(): SignInMessage {
+    if (this.fields.chainId === undefined) {
+      throw new Error("Sign in message chain id is required");
+    }
+    return new SignInMessage(this.fields as SignInMessageFields);
+  }
+}
+
+/**
+ * Signs a sign in message
+ *
+ * @param signer The signer of the account signing in, e.g. an `AptosAccount`
+ * @param message The message, or its text
+ * @returns The signed message, to be sent to the server
+ */
+export async function signSignInMessage(signer: Signer, message: SignInMessage | string): Promise<SignedSignInMessage> {
+  const signInMessage = typeof message === "string" ? SignInMessage.parse(message) : message;
+  if (signInMessage.address.hex() !== normalizeAddress(signer.address()).hex()) {
+    throw new Error(`Cannot sign in as ${signInMessage.address.hex()} with ${signer.address().hex()}`);
+  }
+  const signature = await signer.sign(signInMessage.signingMessage());
+  return {
+    message: signInMessage.toString(),
+    scheme: signer.scheme,
+    publicKey: HexString.fromUint8Array(signer.publicKeyBytes()).hex(),
+    signature: HexString.fromUint8Array(signature).hex(),
+  };
+}
+
+/**
+ * @returns The authentication key of the public key a sign in message was signed with
+ */
+export function signInAuthKey(signed: SignedSignInMessage): HexString {
+  return authKeyOfScheme(signed.scheme, HexString.ensure(signed.publicKey).toUint8Array());
+}
+
+/**
+ * Verifies a signed sign in message offline: its fields, validity period and signature. Whether the public key
+ * may sign for the address is left to `AptosClient.verifySignInMessage`, which looks up its auth key on chain.
+ *
+ * @param signed The signed message
+ * @param expected What the server expects of the message
+ * @returns The message
+ */
+export function verifySignedSignInMessage(
+  signed: SignedSignInMessage,
+  expected: SignInExpectations = {},
+): SignInMessage {
+  const message = SignInMessage.parse(signed.message);
+  message.check(expected);
+
+  const valid = verifySignature(
+    signed.scheme,
+    HexString.ensure(signed.publicKey).toUint8Array(),
+    SignInMessage.signingMessage(signed.message),
+    HexString.ensure(signed.signature).toUint8Array(),
+  );
+  if (!valid) {
+    throw new Error("Invalid sign in message signature");
+  }
+  return message;
+}
@@ -0,0 +1,248 @@
+// Copyright © Aptos Foundation
+// SPDX-License-Identifier: Apache-2.0
+
+/* eslint-disable no-bitwise */
+import nacl from "tweetnacl";
+import * as secp from "@noble/secp256k1";
+import { sha3_256 as sha3Hash } from "@noble/hashes/sha3";
+import { HexString } from "../utils";
+import {
+  AccountAuthenticator,
+  AccountAuthenticatorEd25519,
+  AccountAuthenticatorMultiEd25519,
+  AccountAuthenticatorSingleKey,
+  AnyPublicKeySecp256k1Ecdsa,
+  AnySignatureSecp256k1Ecdsa,
+  AuthenticationKey,
+  Ed25519PublicKey,
+  Ed25519Signature,
+  MultiEd25519PublicKey,
+  MultiEd25519Signature,
+  RawTransaction,
+  Secp256k1PublicKey,
+  Secp256k1Signature,
+  SignedTransaction,
+  TransactionAuthenticator,
+  TransactionAuthenticatorEd25519,
+  TransactionAuthenticatorMultiEd25519,
+  TransactionAuthenticatorSingleSender,
+} from "../aptos_types";
+import { bcsSerializeBytes, bcsToBytes, Deserializer } from "../bcs";
+import { TransactionBuilder } from "../transaction_builder/builder";
+
+/**
+ * The signature schemes a `Signer` can sign with
+ */
+export type SigningScheme = "ed25519" | "multi_ed25519" | "secp256k1_ecdsa";
+
+/**
+ * Anything able to sign on behalf of an account: a local key such as `AptosAccount`, a hardware wallet,
+ * a KMS, a remote signing service...
+ *
+ * The address and public key of the signer are known upfront, only signing may require a round trip.
+ *
+ * @example
+ * ```
+ * class KmsSigner implements Signer {
+ *   readonly scheme = "ed25519";
+ *   address() { return this.accountAddress; }
+ *   publicKeyBytes() { return this.publicKey; }
+ *   async sign(message: Uint8Array) { return kms.sign({ keyId: this.keyId, message }); }
+ * }
+ * await client.generateSignSubmitTransaction(new KmsSigner(...), payload);
+ * ```
+ */
+export interface Signer {
+  /**
+   * The signature scheme of the signer
+   */
+  readonly scheme: SigningScheme;
+
+  /**
+   * @returns Address of the account the signer signs for
+   */
+  address(): HexString;
+
+  /**
+   * @returns The raw public key, i.e. 32 bytes for `ed25519`, `p_1 | … | p_n | K` for `multi_ed25519`
+   * and the 65 bytes uncompressed point for `secp256k1_ecdsa`
+   */
+  publicKeyBytes(): Uint8Array;
+
+  /**
+   * Signs a message, usually a transaction signing message
+   * @param message The message to sign
+   * @returns The raw signature, i.e. 64 bytes for `ed25519`, `s_1 | … | s_k | bitmap` for `multi_ed25519`
+   * and `r | s` of the SHA3-256 hash of the message for `secp256k1_ecdsa`
+   */
+  sign(message: Uint8Array): Promise<Uint8Array>;
+}
+
+/**
+ * @returns Whether the given value implements `Signer`, as opposed to an address or a public key
+ */
+export function isSigner(value: unknown): value is Signer {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    typeof (value as Signer).sign === "function" &&
+    typeof (value as Signer).publicKeyBytes === "function" &&
+    typeof (value as Signer).address === "function"
+  );
+}
+
+/**
+ * @returns The authentication key scheme of a signing scheme, as expected by `0x1::account`
+ */
+export function authKeyScheme(scheme: SigningScheme): number {
+  switch (scheme) {
+    case "ed25519":
+      return AuthenticationKey.ED25519_SCHEME;
+    case "multi_ed25519":
+      return AuthenticationKey.MULTI_ED25519_SCHEME;
+    case "secp256k1_ecdsa":
+      return AuthenticationKey.SINGLE_KEY_SCHEME;
+    default:
+      throw new Error(`Unknown signing scheme ${scheme}`);
+  }
+}
+
+/**
+ * @returns The raw public key of a signing scheme, typed after the scheme
+ */
+export function publicKeyOfScheme(
+  scheme: SigningScheme,
+  publicKeyBytes: Uint8Array,
+): Ed25519PublicKey | MultiEd25519PublicKey | Secp256k1PublicKey {
+  switch (scheme) {
+    case "ed25519":
+      return new Ed25519PublicKey(publicKeyBytes);
+    case "multi_ed25519":
+      return MultiEd25519PublicKey.deserialize(new Deserializer(bcsSerializeBytes(publicKeyBytes)));
+    case "secp256k1_ecdsa":
+      return new Secp256k1PublicKey(publicKeyBytes);
+    default:
+      throw new Error(`Unknown signing scheme ${scheme}`);
+  }
+}
+
+/**
+ * @returns The authentication key of a raw public key of a signing scheme, i.e. the address of its account
+ * if the key was never rotated
+ */
+export function authKeyOfScheme(scheme: SigningScheme, publicKeyBytes: Uint8Array): HexString {
+  const publicKey = publicKeyOfScheme(scheme, publicKeyBytes);
+  if (publicKey instanceof MultiEd25519PublicKey) {
+    return AuthenticationKey.fromMultiEd25519PublicKey(publicKey).derivedAddress();
+  }
+  if (publicKey instanceof Secp256k1PublicKey) {
+    return AuthenticationKey.fromAnyPublicKey(new AnyPublicKeySecp256k1Ecdsa(publicKey)).derivedAddress();
+  }
+  return AuthenticationKey.fromEd25519PublicKey(publicKey).derivedAddress();
+}
+
+/**
+ * Verifies a raw signature, as returned by `Signer.sign`. Multi Ed25519 signatures must carry at least
+ * the threshold of signatures.
+ *
+ * @param scheme The signature scheme
+ * @param publicKeyBytes The raw public key, see `Signer.publicKeyBytes`
+ * @param message The signed message
+ * @param signature The raw signature
+ * @returns Whether the signature is valid, false for malformed keys or signatures
+ */
+export function verifySignature(
+  scheme: SigningScheme,
+  publicKeyBytes: Uint8Array,
+  message: Uint8Array,
+  signature: Uint8Array,
+): boolean {
+  try {
+    const publicKey = publicKeyOfScheme(scheme, publicKeyBytes);
+    if (publicKey instanceof MultiEd25519PublicKey) {
+      const { public_keys: publicKeys, threshold } = publicKey;
+      const { signatures, bitmap } = MultiEd25519Signature.deserialize(new Deserializer(bcsSerializeBytes(signature)));
+      const indices = publicKeys.map((_, i) => i).filter((i) => (bitmap[Math.floor(i / 8)] & (128 >> i % 8)) !== 0);
+      return (
+        indices.length === signatures.length &&
+        indices.length >= threshold &&
+        indices.every((index, i) => nacl.sign.detached.verify(message, signatures[i].value, publicKeys[index].value))
+      );
+    }
+    if (publicKey instanceof Secp256k1PublicKey) {
+      return secp.verify(signature, sha3Hash(message), publicKey.value);
+    }
+    return nacl.sign.detached.verify(message, signature, publicKey.value);
+  } catch (e) {
+    return false;
+  }
+}
+
+/**
+ * @returns The public key of the signer, typed after its scheme
+ */
+export function signerPublicKey(signer: Signer): Ed25519PublicKey | MultiEd25519PublicKey | Secp256k1PublicKey {
+  return publicKeyOfScheme(signer.scheme, signer.publicKeyBytes());
+}
+
+function multiEd25519Signature(signature: Uint8Array): MultiEd25519Signature {
+  return MultiEd25519Signature.deserialize(new Deserializer(bcsSerializeBytes(signature)));
+}
+
+/**
+ * Signs a message and wraps the signature into an authenticator, to be used as the authenticator of
+ * a signer of a multi agent or fee payer transaction
+ *
+ * @param signer The signer
+ * @param message The message to sign
+ * @returns The signature of the signer, along with its public key
+ */
+export async function signAccountAuthenticator(signer: Signer, message: Uint8Array): Promise<AccountAuthenticator> {
+  const publicKey = signerPublicKey(signer);
+  const signature = await signer.sign(message);
+  if (publicKey instanceof MultiEd25519PublicKey) {
+    return new AccountAuthenticatorMultiEd25519(publicKey, multiEd25519Signature(signature));
+  }
+  if (publicKey instanceof Secp256k1PublicKey) {
+    return new AccountAuthenticatorSingleKey(
+      new AnyPublicKeySecp256k1Ecdsa(publicKey),
+      new AnySignatureSecp256k1Ecdsa(new Secp256k1Signature(signature)),
+    );
+  }
+  return new AccountAuthenticatorEd25519(publicKey, new Ed25519Signature(signature));
+}
+
+/**
+ * Signs a message and wraps the signature into an authenticator, to be used as the authenticator of
+ * a single signer transaction
+ *
+ * @param signer The signer
+ * @param message The message to sign
+ * @returns The signature of the signer, along with its public key
+ */
+export async function signTransactionAuthenticator(
+  signer: Signer,
+  message: Uint8Array,
+): Promise<TransactionAuthenticator> {
+  const authenticator = await signAccountAuthenticator(signer, message);
+  if (authenticator instanceof AccountAuthenticatorMultiEd25519) {
+    return new TransactionAuthenticatorMultiEd25519(authenticator.public_key, authenticator.signature);
+  }
+  if (authenticator instanceof AccountAuthenticatorSingleKey) {
+    return new TransactionAuthenticatorSingleSender(authenticator);
+  }
+  const { public_key: publicKey, signature } = authenticator as AccountAuthenticatorEd25519;
+  return new TransactionAuthenticatorEd25519(publicKey, signature);
+}
+
+/**
+ * Generates a signed transaction that can be submitted to the chain for execution
+ *
+ * @param signer The signer of the transaction sender
+ * @param rawTxn The transaction to sign
+ * @returns The BCS encoded signed transaction
+ */
+export async function generateSignedTransaction(signer: Signer, rawTxn: RawTransaction): Promise<Uint8Array> {
+  const authenticator = await signTransactionAuthenticator(signer, TransactionBuilder.getSigningMessage(rawTxn));
+  return bcsToBytes(new SignedTransaction(rawTxn, authenticator));
+}
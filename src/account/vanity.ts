@@ -0,0 +1,254 @@
+// Copyright © Aptos Foundation
+// SPDX-License-Identifier: Apache-2.0
+
+import { cpus } from "os";
+import { Worker } from "worker_threads";
+import { abortReason, HexString, MaybeHexString } from "../utils";
+import { AccountAddress } from "../aptos_types";
+import { bcsToBytes } from "../bcs";
+import { AptosAccount } from "./aptos_account";
+
+/**
+ * @param prefix - hex the address must start with, after `0x`
+ * @param suffix - hex the address must end with
+ * @param workers - number of worker threads to search with. Defaults to the number of CPU cores
+ * @param maxAttempts - gives up after that many attempts. Unbounded by default
+ * @param onProgress - called every `progressIntervalMs` while searching
+ * @param progressIntervalMs - defaults to 1000
+ * @param signal - a signal to cancel the search with
+ */
+export interface VanitySearchOptions {
+  prefix?: string;
+  suffix?: string;
+  workers?: number;
+  maxAttempts?: number;
+  onProgress?: (progress: VanityProgress) => void;
+  progressIntervalMs?: number;
+  signal?: AbortSignal;
+}
+
+/**
+ * @param seedPrefix - text every seed starts with, followed by a decimal counter. Empty by default
+ */
+export interface VanityResourceSearchOptions extends VanitySearchOptions {
+  seedPrefix?: string;
+}
+
+/**
+ * @param attempts - addresses derived so far, across all workers
+ * @param expectedAttempts - addresses to derive on average to find a match
+ * @param probability - chance that a match would have been found by now
+ * @param attemptsPerSecond - the current search rate
+ * @param elapsedMs - time since the search started
+ */
+export interface VanityProgress {
+  attempts: number;
+  expectedAttempts: number;
+  probability: number;
+  attemptsPerSecond: number;
+  elapsedMs: number;
+}
+
+export interface VanityAccountResult {
+  account: AptosAccount;
+  attempts: number;
+}
+
+export interface VanityResourceAccountResult {
+  seed: Uint8Array;
+  address: HexString;
+  attempts: number;
+}
+
+type WorkerMessage = { type: "progress"; attempts: number } | { type: "found"; attempts: number; match: string };
+
+const ADDRESS_HEX_LENGTH = 64;
+
+// Attempts a worker makes between two progress messages, which are also its chances to be terminated
+const BATCH_SIZE = 1000;
+
+// Runs from source, so that it does not depend on how the SDK is bundled or transpiled. Node's crypto derives the
+// Ed25519 public key natively, an order of magnitude faster than tweetnacl.
+const WORKER_SOURCE = `
+const crypto = require("crypto");
+const { parentPort, workerData } = require("worker_threads");
+const { mode, prefix, suffix, index, workers, source, seedPrefix } = workerData;
+const PKCS8_ED25519_PREFIX = Buffer.from("302e020100300506032b657004220420", "hex");
+const ED25519_SCHEME = Buffer.from([0]);
+const RESOURCE_ACCOUNT_SCHEME = Buffer.from([255]);
+const sourceBytes = Buffer.from(source || "", "hex");
+const seedPrefixBytes = Buffer.from(seedPrefix || "", "hex");
+const matches = (hex) => hex.startsWith(prefix) && hex.endsWith(suffix);
+const sha3 = (...parts) => {
+  const hash = crypto.createHash("sha3-256");
+  parts.forEach((part) => hash.update(part));
+  return hash.digest("hex");
+};
+let counter = index;
+const tryKey = () => {
+  const seed = crypto.randomBytes(32);
+  const privateKey = crypto.createPrivateKey({
+    key: Buffer.concat([PKCS8_ED25519_PREFIX, seed]),
+    format: "der",
+    type: "pkcs8",
+  });
+  const publicKey = crypto.createPublicKey(privateKey).export({ format: "der", type: "spki" }).subarray(12);
+  return matches(sha3(publicKey, ED25519_SCHEME)) ? seed.toString("hex") : undefined;
+};
+const trySeed = () => {
+  const seed = Buffer.concat([seedPrefixBytes, Buffer.from(String(counter))]);
+  const match = matches(sha3(sourceBytes, seed, RESOURCE_ACCOUNT_SCHEME)) ? String(counter) : undefined;
+  counter += workers;
+  return match;
+};
+const attempt = mode === "resource" ? trySeed : tryKey;
+const batch = () => {
+  for (let i = 1; i <= ${BATCH_SIZE}; i += 1) {
+    const match = attempt();
+    if (match !== undefined) {
+      parentPort.postMessage({ type: "found", attempts: i, match });
+      return;
+    }
+  }
+  parentPort.postMessage({ type: "progress", attempts: ${BATCH_SIZE} });
+  setImmediate(batch);
+};
+batch();
+`;
+
+function normalizePattern(pattern: string | undefined, name: string): string {
+  const hex = (pattern ?? "").toLowerCase();
+  if (!/^[0-9a-f]*$/.test(hex)) {
+    throw new Error(`Vanity ${name} must be hex, got ${pattern}`);
+  }
+  return hex;
+}
+
+/**
+ * @returns Addresses to derive on average to find one matching `prefix` and `suffix`, i.e. 16 per hex character
+ */
+export function expectedVanityAttempts(prefix?: string, suffix?: string): number {
+  return 16 ** ((prefix ?? "").length + (suffix ?? "").length);
+}
+
+async function search(
+  mode: "account" | "resource",
+  options: VanityResourceSearchOptions,
+  source?: MaybeHexString,
+): Promise<{ match: string; attempts: number }> {
+  const prefix = normalizePattern(options.prefix && HexString.ensure(options.prefix).noPrefix(), "prefix");
+  const suffix = normalizePattern(options.suffix, "suffix");
+  if (prefix.length + suffix.length === 0) {
+    throw new Error("Vanity search needs a prefix or a suffix");
+  }
+  if (prefix.length + suffix.length > ADDRESS_HEX_LENGTH) {
+    throw new Error(`Vanity prefix and suffix cannot be longer than ${ADDRESS_HEX_LENGTH} hex characters`);
+  }
+  const { signal, onProgress } = options;
+  if (signal?.aborted) {
+    throw abortReason(signal);
+  }
+
+  const workers = options.workers ?? Math.max(cpus().length, 1);
+  const expectedAttempts = expectedVanityAttempts(prefix, suffix);
+  const sourceHex = source ? HexString.fromUint8Array(bcsToBytes(AccountAddress.fromHex(source))).noPrefix() : "";
+  const seedPrefix = HexString.fromUint8Array(new TextEncoder().encode(options.seedPrefix ?? "")).noPrefix();
+  const startedAt = Date.now();
+  let attempts = 0;
+
+  const progress = (): VanityProgress => {
+    const elapsedMs = Date.now() - startedAt;
+    return {
+      attempts,
+      expectedAttempts,
+      probability: 1 - (1 - 1 / expectedAttempts) ** attempts,
+      attemptsPerSecond: elapsedMs > 0 ? Math.round((attempts * 1000) / elapsedMs) : 0,
+      elapsedMs,
+    };
+  };
+
+  const threads: Worker[] = [];
+  let timer: ReturnType<typeof setInterval> | undefined;
+  let onAbort: (() => void) | undefined;
+
+  return new Promise<{ match: string; attempts: number }>((resolve, reject) => {
+    const stop = () => {
+      threads.forEach((thread) => thread.terminate());
+      clearInterval(timer);
+      if (onAbort) {
+        signal?.removeEventListener("abort", onAbort);
+      }
+    };
+    const fail = (error: Error) => {
+      stop();
+      reject(error);
+    };
+
+    const onMessage = (message: WorkerMessage) => {
+      attempts += message.attempts;
+      if (message.type === "found") {
+        stop();
+        resolve({ match: message.match, attempts });
+      } else if (options.maxAttempts !== undefined && attempts >= options.maxAttempts) {
+        fail(new Error(`No vanity address found in ${attempts} attempts`));
+      }
+    };
+
+    for (let index = 0; index < workers; index += 1) {
+      const thread = new Worker(WORKER_SOURCE, {
+        eval: true,
+        workerData: { mode, prefix, suffix, index, workers, source: sourceHex, seedPrefix },
+      });
+      thread.on("message", onMessage);
+      thread.on("error", fail);
+      threads.push(thread);
+    }
+
+    if (onProgress) {
+      timer = setInterval(() => onProgress(progress()), options.progressIntervalMs ?? 1000);
+    }
+    if (signal) {
+      onAbort = () => fail(abortReason(signal));
+      signal.addEventListener("abort", onAbort, { once: true });
+    }
+  });
+}
+
+/**
+ * Searches for an Ed25519 account whose address starts with `prefix` and/or ends with `suffix`.
+ * Every hex character multiplies the expected number of attempts by 16, see `expectedVanityAttempts`.
+ *
+ * @example
+ * ```
+ * const controller = new AbortController();
+ * const { account } = await findVanityAccount({
+ *   prefix: "cafe",
+ *   onProgress: ({ attempts, expectedAttempts }) => console.log(`${attempts}/${expectedAttempts}`),
+ *   signal: controller.signal,
+ * });
+ * ```
+ * @param options see `VanitySearchOptions`
+ * @returns The matching account, and the number of attempts it took
+ */
+export async function findVanityAccount(options: VanitySearchOptions): Promise<VanityAccountResult> {
+  const { match, attempts } = await search("account", options);
+  return { account: new AptosAccount(new HexString(match).toUint8Array()), attempts };
+}
+
+/**
+ * Searches for a seed that `sourceAddress` can create a resource account with, whose address starts with `prefix`
+ * and/or ends with `suffix`. Seeds are `seedPrefix` followed by a decimal counter, so that they remain readable.
+ *
+ * @param sourceAddress The address that creates the resource account
+ * @param options see `VanityResourceSearchOptions`
+ * @returns The seed, the resource account address as in `AptosAccount.getResourceAccountAddress`, and the number
+ * of attempts it took
+ */
+export async function findVanityResourceAccountSeed(
+  sourceAddress: MaybeHexString,
+  options: VanityResourceSearchOptions,
+): Promise<VanityResourceAccountResult> {
+  const { match, attempts } = await search("resource", options, sourceAddress);
+  const seed = new TextEncoder().encode(`${options.seedPrefix ?? ""}${match}`);
+  return { seed, address: AptosAccount.getResourceAccountAddress(sourceAddress, seed), attempts };
+}
@@ -3,9 +3,10 @@
 
 import { sha3_256 as sha3Hash } from "@noble/hashes/sha3";
 import { HexString } from "../utils";
-import { Bytes } from "../bcs";
+import { Bytes, bcsToBytes } from "../bcs";
 import { MultiEd25519PublicKey } from "./multi_ed25519";
 import { Ed25519PublicKey } from "./ed25519";
+import { AnyPublicKey } from "./single_key";
 
 /**
  * Each account stores an authentication key. Authentication key enables account owners to rotate
@@ -21,6 +22,8 @@ export class AuthenticationKey {
 
   static readonly ED25519_SCHEME: number = 0;
 
+  static readonly SINGLE_KEY_SCHEME: number = 2;
+
   static readonly DERIVE_RESOURCE_ACCOUNT_SCHEME: number = 255;
 
   readonly bytes: Bytes;
@@ -63,6 +66,23 @@ export class AuthenticationKey {
     return new AuthenticationKey(hash.digest());
   }
 
+  /**
+   * Converts the public key of a single key account, e.g. a Secp256k1 ECDSA key, to AuthenticationKey with:
+   * `auth_key = sha3-256(bcs(any_public_key) | 0x02)`. `0x02` is the 1-byte scheme for single keys.
+   */
+  static fromAnyPublicKey(publicKey: AnyPublicKey): AuthenticationKey {
+    const pubKeyBytes = bcsToBytes(publicKey);
+
+    const bytes = new Uint8Array(pubKeyBytes.length + 1);
+    bytes.set(pubKeyBytes);
+    bytes.set([AuthenticationKey.SINGLE_KEY_SCHEME], pubKeyBytes.length);
+
+    const hash = sha3Hash.create();
+    hash.update(bytes);
+
+    return new AuthenticationKey(hash.digest());
+  }
+
   /**
    * Derives an account address from AuthenticationKey. Since current AccountAddress is 32 bytes,
    * AuthenticationKey bytes are directly translated to AccountAddress.
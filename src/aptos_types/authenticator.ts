@@ -6,6 +6,7 @@ import { AccountAddress } from "./account_address";
 import { Serializer, Deserializer, Seq, deserializeVector, serializeVector } from "../bcs";
 import { Ed25519PublicKey, Ed25519Signature } from "./ed25519";
 import { MultiEd25519PublicKey, MultiEd25519Signature } from "./multi_ed25519";
+import { AnyPublicKey, AnySignature } from "./single_key";
 
 export abstract class TransactionAuthenticator {
   abstract serialize(serializer: Serializer): void;
@@ -21,6 +22,8 @@ export abstract class TransactionAuthenticator {
         return TransactionAuthenticatorMultiAgent.load(deserializer);
       case 3:
         return TransactionAuthenticatorFeePayer.load(deserializer);
+      case 4:
+        return TransactionAuthenticatorSingleSender.load(deserializer);
       default:
         throw new Error(`Unknown variant index for TransactionAuthenticator: ${index}`);
     }
@@ -121,7 +124,7 @@ export class TransactionAuthenticatorFeePayer extends TransactionAuthenticator {
     this.fee_payer.authenticator.serialize(serializer);
   }
 
-  static load(deserializer: Deserializer): TransactionAuthenticatorMultiAgent {
+  static load(deserializer: Deserializer): TransactionAuthenticatorFeePayer {
     const sender = AccountAuthenticator.deserialize(deserializer);
     const secondary_signer_addresses = deserializeVector(deserializer, AccountAddress);
     const secondary_signers = deserializeVector(deserializer, AccountAuthenticator);
@@ -132,6 +135,28 @@ export class TransactionAuthenticatorFeePayer extends TransactionAuthenticator {
   }
 }
 
+export class TransactionAuthenticatorSingleSender extends TransactionAuthenticator {
+  /**
+   * An authenticator for a transaction with a single signer, whose authenticator has no
+   * dedicated transaction authenticator variant, e.g. a single key account.
+   *
+   * @param sender The authenticator of the sender
+   */
+  constructor(public readonly sender: AccountAuthenticator) {
+    super();
+  }
+
+  serialize(serializer: Serializer): void {
+    serializer.serializeU32AsUleb128(4);
+    this.sender.serialize(serializer);
+  }
+
+  static load(deserializer: Deserializer): TransactionAuthenticatorSingleSender {
+    const sender = AccountAuthenticator.deserialize(deserializer);
+    return new TransactionAuthenticatorSingleSender(sender);
+  }
+}
+
 export abstract class AccountAuthenticator {
   abstract serialize(serializer: Serializer): void;
 
@@ -142,6 +167,8 @@ export abstract class AccountAuthenticator {
         return AccountAuthenticatorEd25519.load(deserializer);
       case 1:
         return AccountAuthenticatorMultiEd25519.load(deserializer);
+      case 2:
+        return AccountAuthenticatorSingleKey.load(deserializer);
       default:
         throw new Error(`Unknown variant index for AccountAuthenticator: ${index}`);
     }
@@ -183,3 +210,21 @@ export class AccountAuthenticatorMultiEd25519 extends AccountAuthenticator {
     return new AccountAuthenticatorMultiEd25519(public_key, signature);
   }
 }
+
+export class AccountAuthenticatorSingleKey extends AccountAuthenticator {
+  constructor(public readonly public_key: AnyPublicKey, public readonly signature: AnySignature) {
+    super();
+  }
+
+  serialize(serializer: Serializer): void {
+    serializer.serializeU32AsUleb128(2);
+    this.public_key.serialize(serializer);
+    this.signature.serialize(serializer);
+  }
+
+  static load(deserializer: Deserializer): AccountAuthenticatorSingleKey {
+    const public_key = AnyPublicKey.deserialize(deserializer);
+    const signature = AnySignature.deserialize(deserializer);
+    return new AccountAuthenticatorSingleKey(public_key, signature);
+  }
+}
@@ -9,6 +9,8 @@ export * from "./type_tag";
 export * from "./identifier";
 export * from "./ed25519";
 export * from "./multi_ed25519";
+export * from "./secp256k1";
+export * from "./single_key";
 export * from "./authentication_key";
 export * from "./rotation_proof_challenge";
 
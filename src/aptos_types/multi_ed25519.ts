@@ -48,6 +48,9 @@ export class MultiEd25519PublicKey {
 
   static deserialize(deserializer: Deserializer): MultiEd25519PublicKey {
     const bytes = deserializer.deserializeBytes();
+    if (bytes.length === 0 || (bytes.length - 1) % Ed25519PublicKey.LENGTH !== 0) {
+      throw new Error(`Invalid MultiEd25519PublicKey length ${bytes.length}`);
+    }
     const threshold = bytes[bytes.length - 1];
 
     const keys: Seq<Ed25519PublicKey> = [];
@@ -145,7 +148,13 @@ export class MultiEd25519Signature {
 
   static deserialize(deserializer: Deserializer): MultiEd25519Signature {
     const bytes = deserializer.deserializeBytes();
-    const bitmap = bytes.subarray(bytes.length - 4);
+    if (
+      bytes.length < MultiEd25519Signature.BITMAP_LEN ||
+      (bytes.length - MultiEd25519Signature.BITMAP_LEN) % Ed25519Signature.LENGTH !== 0
+    ) {
+      throw new Error(`Invalid MultiEd25519Signature length ${bytes.length}`);
+    }
+    const bitmap = bytes.subarray(bytes.length - MultiEd25519Signature.BITMAP_LEN);
 
     const sigs: Seq<Ed25519Signature> = [];
 
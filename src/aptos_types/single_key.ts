@@ -0,0 +1,104 @@
+// Copyright © Aptos Foundation
+// SPDX-License-Identifier: Apache-2.0
+
+import { Deserializer, Serializer } from "../bcs";
+import { Ed25519PublicKey, Ed25519Signature } from "./ed25519";
+import { Secp256k1PublicKey, Secp256k1Signature } from "./secp256k1";
+
+/**
+ * The public key of a single key account, whatever its signature scheme
+ */
+export abstract class AnyPublicKey {
+  abstract serialize(serializer: Serializer): void;
+
+  static deserialize(deserializer: Deserializer): AnyPublicKey {
+    const index = deserializer.deserializeUleb128AsU32();
+    switch (index) {
+      case 0:
+        return AnyPublicKeyEd25519.load(deserializer);
+      case 1:
+        return AnyPublicKeySecp256k1Ecdsa.load(deserializer);
+      default:
+        throw new Error(`Unknown variant index for AnyPublicKey: ${index}`);
+    }
+  }
+}
+
+export class AnyPublicKeyEd25519 extends AnyPublicKey {
+  constructor(public readonly value: Ed25519PublicKey) {
+    super();
+  }
+
+  serialize(serializer: Serializer): void {
+    serializer.serializeU32AsUleb128(0);
+    this.value.serialize(serializer);
+  }
+
+  static load(deserializer: Deserializer): AnyPublicKeyEd25519 {
+    return new AnyPublicKeyEd25519(Ed25519PublicKey.deserialize(deserializer));
+  }
+}
+
+export class AnyPublicKeySecp256k1Ecdsa extends AnyPublicKey {
+  constructor(public readonly value: Secp256k1PublicKey) {
+    super();
+  }
+
+  serialize(serializer: Serializer): void {
+    serializer.serializeU32AsUleb128(1);
+    this.value.serialize(serializer);
+  }
+
+  static load(deserializer: Deserializer): AnyPublicKeySecp256k1Ecdsa {
+    return new AnyPublicKeySecp256k1Ecdsa(Secp256k1PublicKey.deserialize(deserializer));
+  }
+}
+
+/**
+ * The signature of a single key account, whatever its signature scheme
+ */
+export abstract class AnySignature {
+  abstract serialize(serializer: Serializer): void;
+
+  static deserialize(deserializer: Deserializer): AnySignature {
+    const index = deserializer.deserializeUleb128AsU32();
+    switch (index) {
+      case 0:
+        return AnySignatureEd25519.load(deserializer);
+      case 1:
+        return AnySignatureSecp256k1Ecdsa.load(deserializer);
+      default:
+        throw new Error(`Unknown variant index for AnySignature: ${index}`);
+    }
+  }
+}
+
+export class AnySignatureEd25519 extends AnySignature {
+  constructor(public readonly value: Ed25519Signature) {
+    super();
+  }
+
+  serialize(serializer: Serializer): void {
+    serializer.serializeU32AsUleb128(0);
+    this.value.serialize(serializer);
+  }
+
+  static load(deserializer: Deserializer): AnySignatureEd25519 {
+    return new AnySignatureEd25519(Ed25519Signature.deserialize(deserializer));
+  }
+}
+
+export class AnySignatureSecp256k1Ecdsa extends AnySignature {
+  constructor(public readonly value: Secp256k1Signature) {
+    super();
+  }
+
+  serialize(serializer: Serializer): void {
+    serializer.serializeU32AsUleb128(1);
+    this.value.serialize(serializer);
+  }
+
+  static load(deserializer: Deserializer): AnySignatureSecp256k1Ecdsa {
+    return new AnySignatureSecp256k1Ecdsa(Secp256k1Signature.deserialize(deserializer));
+  }
+}
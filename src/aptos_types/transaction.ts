@@ -19,6 +19,7 @@ import {
   serializeVector,
   bcsToBytes,
   Uint16,
+  Uint32,
   Uint256,
 } from "../bcs";
 import { AccountAuthenticator, TransactionAuthenticator, TransactionAuthenticatorMultiAgent } from "./authenticator";
@@ -225,9 +226,11 @@ export class MultiSigTransactionPayload {
   }
 
   static deserialize(deserializer: Deserializer): MultiSigTransactionPayload {
-    // TODO: Support other types of payload beside EntryFunction.
     // This is the enum value indicating which type of payload the multisig tx contains.
-    deserializer.deserializeUleb128AsU32();
+    const index = deserializer.deserializeUleb128AsU32();
+    if (index !== 0) {
+      throw new Error(`Unknown variant index for MultiSigTransactionPayload: ${index}`);
+    }
     return new MultiSigTransactionPayload(EntryFunction.deserialize(deserializer));
   }
 }
@@ -436,7 +439,8 @@ export abstract class TransactionPayload {
     switch (index) {
       case 0:
         return TransactionPayloadScript.load(deserializer);
-      // TODO: change to 1 once ModuleBundle has been removed from rust
+      case 1:
+        throw new Error("Module bundle payloads are deprecated and not supported");
       case 2:
         return TransactionPayloadEntryFunction.load(deserializer);
       case 3:
@@ -698,6 +702,12 @@ export abstract class Transaction {
     switch (index) {
       case 0:
         return UserTransaction.load(deserializer);
+      case 1:
+        throw new Error("Genesis transactions are not supported");
+      case 2:
+        return BlockMetadataTransaction.load(deserializer);
+      case 3:
+        return StateCheckpointTransaction.load(deserializer);
       default:
         throw new Error(`Unknown variant index for Transaction: ${index}`);
     }
@@ -725,3 +735,97 @@ export class UserTransaction extends Transaction {
     return new UserTransaction(SignedTransaction.deserialize(deserializer));
   }
 }
+
+export class BlockMetadataTransaction extends Transaction {
+  /**
+   * The transaction the blockchain starts every block with.
+   *
+   * @param id The hash of the block
+   * @param epoch The epoch of the block
+   * @param round The consensus round of the block
+   * @param proposer The validator that proposed the block
+   * @param previous_block_votes_bitvec Which validators voted for the previous block
+   * @param failed_proposer_indices The validators that failed to propose a block in the previous rounds
+   * @param timestamp_usecs The timestamp of the block, in microseconds
+   */
+  constructor(
+    public readonly id: Bytes,
+    public readonly epoch: Uint64,
+    public readonly round: Uint64,
+    public readonly proposer: AccountAddress,
+    public readonly previous_block_votes_bitvec: Bytes,
+    public readonly failed_proposer_indices: Seq<Uint32>,
+    public readonly timestamp_usecs: Uint64,
+  ) {
+    super();
+  }
+
+  hash(): Bytes {
+    const hash = sha3Hash.create();
+    hash.update(this.getHashSalt());
+    hash.update(bcsToBytes(this));
+    return hash.digest();
+  }
+
+  serialize(serializer: Serializer): void {
+    serializer.serializeU32AsUleb128(2);
+    serializer.serializeBytes(this.id);
+    serializer.serializeU64(this.epoch);
+    serializer.serializeU64(this.round);
+    this.proposer.serialize(serializer);
+    serializer.serializeBytes(this.previous_block_votes_bitvec);
+    serializer.serializeU32AsUleb128(this.failed_proposer_indices.length);
+    this.failed_proposer_indices.forEach((index) => serializer.serializeU32(index));
+    serializer.serializeU64(this.timestamp_usecs);
+  }
+
+  static load(deserializer: Deserializer): BlockMetadataTransaction {
+    const id = deserializer.deserializeBytes();
+    const epoch = deserializer.deserializeU64();
+    const round = deserializer.deserializeU64();
+    const proposer = AccountAddress.deserialize(deserializer);
+    const previous_block_votes_bitvec = deserializer.deserializeBytes();
+    const length = deserializer.deserializeUleb128AsU32();
+    const failed_proposer_indices: Seq<Uint32> = [];
+    for (let i = 0; i < length; i += 1) {
+      failed_proposer_indices.push(deserializer.deserializeU32());
+    }
+    const timestamp_usecs = deserializer.deserializeU64();
+    return new BlockMetadataTransaction(
+      id,
+      epoch,
+      round,
+      proposer,
+      previous_block_votes_bitvec,
+      failed_proposer_indices,
+      timestamp_usecs,
+    );
+  }
+}
+
+export class StateCheckpointTransaction extends Transaction {
+  /**
+   * The transaction the blockchain ends blocks with, checkpointing the state.
+   *
+   * @param value The hash of the block
+   */
+  constructor(public readonly value: Bytes) {
+    super();
+  }
+
+  hash(): Bytes {
+    const hash = sha3Hash.create();
+    hash.update(this.getHashSalt());
+    hash.update(bcsToBytes(this));
+    return hash.digest();
+  }
+
+  serialize(serializer: Serializer): void {
+    serializer.serializeU32AsUleb128(3);
+    serializer.serializeBytes(this.value);
+  }
+
+  static load(deserializer: Deserializer): StateCheckpointTransaction {
+    return new StateCheckpointTransaction(deserializer.deserializeBytes());
+  }
+}
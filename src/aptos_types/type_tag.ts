@@ -7,6 +7,7 @@
 import { AccountAddress } from "./account_address";
 import { Deserializer, Seq, Serializer, deserializeVector, serializeVector } from "../bcs";
 import { Identifier } from "./identifier";
+import { HexString } from "../utils";
 
 export abstract class TypeTag {
   abstract serialize(serializer: Serializer): void;
@@ -233,6 +234,48 @@ export function objectStructTag(typeArg: TypeTag): StructTag {
   return new StructTag(AccountAddress.fromHex("0x1"), new Identifier("object"), new Identifier("Object"), [typeArg]);
 }
 
+/**
+ * Converts a type tag back to its Move type, e.g. `vector<0x1::string::String>`
+ */
+export function typeTagToString(tag: TypeTag): string {
+  if (tag instanceof TypeTagVector) {
+    return `vector<${typeTagToString(tag.value)}>`;
+  }
+  if (tag instanceof TypeTagStruct) {
+    const { address, module_name: moduleName, name, type_args: typeArgs } = tag.value;
+    const args = typeArgs.length > 0 ? `<${typeArgs.map((typeArg) => typeTagToString(typeArg)).join(", ")}>` : "";
+    return `${HexString.fromUint8Array(address.address).toShortString()}::${moduleName.value}::${name.value}${args}`;
+  }
+  if (tag instanceof TypeTagBool) {
+    return "bool";
+  }
+  if (tag instanceof TypeTagU8) {
+    return "u8";
+  }
+  if (tag instanceof TypeTagU16) {
+    return "u16";
+  }
+  if (tag instanceof TypeTagU32) {
+    return "u32";
+  }
+  if (tag instanceof TypeTagU64) {
+    return "u64";
+  }
+  if (tag instanceof TypeTagU128) {
+    return "u128";
+  }
+  if (tag instanceof TypeTagU256) {
+    return "u256";
+  }
+  if (tag instanceof TypeTagAddress) {
+    return "address";
+  }
+  if (tag instanceof TypeTagSigner) {
+    return "signer";
+  }
+  throw new Error("Unknown type tag");
+}
+
 function bail(message: string) {
   throw new TypeTagParserError(message);
 }
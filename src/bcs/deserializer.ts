@@ -27,6 +27,13 @@ export class Deserializer {
     return bytes;
   }
 
+  /**
+   * @returns The number of bytes left to deserialize
+   */
+  remaining(): number {
+    return this.buffer.byteLength - this.offset;
+  }
+
   /**
    * Deserializes a string. UTF8 string is supported. Reads the string's bytes length "l" first,
    * and then reads "l" bytes of content. Decodes the byte array into a string.
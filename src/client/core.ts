@@ -2,7 +2,10 @@ import axios, { AxiosResponse, AxiosRequestConfig, AxiosError } from "axios";
 const fetchAdapter = require("./fetch-adapter");
 import { AnyNumber } from "../bcs/types";
 import { VERSION } from "../version";
-import { AptosApiError, AptosRequest, AptosResponse, ClientConfig } from "./types";
+import { abortReason, sleep } from "../utils/misc";
+import { AptosApiError, AptosRequest, AptosResponse, AptosTimeoutError, ClientConfig } from "./types";
+import { getHeader, getRetryDelay, resolveRetryConfig } from "./retry";
+import { applyAfterResponse, applyBeforeRequest, applyOnError } from "./middleware";
 import "./cookieJar";
 
 /**
@@ -17,6 +20,7 @@ const errors: Record<number, string> = {
   500: "Internal Server Error",
   502: "Bad Gateway",
   503: "Service Unavailable",
+  504: "Gateway Timeout",
 };
 
 /**
@@ -30,6 +34,7 @@ async function axiosRequest<Request, Response>(
   contentType?: string,
   params?: Record<string, string | AnyNumber | boolean | undefined>,
   overrides?: ClientConfig,
+  signal?: AbortSignal,
 ): Promise<AxiosResponse<Response>> {
   const headers: Record<string, string | number | boolean> = {
     ...overrides?.HEADERS,
@@ -49,6 +54,7 @@ async function axiosRequest<Request, Response>(
     data: body,
     withCredentials: overrides?.WITH_CREDENTIALS ?? true,
     adapter: fetchAdapter,
+    signal,
   };
 
   try {
@@ -62,30 +68,134 @@ async function axiosRequest<Request, Response>(
   }
 }
 
+/**
+ * Creates the signal of a single attempt, aborted either by the caller signal
+ * or once the timeout elapses.
+ */
+function createAttemptSignal(timeoutMs: number, signal?: AbortSignal) {
+  const controller = new AbortController();
+  let timedOut = false;
+  const onAbort = () => controller.abort();
+  signal?.addEventListener("abort", onAbort, { once: true });
+  const timer =
+    timeoutMs > 0
+      ? setTimeout(() => {
+          timedOut = true;
+          controller.abort();
+        }, timeoutMs)
+      : undefined;
+  return {
+    signal: controller.signal,
+    timedOut: () => timedOut,
+    clear: () => {
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", onAbort);
+    },
+  };
+}
+
+/**
+ * Sends the request, retrying according to `overrides.RETRY` if set. Once the
+ * attempts are exhausted, the last error is surfaced as usual.
+ *
+ * Attempts that time out fail with an `AptosTimeoutError` and are retried like network errors.
+ * Aborting `overrides.SIGNAL` stops the request and any further attempt.
+ */
+async function sendRequest<Req, Res>(options: AptosRequest): Promise<AptosResponse<Req, Res>> {
+  const { url, endpoint, method, body, contentType, params, overrides } = options;
+  const fullEndpoint = `${url}/${endpoint ?? ""}`;
+  const retryConfig = resolveRetryConfig(overrides?.RETRY);
+  const retryableMethod = retryConfig.retryableMethods.includes(method);
+  // Requests do not time out by default
+  const timeoutMs = overrides?.TIMEOUT ?? 0;
+
+  const attemptRequest = async (attempt: number): Promise<AptosResponse<Req, Res>> => {
+    const canRetry = retryableMethod && attempt < retryConfig.maxAttempts;
+
+    const userSignal = overrides?.SIGNAL;
+    if (userSignal?.aborted) {
+      throw abortReason(userSignal);
+    }
+
+    const attemptSignal = createAttemptSignal(timeoutMs, userSignal);
+    let response: AxiosResponse<Res>;
+    try {
+      response = await axiosRequest<Req, Res>(
+        fullEndpoint,
+        method,
+        body,
+        contentType,
+        params,
+        overrides,
+        attemptSignal.signal,
+      );
+    } catch (error) {
+      attemptSignal.clear();
+      if (userSignal?.aborted) {
+        throw abortReason(userSignal);
+      }
+      const failure = attemptSignal.timedOut() ? new AptosTimeoutError(options, fullEndpoint, timeoutMs) : error;
+      if (!canRetry || !retryConfig.retryOnNetworkError) {
+        throw failure;
+      }
+      await sleep(getRetryDelay(attempt, retryConfig), userSignal);
+      return attemptRequest(attempt + 1);
+    }
+    attemptSignal.clear();
+
+    const result: AptosResponse<Req, Res> = {
+      status: response.status,
+      statusText: response.statusText,
+      data: response.data,
+      headers: response.headers,
+      config: response.config,
+      url: fullEndpoint,
+    };
+
+    if (response.status >= 200 && response.status < 300) {
+      return result;
+    }
+
+    if (canRetry && retryConfig.retryableStatusCodes.includes(response.status)) {
+      await sleep(getRetryDelay(attempt, retryConfig, getHeader(response.headers, "retry-after")), userSignal);
+      return attemptRequest(attempt + 1);
+    }
+
+    const errorMessage = errors[response.status];
+    throw new AptosApiError(options, result, errorMessage ?? "Generic Error");
+  };
+
+  return attemptRequest(1);
+}
+
 /**
  * The main function to use when doing an API request.
  * Wraps axios error response with AptosApiError
  *
+ * The request goes through the middleware registered in `overrides.MIDDLEWARE`, if any,
+ * and is then balanced across the endpoints of `overrides.ENDPOINT_POOL`, if set.
+ *
  * @param options AptosRequest
  * @returns the response or AptosApiError
  */
 export async function aptosRequest<Req, Res>(options: AptosRequest): Promise<AptosResponse<Req, Res>> {
-  const { url, endpoint, method, body, contentType, params, overrides } = options;
-  const fullEndpoint = `${url}/${endpoint ?? ""}`;
-  const response = await axiosRequest<Req, Res>(fullEndpoint, method, body, contentType, params, overrides);
-
-  const result: AptosResponse<Req, Res> = {
-    status: response.status,
-    statusText: response.statusText,
-    data: response.data,
-    headers: response.headers,
-    config: response.config,
-    url: fullEndpoint,
+  const dispatch = (request: AptosRequest) => {
+    const pool = request.overrides?.ENDPOINT_POOL;
+    return pool ? pool.execute<Req, Res>(request, sendRequest) : sendRequest<Req, Res>(request);
   };
 
-  if (response.status >= 200 && response.status < 300) {
-    return result;
+  const middleware = options.overrides?.MIDDLEWARE ?? [];
+  if (middleware.length === 0) {
+    return dispatch(options);
+  }
+
+  const request = await applyBeforeRequest(middleware, options);
+  let response: AptosResponse<Req, Res>;
+  try {
+    response = await dispatch(request);
+  } catch (error) {
+    await applyOnError(middleware, request, error);
+    throw error;
   }
-  const errorMessage = errors[response.status];
-  throw new AptosApiError(options, result, errorMessage ?? "Generic Error");
+  return applyAfterResponse(middleware, request, response);
 }
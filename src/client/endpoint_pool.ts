@@ -0,0 +1,312 @@
+import { get } from "./get";
+import { getHeader } from "./retry";
+import { AptosApiError, AptosRequest, AptosResponse, ClientConfig } from "./types";
+
+/**
+ * How the pool orders endpoints for a request.
+ *
+ * "priority" - always prefer the endpoints in the order they were given, failing over to the next one
+ * "round-robin" - spread requests evenly across the endpoints
+ * "lowest-latency" - prefer the endpoint with the lowest observed latency
+ */
+export type EndpointStrategy = "priority" | "round-robin" | "lowest-latency";
+
+/**
+ * @param strategy - see `EndpointStrategy`. Defaults to "priority"
+ * @param maxLedgerLag - number of versions an endpoint may be behind the most up to date one before
+ * requests stop being sent to it. By default, lagging endpoints are not excluded
+ * @param healthCheckIntervalMs - how often to refresh the ledger info of every endpoint. The first check runs
+ * when the pool is built, the next ones before a request once the previous one is older than this.
+ * Set to 0 to disable. Defaults to 30000
+ * @param unhealthyCooldownMs - how long an endpoint that failed is skipped. Defaults to 30000
+ * @param failoverWrites - whether transaction submissions fail over too. Defaults to false, as a submission
+ * that timed out or failed with a server error may still have been accepted, and sending it to the next
+ * endpoint could submit the same transaction twice
+ */
+export type EndpointPoolOptions = {
+  strategy?: EndpointStrategy;
+  maxLedgerLag?: number;
+  healthCheckIntervalMs?: number;
+  unhealthyCooldownMs?: number;
+  failoverWrites?: boolean;
+};
+
+/**
+ * The state the pool keeps about an endpoint
+ */
+export type EndpointStatus = {
+  url: string;
+  healthy: boolean;
+  lagging: boolean;
+  ledgerVersion?: bigint;
+  latencyMs?: number;
+};
+
+type EndpointState = {
+  url: string;
+  unhealthyUntil: number;
+  ledgerVersion?: bigint;
+  latencyMs?: number;
+};
+
+// Weight of the latest sample in the latency moving average
+const LATENCY_SMOOTHING = 0.3;
+
+// POST endpoints that only read, so that sending them again is harmless
+const READ_ONLY_POST_ENDPOINT = /^(view|transactions\/simulate|transactions\/encode_submission|tables\/[^/]+\/item)$/;
+
+/**
+ * Whether sending the request twice has the same effect as sending it once
+ */
+function isIdempotent(request: AptosRequest): boolean {
+  return request.method === "GET" || READ_ONLY_POST_ENDPOINT.test(request.endpoint ?? "");
+}
+
+/**
+ * Whether the pool should give up on an endpoint and try the next one
+ */
+function isEndpointFailure(error: unknown): boolean {
+  if (error instanceof AptosApiError) {
+    return error.status >= 500;
+  }
+  return true;
+}
+
+/**
+ * Balances requests across several fullnode endpoints and fails over when one of them
+ * cannot be reached or answers with a server error.
+ *
+ * Only requests made to one of the pool urls are balanced, so a pool can safely be shared
+ * through a `ClientConfig` that is also used for other services, e.g. a faucet.
+ *
+ * @example
+ * ```
+ * const pool = new EndpointPool(["https://node-a.example.com/v1", "https://node-b.example.com/v1"], {
+ *   strategy: "lowest-latency",
+ *   maxLedgerLag: 100,
+ * });
+ * const client = new AptosClient(pool);
+ * ```
+ */
+export class EndpointPool {
+  readonly urls: string[];
+
+  readonly options: Required<Omit<EndpointPoolOptions, "maxLedgerLag">> & { maxLedgerLag?: number };
+
+  private readonly endpoints: Map<string, EndpointState>;
+
+  private nextIndex: number = 0;
+
+  private lastHealthCheck: number = 0;
+
+  private pendingHealthCheck?: Promise<void>;
+
+  /**
+   * @param urls URLs of the fullnode APIs, including the `/v1` path
+   * @param options see `EndpointPoolOptions`
+   */
+  constructor(urls: string[], options?: EndpointPoolOptions) {
+    if (urls.length === 0) {
+      throw new Error("Endpoint pool needs at least one url.");
+    }
+    this.urls = [...urls];
+    this.options = {
+      strategy: "priority",
+      healthCheckIntervalMs: 30000,
+      unhealthyCooldownMs: 30000,
+      failoverWrites: false,
+      ...options,
+    };
+    this.endpoints = new Map(this.urls.map((url) => [url, { url, unhealthyUntil: 0 }]));
+    // So that the first request doesn't wait for it
+    this.refreshHealth();
+  }
+
+  /**
+   * Whether requests to the given url are balanced by this pool
+   */
+  handles(url: string): boolean {
+    return this.endpoints.has(url);
+  }
+
+  /**
+   * @returns the current state of every endpoint, in the order they were given
+   */
+  getStatus(): EndpointStatus[] {
+    const now = Date.now();
+    return this.urls.map((url) => {
+      const endpoint = this.endpoints.get(url)!;
+      return {
+        url,
+        healthy: endpoint.unhealthyUntil <= now,
+        lagging: this.isLagging(endpoint),
+        ledgerVersion: endpoint.ledgerVersion,
+        latencyMs: endpoint.latencyMs,
+      };
+    });
+  }
+
+  /**
+   * Queries the ledger info of every endpoint, recording their latency and ledger version,
+   * and marking the ones that cannot answer as unhealthy.
+   *
+   * @param config the config to send the health check requests with, e.g. to pass an auth token
+   */
+  async checkHealth(config?: ClientConfig): Promise<void> {
+    // The caller signal only cancels its own request, it says nothing about the endpoints health
+    const overrides = { ...config, ENDPOINT_POOL: undefined, SIGNAL: undefined };
+    this.lastHealthCheck = Date.now();
+    await Promise.all(
+      this.urls.map(async (url) => {
+        const start = Date.now();
+        try {
+          const response = await get<{}, { ledger_version: string }>({ url, originMethod: "checkHealth", overrides });
+          this.markSuccess(url, Date.now() - start);
+          this.endpoints.get(url)!.ledgerVersion = BigInt(response.data.ledger_version);
+        } catch (error) {
+          this.markFailure(url);
+        }
+      }),
+    );
+  }
+
+  /**
+   * Marks an endpoint as reachable and records the latency of a request made to it
+   */
+  markSuccess(url: string, latencyMs?: number, ledgerVersion?: string) {
+    const endpoint = this.endpoints.get(url);
+    if (!endpoint) {
+      return;
+    }
+    endpoint.unhealthyUntil = 0;
+    if (latencyMs !== undefined) {
+      endpoint.latencyMs =
+        endpoint.latencyMs === undefined
+          ? latencyMs
+          : endpoint.latencyMs * (1 - LATENCY_SMOOTHING) + latencyMs * LATENCY_SMOOTHING;
+    }
+    if (ledgerVersion) {
+      const version = BigInt(ledgerVersion);
+      if (endpoint.ledgerVersion === undefined || version > endpoint.ledgerVersion) {
+        endpoint.ledgerVersion = version;
+      }
+    }
+  }
+
+  /**
+   * Marks an endpoint as unhealthy, it will be skipped until the cooldown elapses
+   * or a health check succeeds
+   */
+  markFailure(url: string) {
+    const endpoint = this.endpoints.get(url);
+    if (endpoint) {
+      endpoint.unhealthyUntil = Date.now() + this.options.unhealthyCooldownMs;
+    }
+  }
+
+  /**
+   * Sends a request to the best endpoint, failing over to the next ones on connection
+   * errors, timeouts and 5xx responses. Requests to urls outside of the pool are sent as they are.
+   * Transaction submissions are sent to a single endpoint, unless `failoverWrites` is set.
+   *
+   * @param request the request to send, its url being any of the pool urls
+   * @param send the function that actually sends a request
+   */
+  async execute<Req, Res>(
+    request: AptosRequest,
+    send: (request: AptosRequest) => Promise<AptosResponse<Req, Res>>,
+  ): Promise<AptosResponse<Req, Res>> {
+    if (!this.handles(request.url)) {
+      return send(request);
+    }
+
+    await this.refreshHealth(request.overrides);
+
+    // A lagging endpoint still accepts transactions
+    const isWrite = !isIdempotent(request);
+    const candidates = this.getCandidates(isWrite);
+    const failover = !isWrite || this.options.failoverWrites;
+    const attempt = async (index: number): Promise<AptosResponse<Req, Res>> => {
+      const url = candidates[index];
+      const start = Date.now();
+      try {
+        const response = await send({ ...request, url });
+        this.markSuccess(url, Date.now() - start, getHeader(response.headers, "x-aptos-ledger-version"));
+        return response;
+      } catch (error) {
+        if (request.overrides?.SIGNAL?.aborted) {
+          throw error;
+        }
+        if (!isEndpointFailure(error)) {
+          this.markSuccess(url, Date.now() - start);
+          throw error;
+        }
+        this.markFailure(url);
+        if (!failover || index + 1 >= candidates.length) {
+          throw error;
+        }
+        return attempt(index + 1);
+      }
+    };
+    return attempt(0);
+  }
+
+  /**
+   * Orders the endpoints to try for a request: healthy endpoints first, ordered by the
+   * strategy, then the unhealthy ones as a last resort. Lagging endpoints are left out.
+   *
+   * @param includeLagging whether to keep lagging endpoints, e.g. for requests that don't read the ledger
+   */
+  getCandidates(includeLagging: boolean = false): string[] {
+    const now = Date.now();
+    const upToDate = this.urls
+      .map((url) => this.endpoints.get(url)!)
+      .filter((endpoint) => includeLagging || !this.isLagging(endpoint));
+    const healthy = upToDate.filter((endpoint) => endpoint.unhealthyUntil <= now);
+    const unhealthy = upToDate
+      .filter((endpoint) => endpoint.unhealthyUntil > now)
+      .sort((a, b) => a.unhealthyUntil - b.unhealthyUntil);
+
+    let ordered: EndpointState[];
+    switch (this.options.strategy) {
+      case "round-robin": {
+        const offset = healthy.length > 0 ? this.nextIndex % healthy.length : 0;
+        this.nextIndex += 1;
+        ordered = [...healthy.slice(offset), ...healthy.slice(0, offset)];
+        break;
+      }
+      case "lowest-latency":
+        // Endpoints that were never measured go first, so that they get a latency sample
+        ordered = [...healthy].sort((a, b) => (a.latencyMs ?? 0) - (b.latencyMs ?? 0));
+        break;
+      default:
+        ordered = healthy;
+    }
+
+    return [...ordered, ...unhealthy].map((endpoint) => endpoint.url);
+  }
+
+  private isLagging(endpoint: EndpointState): boolean {
+    const { maxLedgerLag } = this.options;
+    if (maxLedgerLag === undefined || endpoint.ledgerVersion === undefined) {
+      return false;
+    }
+    const highest = Array.from(this.endpoints.values()).reduce<bigint>(
+      (max, { ledgerVersion }) => (ledgerVersion !== undefined && ledgerVersion > max ? ledgerVersion : max),
+      BigInt(0),
+    );
+    return highest - endpoint.ledgerVersion > BigInt(maxLedgerLag);
+  }
+
+  private async refreshHealth(config?: ClientConfig): Promise<void> {
+    const { healthCheckIntervalMs } = this.options;
+    if (healthCheckIntervalMs <= 0 || Date.now() - this.lastHealthCheck < healthCheckIntervalMs) {
+      return this.pendingHealthCheck;
+    }
+    // Concurrent requests share the same health check
+    this.pendingHealthCheck = this.checkHealth(config).finally(() => {
+      this.pendingHealthCheck = undefined;
+    });
+    return this.pendingHealthCheck;
+  }
+}
@@ -12,6 +12,18 @@ const { isUndefined } = require("axios/lib/utils");
 const fetch = require("node-fetch");
 const { Headers, Request } = require("node-fetch");
 
+/**
+ * Copies the response headers into a plain object keyed by lowercase names, as axios types them.
+ * Like the axios http adapter, it keeps every set-cookie header in an array.
+ */
+function toAxiosHeaders(headers) {
+  const result = {};
+  Object.entries(headers.raw()).forEach(([name, values]) => {
+    result[name] = name === "set-cookie" ? values : values.join(", ");
+  });
+  return result;
+}
+
 /**
  * - Create a request object
  * - Get response body
@@ -55,6 +67,9 @@ async function getResponse(request, config) {
   try {
     stageOne = await fetch(request);
   } catch (e) {
+    if (e && e.name === "AbortError") {
+      return createError("Request aborted", config, "ECONNABORTED", request);
+    }
     return createError("Network Error", config, null, request);
   }
 
@@ -62,7 +77,7 @@ async function getResponse(request, config) {
     ok: stageOne.ok,
     status: stageOne.status,
     statusText: stageOne.statusText,
-    headers: new Headers(stageOne.headers), // Make a copy of headers
+    headers: toAxiosHeaders(stageOne.headers),
     config: config,
     request,
   };
@@ -128,6 +143,9 @@ function createRequest(config) {
   if (config.referrer) {
     options.referrer = config.referrer;
   }
+  if (config.signal) {
+    options.signal = config.signal;
+  }
   // This config is similar to XHR’s withCredentials flag, but with three available values instead of two.
   // So if withCredentials is not set, default value 'same-origin' will be used
   if (!isUndefined(config.withCredentials)) {
@@ -2,3 +2,6 @@ export * from "./core";
 export * from "./get";
 export * from "./post";
 export * from "./types";
+export * from "./retry";
+export * from "./middleware";
+export * from "./endpoint_pool";
@@ -0,0 +1,48 @@
+import { AptosRequest, AptosResponse, ClientMiddleware } from "./types";
+
+/**
+ * Runs the `beforeRequest` hooks in the order they were registered. Each hook receives
+ * the request returned by the previous one, and may return a modified copy of it.
+ */
+export async function applyBeforeRequest(middleware: ClientMiddleware[], request: AptosRequest): Promise<AptosRequest> {
+  return middleware.reduce<Promise<AptosRequest>>(async (previous, { beforeRequest }) => {
+    const current = await previous;
+    if (!beforeRequest) {
+      return current;
+    }
+    const next = (await beforeRequest(current)) as AptosRequest | undefined;
+    return next ?? current;
+  }, Promise.resolve(request));
+}
+
+/**
+ * Runs the `afterResponse` hooks in the reverse order they were registered, so the first
+ * registered middleware sees the response last, the same way it saw the request first.
+ */
+export async function applyAfterResponse<Req, Res>(
+  middleware: ClientMiddleware[],
+  request: AptosRequest,
+  response: AptosResponse<Req, Res>,
+): Promise<AptosResponse<Req, Res>> {
+  return middleware.reduceRight<Promise<AptosResponse<Req, Res>>>(async (previous, { afterResponse }) => {
+    const current = await previous;
+    if (!afterResponse) {
+      return current;
+    }
+    const next = (await afterResponse(request, current)) as AptosResponse<Req, Res> | undefined;
+    return next ?? current;
+  }, Promise.resolve(response));
+}
+
+/**
+ * Runs the `onError` hooks in the reverse order they were registered.
+ * The hooks are notified only, the error is thrown again by the caller.
+ */
+export async function applyOnError(middleware: ClientMiddleware[], request: AptosRequest, error: unknown) {
+  await middleware.reduceRight<Promise<void>>(async (previous, { onError }) => {
+    await previous;
+    if (onError) {
+      await onError(request, error);
+    }
+  }, Promise.resolve());
+}
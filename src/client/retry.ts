@@ -0,0 +1,76 @@
+import { AxiosResponseHeaders } from "axios";
+import { RetryConfig } from "./types";
+
+export const DEFAULT_RETRY_CONFIG: Required<RetryConfig> = {
+  maxAttempts: 3,
+  baseDelayMs: 200,
+  maxDelayMs: 10000,
+  jitter: true,
+  respectRetryAfter: true,
+  retryableStatusCodes: [429, 500, 502, 503, 504],
+  retryableMethods: ["GET"],
+  retryOnNetworkError: true,
+};
+
+/**
+ * Fills the gaps of a user provided retry policy with the defaults.
+ * Without a policy, requests are sent exactly once.
+ */
+export function resolveRetryConfig(config?: RetryConfig): Required<RetryConfig> {
+  if (!config) {
+    return { ...DEFAULT_RETRY_CONFIG, maxAttempts: 1 };
+  }
+  return { ...DEFAULT_RETRY_CONFIG, ...config };
+}
+
+/**
+ * Parses a `Retry-After` header value, which is either a number of seconds or an HTTP date.
+ *
+ * @returns the delay in milliseconds, or undefined if the value cannot be parsed
+ */
+export function parseRetryAfter(value?: string | null, now: number = Date.now()): number | undefined {
+  if (value === undefined || value === null || value.trim() === "") {
+    return undefined;
+  }
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const date = Date.parse(value);
+  if (!Number.isNaN(date)) {
+    return Math.max(0, date - now);
+  }
+  return undefined;
+}
+
+/**
+ * Reads a response header, whose name axios lowercases
+ */
+export function getHeader(
+  headers: AxiosResponseHeaders | Record<string, string | undefined> | undefined,
+  name: string,
+): string | undefined {
+  if (!headers) {
+    return undefined;
+  }
+  return headers[name] ?? headers[name.toLowerCase()];
+}
+
+/**
+ * Computes how long to wait before the next attempt, using exponential backoff.
+ * A `Retry-After` header takes precedence when the policy respects it.
+ *
+ * @param attempt the number of the attempt that just failed, starting at 1
+ * @param config the resolved retry policy
+ * @param retryAfter the `Retry-After` header of the failed response, if any
+ */
+export function getRetryDelay(attempt: number, config: Required<RetryConfig>, retryAfter?: string): number {
+  if (config.respectRetryAfter) {
+    const requested = parseRetryAfter(retryAfter);
+    if (requested !== undefined) {
+      return Math.min(requested, config.maxDelayMs);
+    }
+  }
+  const backoff = Math.min(config.baseDelayMs * 2 ** (attempt - 1), config.maxDelayMs);
+  return config.jitter ? Math.floor(Math.random() * backoff) : backoff;
+}
@@ -1,5 +1,30 @@
 import { AxiosResponse } from "axios";
 import { AnyNumber } from "../bcs";
+import type { EndpointPool } from "./endpoint_pool";
+
+/**
+ * A retry policy for requests that fail with a transient error.
+ *
+ * @param maxAttempts - total number of attempts, the first one included. Defaults to 3
+ * @param baseDelayMs - delay before the first retry, doubled on every following retry. Defaults to 200
+ * @param maxDelayMs - upper bound of a single delay, `Retry-After` included. Defaults to 10000
+ * @param jitter - whether to pick a random delay between 0 and the computed backoff. Defaults to true
+ * @param respectRetryAfter - whether to wait as long as the server asks in the `Retry-After` header. Defaults to true
+ * @param retryableStatusCodes - response statuses that are retried. Defaults to 429, 500, 502, 503 and 504
+ * @param retryableMethods - request methods that are retried. Defaults to "GET" only, as retrying a "POST"
+ * could submit the same transaction twice
+ * @param retryOnNetworkError - whether to retry when no response was received at all. Defaults to true
+ */
+export type RetryConfig = {
+  maxAttempts?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  jitter?: boolean;
+  respectRetryAfter?: boolean;
+  retryableStatusCodes?: number[];
+  retryableMethods?: Array<"GET" | "POST">;
+  retryOnNetworkError?: boolean;
+};
 
 /**
  * A configuration object we can pass with the request to the server.
@@ -7,11 +32,22 @@ import { AnyNumber } from "../bcs";
  * @param TOKEN - an auth token to send with the request
  * @param HEADERS - extra headers we want to send with the request
  * @param WITH_CREDENTIALS - whether to carry cookies. By default, it is set to true and cookies will be sent
+ * @param RETRY - a retry policy for rate limited and failed requests. By default, requests are not retried
+ * @param MIDDLEWARE - hooks to run around every request, see `ClientMiddleware`
+ * @param ENDPOINT_POOL - balances the requests made to any of its urls across all of them, see `EndpointPool`
+ * @param TIMEOUT - time in milliseconds to wait for a response before failing with an `AptosTimeoutError`.
+ * It applies to every attempt of a retried request. By default, requests do not time out
+ * @param SIGNAL - an `AbortSignal` to cancel the requests with. An aborted request fails with the signal reason
  */
 export type ClientConfig = {
   TOKEN?: string;
   HEADERS?: Record<string, string | number | boolean>;
   WITH_CREDENTIALS?: boolean;
+  RETRY?: RetryConfig;
+  MIDDLEWARE?: ClientMiddleware[];
+  ENDPOINT_POOL?: EndpointPool;
+  TIMEOUT?: number;
+  SIGNAL?: AbortSignal;
 };
 
 /**
@@ -49,6 +85,29 @@ export interface AptosResponse<Req, Res> extends AxiosResponse<Res, ClientConfig
   request?: Req;
 }
 
+/**
+ * Hooks that run around every request made with a given `ClientConfig`, e.g. to add
+ * request ids, record latency per `originMethod`, log requests or rewrite urls to a proxy.
+ *
+ * Requests go through `beforeRequest` in registration order, responses and errors go
+ * through `afterResponse` and `onError` in reverse order. Hooks run once per call, no
+ * matter how many attempts the retry policy makes.
+ *
+ * @param beforeRequest - receives the request about to be sent. It may return a modified request,
+ * which is then passed to the next middleware and eventually sent
+ * @param afterResponse - receives the successful response. It may return a modified response
+ * @param onError - receives the error a request failed with, i.e an `AptosApiError` or a network error.
+ * The error is thrown to the caller once every hook ran
+ */
+export interface ClientMiddleware {
+  beforeRequest?: (request: AptosRequest) => AptosRequest | void | Promise<AptosRequest | void>;
+  afterResponse?: (
+    request: AptosRequest,
+    response: AptosResponse<any, any>,
+  ) => AptosResponse<any, any> | void | Promise<AptosResponse<any, any> | void>;
+  onError?: (request: AptosRequest, error: unknown) => void | Promise<void>;
+}
+
 /**
  * The type returned from an API error
  */
@@ -74,3 +133,23 @@ export class AptosApiError extends Error {
     this.request = request;
   }
 }
+
+/**
+ * The error thrown when the server did not respond within `ClientConfig.TIMEOUT`
+ */
+export class AptosTimeoutError extends Error {
+  readonly url: string;
+
+  readonly timeoutMs: number;
+
+  readonly request: AptosRequest;
+
+  constructor(request: AptosRequest, url: string, timeoutMs: number) {
+    super(`Request to ${url} timed out after ${timeoutMs}ms`);
+
+    this.name = "AptosTimeoutError";
+    this.url = url;
+    this.timeoutMs = timeoutMs;
+    this.request = request;
+  }
+}
@@ -0,0 +1,369 @@
+// Copyright © Aptos Foundation
+// SPDX-License-Identifier: Apache-2.0
+
+import * as Gen from "../generated/index";
+import { HexString, MaybeHexString } from "../utils";
+
+/**
+ * The package generated modules import the SDK from
+ */
+export const DEFAULT_CODEGEN_IMPORT_PATH = "@martiandao/aptos-web3-bip44.js";
+
+export interface CodegenOptions {
+  /**
+   * Where generated modules import the SDK from, the published package by default
+   */
+  importPath?: string;
+}
+
+export interface GeneratedModule {
+  /**
+   * Path of the module relative to the output directory, e.g. `0x1/coin.ts`
+   */
+  path: string;
+  code: string;
+}
+
+interface MoveTypeNode {
+  name: string;
+  typeArgs: MoveTypeNode[];
+}
+
+type Position = "argument" | "return";
+
+// Names Move allows for functions that cannot be TypeScript function names
+const RESERVED_WORDS = new Set([
+  "break",
+  "case",
+  "catch",
+  "class",
+  "const",
+  "continue",
+  "debugger",
+  "default",
+  "delete",
+  "do",
+  "else",
+  "enum",
+  "export",
+  "extends",
+  "false",
+  "finally",
+  "for",
+  "function",
+  "if",
+  "import",
+  "in",
+  "instanceof",
+  "new",
+  "null",
+  "return",
+  "super",
+  "switch",
+  "this",
+  "throw",
+  "true",
+  "try",
+  "typeof",
+  "var",
+  "void",
+  "while",
+  "with",
+  "yield",
+  "let",
+  "static",
+  "implements",
+  "interface",
+  "package",
+  "private",
+  "protected",
+  "public",
+  "await",
+]);
+
+function parseMoveType(type: Gen.MoveType): MoveTypeNode {
+  const tokens = type
+    .replace(/^&(mut\s+)?/, "")
+    .split(/([<>,])/)
+    .map((token) => token.trim())
+    .filter((token) => token.length > 0);
+  let pos = 0;
+  const next = () => {
+    if (pos >= tokens.length) {
+      throw new Error(`Invalid Move type ${type}`);
+    }
+    pos += 1;
+    return tokens[pos - 1];
+  };
+  const parse = (): MoveTypeNode => {
+    const name = next();
+    const typeArgs: MoveTypeNode[] = [];
+    if (tokens[pos] === "<") {
+      next();
+      while (tokens[pos] !== ">") {
+        typeArgs.push(parse());
+        if (tokens[pos] === ",") {
+          next();
+        }
+      }
+      next();
+    }
+    return { name, typeArgs };
+  };
+  const node = parse();
+  if (pos !== tokens.length) {
+    throw new Error(`Invalid Move type ${type}`);
+  }
+  return node;
+}
+
+function structName(name: string): string {
+  const [address, ...rest] = name.split("::");
+  return [new HexString(address).toShortString(), ...rest].join("::");
+}
+
+/**
+ * Maps a Move type to the TypeScript type of its arguments or returned values
+ *
+ * @returns The TypeScript type, or undefined if arguments of the Move type are not supported
+ */
+function toTsType(node: MoveTypeNode, position: Position): string | undefined {
+  const { name, typeArgs } = node;
+  switch (name) {
+    case "bool":
+      return "boolean";
+    case "u8":
+    case "u16":
+    case "u32":
+      return "number";
+    case "u64":
+    case "u128":
+    case "u256":
+      return "bigint";
+    case "address":
+      return position === "argument" ? "MaybeHexString" : "string";
+    case "vector": {
+      if (typeArgs[0].name === "u8") {
+        return "Uint8Array";
+      }
+      const inner = toTsType(typeArgs[0], position);
+      return inner && `Array<${inner}>`;
+    }
+    default:
+  }
+  if (/^T\d+$/.test(name)) {
+    // Only known once type arguments are given
+    return "unknown";
+  }
+  if (!name.includes("::")) {
+    return undefined;
+  }
+  switch (structName(name)) {
+    case "0x1::string::String":
+      return "string";
+    case "0x1::object::Object":
+      return position === "argument" ? "MaybeHexString" : "string";
+    case "0x1::option::Option": {
+      const inner = toTsType(typeArgs[0], position);
+      return inner && `${inner} | undefined`;
+    }
+    default:
+      // Other structs cannot be passed as arguments, and are returned as JSON
+      return position === "argument" ? undefined : "Types.MoveStructValue";
+  }
+}
+
+function functionName(name: string): string {
+  return RESERVED_WORDS.has(name) ? `${name}_` : name;
+}
+
+function declaration(head: string, params: string[], returnType: string): string[] {
+  if (params.length === 0) {
+    return [`${head}(): ${returnType} {`];
+  }
+  return [`${head}(`, ...params.map((param) => `  ${param},`), `): ${returnType} {`];
+}
+
+function quote(values: string[]): string {
+  return `[${values.map((value) => JSON.stringify(value)).join(", ")}]`;
+}
+
+interface FunctionSignature {
+  params: string[];
+  docs: string[];
+  argNames: string[];
+}
+
+/**
+ * @returns The typed parameters of a function, or undefined if it has parameters of unsupported types
+ */
+function signatureOf(func: Gen.MoveFunction, paramTypes: Gen.MoveType[]): FunctionSignature | undefined {
+  const params: string[] = [];
+  const docs: string[] = [];
+  const argNames: string[] = [];
+  if (func.generic_type_params.length > 0) {
+    params.push(`typeArgs: [${func.generic_type_params.map(() => "string").join(", ")}]`);
+    docs.push(` * @param typeArgs ${func.generic_type_params.map((_, i) => `\`T${i}\``).join(", ")}`);
+  }
+  const tsTypes = paramTypes.map((type) => toTsType(parseMoveType(type), "argument"));
+  if (tsTypes.some((tsType) => tsType === undefined)) {
+    return undefined;
+  }
+  tsTypes.forEach((tsType, i) => {
+    params.push(`arg${i}: ${tsType}`);
+    docs.push(` * @param arg${i} \`${paramTypes[i]}\``);
+    argNames.push(`arg${i}`);
+  });
+  return { params, docs, argNames };
+}
+
+function generateEntryFunction(moduleId: string, func: Gen.MoveFunction): string[] {
+  // The Move VM passes the signers, like TransactionBuilderRemoteABI does not take them
+  const paramTypes = func.params.filter((param) => param !== "signer" && param !== "&signer");
+  const signature = signatureOf(func, paramTypes);
+  if (!signature) {
+    return [`// ${func.name} is skipped, it takes struct arguments that cannot be passed to entry functions`];
+  }
+  const typeArgs = func.generic_type_params.length > 0 ? "typeArgs" : "[]";
+  return [
+    "/**",
+    ` * Builds a payload calling the \`${moduleId}::${func.name}\` entry function`,
+    ...(signature.docs.length > 0 ? [" *", ...signature.docs] : []),
+    " */",
+    ...declaration(
+      `export function ${functionName(func.name)}`,
+      signature.params,
+      "TxnBuilderTypes.TransactionPayloadEntryFunction",
+    ),
+    "  return Codegen.entryFunctionPayload(",
+    `    "${moduleId}::${func.name}",`,
+    `    ${typeArgs},`,
+    `    ${quote(paramTypes)},`,
+    `    [${signature.argNames.join(", ")}],`,
+    "  );",
+    "}",
+  ];
+}
+
+function generateViewFunction(moduleId: string, func: Gen.MoveFunction): string[] {
+  const signature = signatureOf(func, func.params);
+  if (!signature) {
+    return [`// ${func.name} is skipped, it takes struct arguments that cannot be passed to view functions`];
+  }
+  const returnType = `[${func.return.map((type) => toTsType(parseMoveType(type), "return")).join(", ")}]`;
+  const typeArgs = func.generic_type_params.length > 0 ? "typeArgs" : "[]";
+  // Functions that are entry functions as well keep their name for the payload builder
+  const name = func.is_entry ? `${func.name}View` : functionName(func.name);
+  return [
+    "/**",
+    ` * Calls the \`${moduleId}::${func.name}\` view function`,
+    " *",
+    " * @param client The client calling the view API, e.g. an AptosClient",
+    ...signature.docs,
+    " * @param ledgerVersion The ledger version to call the function at, the latest by default",
+    " */",
+    ...declaration(
+      `export async function ${name}`,
+      ["client: Codegen.ViewClient", ...signature.params, "ledgerVersion?: string"],
+      `Promise<${returnType}>`,
+    ),
+    "  const values = await Codegen.callViewFunction(",
+    "    client,",
+    `    "${moduleId}::${func.name}",`,
+    `    ${typeArgs},`,
+    `    ${quote(func.params)},`,
+    `    ${quote(func.return)},`,
+    `    [${signature.argNames.join(", ")}],`,
+    "    ledgerVersion,",
+    "  );",
+    `  return values as ${returnType};`,
+    "}",
+  ];
+}
+
+/**
+ * Generates a TypeScript module with a typed payload builder for every entry function of a Move module, and a typed
+ * wrapper for every view function. Move types map to TypeScript types as follows:
+ * - `u8`, `u16` and `u32` to number, `u64`, `u128` and `u256` to bigint
+ * - `address` and `Object<T>` to MaybeHexString arguments, returned as strings
+ * - `vector<u8>` to Uint8Array, other vectors to arrays
+ * - `String` to string, `Option<T>` to `T | undefined`
+ * - Generic type parameters `T0`, `T1`... to unknown, as their types are only known from the type arguments
+ * - Other structs returned by view functions to their JSON. Functions taking them as arguments are skipped.
+ *
+ * @param module The ABI of the module
+ * @param options Codegen options
+ * @returns The source code of the module
+ */
+export function generateModuleCode(module: Gen.MoveModule, options: CodegenOptions = {}): string {
+  const { importPath = DEFAULT_CODEGEN_IMPORT_PATH } = options;
+  const moduleId = `${new HexString(module.address).toShortString()}::${module.name}`;
+  const functions = module.exposed_functions
+    .filter((func) => func.is_entry || func.is_view)
+    .sort((a, b) => a.name.localeCompare(b.name))
+    .flatMap((func) => [
+      ...(func.is_entry ? [generateEntryFunction(moduleId, func)] : []),
+      ...(func.is_view ? [generateViewFunction(moduleId, func)] : []),
+    ]);
+  const body = functions.map((lines) => lines.join("\n")).join("\n\n");
+
+  const imports = ["Codegen", "MaybeHexString", "TxnBuilderTypes", "Types"].filter((name) =>
+    new RegExp(`\\b${name}\\b`).test(body),
+  );
+  return [
+    `// Generated from the ABI of ${moduleId}, do not edit.`,
+    "/* eslint-disable */",
+    "",
+    `import { ${imports.join(", ")} } from "${importPath}";`,
+    "",
+    `export const MODULE_ID = "${moduleId}";`,
+    ...(body ? ["", body] : []),
+    "",
+  ].join("\n");
+}
+
+/**
+ * Reads module ABIs saved as JSON, e.g. the output of `AptosClient.getAccountModules` or `getAccountModule`
+ *
+ * @param json JSON of a module or of a list of modules, either with their bytecode or only their ABIs
+ * @returns The ABIs of the modules
+ */
+export function parseModuleABIs(json: string | object): Gen.MoveModule[] {
+  const parsed = typeof json === "string" ? JSON.parse(json) : json;
+  const modules: Array<Gen.MoveModule | Gen.MoveModuleBytecode> = Array.isArray(parsed) ? parsed : [parsed];
+  return modules.map((module) => {
+    const abi = "bytecode" in module ? module.abi : module;
+    if (!abi || !abi.exposed_functions) {
+      throw new Error("Expected Move module ABIs");
+    }
+    return abi;
+  });
+}
+
+/**
+ * Fetches the ABIs of the modules published at an address
+ *
+ * @param client The client fetching the modules, e.g. an AptosClient
+ * @param address The address the modules are published at
+ * @returns The ABIs of the modules
+ */
+export async function fetchModuleABIs(
+  client: { getAccountModules(address: MaybeHexString): Promise<Gen.MoveModuleBytecode[]> },
+  address: MaybeHexString,
+): Promise<Gen.MoveModule[]> {
+  return parseModuleABIs(await client.getAccountModules(address));
+}
+
+/**
+ * Generates a TypeScript module for every Move module, see `generateModuleCode`
+ *
+ * @param modules The ABIs of the modules
+ * @param options Codegen options
+ * @returns The generated modules, to write to an output directory
+ */
+export function generateModules(modules: Gen.MoveModule[], options: CodegenOptions = {}): GeneratedModule[] {
+  return modules.map((module) => ({
+    path: `${new HexString(module.address).toShortString()}/${module.name}.ts`,
+    code: generateModuleCode(module, options),
+  }));
+}
@@ -0,0 +1,160 @@
+// Copyright © Aptos Foundation
+// SPDX-License-Identifier: Apache-2.0
+
+import * as Gen from "../generated/index";
+import {
+  EntryFunction,
+  TransactionPayloadEntryFunction,
+  TypeTag,
+  TypeTagAddress,
+  TypeTagParser,
+  TypeTagStruct,
+  TypeTagU128,
+  TypeTagU256,
+  TypeTagU64,
+  TypeTagU8,
+  TypeTagVector,
+} from "../aptos_types";
+import { Serializer } from "../bcs";
+import { serializeArg } from "../transaction_builder/builder_utils";
+import { HexString } from "../utils";
+
+/**
+ * What generated view functions need of a client, e.g. an `AptosClient`
+ */
+export interface ViewClient {
+  view(payload: Gen.ViewRequest, ledgerVersion?: string): Promise<Gen.MoveValue[]>;
+}
+
+function parseType(type: Gen.MoveType, typeArgs: Gen.MoveType[]): TypeTag {
+  return new TypeTagParser(type, typeArgs).parseTypeTag();
+}
+
+function checkArgs(func: Gen.EntryFunctionId, paramTypes: Gen.MoveType[], args: any[]) {
+  if (paramTypes.length !== args.length) {
+    throw new Error(`${func} takes ${paramTypes.length} arguments, got ${args.length}`);
+  }
+}
+
+function isOption(tag: TypeTag): tag is TypeTagStruct {
+  if (!(tag instanceof TypeTagStruct)) {
+    return false;
+  }
+  const { address, module_name: moduleName, name } = tag.value;
+  return (
+    HexString.fromUint8Array(address.address).toShortString() === "0x1" &&
+    moduleName.value === "option" &&
+    name.value === "Option"
+  );
+}
+
+/**
+ * Converts a typed argument to the JSON the view API expects for its Move type
+ */
+function toViewArgument(value: any, tag: TypeTag): any {
+  if (tag instanceof TypeTagU64 || tag instanceof TypeTagU128 || tag instanceof TypeTagU256) {
+    return BigInt(value).toString();
+  }
+  if (tag instanceof TypeTagAddress) {
+    return HexString.ensure(value).hex();
+  }
+  if (tag instanceof TypeTagVector) {
+    if (tag.value instanceof TypeTagU8 && value instanceof Uint8Array) {
+      return HexString.fromUint8Array(value).hex();
+    }
+    return (value as any[]).map((v) => toViewArgument(v, tag.value));
+  }
+  if (isOption(tag)) {
+    return { vec: value === undefined || value === null ? [] : [toViewArgument(value, tag.value.type_args[0])] };
+  }
+  return value;
+}
+
+/**
+ * Converts a JSON Move value returned by the view API to its typed value
+ */
+function fromMoveValue(value: any, tag: TypeTag): any {
+  if (tag instanceof TypeTagU64 || tag instanceof TypeTagU128 || tag instanceof TypeTagU256) {
+    return BigInt(value);
+  }
+  if (tag instanceof TypeTagAddress) {
+    // Objects are returned as `{ inner: address }`
+    return typeof value === "object" ? value.inner : value;
+  }
+  if (tag instanceof TypeTagVector) {
+    if (tag.value instanceof TypeTagU8) {
+      return new HexString(value).toUint8Array();
+    }
+    return (value as any[]).map((v) => fromMoveValue(v, tag.value));
+  }
+  if (isOption(tag)) {
+    const { vec } = value as { vec: any[] };
+    return vec.length === 0 ? undefined : fromMoveValue(vec[0], tag.value.type_args[0]);
+  }
+  return value;
+}
+
+/**
+ * Builds an entry function payload out of typed arguments, as generated entry function builders do
+ *
+ * @param func Fully qualified function name, e.g. 0x1::coin::transfer
+ * @param typeArgs Type arguments of the function
+ * @param paramTypes Move types of the parameters of the function, without its signers
+ * @param args Typed arguments, e.g. bigint for u64 and Uint8Array for vector<u8>
+ * @returns TransactionPayloadEntryFunction
+ */
+export function entryFunctionPayload(
+  func: Gen.EntryFunctionId,
+  typeArgs: Gen.MoveType[],
+  paramTypes: Gen.MoveType[],
+  args: any[],
+): TransactionPayloadEntryFunction {
+  checkArgs(func, paramTypes, args);
+  const [address, module, name] = func.split("::");
+  const bcsArgs = paramTypes.map((type, i) => {
+    const serializer = new Serializer();
+    serializeArg(args[i], parseType(type, typeArgs), serializer);
+    return serializer.getBytes();
+  });
+  return new TransactionPayloadEntryFunction(
+    EntryFunction.natural(
+      `${address}::${module}`,
+      name,
+      typeArgs.map((typeArg) => parseType(typeArg, [])),
+      bcsArgs,
+    ),
+  );
+}
+
+/**
+ * Calls a view function with typed arguments and returns typed values, as generated view functions do
+ *
+ * @param client The client calling the view API
+ * @param func Fully qualified function name, e.g. 0x1::coin::balance
+ * @param typeArgs Type arguments of the function
+ * @param paramTypes Move types of the parameters of the function
+ * @param returnTypes Move types the function returns
+ * @param args Typed arguments, e.g. bigint for u64 and Uint8Array for vector<u8>
+ * @param ledgerVersion The ledger version to call the function at, the latest by default
+ * @returns The typed values the function returns, e.g. bigint for u64 and undefined for an empty Option
+ */
+export async function callViewFunction(
+  client: ViewClient,
+  func: Gen.EntryFunctionId,
+  typeArgs: Gen.MoveType[],
+  paramTypes: Gen.MoveType[],
+  returnTypes: Gen.MoveType[],
+  args: any[],
+  ledgerVersion?: string,
+): Promise<any[]> {
+  checkArgs(func, paramTypes, args);
+  const values = await client.view(
+    {
+      function: func,
+      type_arguments: typeArgs,
+      arguments: args.map((arg, i) => toViewArgument(arg, parseType(paramTypes[i], typeArgs))),
+    },
+    ledgerVersion,
+  );
+  return values.map((value, i) => fromMoveValue(value, parseType(returnTypes[i], typeArgs)));
+}
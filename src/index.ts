@@ -4,6 +4,7 @@
 export * from "./account";
 export * from "./providers";
 export * as BCS from "./bcs";
+export * as Codegen from "./codegen";
 export * from "./utils/hex_string";
 export * from "./plugins";
 export * from "./transaction_builder";
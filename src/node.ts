@@ -0,0 +1,8 @@
+// Copyright © Aptos Foundation
+// SPDX-License-Identifier: Apache-2.0
+
+/**
+ * Features that rely on Node built-ins, e.g. worker threads, published as `@martiandao/aptos-web3-bip44.js/node`.
+ * They are kept out of the main entry point so that the SDK can be bundled for browsers.
+ */
+export * from "./account/vanity";
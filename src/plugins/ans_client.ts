@@ -1,6 +1,6 @@
-import { AptosClient, Provider, OptionalTransactionArgs, ApiError } from "../providers";
+import { Provider, OptionalTransactionArgs, ApiError } from "../providers";
 import * as Gen from "../generated/index";
-import { AptosAccount } from "../account";
+import { Signer } from "../account";
 import { AccountAddress } from "../aptos_types";
 import { TransactionBuilderRemoteABI } from "../transaction_builder";
 
@@ -113,7 +113,7 @@ export class AnsClient {
    * @returns The hash of the pending transaction submitted to the API
    */
   async mintAptosName(
-    account: AptosAccount,
+    account: Signer,
     domainName: string,
     years: number = 1,
     extraArgs?: OptionalTransactionArgs,
@@ -137,7 +137,7 @@ export class AnsClient {
     });
     const rawTxn = await builder.build(`${this.contractAddress}::domains::register_domain`, [], [domainName, years]);
 
-    const bcsTxn = AptosClient.generateBCSTransaction(account, rawTxn);
+    const bcsTxn = await this.provider.signTransaction(account, rawTxn);
     const pendingTransaction = await this.provider.submitSignedBCSTransaction(bcsTxn);
 
     return pendingTransaction.hash;
@@ -153,7 +153,7 @@ export class AnsClient {
    * @returns The hash of the pending transaction submitted to the API
    */
   async mintAptosSubdomain(
-    account: AptosAccount,
+    account: Signer,
     subdomainName: string,
     domainName: string,
     expirationTimestampSeconds?: number,
@@ -201,7 +201,7 @@ export class AnsClient {
       [subdomainName, domainName, actualExpirationTimestampSeconds],
     );
 
-    const bcsTxn = AptosClient.generateBCSTransaction(account, rawTxn);
+    const bcsTxn = await this.provider.signTransaction(account, rawTxn);
     const pendingTransaction = await this.provider.submitSignedBCSTransaction(bcsTxn);
 
     return pendingTransaction.hash;
@@ -215,7 +215,7 @@ export class AnsClient {
    * @returns The hash of the pending transaction submitted to the API
    */
   async setSubdomainAddress(
-    account: AptosAccount,
+    account: Signer,
     subdomainName: string,
     domainName: string,
     target: string,
@@ -242,7 +242,7 @@ export class AnsClient {
       [subdomainName, domainName, standardizeAddress],
     );
 
-    const bcsTxn = AptosClient.generateBCSTransaction(account, rawTxn);
+    const bcsTxn = await this.provider.signTransaction(account, rawTxn);
     const pendingTransaction = await this.provider.submitSignedBCSTransaction(bcsTxn);
 
     return pendingTransaction.hash;
@@ -254,14 +254,14 @@ export class AnsClient {
    * @param owner the `aptos_names` AptosAccount
    * @returns The hash of the pending transaction submitted to the API
    */
-  async initReverseLookupRegistry(owner: AptosAccount, extraArgs?: OptionalTransactionArgs): Promise<Gen.HashValue> {
+  async initReverseLookupRegistry(owner: Signer, extraArgs?: OptionalTransactionArgs): Promise<Gen.HashValue> {
     const builder = new TransactionBuilderRemoteABI(this.provider.aptosClient, {
       sender: owner.address(),
       ...extraArgs,
     });
     const rawTxn = await builder.build(`${this.contractAddress}::domains::init_reverse_lookup_registry_v1`, [], []);
 
-    const bcsTxn = AptosClient.generateBCSTransaction(owner, rawTxn);
+    const bcsTxn = await this.provider.signTransaction(owner, rawTxn);
     const pendingTransaction = await this.provider.submitSignedBCSTransaction(bcsTxn);
 
     return pendingTransaction.hash;
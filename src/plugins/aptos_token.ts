@@ -3,11 +3,11 @@
 
 /* eslint-disable max-len */
 
-import { AptosAccount } from "../account/aptos_account";
+import { Signer } from "../account/signer";
 import { AnyNumber } from "../bcs";
 import { MAX_U64_BIG_INT } from "../bcs/consts";
 import { Provider } from "../providers";
-import { AptosClient, OptionalTransactionArgs } from "../providers/aptos_client";
+import { OptionalTransactionArgs } from "../providers/aptos_client";
 import { TransactionBuilderRemoteABI } from "../transaction_builder";
 import { HexString, MaybeHexString } from "../utils";
 import { getPropertyValueRaw, getSinglePropertyValueRaw } from "../utils/property_map_serde";
@@ -43,7 +43,7 @@ const PropertyTypeMap = {
 export type PropertyType = keyof typeof PropertyTypeMap;
 
 type FungibleTokenParameters = {
-  owner: AptosAccount;
+  owner: Signer;
   tokenAddress: MaybeHexString;
   recipient: MaybeHexString;
   amount: number | bigint;
@@ -51,7 +51,7 @@ type FungibleTokenParameters = {
 };
 
 type NonFungibleTokenParameters = {
-  owner: AptosAccount;
+  owner: Signer;
   tokenAddress: MaybeHexString;
   recipient: MaybeHexString;
   tokenType?: string;
@@ -76,7 +76,7 @@ export class AptosToken {
   }
 
   private async submitTransaction(
-    account: AptosAccount,
+    account: Signer,
     funcName: string,
     typeArgs: string[],
     args: any[],
@@ -87,7 +87,7 @@ export class AptosToken {
       ...extraArgs,
     });
     const rawTxn = await builder.build(`0x4::aptos_token::${funcName}`, typeArgs, args);
-    const bcsTxn = AptosClient.generateBCSTransaction(account, rawTxn);
+    const bcsTxn = await this.provider.signTransaction(account, rawTxn);
     const pendingTransaction = await this.provider.submitSignedBCSTransaction(bcsTxn);
     return pendingTransaction.hash;
   }
@@ -103,7 +103,7 @@ export class AptosToken {
    * @returns The hash of the transaction submitted to the API
    */
   async createCollection(
-    creator: AptosAccount,
+    creator: Signer,
     description: string,
     name: string,
     uri: string,
@@ -150,7 +150,7 @@ export class AptosToken {
    * @returns The hash of the transaction submitted to the API
    */
   async mint(
-    account: AptosAccount,
+    account: Signer,
     collection: string,
     description: string,
     name: string,
@@ -192,12 +192,12 @@ export class AptosToken {
    * @returns The hash of the transaction submitted to the API
    */
   async mintSoulBound(
-    account: AptosAccount,
+    account: Signer,
     collection: string,
     description: string,
     name: string,
     uri: string,
-    recipient: AptosAccount,
+    recipient: Signer,
     propertyKeys: Array<string> = [],
     propertyTypes: Array<string> = [],
     propertyValues: Array<string> = [],
@@ -228,7 +228,7 @@ export class AptosToken {
    * @returns The hash of the transaction submitted to the API
    */
   async burnToken(
-    creator: AptosAccount,
+    creator: Signer,
     token: MaybeHexString,
     tokenType?: string,
     extraArgs?: OptionalTransactionArgs,
@@ -249,7 +249,7 @@ export class AptosToken {
    * @returns The hash of the transaction submitted to the API
    */
   async freezeTokenTransafer(
-    creator: AptosAccount,
+    creator: Signer,
     token: MaybeHexString,
     tokenType?: string,
     extraArgs?: OptionalTransactionArgs,
@@ -270,7 +270,7 @@ export class AptosToken {
    * @returns The hash of the transaction submitted to the API
    */
   async unfreezeTokenTransafer(
-    creator: AptosAccount,
+    creator: Signer,
     token: MaybeHexString,
     tokenType?: string,
     extraArgs?: OptionalTransactionArgs,
@@ -292,7 +292,7 @@ export class AptosToken {
    * @returns The hash of the transaction submitted to the API
    */
   async setTokenDescription(
-    creator: AptosAccount,
+    creator: Signer,
     token: MaybeHexString,
     description: string,
     tokenType?: string,
@@ -315,7 +315,7 @@ export class AptosToken {
    * @returns The hash of the transaction submitted to the API
    */
   async setTokenName(
-    creator: AptosAccount,
+    creator: Signer,
     token: MaybeHexString,
     name: string,
     tokenType?: string,
@@ -338,7 +338,7 @@ export class AptosToken {
    * @returns The hash of the transaction submitted to the API
    */
   async setTokenURI(
-    creator: AptosAccount,
+    creator: Signer,
     token: MaybeHexString,
     uri: string,
     tokenType?: string,
@@ -363,7 +363,7 @@ export class AptosToken {
    * @returns The hash of the transaction submitted to the API
    */
   async addTokenProperty(
-    creator: AptosAccount,
+    creator: Signer,
     token: MaybeHexString,
     propertyKey: string,
     propertyType: PropertyType,
@@ -393,7 +393,7 @@ export class AptosToken {
    * @returns The hash of the transaction submitted to the API
    */
   async removeTokenProperty(
-    creator: AptosAccount,
+    creator: Signer,
     token: MaybeHexString,
     propertyKey: string,
     tokenType?: string,
@@ -418,7 +418,7 @@ export class AptosToken {
    * @returns The hash of the transaction submitted to the API
    */
   async updateTokenProperty(
-    creator: AptosAccount,
+    creator: Signer,
     token: MaybeHexString,
     propertyKey: string,
     propertyType: PropertyType,
@@ -441,7 +441,7 @@ export class AptosToken {
   }
 
   async addTypedProperty(
-    creator: AptosAccount,
+    creator: Signer,
     token: MaybeHexString,
     propertyKey: string,
     propertyType: PropertyType,
@@ -459,7 +459,7 @@ export class AptosToken {
   }
 
   async updateTypedProperty(
-    creator: AptosAccount,
+    creator: Signer,
     token: MaybeHexString,
     propertyKey: string,
     propertyType: PropertyType,
@@ -485,7 +485,7 @@ export class AptosToken {
    * @returns The hash of the transaction submitted to the API
    */
   async transferTokenOwnership(
-    owner: AptosAccount,
+    owner: Signer,
     token: MaybeHexString,
     recipient: MaybeHexString,
     tokenType?: string,
@@ -500,7 +500,7 @@ export class AptosToken {
       [tokenType || this.tokenType],
       [HexString.ensure(token).hex(), HexString.ensure(recipient).hex()],
     );
-    const bcsTxn = AptosClient.generateBCSTransaction(owner, rawTxn);
+    const bcsTxn = await this.provider.signTransaction(owner, rawTxn);
     const pendingTransaction = await this.provider.submitSignedBCSTransaction(bcsTxn);
     return pendingTransaction.hash;
   }
@@ -1,6 +1,7 @@
 // Copyright © Aptos Foundation
 // SPDX-License-Identifier: Apache-2.0
-import { AptosAccount, getAddressFromAccountOrAddress } from "../account/aptos_account";
+import { getAddressFromAccountOrAddress } from "../account/aptos_account";
+import { Signer } from "../account/signer";
 import { AptosClient, OptionalTransactionArgs } from "../providers/aptos_client";
 import { MaybeHexString, APTOS_COIN, NetworkToIndexerAPI, NodeAPIToNetwork } from "../utils";
 import { TransactionBuilderRemoteABI } from "../transaction_builder";
@@ -48,8 +49,8 @@ export class CoinClient {
    */
   // :!:>transfer
   async transfer(
-    from: AptosAccount,
-    to: AptosAccount | MaybeHexString,
+    from: Signer,
+    to: Signer | MaybeHexString,
     amount: number | bigint,
     extraArgs?: OptionalTransactionArgs & {
       // The coin type to use, defaults to 0x1::aptos_coin::AptosCoin.
@@ -95,7 +96,7 @@ export class CoinClient {
     const builder = new TransactionBuilderRemoteABI(this.aptosClient, { sender: from.address(), ...extraArgs });
     const rawTxn = await builder.build(func, [coinTypeToTransfer as string], [toAddress, amount]);
 
-    const bcsTxn = AptosClient.generateBCSTransaction(from, rawTxn);
+    const bcsTxn = await this.aptosClient.signTransaction(from, rawTxn);
     const pendingTransaction = await this.aptosClient.submitSignedBCSTransaction(bcsTxn);
     return pendingTransaction.hash;
   } // <:!:transfer
@@ -117,7 +118,7 @@ export class CoinClient {
    */
   // :!:>checkBalance
   async checkBalance(
-    account: AptosAccount | MaybeHexString,
+    account: Signer | MaybeHexString,
     extraArgs?: {
       // The coin type to use, defaults to 0x1::aptos_coin::AptosCoin.
       // If you want to check the balance of a fungible asset, set this param to be the
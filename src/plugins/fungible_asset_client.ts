@@ -1,4 +1,4 @@
-import { AptosAccount } from "../account";
+import { Signer } from "../account";
 import { RawTransaction } from "../aptos_types";
 import * as Gen from "../generated/index";
 import { OptionalTransactionArgs, Provider } from "../providers";
@@ -32,7 +32,7 @@ export class FungibleAssetClient {
    * @returns The hash of the transaction submitted to the API
    */
   async transfer(
-    sender: AptosAccount,
+    sender: Signer,
     fungibleAssetMetadataAddress: MaybeHexString,
     recipient: MaybeHexString,
     amount: number | bigint,
@@ -82,7 +82,7 @@ export class FungibleAssetClient {
    * @returns Raw Transaction
    */
   async generateTransfer(
-    sender: AptosAccount,
+    sender: Signer,
     fungibleAssetMetadataAddress: MaybeHexString,
     recipient: MaybeHexString,
     amount: number | bigint,
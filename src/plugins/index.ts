@@ -4,3 +4,4 @@ export * from "./coin_client";
 export * from "./faucet_client";
 export * from "./ans_client";
 export * from "./fungible_asset_client";
+export * from "./multisig_account_client";
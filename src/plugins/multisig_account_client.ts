@@ -0,0 +1,521 @@
+// Copyright © Aptos Foundation
+// SPDX-License-Identifier: Apache-2.0
+
+import { sha3_256 as sha3Hash } from "@noble/hashes/sha3";
+import { AptosAccount } from "../account/aptos_account";
+import { Signer } from "../account/signer";
+import { AptosClient, OptionalTransactionArgs } from "../providers/aptos_client";
+import * as Gen from "../generated/index";
+import { AnyNumber, bcsSerializeUint64, bcsToBytes } from "../bcs";
+import { TransactionBuilderRemoteABI, TxnBuilderTypes } from "../transaction_builder";
+import { HexString, MaybeHexString } from "../utils";
+
+const MULTISIG_ACCOUNT_MODULE = "0x1::multisig_account";
+
+// The domain separator of the seeds multisig accounts are created from, see `create_multisig_account_seed`
+const MULTISIG_ACCOUNT_DOMAIN_SEPARATOR = "aptos_framework::multisig_account";
+
+/**
+ * A transaction proposed to a multisig account, along with its votes
+ *
+ * @param sequenceNumber - the sequence number of the transaction within the multisig account
+ * @param creator - the owner who proposed the transaction
+ * @param creationTimeSecs - when the transaction was proposed
+ * @param payload - the BCS encoded `MultiSigTransactionPayload`, unless only its hash was proposed
+ * @param payloadHash - the sha3-256 hash of the payload, if only the hash was proposed
+ * @param approvals - the owners who approved the transaction
+ * @param rejections - the owners who rejected the transaction
+ * @param canBeExecuted - whether the transaction is next in line and has enough approvals to be executed
+ * @param canBeRejected - whether the transaction is next in line and has enough rejections to be removed
+ */
+export type MultisigTransaction = {
+  sequenceNumber: bigint;
+  creator: string;
+  creationTimeSecs: bigint;
+  payload?: Uint8Array;
+  payloadHash?: Uint8Array;
+  approvals: string[];
+  rejections: string[];
+  canBeExecuted: boolean;
+  canBeRejected: boolean;
+};
+
+type MoveOption<T> = { vec: T[] };
+
+type MultisigTransactionResource = {
+  payload: MoveOption<string>;
+  payload_hash: MoveOption<string>;
+  votes: { data: { key: string; value: boolean }[] };
+  creator: string;
+  creation_time_secs: string;
+};
+
+/**
+ * Class for working with on-chain multisig accounts, i.e. accounts managed by the `0x1::multisig_account` module.
+ *
+ * Owners propose transactions to the multisig account, vote on them, and once enough owners approved a
+ * transaction any owner can execute it on behalf of the multisig account. Transactions are executed in
+ * the order they were proposed, each of them being either executed or rejected before the next one.
+ *
+ * @example
+ * ```
+ * const multisig = new MultisigAccountClient(client);
+ * const { hash, multisigAddress } = await multisig.createAccount(alice, [bob.address()], 2);
+ * await multisig.createTransaction(alice, multisigAddress, {
+ *   function: "0x1::aptos_account::transfer",
+ *   type_arguments: [],
+ *   arguments: [carol.address(), 100],
+ * });
+ * await multisig.approveTransaction(bob, multisigAddress, 1);
+ * await multisig.executeTransaction(bob, multisigAddress);
+ * ```
+ */
+export class MultisigAccountClient {
+  aptosClient: AptosClient;
+
+  /**
+   * Creates new MultisigAccountClient instance
+   *
+   * @param aptosClient AptosClient instance
+   */
+  constructor(aptosClient: AptosClient) {
+    this.aptosClient = aptosClient;
+  }
+
+  /**
+   * Computes the address of the multisig account created by the transaction of the given sequence number
+   *
+   * @param creator The account creating the multisig account
+   * @param sequenceNumber The sequence number of the creating transaction
+   * @returns The address of the multisig account
+   */
+  static getMultisigAccountAddress(creator: MaybeHexString, sequenceNumber: AnyNumber): HexString {
+    const seed = new Uint8Array([
+      ...new TextEncoder().encode(MULTISIG_ACCOUNT_DOMAIN_SEPARATOR),
+      ...bcsSerializeUint64(sequenceNumber),
+    ]);
+    return AptosAccount.getResourceAccountAddress(creator, seed);
+  }
+
+  /**
+   * Creates a multisig account owned by the creator and the additional owners
+   *
+   * @param creator The account creating the multisig account, which becomes one of its owners
+   * @param additionalOwners The other owners of the multisig account
+   * @param numSignaturesRequired The number of approvals a transaction needs to be executed
+   * @param metadata Metadata stored along with the multisig account, e.g. its name
+   * @param extraArgs Extra args for building the transaction
+   * @returns The hash of the transaction submitted to the API, and the address of the created multisig account
+   */
+  async createAccount(
+    creator: Signer,
+    additionalOwners: MaybeHexString[],
+    numSignaturesRequired: AnyNumber,
+    metadata: Record<string, Uint8Array> = {},
+    extraArgs?: OptionalTransactionArgs,
+  ): Promise<{ hash: string; multisigAddress: HexString }> {
+    const rawTxn = await this.generateTransaction(
+      creator.address(),
+      `${MULTISIG_ACCOUNT_MODULE}::create_with_owners`,
+      [
+        additionalOwners.map((owner) => HexString.ensure(owner).hex()),
+        numSignaturesRequired,
+        Object.keys(metadata),
+        Object.values(metadata),
+      ],
+      extraArgs,
+    );
+    const hash = await this.signAndSubmit(creator, rawTxn);
+    return {
+      hash,
+      multisigAddress: MultisigAccountClient.getMultisigAccountAddress(creator.address(), rawTxn.sequence_number),
+    };
+  }
+
+  /**
+   * Proposes a transaction to the multisig account, storing its full payload on chain
+   *
+   * @param owner An owner of the multisig account
+   * @param multisigAddress The address of the multisig account
+   * @param payload The entry function to execute on behalf of the multisig account
+   * @param extraArgs Extra args for building the transaction
+   * @returns The hash of the transaction submitted to the API
+   */
+  async createTransaction(
+    owner: Signer,
+    multisigAddress: MaybeHexString,
+    payload: Gen.EntryFunctionPayload,
+    extraArgs?: OptionalTransactionArgs,
+  ): Promise<string> {
+    const multisigPayload = await this.generateMultisigPayload(multisigAddress, payload);
+    return this.submitTransaction(
+      owner,
+      "create_transaction",
+      [HexString.ensure(multisigAddress).hex(), bcsToBytes(multisigPayload)],
+      extraArgs,
+    );
+  }
+
+  /**
+   * Proposes a transaction to the multisig account, storing only the hash of its payload on chain.
+   * The full payload then has to be provided to `executeTransaction`.
+   *
+   * @param owner An owner of the multisig account
+   * @param multisigAddress The address of the multisig account
+   * @param payload The entry function to execute on behalf of the multisig account
+   * @param extraArgs Extra args for building the transaction
+   * @returns The hash of the transaction submitted to the API
+   */
+  async createTransactionWithHash(
+    owner: Signer,
+    multisigAddress: MaybeHexString,
+    payload: Gen.EntryFunctionPayload,
+    extraArgs?: OptionalTransactionArgs,
+  ): Promise<string> {
+    const multisigPayload = await this.generateMultisigPayload(multisigAddress, payload);
+    return this.submitTransaction(
+      owner,
+      "create_transaction_with_hash",
+      [HexString.ensure(multisigAddress).hex(), sha3Hash(bcsToBytes(multisigPayload))],
+      extraArgs,
+    );
+  }
+
+  /**
+   * Approves a transaction proposed to the multisig account
+   *
+   * @param owner An owner of the multisig account
+   * @param multisigAddress The address of the multisig account
+   * @param sequenceNumber The sequence number of the transaction within the multisig account
+   * @param extraArgs Extra args for building the transaction
+   * @returns The hash of the transaction submitted to the API
+   */
+  async approveTransaction(
+    owner: Signer,
+    multisigAddress: MaybeHexString,
+    sequenceNumber: AnyNumber,
+    extraArgs?: OptionalTransactionArgs,
+  ): Promise<string> {
+    return this.submitTransaction(
+      owner,
+      "approve_transaction",
+      [HexString.ensure(multisigAddress).hex(), sequenceNumber],
+      extraArgs,
+    );
+  }
+
+  /**
+   * Rejects a transaction proposed to the multisig account
+   *
+   * @param owner An owner of the multisig account
+   * @param multisigAddress The address of the multisig account
+   * @param sequenceNumber The sequence number of the transaction within the multisig account
+   * @param extraArgs Extra args for building the transaction
+   * @returns The hash of the transaction submitted to the API
+   */
+  async rejectTransaction(
+    owner: Signer,
+    multisigAddress: MaybeHexString,
+    sequenceNumber: AnyNumber,
+    extraArgs?: OptionalTransactionArgs,
+  ): Promise<string> {
+    return this.submitTransaction(
+      owner,
+      "reject_transaction",
+      [HexString.ensure(multisigAddress).hex(), sequenceNumber],
+      extraArgs,
+    );
+  }
+
+  /**
+   * Executes the next transaction of the multisig account, which must have enough approvals
+   *
+   * @param owner An owner of the multisig account
+   * @param multisigAddress The address of the multisig account
+   * @param payload The entry function of the transaction. Only required when only its hash was proposed
+   * @param extraArgs Extra args for building the transaction
+   * @returns The hash of the transaction submitted to the API
+   */
+  async executeTransaction(
+    owner: Signer,
+    multisigAddress: MaybeHexString,
+    payload?: Gen.EntryFunctionPayload,
+    extraArgs?: OptionalTransactionArgs,
+  ): Promise<string> {
+    const multisigPayload = payload ? await this.generateMultisigPayload(multisigAddress, payload) : undefined;
+    const transactionPayload = new TxnBuilderTypes.TransactionPayloadMultisig(
+      new TxnBuilderTypes.MultiSig(TxnBuilderTypes.AccountAddress.fromHex(multisigAddress), multisigPayload),
+    );
+    return this.aptosClient.generateSignSubmitTransaction(owner, transactionPayload, extraArgs);
+  }
+
+  /**
+   * Removes the next transaction of the multisig account, which must have enough rejections
+   *
+   * @param owner An owner of the multisig account
+   * @param multisigAddress The address of the multisig account
+   * @param extraArgs Extra args for building the transaction
+   * @returns The hash of the transaction submitted to the API
+   */
+  async executeRejectedTransaction(
+    owner: Signer,
+    multisigAddress: MaybeHexString,
+    extraArgs?: OptionalTransactionArgs,
+  ): Promise<string> {
+    return this.submitTransaction(
+      owner,
+      "execute_rejected_transaction",
+      [HexString.ensure(multisigAddress).hex()],
+      extraArgs,
+    );
+  }
+
+  /**
+   * Proposes to add owners to the multisig account. Like any change of the multisig account,
+   * it takes effect once the proposed transaction is approved and executed.
+   *
+   * @param owner An owner of the multisig account
+   * @param multisigAddress The address of the multisig account
+   * @param newOwners The owners to add
+   * @param extraArgs Extra args for building the transaction
+   * @returns The hash of the transaction submitted to the API
+   */
+  async proposeAddOwners(
+    owner: Signer,
+    multisigAddress: MaybeHexString,
+    newOwners: MaybeHexString[],
+    extraArgs?: OptionalTransactionArgs,
+  ): Promise<string> {
+    return this.createTransaction(
+      owner,
+      multisigAddress,
+      {
+        function: `${MULTISIG_ACCOUNT_MODULE}::add_owners`,
+        type_arguments: [],
+        arguments: [newOwners.map((newOwner) => HexString.ensure(newOwner).hex())],
+      },
+      extraArgs,
+    );
+  }
+
+  /**
+   * Proposes to remove owners from the multisig account
+   *
+   * @param owner An owner of the multisig account
+   * @param multisigAddress The address of the multisig account
+   * @param ownersToRemove The owners to remove
+   * @param extraArgs Extra args for building the transaction
+   * @returns The hash of the transaction submitted to the API
+   */
+  async proposeRemoveOwners(
+    owner: Signer,
+    multisigAddress: MaybeHexString,
+    ownersToRemove: MaybeHexString[],
+    extraArgs?: OptionalTransactionArgs,
+  ): Promise<string> {
+    return this.createTransaction(
+      owner,
+      multisigAddress,
+      {
+        function: `${MULTISIG_ACCOUNT_MODULE}::remove_owners`,
+        type_arguments: [],
+        arguments: [ownersToRemove.map((ownerToRemove) => HexString.ensure(ownerToRemove).hex())],
+      },
+      extraArgs,
+    );
+  }
+
+  /**
+   * Proposes to change the number of approvals transactions of the multisig account need
+   *
+   * @param owner An owner of the multisig account
+   * @param multisigAddress The address of the multisig account
+   * @param numSignaturesRequired The new number of approvals
+   * @param extraArgs Extra args for building the transaction
+   * @returns The hash of the transaction submitted to the API
+   */
+  async proposeUpdateSignaturesRequired(
+    owner: Signer,
+    multisigAddress: MaybeHexString,
+    numSignaturesRequired: AnyNumber,
+    extraArgs?: OptionalTransactionArgs,
+  ): Promise<string> {
+    return this.createTransaction(
+      owner,
+      multisigAddress,
+      {
+        function: `${MULTISIG_ACCOUNT_MODULE}::update_signatures_required`,
+        type_arguments: [],
+        arguments: [numSignaturesRequired],
+      },
+      extraArgs,
+    );
+  }
+
+  /**
+   * @param multisigAddress The address of the multisig account
+   * @param query.ledgerVersion The ledger version to read at. By default latest version will be used
+   * @returns The owners of the multisig account
+   */
+  async getOwners(multisigAddress: MaybeHexString, query?: { ledgerVersion?: AnyNumber }): Promise<string[]> {
+    const [owners] = await this.view("owners", multisigAddress, [], query);
+    return owners as string[];
+  }
+
+  /**
+   * @param multisigAddress The address of the multisig account
+   * @param query.ledgerVersion The ledger version to read at. By default latest version will be used
+   * @returns The number of approvals a transaction needs to be executed
+   */
+  async getNumSignaturesRequired(
+    multisigAddress: MaybeHexString,
+    query?: { ledgerVersion?: AnyNumber },
+  ): Promise<bigint> {
+    const [numSignaturesRequired] = await this.view("num_signatures_required", multisigAddress, [], query);
+    return BigInt(numSignaturesRequired as string);
+  }
+
+  /**
+   * Gets a transaction proposed to the multisig account, along with its votes
+   *
+   * @param multisigAddress The address of the multisig account
+   * @param sequenceNumber The sequence number of the transaction within the multisig account
+   * @returns The transaction
+   */
+  async getTransaction(multisigAddress: MaybeHexString, sequenceNumber: AnyNumber): Promise<MultisigTransaction> {
+    const query = await this.getLatestLedgerVersion();
+    const [[transaction], numSignaturesRequired, lastResolvedSequenceNumber] = await Promise.all([
+      this.view("get_transaction", multisigAddress, [sequenceNumber], query),
+      this.getNumSignaturesRequired(multisigAddress, query),
+      this.getLastResolvedSequenceNumber(multisigAddress, query),
+    ]);
+    return MultisigAccountClient.toMultisigTransaction(
+      transaction as MultisigTransactionResource,
+      BigInt(sequenceNumber),
+      numSignaturesRequired,
+      lastResolvedSequenceNumber,
+    );
+  }
+
+  /**
+   * Lists the transactions proposed to the multisig account that were neither executed nor rejected yet
+   *
+   * @param multisigAddress The address of the multisig account
+   * @returns The pending transactions along with their votes, in execution order
+   */
+  async getPendingTransactions(multisigAddress: MaybeHexString): Promise<MultisigTransaction[]> {
+    const query = await this.getLatestLedgerVersion();
+    const [[transactions], numSignaturesRequired, lastResolvedSequenceNumber] = await Promise.all([
+      this.view("get_pending_transactions", multisigAddress, [], query),
+      this.getNumSignaturesRequired(multisigAddress, query),
+      this.getLastResolvedSequenceNumber(multisigAddress, query),
+    ]);
+    // Pending transactions are the ones following the last resolved transaction
+    return (transactions as MultisigTransactionResource[]).map((transaction, i) =>
+      MultisigAccountClient.toMultisigTransaction(
+        transaction,
+        lastResolvedSequenceNumber + BigInt(i + 1),
+        numSignaturesRequired,
+        lastResolvedSequenceNumber,
+      ),
+    );
+  }
+
+  private async getLastResolvedSequenceNumber(
+    multisigAddress: MaybeHexString,
+    query?: { ledgerVersion?: AnyNumber },
+  ): Promise<bigint> {
+    const [sequenceNumber] = await this.view("last_resolved_sequence_number", multisigAddress, [], query);
+    return BigInt(sequenceNumber as string);
+  }
+
+  // The views a transaction is assembled from must read the same ledger version, or they may not match
+  private async getLatestLedgerVersion(): Promise<{ ledgerVersion: AnyNumber }> {
+    const { ledger_version: ledgerVersion } = await this.aptosClient.getLedgerInfo();
+    return { ledgerVersion: BigInt(ledgerVersion) };
+  }
+
+  private static toMultisigTransaction(
+    transaction: MultisigTransactionResource,
+    sequenceNumber: bigint,
+    numSignaturesRequired: bigint,
+    lastResolvedSequenceNumber: bigint,
+  ): MultisigTransaction {
+    const votes = transaction.votes.data;
+    const approvals = votes.filter(({ value }) => value).map(({ key }) => key);
+    const rejections = votes.filter(({ value }) => !value).map(({ key }) => key);
+    // Only the transaction following the last resolved one can be executed or rejected
+    const isNext = sequenceNumber === lastResolvedSequenceNumber + BigInt(1);
+    const [payload] = transaction.payload.vec;
+    const [payloadHash] = transaction.payload_hash.vec;
+    return {
+      sequenceNumber,
+      creator: transaction.creator,
+      creationTimeSecs: BigInt(transaction.creation_time_secs),
+      payload: payload !== undefined ? new HexString(payload).toUint8Array() : undefined,
+      payloadHash: payloadHash !== undefined ? new HexString(payloadHash).toUint8Array() : undefined,
+      approvals,
+      rejections,
+      canBeExecuted: isNext && BigInt(approvals.length) >= numSignaturesRequired,
+      canBeRejected: isNext && BigInt(rejections.length) >= numSignaturesRequired,
+    };
+  }
+
+  // Every view function of the module takes the multisig account first, followed by u64 arguments if any
+  private async view(
+    func: string,
+    multisigAddress: MaybeHexString,
+    args: AnyNumber[],
+    query?: { ledgerVersion?: AnyNumber },
+  ): Promise<Gen.MoveValue[]> {
+    return this.aptosClient.view(
+      {
+        function: `${MULTISIG_ACCOUNT_MODULE}::${func}`,
+        type_arguments: [],
+        // The API takes u64 arguments as decimal strings
+        arguments: [HexString.ensure(multisigAddress).hex(), ...args.map((arg) => arg.toString())],
+      },
+      query?.ledgerVersion?.toString(),
+    );
+  }
+
+  private async generateMultisigPayload(
+    multisigAddress: MaybeHexString,
+    payload: Gen.EntryFunctionPayload,
+  ): Promise<TxnBuilderTypes.MultiSigTransactionPayload> {
+    const builder = new TransactionBuilderRemoteABI(this.aptosClient, { sender: multisigAddress });
+    const entryFunction = await builder.buildEntryFunction(payload.function, payload.type_arguments, payload.arguments);
+    return new TxnBuilderTypes.MultiSigTransactionPayload(entryFunction);
+  }
+
+  private async generateTransaction(
+    sender: MaybeHexString,
+    func: string,
+    args: any[],
+    extraArgs?: OptionalTransactionArgs,
+  ): Promise<TxnBuilderTypes.RawTransaction> {
+    const builder = new TransactionBuilderRemoteABI(this.aptosClient, { sender, ...extraArgs });
+    return builder.build(func, [], args);
+  }
+
+  private async signAndSubmit(account: Signer, rawTxn: TxnBuilderTypes.RawTransaction): Promise<string> {
+    const bcsTxn = await this.aptosClient.signTransaction(account, rawTxn);
+    const pendingTransaction = await this.aptosClient.submitSignedBCSTransaction(bcsTxn);
+    return pendingTransaction.hash;
+  }
+
+  private async submitTransaction(
+    owner: Signer,
+    func: string,
+    args: any[],
+    extraArgs?: OptionalTransactionArgs,
+  ): Promise<string> {
+    const rawTxn = await this.generateTransaction(
+      owner.address(),
+      `${MULTISIG_ACCOUNT_MODULE}::${func}`,
+      args,
+      extraArgs,
+    );
+    return this.signAndSubmit(owner, rawTxn);
+  }
+}
@@ -3,14 +3,14 @@
 
 /* eslint-disable max-len */
 
-import { AptosAccount } from "../account/aptos_account";
+import { Signer } from "../account/signer";
 import { AptosClient, OptionalTransactionArgs } from "../providers/aptos_client";
 import * as TokenTypes from "../aptos_types/token_types";
 import * as Gen from "../generated/index";
 import { HexString, MaybeHexString } from "../utils";
-import { TransactionBuilder, TransactionBuilderRemoteABI, TxnBuilderTypes } from "../transaction_builder";
+import { TransactionBuilderRemoteABI, TxnBuilderTypes } from "../transaction_builder";
 import { MAX_U64_BIG_INT } from "../bcs/consts";
-import { AnyNumber, bcsToBytes, Bytes } from "../bcs";
+import { AnyNumber, Bytes } from "../bcs";
 import { getPropertyValueRaw, PropertyMap } from "../utils/property_map_serde";
 import { Token, TokenData } from "../aptos_types/token_types";
 
@@ -41,7 +41,7 @@ export class TokenClient {
    */
   // :!:>createCollection
   async createCollection(
-    account: AptosAccount,
+    account: Signer,
     name: string,
     description: string,
     uri: string,
@@ -57,7 +57,7 @@ export class TokenClient {
       [name, description, uri, maxAmount, [false, false, false]],
     );
 
-    const bcsTxn = AptosClient.generateBCSTransaction(account, rawTxn);
+    const bcsTxn = await this.aptosClient.signTransaction(account, rawTxn);
     const pendingTransaction = await this.aptosClient.submitSignedBCSTransaction(bcsTxn);
     return pendingTransaction.hash;
   }
@@ -82,7 +82,7 @@ export class TokenClient {
    */
   // :!:>createToken
   async createToken(
-    account: AptosAccount,
+    account: Signer,
     collectionName: string,
     name: string,
     description: string,
@@ -120,7 +120,7 @@ export class TokenClient {
       ],
     );
 
-    const bcsTxn = AptosClient.generateBCSTransaction(account, rawTxn);
+    const bcsTxn = await this.aptosClient.signTransaction(account, rawTxn);
     const pendingTransaction = await this.aptosClient.submitSignedBCSTransaction(bcsTxn);
     return pendingTransaction.hash;
   }
@@ -146,7 +146,7 @@ export class TokenClient {
    */
   // :!:>createToken
   async createTokenWithMutabilityConfig(
-    account: AptosAccount,
+    account: Signer,
     collectionName: string,
     name: string,
     description: string,
@@ -184,7 +184,7 @@ export class TokenClient {
       ],
     );
 
-    const bcsTxn = AptosClient.generateBCSTransaction(account, rawTxn);
+    const bcsTxn = await this.aptosClient.signTransaction(account, rawTxn);
     const pendingTransaction = await this.aptosClient.submitSignedBCSTransaction(bcsTxn);
     return pendingTransaction.hash;
   }
@@ -202,7 +202,7 @@ export class TokenClient {
    * @returns The hash of the transaction submitted to the API
    */
   async offerToken(
-    account: AptosAccount,
+    account: Signer,
     receiver: MaybeHexString,
     creator: MaybeHexString,
     collectionName: string,
@@ -218,7 +218,7 @@ export class TokenClient {
       [receiver, creator, collectionName, name, property_version, amount],
     );
 
-    const bcsTxn = AptosClient.generateBCSTransaction(account, rawTxn);
+    const bcsTxn = await this.aptosClient.signTransaction(account, rawTxn);
     const pendingTransaction = await this.aptosClient.submitSignedBCSTransaction(bcsTxn);
     return pendingTransaction.hash;
   }
@@ -235,7 +235,7 @@ export class TokenClient {
    * @returns The hash of the transaction submitted to the API
    */
   async claimToken(
-    account: AptosAccount,
+    account: Signer,
     sender: MaybeHexString,
     creator: MaybeHexString,
     collectionName: string,
@@ -250,7 +250,7 @@ export class TokenClient {
       [sender, creator, collectionName, name, property_version],
     );
 
-    const bcsTxn = AptosClient.generateBCSTransaction(account, rawTxn);
+    const bcsTxn = await this.aptosClient.signTransaction(account, rawTxn);
     const pendingTransaction = await this.aptosClient.submitSignedBCSTransaction(bcsTxn);
     return pendingTransaction.hash;
   }
@@ -267,7 +267,7 @@ export class TokenClient {
    * @returns The hash of the transaction submitted to the API
    */
   async cancelTokenOffer(
-    account: AptosAccount,
+    account: Signer,
     receiver: MaybeHexString,
     creator: MaybeHexString,
     collectionName: string,
@@ -282,7 +282,7 @@ export class TokenClient {
       [receiver, creator, collectionName, name, property_version],
     );
 
-    const bcsTxn = AptosClient.generateBCSTransaction(account, rawTxn);
+    const bcsTxn = await this.aptosClient.signTransaction(account, rawTxn);
     const pendingTransaction = await this.aptosClient.submitSignedBCSTransaction(bcsTxn);
     return pendingTransaction.hash;
   }
@@ -301,8 +301,8 @@ export class TokenClient {
    * @returns The hash of the transaction submitted to the API
    */
   async directTransferToken(
-    sender: AptosAccount,
-    receiver: AptosAccount,
+    sender: Signer,
+    receiver: Signer,
     creator: MaybeHexString,
     collectionName: string,
     name: string,
@@ -321,34 +321,12 @@ export class TokenClient {
       TxnBuilderTypes.AccountAddress.fromHex(receiver.address()),
     ]);
 
-    const senderSignature = new TxnBuilderTypes.Ed25519Signature(
-      sender.signBuffer(TransactionBuilder.getSigningMessage(multiAgentTxn)).toUint8Array(),
+    const transactionRes = await this.aptosClient.submitMultiAgentTransaction(
+      multiAgentTxn,
+      await this.aptosClient.signMultiTransaction(sender, multiAgentTxn),
+      [await this.aptosClient.signMultiTransaction(receiver, multiAgentTxn)],
     );
 
-    const senderAuthenticator = new TxnBuilderTypes.AccountAuthenticatorEd25519(
-      new TxnBuilderTypes.Ed25519PublicKey(sender.signingKey.publicKey),
-      senderSignature,
-    );
-
-    const receiverSignature = new TxnBuilderTypes.Ed25519Signature(
-      receiver.signBuffer(TransactionBuilder.getSigningMessage(multiAgentTxn)).toUint8Array(),
-    );
-
-    const receiverAuthenticator = new TxnBuilderTypes.AccountAuthenticatorEd25519(
-      new TxnBuilderTypes.Ed25519PublicKey(receiver.signingKey.publicKey),
-      receiverSignature,
-    );
-
-    const multiAgentAuthenticator = new TxnBuilderTypes.TransactionAuthenticatorMultiAgent(
-      senderAuthenticator,
-      [TxnBuilderTypes.AccountAddress.fromHex(receiver.address())], // Secondary signer addresses
-      [receiverAuthenticator], // Secondary signer authenticators
-    );
-
-    const bcsTxn = bcsToBytes(new TxnBuilderTypes.SignedTransaction(rawTxn, multiAgentAuthenticator));
-
-    const transactionRes = await this.aptosClient.submitSignedBCSTransaction(bcsTxn);
-
     return transactionRes.hash;
   }
 
@@ -367,13 +345,13 @@ export class TokenClient {
    * @returns The hash of the transaction submitted to the API
    */
   async directTransferTokenWithFeePayer(
-    sender: AptosAccount,
-    receiver: AptosAccount,
+    sender: Signer,
+    receiver: Signer,
     creator: MaybeHexString,
     collectionName: string,
     name: string,
     amount: AnyNumber,
-    fee_payer: AptosAccount,
+    fee_payer: Signer,
     propertyVersion: AnyNumber = 0,
     extraArgs?: OptionalTransactionArgs,
   ): Promise<string> {
@@ -390,44 +368,13 @@ export class TokenClient {
       TxnBuilderTypes.AccountAddress.fromHex(fee_payer.address()),
     );
 
-    const senderSignature = new TxnBuilderTypes.Ed25519Signature(
-      sender.signBuffer(TransactionBuilder.getSigningMessage(feePayerTxn)).toUint8Array(),
+    const transactionRes = await this.aptosClient.submitFeePayerTransaction(
+      feePayerTxn,
+      await this.aptosClient.signMultiTransaction(sender, feePayerTxn),
+      await this.aptosClient.signMultiTransaction(fee_payer, feePayerTxn),
+      [await this.aptosClient.signMultiTransaction(receiver, feePayerTxn)],
     );
 
-    const senderAuthenticator = new TxnBuilderTypes.AccountAuthenticatorEd25519(
-      new TxnBuilderTypes.Ed25519PublicKey(sender.signingKey.publicKey),
-      senderSignature,
-    );
-
-    const receiverSignature = new TxnBuilderTypes.Ed25519Signature(
-      receiver.signBuffer(TransactionBuilder.getSigningMessage(feePayerTxn)).toUint8Array(),
-    );
-
-    const receiverAuthenticator = new TxnBuilderTypes.AccountAuthenticatorEd25519(
-      new TxnBuilderTypes.Ed25519PublicKey(receiver.signingKey.publicKey),
-      receiverSignature,
-    );
-
-    const feePayerSignature = new TxnBuilderTypes.Ed25519Signature(
-      fee_payer.signBuffer(TransactionBuilder.getSigningMessage(feePayerTxn)).toUint8Array(),
-    );
-
-    const feePayerAuthenticator = new TxnBuilderTypes.AccountAuthenticatorEd25519(
-      new TxnBuilderTypes.Ed25519PublicKey(fee_payer.signingKey.publicKey),
-      feePayerSignature,
-    );
-
-    const txAuthenticatorFeePayer = new TxnBuilderTypes.TransactionAuthenticatorFeePayer(
-      senderAuthenticator,
-      [TxnBuilderTypes.AccountAddress.fromHex(receiver.address())],
-      [receiverAuthenticator],
-      { address: TxnBuilderTypes.AccountAddress.fromHex(fee_payer.address()), authenticator: feePayerAuthenticator },
-    );
-
-    const bcsTxn = bcsToBytes(new TxnBuilderTypes.SignedTransaction(rawTxn, txAuthenticatorFeePayer));
-
-    const transactionRes = await this.aptosClient.submitSignedBCSTransaction(bcsTxn);
-
     return transactionRes.hash;
   }
 
@@ -438,10 +385,10 @@ export class TokenClient {
    * @param optIn boolean value indicates user want to opt-in or out of direct transfer
    * @returns The hash of the transaction submitted to the API
    */
-  async optInTokenTransfer(sender: AptosAccount, optIn: boolean, extraArgs?: OptionalTransactionArgs): Promise<string> {
+  async optInTokenTransfer(sender: Signer, optIn: boolean, extraArgs?: OptionalTransactionArgs): Promise<string> {
     const builder = new TransactionBuilderRemoteABI(this.aptosClient, { sender: sender.address(), ...extraArgs });
     const rawTxn = await builder.build("0x3::token::opt_in_direct_transfer", [], [optIn]);
-    const bcsTxn = AptosClient.generateBCSTransaction(sender, rawTxn);
+    const bcsTxn = await this.aptosClient.signTransaction(sender, rawTxn);
     const pendingTransaction = await this.aptosClient.submitSignedBCSTransaction(bcsTxn);
     return pendingTransaction.hash;
   }
@@ -458,7 +405,7 @@ export class TokenClient {
    * @returns The hash of the transaction submitted to the API
    */
   async transferWithOptIn(
-    sender: AptosAccount,
+    sender: Signer,
     creator: MaybeHexString,
     collectionName: string,
     tokenName: string,
@@ -473,7 +420,7 @@ export class TokenClient {
       [],
       [creator, collectionName, tokenName, propertyVersion, receiver, amount],
     );
-    const bcsTxn = AptosClient.generateBCSTransaction(sender, rawTxn);
+    const bcsTxn = await this.aptosClient.signTransaction(sender, rawTxn);
     const pendingTransaction = await this.aptosClient.submitSignedBCSTransaction(bcsTxn);
     return pendingTransaction.hash;
   }
@@ -490,7 +437,7 @@ export class TokenClient {
    * @returns The hash of the transaction submitted to the API
    */
   async burnByCreator(
-    creator: AptosAccount,
+    creator: Signer,
     ownerAddress: MaybeHexString,
     collection: String,
     name: String,
@@ -505,7 +452,7 @@ export class TokenClient {
       [ownerAddress, collection, name, PropertyVersion, amount],
     );
 
-    const bcsTxn = AptosClient.generateBCSTransaction(creator, rawTxn);
+    const bcsTxn = await this.aptosClient.signTransaction(creator, rawTxn);
     const pendingTransaction = await this.aptosClient.submitSignedBCSTransaction(bcsTxn);
     return pendingTransaction.hash;
   }
@@ -522,7 +469,7 @@ export class TokenClient {
    * @returns The hash of the transaction submitted to the API
    */
   async burnByOwner(
-    owner: AptosAccount,
+    owner: Signer,
     creatorAddress: MaybeHexString,
     collection: String,
     name: String,
@@ -537,7 +484,7 @@ export class TokenClient {
       [creatorAddress, collection, name, PropertyVersion, amount],
     );
 
-    const bcsTxn = AptosClient.generateBCSTransaction(owner, rawTxn);
+    const bcsTxn = await this.aptosClient.signTransaction(owner, rawTxn);
     const pendingTransaction = await this.aptosClient.submitSignedBCSTransaction(bcsTxn);
     return pendingTransaction.hash;
   }
@@ -556,7 +503,7 @@ export class TokenClient {
    * @returns The hash of the transaction submitted to the API
    */
   async mutateTokenProperties(
-    account: AptosAccount,
+    account: Signer,
     tokenOwner: HexString,
     creator: HexString,
     collection_name: string,
@@ -575,7 +522,7 @@ export class TokenClient {
       [tokenOwner, creator, collection_name, tokenName, propertyVersion, amount, keys, values, types],
     );
 
-    const bcsTxn = AptosClient.generateBCSTransaction(account, rawTxn);
+    const bcsTxn = await this.aptosClient.signTransaction(account, rawTxn);
     const pendingTransaction = await this.aptosClient.submitSignedBCSTransaction(bcsTxn);
     return pendingTransaction.hash;
   }
@@ -1,6 +1,7 @@
 // Copyright © Aptos Foundation
 // SPDX-License-Identifier: Apache-2.0
 
+import { sha3_256 as sha3Hash } from "@noble/hashes/sha3";
 import {
   clear,
   DEFAULT_TXN_EXP_SEC_FROM_NOW,
@@ -12,9 +13,35 @@ import {
   MaybeHexString,
   Memoize,
   sleep,
+  abortReason,
   APTOS_COIN,
+  decodeMoveAbort,
+  MoveAbortDetails,
 } from "../utils";
 import { AptosAccount } from "../account/aptos_account";
+import { MultiEd25519Account } from "../account/multi_ed25519_account";
+import { Secp256k1Account } from "../account/secp256k1_account";
+import {
+  generateSignedTransaction,
+  isSigner,
+  signAccountAuthenticator,
+  Signer,
+  signerPublicKey,
+} from "../account/signer";
+import {
+  SignedSignInMessage,
+  SignInExpectations,
+  SignInMessage,
+  signInAuthKey,
+  verifySignedSignInMessage,
+} from "../account/sign_in_message";
+import {
+  RotationKey,
+  RotationProof,
+  RotationProofBuilder,
+  rotationProofPayload,
+  verifyRotationProof,
+} from "../account/rotation_proof";
 import * as Gen from "../generated/index";
 import {
   TxnBuilderTypes,
@@ -22,10 +49,14 @@ import {
   TransactionBuilderRemoteABI,
   RemoteABIBuilderConfig,
   TransactionBuilderMultiEd25519,
+  TransactionBuilderSecp256k1,
+  TransactionBuilder,
+  ABIRegistry,
+  SignedTransactionBundle,
+  signedTransactionBytes,
 } from "../transaction_builder";
 import {
   bcsSerializeBytes,
-  bcsSerializeU8,
   bcsToBytes,
   Bytes,
   Seq,
@@ -38,15 +69,56 @@ import {
   Ed25519PublicKey,
   MultiEd25519PublicKey,
   RawTransaction,
+  Secp256k1PublicKey,
 } from "../aptos_types";
-import { get, post, ClientConfig, AptosApiError } from "../client";
+import {
+  get,
+  post,
+  ClientConfig,
+  AptosApiError,
+  EndpointPool,
+} from "../client";
+import type { SequenceNumberManager } from "./sequence_number_manager";
 
 export interface OptionalTransactionArgs {
   maxGasAmount?: Uint64;
   gasUnitPrice?: Uint64;
   expireTimestamp?: Uint64;
+  sequenceNumberManager?: SequenceNumberManager;
 }
 
+/**
+ * The outcome of a single transaction of a batch submission
+ *
+ * @param index The position of the transaction in the submitted batch
+ * @param hash The hash of the transaction
+ * @param accepted Whether the node accepted the transaction into its mempool
+ * @param error Why the node rejected the transaction, if it did
+ */
+export interface BatchTransactionResult {
+  index: number;
+  hash: string;
+  accepted: boolean;
+  error?: Gen.AptosError;
+}
+
+export interface WaitForTransactionArgs {
+  timeoutSecs?: number;
+  checkSuccess?: boolean;
+  signal?: AbortSignal;
+}
+
+/**
+ * A signer to simulate a transaction on behalf of, or its public key.
+ * Hex strings are read as Ed25519 public keys.
+ */
+export type SimulationSigner =
+  | Signer
+  | Ed25519PublicKey
+  | MultiEd25519PublicKey
+  | Secp256k1PublicKey
+  | MaybeHexString;
+
 interface PaginationArgs {
   start?: AnyNumber;
   limit?: number;
@@ -61,6 +133,8 @@ export class AptosClient {
 
   readonly config: ClientConfig | undefined;
 
+  private abiRegistry?: ABIRegistry;
+
   /**
    * Build a client configured to connect to an Aptos node at the given URL.
    *
@@ -68,23 +142,86 @@ export class AptosClient {
    * will automatically append it. If you don't want this URL processing to
    * take place, set doNotFixNodeUrl to true.
    *
-   * @param nodeUrl URL of the Aptos Node API endpoint.
+   * Several URLs can be given to balance the requests across them and fail over
+   * when one of them is down, either as a list, which uses the default
+   * `EndpointPool` options, or as an `EndpointPool`. In that case, `nodeUrl`
+   * is the first URL of the pool.
+   *
+   * @param nodeUrl URL of the Aptos Node API endpoint, or several of them.
    * @param config Additional configuration options for the generated Axios client.
    */
   constructor(
-    nodeUrl: string,
+    nodeUrl: string | string[] | EndpointPool,
     config?: ClientConfig,
     doNotFixNodeUrl: boolean = false
   ) {
-    if (!nodeUrl) {
+    let pool: EndpointPool | undefined;
+    if (nodeUrl instanceof EndpointPool) {
+      pool = nodeUrl;
+    } else if (Array.isArray(nodeUrl) && nodeUrl.length > 0) {
+      pool = new EndpointPool(
+        doNotFixNodeUrl ? nodeUrl : nodeUrl.map((url) => fixNodeUrl(url))
+      );
+    }
+    const url = pool ? pool.urls[0] : nodeUrl;
+    if (!url || typeof url !== "string") {
       throw new Error("Node URL cannot be empty.");
     }
-    if (doNotFixNodeUrl) {
-      this.nodeUrl = nodeUrl;
+    if (doNotFixNodeUrl || pool) {
+      this.nodeUrl = url;
     } else {
-      this.nodeUrl = fixNodeUrl(nodeUrl);
+      this.nodeUrl = fixNodeUrl(url);
     }
     this.config = config === undefined || config === null ? {} : { ...config };
+    if (pool) {
+      this.config.ENDPOINT_POOL = pool;
+    }
+  }
+
+  /**
+   * Returns a copy of this client whose requests are sent with the given config
+   * merged over the current one, e.g. to set a timeout or an abort signal for
+   * a single call.
+   *
+   * @param config The config values to override.
+   * @returns A new client of the same class.
+   *
+   * @example
+   * ```
+   * const controller = new AbortController();
+   * const resources = await client
+   *   .withConfig({ TIMEOUT: 5000, SIGNAL: controller.signal })
+   *   .getAccountResources(address);
+   * ```
+   */
+  withConfig(config: ClientConfig): this {
+    return Object.assign(Object.create(Object.getPrototypeOf(this)), this, {
+      config: { ...this.config, ...config },
+    });
+  }
+
+  /**
+   * Makes the transactions built by this client, and by the clients built on
+   * it, take their ABIs from the registry instead of fetching every module of
+   * an address. Transactions can then be built offline, with the ABIs the
+   * registry holds.
+   *
+   * @param abiRegistry The registry, or undefined to fetch the ABIs again
+   *
+   * @example
+   * ```
+   * client.setABIRegistry(new ABIRegistry({ client, framework: true }));
+   * ```
+   */
+  setABIRegistry(abiRegistry: ABIRegistry | undefined): void {
+    this.abiRegistry = abiRegistry;
+  }
+
+  /**
+   * @returns The ABI registry transactions are built with, if any
+   */
+  getABIRegistry(): ABIRegistry | undefined {
+    return this.abiRegistry;
   }
 
   /**
@@ -252,9 +389,16 @@ export class AptosClient {
 
   /** Generates a signed transaction that can be submitted to the chain for execution. */
   static generateBCSTransaction(
-    accountFrom: AptosAccount,
+    accountFrom: AptosAccount | MultiEd25519Account | Secp256k1Account,
     rawTxn: TxnBuilderTypes.RawTransaction
   ): Uint8Array {
+    if (
+      accountFrom instanceof MultiEd25519Account ||
+      accountFrom instanceof Secp256k1Account
+    ) {
+      return accountFrom.generateBCSTransaction(rawTxn);
+    }
+
     const txnBuilder = new TransactionBuilderEd25519(
       (signingMessage: TxnBuilderTypes.SigningMessage) => {
         // @ts-ignore
@@ -298,6 +442,23 @@ export class AptosClient {
     return txnBuilder.sign(rawTxn);
   }
 
+  /**
+   * Computes the hash of a signed transaction, as the node reports it once
+   * the transaction is submitted.
+   *
+   * @param signedTxn The BCS encoded signed transaction.
+   * @returns The hex encoded transaction hash.
+   */
+  static getTransactionHash(signedTxn: Uint8Array): string {
+    const salt = sha3Hash.create().update("APTOS::Transaction").digest();
+    const hash = sha3Hash.create();
+    hash.update(salt);
+    // The variant index of a user transaction in the `Transaction` enum
+    hash.update(new Uint8Array([0]));
+    hash.update(signedTxn);
+    return HexString.fromUint8Array(hash.digest()).hex();
+  }
+
   /** Generates an entry function transaction request that can be submitted to produce a raw transaction that
    * can be signed, which upon being signed can be submitted to the blockchain
    * This function fetches the remote ABI and uses it to serialized the data, therefore
@@ -378,18 +539,17 @@ export class AptosClient {
 
   /** Converts a transaction request produced by `generateTransaction` into a properly
    * signed transaction, which can then be submitted to the blockchain
-   * @param accountFrom AptosAccount of transaction sender
+   * @param accountFrom Signer of transaction sender, such as an AptosAccount
+   * or a multi Ed25519 account whose local signers meet its threshold
    * @param rawTransaction A raw transaction generated by `generateTransaction` method
    * @returns A transaction, signed with sender account
    */
   // eslint-disable-next-line class-methods-use-this
   async signTransaction(
-    accountFrom: AptosAccount,
+    accountFrom: Signer,
     rawTransaction: TxnBuilderTypes.RawTransaction
   ): Promise<Uint8Array> {
-    return Promise.resolve(
-      AptosClient.generateBCSTransaction(accountFrom, rawTransaction)
-    );
+    return generateSignedTransaction(accountFrom, rawTransaction);
   }
 
   /**
@@ -471,9 +631,9 @@ export class AptosClient {
    * Generates and submits a transaction to the transaction simulation
    * endpoint. For this we generate a transaction with a fake signature.
    *
-   * @param accountOrPubkey The sender or sender's public key. When private key is available, `AptosAccount` instance
-   * can be used to send the transaction for simulation. If private key is not available, sender's public key can be
-   * used to send the transaction for simulation.
+   * @param accountOrPubkey The sender or sender's public key. When the sender's `Signer` (e.g. an `AptosAccount`)
+   * is available, it can be used to send the transaction for simulation. Otherwise, sender's public key can be
+   * used to send the transaction for simulation. Nothing gets signed either way.
    * @param rawTransaction The raw transaction to be simulated, likely created
    * by calling the `generateTransaction` function.
    * @param query.estimateGasUnitPrice If set to true, the gas unit price in the
@@ -486,11 +646,7 @@ export class AptosClient {
    *
    */
   async simulateTransaction(
-    accountOrPubkey:
-      | AptosAccount
-      | Ed25519PublicKey
-      | MultiEd25519PublicKey
-      | MaybeHexString,
+    accountOrPubkey: SimulationSigner,
     rawTransaction: TxnBuilderTypes.RawTransaction,
     query?: {
       estimateGasUnitPrice?: boolean;
@@ -498,26 +654,28 @@ export class AptosClient {
       estimatePrioritizedGasUnitPrice: boolean;
     }
   ): Promise<Gen.UserTransaction[]> {
+    if (isSigner(accountOrPubkey)) {
+      return this.simulateTransaction(
+        signerPublicKey(accountOrPubkey),
+        rawTransaction,
+        query
+      );
+    }
+
     let signedTxn: Uint8Array;
 
-    if (accountOrPubkey instanceof AptosAccount) {
-      signedTxn = AptosClient.generateBCSSimulation(
-        accountOrPubkey,
-        rawTransaction
+    if (accountOrPubkey instanceof MultiEd25519PublicKey) {
+      const txnBuilder = new TransactionBuilderMultiEd25519(
+        () =>
+          AptosClient.generateSimulationMultiEd25519Signature(accountOrPubkey),
+        accountOrPubkey
       );
-    } else if (accountOrPubkey instanceof MultiEd25519PublicKey) {
-      const txnBuilder = new TransactionBuilderMultiEd25519(() => {
-        const { threshold } = accountOrPubkey;
-        const bits: Seq<number> = [];
-        const signatures: TxnBuilderTypes.Ed25519Signature[] = [];
-        for (let i = 0; i < threshold; i += 1) {
-          bits.push(i);
-          signatures.push(
-            new TxnBuilderTypes.Ed25519Signature(new Uint8Array(64))
-          );
-        }
-        const bitmap = TxnBuilderTypes.MultiEd25519Signature.createBitmap(bits);
-        return new TxnBuilderTypes.MultiEd25519Signature(signatures, bitmap);
+
+      signedTxn = txnBuilder.sign(rawTransaction);
+    } else if (accountOrPubkey instanceof Secp256k1PublicKey) {
+      const txnBuilder = new TransactionBuilderSecp256k1(() => {
+        const invalidSigBytes = new Uint8Array(64);
+        return new TxnBuilderTypes.Secp256k1Signature(invalidSigBytes);
       }, accountOrPubkey);
 
       signedTxn = txnBuilder.sign(rawTransaction);
@@ -538,6 +696,373 @@ export class AptosClient {
     return this.submitBCSSimulation(signedTxn, query);
   }
 
+  /**
+   * Generates a fee payer transaction, i.e. a transaction whose gas is paid
+   * by another account than its sender.
+   *
+   * The sender, the secondary signers and the fee payer then each sign the
+   * transaction on their own with `signMultiTransaction`, possibly on
+   * different machines, and the resulting authenticators are assembled with
+   * `generateFeePayerBCSTransaction` or submitted with
+   * `submitFeePayerTransaction`.
+   *
+   * @param sender Hex-encoded 32 byte Aptos account address of transaction sender
+   * @param payload Entry function transaction payload type
+   * @param feePayer Hex-encoded 32 byte Aptos account address of the account paying the gas fees
+   * @param secondarySignerAccounts Hex-encoded 32 byte Aptos account addresses of the
+   * other signers of the entry function, in the order of its signer arguments
+   * @param options Options allow to overwrite default transaction options.
+   * @returns A fee payer raw transaction
+   *
+   * @example
+   * ```
+   * const feePayerTxn = await client.generateFeePayerTransaction(
+   *   alice.address(),
+   *   { function: "0x1::aptos_account::transfer", type_arguments: [], arguments: [bob.address(), 100] },
+   *   sponsor.address()
+   * );
+   * const senderAuthenticator = await client.signMultiTransaction(alice, feePayerTxn);
+   * const feePayerAuthenticator = await client.signMultiTransaction(sponsor, feePayerTxn);
+   * await client.submitFeePayerTransaction(feePayerTxn, senderAuthenticator, feePayerAuthenticator);
+   * ```
+   */
+  async generateFeePayerTransaction(
+    sender: MaybeHexString,
+    payload: Gen.EntryFunctionPayload,
+    feePayer: MaybeHexString,
+    secondarySignerAccounts: MaybeHexString[] = [],
+    options?: Partial<Gen.SubmitTransactionRequest>
+  ): Promise<TxnBuilderTypes.FeePayerRawTransaction> {
+    const rawTxn = await this.generateTransaction(sender, payload, options);
+    return new TxnBuilderTypes.FeePayerRawTransaction(
+      rawTxn,
+      secondarySignerAccounts.map((signer) =>
+        TxnBuilderTypes.AccountAddress.fromHex(signer)
+      ),
+      TxnBuilderTypes.AccountAddress.fromHex(feePayer)
+    );
+  }
+
+  /**
+   * Signs a fee payer or multi agent transaction on behalf of one of its
+   * signers, be it the sender, a secondary signer or the fee payer.
+   *
+   * The authenticator is detached from the transaction, it can be serialized
+   * with `bcsToBytes` and sent to whoever assembles the signed transaction,
+   * then deserialized with `AccountAuthenticator.deserialize`.
+   *
+   * @param signer The account signing the transaction
+   * @param rawTxn The transaction to sign
+   * @returns The signature of the account, along with its public key
+   */
+  // eslint-disable-next-line class-methods-use-this
+  async signMultiTransaction(
+    signer: Signer,
+    rawTxn:
+      | TxnBuilderTypes.MultiAgentRawTransaction
+      | TxnBuilderTypes.FeePayerRawTransaction
+  ): Promise<TxnBuilderTypes.AccountAuthenticator> {
+    return signAccountAuthenticator(
+      signer,
+      TransactionBuilder.getSigningMessage(rawTxn)
+    );
+  }
+
+  /**
+   * Assembles the signed transaction of a fee payer transaction out of the
+   * authenticators of all its signers.
+   *
+   * @param feePayerTxn The transaction generated by `generateFeePayerTransaction`
+   * @param senderAuthenticator The authenticator of the sender
+   * @param feePayerAuthenticator The authenticator of the fee payer
+   * @param secondarySignerAuthenticators The authenticators of the secondary
+   * signers, in the order of `feePayerTxn.secondary_signer_addresses`
+   * @returns The BCS encoded signed transaction, ready to be submitted
+   */
+  static generateFeePayerBCSTransaction(
+    feePayerTxn: TxnBuilderTypes.FeePayerRawTransaction,
+    senderAuthenticator: TxnBuilderTypes.AccountAuthenticator,
+    feePayerAuthenticator: TxnBuilderTypes.AccountAuthenticator,
+    secondarySignerAuthenticators: TxnBuilderTypes.AccountAuthenticator[] = []
+  ): Uint8Array {
+    AptosClient.checkSecondarySignerAuthenticators(
+      feePayerTxn.secondary_signer_addresses,
+      secondarySignerAuthenticators
+    );
+
+    const authenticator = new TxnBuilderTypes.TransactionAuthenticatorFeePayer(
+      senderAuthenticator,
+      feePayerTxn.secondary_signer_addresses,
+      secondarySignerAuthenticators,
+      {
+        address: feePayerTxn.fee_payer_address,
+        authenticator: feePayerAuthenticator,
+      }
+    );
+    return bcsToBytes(
+      new TxnBuilderTypes.SignedTransaction(feePayerTxn.raw_txn, authenticator)
+    );
+  }
+
+  /**
+   * Assembles and submits a fee payer transaction.
+   *
+   * @param feePayerTxn The transaction generated by `generateFeePayerTransaction`
+   * @param senderAuthenticator The authenticator of the sender
+   * @param feePayerAuthenticator The authenticator of the fee payer
+   * @param secondarySignerAuthenticators The authenticators of the secondary
+   * signers, in the order of `feePayerTxn.secondary_signer_addresses`
+   * @returns Transaction that is accepted and submitted to mempool
+   */
+  async submitFeePayerTransaction(
+    feePayerTxn: TxnBuilderTypes.FeePayerRawTransaction,
+    senderAuthenticator: TxnBuilderTypes.AccountAuthenticator,
+    feePayerAuthenticator: TxnBuilderTypes.AccountAuthenticator,
+    secondarySignerAuthenticators: TxnBuilderTypes.AccountAuthenticator[] = []
+  ): Promise<Gen.PendingTransaction> {
+    return this.submitSignedBCSTransaction(
+      AptosClient.generateFeePayerBCSTransaction(
+        feePayerTxn,
+        senderAuthenticator,
+        feePayerAuthenticator,
+        secondarySignerAuthenticators
+      )
+    );
+  }
+
+  /**
+   * Simulates a fee payer transaction. No private key is needed, the
+   * transaction is simulated with fake signatures.
+   *
+   * @param feePayerTxn The transaction generated by `generateFeePayerTransaction`
+   * @param sender The sender or its public key
+   * @param feePayer The fee payer or its public key
+   * @param secondarySigners The secondary signers or their public keys, in
+   * the order of `feePayerTxn.secondary_signer_addresses`
+   * @param query see `simulateTransaction`
+   * @returns Simulation result in the form of UserTransaction
+   */
+  async simulateFeePayerTransaction(
+    feePayerTxn: TxnBuilderTypes.FeePayerRawTransaction,
+    sender: SimulationSigner,
+    feePayer: SimulationSigner,
+    secondarySigners: SimulationSigner[] = [],
+    query?: {
+      estimateGasUnitPrice?: boolean;
+      estimateMaxGasAmount?: boolean;
+      estimatePrioritizedGasUnitPrice?: boolean;
+    }
+  ): Promise<Gen.UserTransaction[]> {
+    const signedTxn = AptosClient.generateFeePayerBCSTransaction(
+      feePayerTxn,
+      AptosClient.generateSimulationAuthenticator(sender),
+      AptosClient.generateSimulationAuthenticator(feePayer),
+      secondarySigners.map((signer) =>
+        AptosClient.generateSimulationAuthenticator(signer)
+      )
+    );
+    return this.submitBCSSimulation(signedTxn, query);
+  }
+
+  /**
+   * Generates a multi agent transaction, i.e. a transaction signed by several
+   * accounts, for entry functions taking several signers.
+   *
+   * The sender and the secondary signers then each sign the transaction on
+   * their own with `signMultiTransaction`, possibly on different machines,
+   * and the resulting authenticators are assembled with
+   * `generateMultiAgentBCSTransaction` or submitted with
+   * `submitMultiAgentTransaction`.
+   *
+   * @param sender Hex-encoded 32 byte Aptos account address of transaction sender
+   * @param payload Entry function transaction payload type
+   * @param secondarySignerAccounts Hex-encoded 32 byte Aptos account addresses of the
+   * other signers of the entry function, in the order of its signer arguments
+   * @param options Options allow to overwrite default transaction options.
+   * @returns A multi agent raw transaction
+   *
+   * @example
+   * ```
+   * const multiAgentTxn = await client.generateMultiAgentTransaction(
+   *   alice.address(),
+   *   { function: "0x3::token::direct_transfer_script", type_arguments: [], arguments: [...] },
+   *   [bob.address()]
+   * );
+   * const senderAuthenticator = await client.signMultiTransaction(alice, multiAgentTxn);
+   * const receiverAuthenticator = await client.signMultiTransaction(bob, multiAgentTxn);
+   * await client.submitMultiAgentTransaction(multiAgentTxn, senderAuthenticator, [receiverAuthenticator]);
+   * ```
+   */
+  async generateMultiAgentTransaction(
+    sender: MaybeHexString,
+    payload: Gen.EntryFunctionPayload,
+    secondarySignerAccounts: MaybeHexString[],
+    options?: Partial<Gen.SubmitTransactionRequest>
+  ): Promise<TxnBuilderTypes.MultiAgentRawTransaction> {
+    const rawTxn = await this.generateTransaction(sender, payload, options);
+    return new TxnBuilderTypes.MultiAgentRawTransaction(
+      rawTxn,
+      secondarySignerAccounts.map((signer) =>
+        TxnBuilderTypes.AccountAddress.fromHex(signer)
+      )
+    );
+  }
+
+  /**
+   * Assembles the signed transaction of a multi agent transaction out of the
+   * authenticators of all its signers.
+   *
+   * @param multiAgentTxn The transaction generated by `generateMultiAgentTransaction`
+   * @param senderAuthenticator The authenticator of the sender
+   * @param secondarySignerAuthenticators The authenticators of the secondary
+   * signers, in the order of `multiAgentTxn.secondary_signer_addresses`
+   * @returns The BCS encoded signed transaction, ready to be submitted
+   */
+  static generateMultiAgentBCSTransaction(
+    multiAgentTxn: TxnBuilderTypes.MultiAgentRawTransaction,
+    senderAuthenticator: TxnBuilderTypes.AccountAuthenticator,
+    secondarySignerAuthenticators: TxnBuilderTypes.AccountAuthenticator[]
+  ): Uint8Array {
+    AptosClient.checkSecondarySignerAuthenticators(
+      multiAgentTxn.secondary_signer_addresses,
+      secondarySignerAuthenticators
+    );
+
+    const authenticator =
+      new TxnBuilderTypes.TransactionAuthenticatorMultiAgent(
+        senderAuthenticator,
+        multiAgentTxn.secondary_signer_addresses,
+        secondarySignerAuthenticators
+      );
+    return bcsToBytes(
+      new TxnBuilderTypes.SignedTransaction(
+        multiAgentTxn.raw_txn,
+        authenticator
+      )
+    );
+  }
+
+  /**
+   * Assembles and submits a multi agent transaction.
+   *
+   * @param multiAgentTxn The transaction generated by `generateMultiAgentTransaction`
+   * @param senderAuthenticator The authenticator of the sender
+   * @param secondarySignerAuthenticators The authenticators of the secondary
+   * signers, in the order of `multiAgentTxn.secondary_signer_addresses`
+   * @returns Transaction that is accepted and submitted to mempool
+   */
+  async submitMultiAgentTransaction(
+    multiAgentTxn: TxnBuilderTypes.MultiAgentRawTransaction,
+    senderAuthenticator: TxnBuilderTypes.AccountAuthenticator,
+    secondarySignerAuthenticators: TxnBuilderTypes.AccountAuthenticator[]
+  ): Promise<Gen.PendingTransaction> {
+    return this.submitSignedBCSTransaction(
+      AptosClient.generateMultiAgentBCSTransaction(
+        multiAgentTxn,
+        senderAuthenticator,
+        secondarySignerAuthenticators
+      )
+    );
+  }
+
+  /**
+   * Simulates a multi agent transaction. No private key is needed, the
+   * transaction is simulated with fake signatures.
+   *
+   * @param multiAgentTxn The transaction generated by `generateMultiAgentTransaction`
+   * @param sender The sender or its public key
+   * @param secondarySigners The secondary signers or their public keys, in
+   * the order of `multiAgentTxn.secondary_signer_addresses`
+   * @param query see `simulateTransaction`
+   * @returns Simulation result in the form of UserTransaction
+   */
+  async simulateMultiAgentTransaction(
+    multiAgentTxn: TxnBuilderTypes.MultiAgentRawTransaction,
+    sender: SimulationSigner,
+    secondarySigners: SimulationSigner[],
+    query?: {
+      estimateGasUnitPrice?: boolean;
+      estimateMaxGasAmount?: boolean;
+      estimatePrioritizedGasUnitPrice?: boolean;
+    }
+  ): Promise<Gen.UserTransaction[]> {
+    const signedTxn = AptosClient.generateMultiAgentBCSTransaction(
+      multiAgentTxn,
+      AptosClient.generateSimulationAuthenticator(sender),
+      secondarySigners.map((signer) =>
+        AptosClient.generateSimulationAuthenticator(signer)
+      )
+    );
+    return this.submitBCSSimulation(signedTxn, query);
+  }
+
+  private static checkSecondarySignerAuthenticators(
+    addresses: Seq<TxnBuilderTypes.AccountAddress>,
+    authenticators: Seq<TxnBuilderTypes.AccountAuthenticator>
+  ) {
+    if (authenticators.length !== addresses.length) {
+      throw new Error(
+        `Expected ${addresses.length} secondary signer authenticators, got ${authenticators.length}`
+      );
+    }
+  }
+
+  /**
+   * Generates an authenticator with a fake signature, to simulate a
+   * transaction on behalf of the given account.
+   */
+  private static generateSimulationAuthenticator(
+    accountOrPubkey: SimulationSigner
+  ): TxnBuilderTypes.AccountAuthenticator {
+    if (isSigner(accountOrPubkey)) {
+      return AptosClient.generateSimulationAuthenticator(
+        signerPublicKey(accountOrPubkey)
+      );
+    }
+    if (accountOrPubkey instanceof MultiEd25519PublicKey) {
+      return new TxnBuilderTypes.AccountAuthenticatorMultiEd25519(
+        accountOrPubkey,
+        AptosClient.generateSimulationMultiEd25519Signature(accountOrPubkey)
+      );
+    }
+    if (accountOrPubkey instanceof Secp256k1PublicKey) {
+      return new TxnBuilderTypes.AccountAuthenticatorSingleKey(
+        new TxnBuilderTypes.AnyPublicKeySecp256k1Ecdsa(accountOrPubkey),
+        new TxnBuilderTypes.AnySignatureSecp256k1Ecdsa(
+          new TxnBuilderTypes.Secp256k1Signature(new Uint8Array(64))
+        )
+      );
+    }
+
+    const publicKey =
+      accountOrPubkey instanceof Ed25519PublicKey
+        ? accountOrPubkey
+        : new Ed25519PublicKey(
+            HexString.ensure(accountOrPubkey).toUint8Array()
+          );
+    return new TxnBuilderTypes.AccountAuthenticatorEd25519(
+      publicKey,
+      new TxnBuilderTypes.Ed25519Signature(new Uint8Array(64))
+    );
+  }
+
+  /**
+   * Generates a multi signature made of `threshold` fake signatures, to
+   * simulate a transaction on behalf of a multi Ed25519 account.
+   */
+  private static generateSimulationMultiEd25519Signature(
+    publicKey: MultiEd25519PublicKey
+  ): TxnBuilderTypes.MultiEd25519Signature {
+    const bits: Seq<number> = [];
+    const signatures: TxnBuilderTypes.Ed25519Signature[] = [];
+    for (let i = 0; i < publicKey.threshold; i += 1) {
+      bits.push(i);
+      signatures.push(new TxnBuilderTypes.Ed25519Signature(new Uint8Array(64)));
+    }
+    const bitmap = TxnBuilderTypes.MultiEd25519Signature.createBitmap(bits);
+    return new TxnBuilderTypes.MultiEd25519Signature(signatures, bitmap);
+  }
+
   /**
    * Submits a signed transaction to the endpoint that takes BCS payload
    *
@@ -560,6 +1085,73 @@ export class AptosClient {
     return data;
   }
 
+  /**
+   * Submits a transaction signed offline, see `signTransactionBundle`
+   *
+   * @param bundle The signed transaction bundle, or its JSON
+   * @returns Transaction that is accepted and submitted to mempool
+   */
+  async submitTransactionBundle(
+    bundle: SignedTransactionBundle | string
+  ): Promise<Gen.PendingTransaction> {
+    return this.submitSignedBCSTransaction(signedTransactionBytes(bundle));
+  }
+
+  /**
+   * Submits several BCS signed transactions at once with the batch endpoint.
+   *
+   * The node accepts or rejects each transaction on its own, so a rejected
+   * transaction does not prevent the others from being submitted. Note that
+   * the node limits the number of transactions of a batch.
+   *
+   * @param signedTxns The BCS encoded signed transactions, e.g. the output of
+   * `generateBCSTransaction`.
+   * @returns The result of every transaction, in submission order.
+   *
+   * @example
+   * ```
+   * const results = await client.submitBatchBCSTransactions(signedTxns);
+   * const accepted = results.filter((result) => result.accepted);
+   * await client.waitForTransactionsWithResult(accepted.map((result) => result.hash));
+   * ```
+   */
+  @parseApiError
+  async submitBatchBCSTransactions(
+    signedTxns: Uint8Array[]
+  ): Promise<BatchTransactionResult[]> {
+    // The body is the BCS encoding of a vector of signed transactions
+    const serializer = new Serializer();
+    serializer.serializeU32AsUleb128(signedTxns.length);
+    signedTxns.forEach((signedTxn) =>
+      serializer.serializeFixedBytes(signedTxn)
+    );
+
+    const { data } = await post<
+      Uint8Array,
+      Gen.TransactionsBatchSubmissionResult
+    >({
+      url: this.nodeUrl,
+      body: serializer.getBytes(),
+      endpoint: "transactions/batch",
+      originMethod: "submitBatchBCSTransactions",
+      contentType: "application/x.aptos.signed_transaction+bcs",
+      overrides: { ...this.config },
+    });
+
+    const failures = new Map(
+      (data?.transaction_failures ?? []).map((failure) => [
+        failure.transaction_index,
+        failure.error,
+      ])
+    );
+    return signedTxns.map((signedTxn, index) => ({
+      index,
+      hash: AptosClient.getTransactionHash(signedTxn),
+      accepted: !failures.has(index),
+      error: failures.get(index),
+    }));
+  }
+
   /**
    * Submits the BCS serialization of a signed transaction to the simulation endpoint.
    *
@@ -701,11 +1293,16 @@ export class AptosClient {
    * will be false. If `checkSuccess` is true, it will instead throw a
    * FailedTransactionError.
    *
-   * In case 4, this function throws a WaitForTransactionError.
+   * In case 4, this function throws a WaitForTransactionError. The timeout
+   * also cuts short a request the node does not answer.
+   *
+   * Aborting `extraArgs.signal` stops waiting, the function then throws the
+   * signal reason.
    *
    * @param txnHash The hash of a transaction previously submitted to the blockchain.
    * @param extraArgs.timeoutSecs Timeout in seconds. Defaults to 20 seconds.
    * @param extraArgs.checkSuccess See above. Defaults to false.
+   * @param extraArgs.signal A signal to stop waiting with.
    * @returns See above.
    *
    * @example
@@ -718,43 +1315,76 @@ export class AptosClient {
    */
   async waitForTransactionWithResult(
     txnHash: string,
-    extraArgs?: { timeoutSecs?: number; checkSuccess?: boolean }
+    extraArgs?: WaitForTransactionArgs
   ): Promise<Gen.Transaction> {
     const timeoutSecs = extraArgs?.timeoutSecs ?? DEFAULT_TXN_TIMEOUT_SEC;
     const checkSuccess = extraArgs?.checkSuccess ?? false;
+    const userSignals = [extraArgs?.signal, this.config?.SIGNAL].filter(
+      (signal): signal is AbortSignal => signal !== undefined
+    );
+
+    // Aborted once the timeout elapses, so that a hung request does not outlive it
+    const controller = new AbortController();
+    const onAbort = () => controller.abort();
+    userSignals.forEach((signal) =>
+      signal.addEventListener("abort", onAbort, { once: true })
+    );
+    const timer = setTimeout(onAbort, timeoutSecs * 1000);
+    const client = this.withConfig({ SIGNAL: controller.signal });
 
     let isPending = true;
     let count = 0;
     let lastTxn: Gen.Transaction | undefined;
 
-    while (isPending) {
-      if (count >= timeoutSecs) {
-        break;
-      }
-      try {
-        // eslint-disable-next-line no-await-in-loop
-        lastTxn = await this.getTransactionByHash(txnHash);
-
-        isPending = lastTxn.type === "pending_transaction";
-        if (!isPending) {
+    try {
+      while (isPending) {
+        if (count >= timeoutSecs || controller.signal.aborted) {
           break;
         }
-      } catch (e) {
-        // In short, this means we will retry if it was an ApiError and the code was 404 or 5xx.
-        const isApiError = e instanceof ApiError;
-        const isRequestError =
-          isApiError && e.status !== 404 && e.status >= 400 && e.status < 500;
-        if (!isApiError || isRequestError) {
-          throw e;
+        try {
+          // eslint-disable-next-line no-await-in-loop
+          lastTxn = await client.getTransactionByHash(txnHash);
+
+          isPending = lastTxn.type === "pending_transaction";
+          if (!isPending) {
+            break;
+          }
+        } catch (e) {
+          if (controller.signal.aborted) {
+            break;
+          }
+          // In short, this means we will retry if it was an ApiError and the code was 404 or 5xx.
+          const isApiError = e instanceof ApiError;
+          const isRequestError =
+            isApiError && e.status !== 404 && e.status >= 400 && e.status < 500;
+          if (!isApiError || isRequestError) {
+            throw e;
+          }
         }
+        // eslint-disable-next-line no-await-in-loop
+        await sleep(1000, controller.signal).catch(() => null);
+        count += 1;
       }
-      // eslint-disable-next-line no-await-in-loop
-      await sleep(1000);
-      count += 1;
+    } finally {
+      clearTimeout(timer);
+      userSignals.forEach((signal) =>
+        signal.removeEventListener("abort", onAbort)
+      );
+    }
+
+    const aborted = userSignals.find((signal) => signal.aborted);
+    if (aborted) {
+      throw abortReason(aborted);
     }
 
     // There is a chance that lastTxn is still undefined. Let's throw some error here
     if (lastTxn === undefined) {
+      if (controller.signal.aborted) {
+        throw new WaitForTransactionError(
+          `Waiting for transaction ${txnHash} timed out after ${timeoutSecs} seconds`,
+          lastTxn
+        );
+      }
       throw new Error(`Waiting for transaction ${txnHash} failed`);
     }
 
@@ -783,11 +1413,31 @@ export class AptosClient {
    */
   async waitForTransaction(
     txnHash: string,
-    extraArgs?: { timeoutSecs?: number; checkSuccess?: boolean }
+    extraArgs?: WaitForTransactionArgs
   ): Promise<void> {
     await this.waitForTransactionWithResult(txnHash, extraArgs);
   }
 
+  /**
+   * Waits for several transactions at once, see `waitForTransactionWithResult`
+   * for the outcome of each of them. The transactions are waited for
+   * concurrently, so the timeout applies to all of them together.
+   *
+   * @param txnHashes The hashes of transactions previously submitted to the blockchain.
+   * @param extraArgs See `waitForTransactionWithResult`.
+   * @returns The outcome of every transaction, in the order of `txnHashes`.
+   */
+  async waitForTransactionsWithResult(
+    txnHashes: string[],
+    extraArgs?: WaitForTransactionArgs
+  ): Promise<PromiseSettledResult<Gen.Transaction>[]> {
+    return Promise.allSettled(
+      txnHashes.map((txnHash) =>
+        this.waitForTransactionWithResult(txnHash, extraArgs)
+      )
+    );
+  }
+
   /**
    * Queries the latest ledger information
    * @returns Latest ledger information
@@ -849,6 +1499,10 @@ export class AptosClient {
 
   /**
    * Generates a raw transaction out of a transaction payload
+   *
+   * When `extraArgs.sequenceNumberManager` is set, the sequence number is
+   * taken from it instead of being fetched from the account.
+   *
    * @param accountFrom
    * @param payload
    * @param extraArgs
@@ -859,17 +1513,37 @@ export class AptosClient {
     payload: TxnBuilderTypes.TransactionPayload,
     extraArgs?: OptionalTransactionArgs
   ): Promise<TxnBuilderTypes.RawTransaction> {
+    const manager = extraArgs?.sequenceNumberManager;
+    if (
+      manager &&
+      manager.address.toShortString() !== accountFrom.toShortString()
+    ) {
+      throw new Error(
+        `Sequence number manager of ${manager.address.hex()} cannot be used for ${accountFrom.hex()}`
+      );
+    }
+
+    const reserved = manager?.nextSequenceNumber();
     const [
       { sequence_number: sequenceNumber },
       chainId,
       { gas_estimate: gasEstimate },
     ] = await Promise.all([
-      this.getAccount(accountFrom),
+      reserved
+        ? reserved.then((next) => ({ sequence_number: next.toString() }))
+        : this.getAccount(accountFrom),
       this.getChainId(),
       extraArgs?.gasUnitPrice
         ? Promise.resolve({ gas_estimate: extraArgs.gasUnitPrice })
         : this.estimateGasPrice(),
-    ]);
+    ]).catch(async (e) => {
+      // The reserved sequence number would otherwise leave a gap
+      await reserved?.then(
+        (next) => manager?.release(next),
+        () => undefined
+      );
+      throw e;
+    });
 
     const { maxGasAmount, gasUnitPrice, expireTimestamp } = {
       maxGasAmount: BigInt(DEFAULT_MAX_GAS_AMOUNT),
@@ -894,13 +1568,13 @@ export class AptosClient {
   /**
    * Helper for generating, signing, and submitting a transaction.
    *
-   * @param sender AptosAccount of transaction sender.
+   * @param sender Signer of transaction sender, such as an AptosAccount.
    * @param payload Transaction payload.
    * @param extraArgs Extra args for building the transaction payload.
    * @returns The transaction response from the API.
    */
   async generateSignSubmitTransaction(
-    sender: AptosAccount,
+    sender: Signer,
     payload: TxnBuilderTypes.TransactionPayload,
     extraArgs?: OptionalTransactionArgs
   ): Promise<string> {
@@ -910,8 +1584,17 @@ export class AptosClient {
       payload,
       extraArgs
     );
-    const bcsTxn = AptosClient.generateBCSTransaction(sender, rawTransaction);
-    const pendingTransaction = await this.submitSignedBCSTransaction(bcsTxn);
+    let pendingTransaction: Gen.PendingTransaction;
+    try {
+      const bcsTxn = await this.signTransaction(sender, rawTransaction);
+      pendingTransaction = await this.submitSignedBCSTransaction(bcsTxn);
+    } catch (e) {
+      await extraArgs?.sequenceNumberManager?.handleError(
+        e,
+        rawTransaction.sequence_number
+      );
+      throw e;
+    }
     return pendingTransaction.hash;
     // <:!:generateSignSubmitTransactionInner
   }
@@ -919,15 +1602,15 @@ export class AptosClient {
   /**
    * Helper for signing and submitting a transaction.
    *
-   * @param sender AptosAccount of transaction sender.
+   * @param sender Signer of transaction sender, such as an AptosAccount.
    * @param transaction A generated Raw transaction payload.
    * @returns The transaction response from the API.
    */
   async signAndSubmitTransaction(
-    sender: AptosAccount,
+    sender: Signer,
     transaction: RawTransaction
   ): Promise<string> {
-    const bcsTxn = AptosClient.generateBCSTransaction(sender, transaction);
+    const bcsTxn = await this.signTransaction(sender, transaction);
     const pendingTransaction = await this.submitSignedBCSTransaction(bcsTxn);
     return pendingTransaction.hash;
   }
@@ -942,7 +1625,7 @@ export class AptosClient {
    * @returns Transaction hash
    */
   async publishPackage(
-    sender: AptosAccount,
+    sender: Signer,
     packageMetadata: Bytes,
     modules: Seq<TxnBuilderTypes.Module>,
     extraArgs?: OptionalTransactionArgs
@@ -975,7 +1658,7 @@ export class AptosClient {
    * @returns Transaction hash
    */
   async createResourceAccountAndPublishPackage(
-    sender: AptosAccount,
+    sender: Signer,
     seed: Bytes,
     packageMetadata: Bytes,
     modules: Seq<TxnBuilderTypes.Module>,
@@ -1007,12 +1690,9 @@ export class AptosClient {
    * those for information about the return / error semantics of this function.
    */
   async generateSignSubmitWaitForTransaction(
-    sender: AptosAccount,
+    sender: Signer,
     payload: TxnBuilderTypes.TransactionPayload,
-    extraArgs?: OptionalTransactionArgs & {
-      checkSuccess?: boolean;
-      timeoutSecs?: number;
-    }
+    extraArgs?: OptionalTransactionArgs & WaitForTransactionArgs
   ): Promise<Gen.Transaction> {
     const txnHash = await this.generateSignSubmitTransaction(
       sender,
@@ -1066,54 +1746,105 @@ export class AptosClient {
     toPrivateKeyBytes: Uint8Array,
     extraArgs?: OptionalTransactionArgs
   ): Promise<Gen.PendingTransaction> {
-    const { sequence_number: sequenceNumber, authentication_key: authKey } =
-      await this.getAccount(forAccount.address());
+    return this.rotateAuthKey(
+      forAccount,
+      new AptosAccount(toPrivateKeyBytes),
+      extraArgs
+    );
+  }
 
-    const helperAccount = new AptosAccount(toPrivateKeyBytes);
+  /**
+   * Rotate an account's auth key to the key(s) of another signer, each of them
+   * signing with either a single or a multi Ed25519 key. After rotation, only
+   * the new key(s) can be used to sign txns for the account.
+   *
+   * Both signers sign a rotation proof, so multi Ed25519 accounts must hold
+   * enough local signers to meet their threshold.
+   *
+   * WARNING: You must create a new instance of the account after using this
+   * function, with the address of `forAccount` and the key(s) of `toAccount`.
+   * @param forAccount Account of which the auth key will be rotated
+   * @param toAccount Account holding the new key(s)
+   * @param extraArgs Extra args for building the transaction payload.
+   * @returns PendingTransaction
+   */
+  async rotateAuthKey(
+    forAccount: Signer,
+    toAccount: Signer,
+    extraArgs?: OptionalTransactionArgs
+  ): Promise<Gen.PendingTransaction> {
+    const builder = await this.createRotationProofBuilder(
+      forAccount,
+      toAccount
+    );
+    await builder.signWithCurrentKey(forAccount);
+    await builder.signWithNewKey(toAccount);
+    return this.rotateAuthKeyWithProof(forAccount, builder.build(), extraArgs);
+  }
 
-    const challenge = new TxnBuilderTypes.RotationProofChallenge(
-      TxnBuilderTypes.AccountAddress.CORE_CODE_ADDRESS,
-      "account",
-      "RotationProofChallenge",
+  /**
+   * Creates the builder of a rotation proof of an account, at its current
+   * sequence number and auth key, to be signed offline by both keys and
+   * submitted with `rotateAuthKeyWithProof`.
+   * @param forAccount Account of which the auth key will be rotated
+   * @param toKey New key of the account, single or multi Ed25519
+   * @returns RotationProofBuilder
+   */
+  async createRotationProofBuilder(
+    forAccount: RotationKey & Pick<Signer, "address">,
+    toKey: RotationKey
+  ): Promise<RotationProofBuilder> {
+    const { sequence_number: sequenceNumber, authentication_key: authKey } =
+      await this.getAccount(forAccount.address());
+    return new RotationProofBuilder(
+      forAccount.address(),
       BigInt(sequenceNumber),
-      TxnBuilderTypes.AccountAddress.fromHex(forAccount.address()),
-      new TxnBuilderTypes.AccountAddress(new HexString(authKey).toUint8Array()),
-      helperAccount.pubKey().toUint8Array()
+      authKey,
+      forAccount,
+      toKey
     );
+  }
 
-    const challengeHex = HexString.fromUint8Array(bcsToBytes(challenge));
-
-    const proofSignedByCurrentPrivateKey =
-      forAccount.signHexString(challengeHex);
-
-    const proofSignedByNewPrivateKey =
-      helperAccount.signHexString(challengeHex);
-
-    const payload = new TxnBuilderTypes.TransactionPayloadEntryFunction(
-      TxnBuilderTypes.EntryFunction.natural(
-        "0x1::account",
-        "rotate_authentication_key",
-        [],
-        [
-          bcsSerializeU8(0), // ed25519 scheme
-          bcsSerializeBytes(forAccount.pubKey().toUint8Array()),
-          bcsSerializeU8(0), // ed25519 scheme
-          bcsSerializeBytes(helperAccount.pubKey().toUint8Array()),
-          bcsSerializeBytes(proofSignedByCurrentPrivateKey.toUint8Array()),
-          bcsSerializeBytes(proofSignedByNewPrivateKey.toUint8Array()),
-        ]
-      )
-    );
+  /**
+   * Rotate an account's auth key with a rotation proof signed beforehand.
+   * The transaction must be sent at the sequence number of the proof.
+   * @param forAccount Account of which the auth key will be rotated, signing
+   * the transaction with its current key
+   * @param proof Rotation proof, see `RotationProofBuilder`
+   * @param extraArgs Extra args for building the transaction payload.
+   * @returns PendingTransaction
+   */
+  async rotateAuthKeyWithProof(
+    forAccount: Signer,
+    proof: RotationProof,
+    extraArgs?: OptionalTransactionArgs
+  ): Promise<Gen.PendingTransaction> {
+    if (
+      HexString.ensure(proof.address).toShortString() !==
+      forAccount.address().toShortString()
+    ) {
+      throw new Error(
+        `The rotation proof of ${proof.address} cannot be sent by ${forAccount
+          .address()
+          .hex()}`
+      );
+    }
+    if (!verifyRotationProof(proof)) {
+      throw new Error("Invalid rotation proof");
+    }
 
     const rawTransaction = await this.generateRawTransaction(
       forAccount.address(),
-      payload,
+      rotationProofPayload(proof),
       extraArgs
     );
-    const bcsTxn = AptosClient.generateBCSTransaction(
-      forAccount,
-      rawTransaction
-    );
+    if (rawTransaction.sequence_number.toString() !== proof.sequenceNumber) {
+      throw new Error(
+        `The rotation proof was made at sequence number ${proof.sequenceNumber}, ` +
+          `the transaction is at ${rawTransaction.sequence_number}`
+      );
+    }
+    const bcsTxn = await this.signTransaction(forAccount, rawTransaction);
     return this.submitSignedBCSTransaction(bcsTxn);
   }
 
@@ -1143,6 +1874,44 @@ export class AptosClient {
     return new HexString(origAddress);
   }
 
+  /**
+   * Verifies a signed sign in message on behalf of a server: its fields,
+   * validity period and signature, and that the public key it was signed with
+   * is the current auth key of the account, including after key rotation.
+   * Accounts not created on chain yet can only sign in with the key their
+   * address derives from.
+   *
+   * The chain id is expected to be the one of this client unless set
+   * otherwise. The server is still responsible for checking that the nonce is
+   * the one it issued, and not used before.
+   * @param signed The signed message, as sent by the wallet
+   * @param expected What the server expects of the message
+   * @returns The verified message
+   */
+  async verifySignInMessage(
+    signed: SignedSignInMessage,
+    expected: SignInExpectations = {}
+  ): Promise<SignInMessage> {
+    const message = verifySignedSignInMessage(signed, {
+      ...expected,
+      chainId: expected.chainId ?? (await this.getChainId()),
+    });
+
+    let authKey = message.address;
+    try {
+      const account = await this.getAccount(message.address);
+      authKey = HexString.ensure(account.authentication_key);
+    } catch (err) {
+      if (!(err instanceof ApiError && err.status === 404)) throw err;
+    }
+    if (authKey.toShortString() !== signInAuthKey(signed).toShortString()) {
+      throw new Error(
+        `The key the sign in message was signed with is not the auth key of ${message.address.hex()}`
+      );
+    }
+    return message;
+  }
+
   /**
    * Get block by height
    *
@@ -1206,7 +1975,7 @@ export class AptosClient {
       url: this.nodeUrl,
       body: payload,
       endpoint: "view",
-      originMethod: "getTableItem",
+      originMethod: "view",
       params: { ledger_version },
       overrides: { ...this.config },
     });
@@ -1238,6 +2007,15 @@ export class WaitForTransactionError extends Error {
  * This error is used by `waitForTransactionWithResult` if `checkSuccess` is true.
  * See that function for more information.
  */
+/**
+ * Whether the transaction was sent by an account, as opposed to the ones the chain itself runs, e.g. block metadata
+ */
+export function isUserTransaction(
+  transaction: Gen.Transaction
+): transaction is Gen.Transaction_UserTransaction {
+  return transaction.type === "user_transaction";
+}
+
 export class FailedTransactionError extends Error {
   public readonly transaction: Gen.Transaction;
 
@@ -1245,6 +2023,17 @@ export class FailedTransactionError extends Error {
     super(message);
     this.transaction = transaction;
   }
+
+  /**
+   * The Move abort the transaction failed with, decoded from its `vm_status`.
+   * Undefined if the transaction failed for another reason, e.g. out of gas.
+   */
+  get moveAbort(): MoveAbortDetails | undefined {
+    if (!isUserTransaction(this.transaction)) {
+      return undefined;
+    }
+    return decodeMoveAbort(this.transaction.vm_status);
+  }
 }
 
 export class ApiError extends Error {
@@ -1256,6 +2045,21 @@ export class ApiError extends Error {
   ) {
     super(message);
   }
+
+  /**
+   * The Move abort the request failed with, e.g. when a view function aborts,
+   * decoded from the error message. Undefined if the error is not a Move abort.
+   */
+  get moveAbort(): MoveAbortDetails | undefined {
+    let { message } = this;
+    try {
+      // `parseApiError` serializes the error response into the message
+      message = JSON.parse(message).message ?? message;
+    } catch (e) {
+      // The message is not JSON, decode it as it is
+    }
+    return decodeMoveAbort(message);
+  }
 }
 
 function parseApiError(
@@ -1,3 +1,5 @@
 export * from "./indexer";
 export * from "./aptos_client";
 export * from "./provider";
+export * from "./sequence_number_manager";
+export * from "./transaction_handle";
@@ -42,7 +42,7 @@ import {
   GetCollectionsWithOwnedTokens,
   GetTokenCurrentOwnerData,
 } from "../indexer/generated/queries";
-import { ClientConfig, post } from "../client";
+import { ClientConfig, post, RetryConfig } from "../client";
 import { ApiError } from "./aptos_client";
 
 /**
@@ -99,10 +99,16 @@ export class IndexerClient {
    * @param graphqlQuery A GraphQL query to pass in the `data` axios call.
    */
   async queryIndexer<T>(graphqlQuery: GraphqlQuery): Promise<T> {
+    // GraphQL queries are read only, so they are safe to retry even though they are sent as POST
+    const retry: RetryConfig | undefined = this.config?.RETRY && {
+      retryableMethods: ["GET", "POST"],
+      ...this.config.RETRY,
+    };
     const response = await post<GraphqlQuery, any>({
       url: this.endpoint,
       body: graphqlQuery,
-      overrides: { WITH_CREDENTIALS: false, ...this.config },
+      originMethod: "queryIndexer",
+      overrides: { WITH_CREDENTIALS: false, ...this.config, RETRY: retry },
     });
     if (response.data.errors) {
       throw new ApiError(
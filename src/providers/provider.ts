@@ -2,7 +2,7 @@ import { AptosClient } from "./aptos_client";
 import { IndexerClient } from "./indexer";
 
 import { CustomEndpoints, Network, NetworkToIndexerAPI, NetworkToNodeAPI } from "../utils";
-import { ClientConfig } from "../client";
+import { ClientConfig, EndpointPool } from "../client";
 
 type NetworkWithCustom = Network | "CUSTOM";
 /**
@@ -99,7 +99,9 @@ applyMixin(Provider, IndexerClient, "indexerClient");
 function isCustomEndpoints(network: CustomEndpoints): network is CustomEndpoints {
   return (
     network.fullnodeUrl !== undefined &&
-    typeof network.fullnodeUrl === "string" &&
+    (typeof network.fullnodeUrl === "string" ||
+      Array.isArray(network.fullnodeUrl) ||
+      network.fullnodeUrl instanceof EndpointPool) &&
     network.indexerUrl !== undefined &&
     typeof network.indexerUrl === "string"
   );
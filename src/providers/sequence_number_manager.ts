@@ -0,0 +1,224 @@
+// Copyright © Aptos Foundation
+// SPDX-License-Identifier: Apache-2.0
+
+import type { AptosClient } from "./aptos_client";
+import { AptosApiError } from "../client";
+import { HexString, MaybeHexString, sleep } from "../utils";
+
+/**
+ * @param maxInFlight - maximum number of sequence numbers handed out and not committed yet. Once reached,
+ * `nextSequenceNumber` waits for earlier transactions to commit. Defaults to 100
+ * @param pollIntervalMs - how often to query the on-chain sequence number while waiting. Defaults to 500
+ * @param maxWaitMs - how long to wait for earlier transactions to commit before assuming they were dropped
+ * and resynchronizing with the chain. Defaults to 30000
+ */
+export type SequenceNumberManagerOptions = {
+  maxInFlight?: number;
+  pollIntervalMs?: number;
+  maxWaitMs?: number;
+};
+
+// Node errors after which the locally known sequence numbers cannot be trusted anymore
+const RESYNC_ERRORS = ["SEQUENCE_NUMBER_TOO_OLD", "TRANSACTION_EXPIRED"];
+
+/**
+ * Whether the error means the local sequence numbers went out of sync with the chain,
+ * i.e. a transaction was rejected for an already used sequence number, or expired.
+ */
+export function isSequenceNumberError(error: unknown): boolean {
+  if (!(error instanceof Error)) {
+    return false;
+  }
+  // The error code of requests rejected by the node is in the response body
+  const details =
+    error instanceof AptosApiError ? `${error.message} ${JSON.stringify(error.data ?? {})}` : error.message;
+  return RESYNC_ERRORS.some((code) => details.includes(code));
+}
+
+/**
+ * Hands out the sequence numbers of an account locally, so that many transactions
+ * can be built and submitted concurrently without fetching the account each time.
+ *
+ * The manager counts the transactions in flight, i.e. the sequence numbers handed out above the
+ * on-chain sequence number it last fetched, and caps that count. It does not follow the transactions
+ * themselves: a number whose transaction never reached the node must be given back with `release`
+ * or `handleError`, or every later transaction waits for it until `maxWaitMs` resynchronizes.
+ *
+ * @example
+ * ```
+ * const manager = new SequenceNumberManager(client, account.address());
+ * const hashes = await Promise.all(
+ *   payloads.map((payload) =>
+ *     client.generateSignSubmitTransaction(account, payload, { sequenceNumberManager: manager }),
+ *   ),
+ * );
+ * ```
+ */
+export class SequenceNumberManager {
+  readonly address: HexString;
+
+  readonly options: Required<SequenceNumberManagerOptions>;
+
+  private readonly client: AptosClient;
+
+  // The next sequence number to hand out
+  private currentNumber: bigint | null = null;
+
+  // The sequence number of the account on chain, all lower ones are committed
+  private lastCommittedNumber: bigint | null = null;
+
+  // Sequence numbers handed out and given back unused, in ascending order. They are handed out again first,
+  // as the transactions using the following ones cannot commit before them
+  private released: bigint[] = [];
+
+  // Serializes the updates of the sequence numbers
+  private lock: Promise<unknown> = Promise.resolve();
+
+  /**
+   * @param client The client to query the account with
+   * @param address The address of the account sending the transactions
+   * @param options see `SequenceNumberManagerOptions`
+   */
+  constructor(client: AptosClient, address: MaybeHexString, options?: SequenceNumberManagerOptions) {
+    this.client = client;
+    this.address = HexString.ensure(address);
+    this.options = {
+      maxInFlight: 100,
+      pollIntervalMs: 500,
+      maxWaitMs: 30000,
+      ...options,
+    };
+  }
+
+  /**
+   * Reserves the next sequence number of the account. Waits for earlier transactions to
+   * commit when `maxInFlight` transactions are in flight already.
+   *
+   * @returns The sequence number to build the next transaction with
+   */
+  async nextSequenceNumber(): Promise<bigint> {
+    return this.withLock(async () => {
+      if (this.currentNumber === null) {
+        await this.fetchSequenceNumber();
+      }
+      const released = this.released.shift();
+      if (released !== undefined) {
+        return released;
+      }
+      if (this.getInFlight() >= this.options.maxInFlight) {
+        await this.waitForCommits();
+      }
+      const sequenceNumber = this.currentNumber!;
+      this.currentNumber = sequenceNumber + BigInt(1);
+      return sequenceNumber;
+    });
+  }
+
+  /**
+   * @returns The number of sequence numbers handed out and not known to be committed yet
+   */
+  getInFlight(): number {
+    if (this.currentNumber === null || this.lastCommittedNumber === null) {
+      return 0;
+    }
+    return Number(this.currentNumber - this.lastCommittedNumber) - this.released.length;
+  }
+
+  /**
+   * Gives back a sequence number whose transaction never reached the node, e.g. because building or
+   * signing it failed, so that it is handed out again instead of leaving a gap.
+   *
+   * @param sequenceNumber A sequence number returned by `nextSequenceNumber`
+   */
+  async release(sequenceNumber: bigint): Promise<void> {
+    await this.withLock(async () => {
+      // Numbers the manager started over from, or already committed, are not handed out again
+      const isHandedOut =
+        this.currentNumber !== null &&
+        this.lastCommittedNumber !== null &&
+        sequenceNumber >= this.lastCommittedNumber &&
+        sequenceNumber < this.currentNumber;
+      if (!isHandedOut || this.released.includes(sequenceNumber)) {
+        return;
+      }
+      this.released = [...this.released, sequenceNumber].sort((a, b) => (a < b ? -1 : 1));
+    });
+  }
+
+  /**
+   * Queries the on-chain sequence number, freeing up the in-flight slots of committed transactions.
+   */
+  async synchronize(): Promise<void> {
+    await this.withLock(async () => {
+      await this.fetchSequenceNumber();
+    });
+  }
+
+  /**
+   * Drops the transactions in flight and starts over from the on-chain sequence number.
+   * Use it once a transaction was rejected or expired, as every later one is stuck otherwise.
+   */
+  async reset(): Promise<void> {
+    await this.withLock(async () => {
+      await this.fetchSequenceNumber();
+      this.currentNumber = this.lastCommittedNumber;
+      this.released = [];
+    });
+  }
+
+  /**
+   * Resets the manager if the error means the sequence numbers went out of sync with the chain.
+   * Otherwise gives back the sequence number of the failed transaction, see `release`.
+   *
+   * @param error The error building, signing or submitting a transaction failed with
+   * @param sequenceNumber The sequence number of the transaction
+   * @returns Whether the manager was reset
+   */
+  async handleError(error: unknown, sequenceNumber?: bigint): Promise<boolean> {
+    if (!isSequenceNumberError(error)) {
+      if (sequenceNumber !== undefined) {
+        await this.release(sequenceNumber);
+      }
+      return false;
+    }
+    await this.reset();
+    return true;
+  }
+
+  private async fetchSequenceNumber(): Promise<void> {
+    const { sequence_number: sequenceNumber } = await this.client.getAccount(this.address);
+    const lastCommittedNumber = BigInt(sequenceNumber);
+    this.lastCommittedNumber = lastCommittedNumber;
+    // Transactions may have been sent from the account by someone else too
+    if (this.currentNumber === null || this.currentNumber < lastCommittedNumber) {
+      this.currentNumber = lastCommittedNumber;
+    }
+    this.released = this.released.filter((released) => released >= lastCommittedNumber);
+  }
+
+  private async waitForCommits(): Promise<void> {
+    const deadline = Date.now() + this.options.maxWaitMs;
+    const poll = async (): Promise<void> => {
+      await sleep(this.options.pollIntervalMs);
+      await this.fetchSequenceNumber();
+      if (this.getInFlight() < this.options.maxInFlight) {
+        return;
+      }
+      if (Date.now() >= deadline) {
+        // The transactions in flight were most likely dropped, start over from the chain
+        this.currentNumber = this.lastCommittedNumber;
+        this.released = [];
+        return;
+      }
+      await poll();
+    };
+    await poll();
+  }
+
+  private async withLock<T>(task: () => Promise<T>): Promise<T> {
+    const result = this.lock.then(task);
+    // A failed task must not block the next ones
+    this.lock = result.catch(() => undefined);
+    return result;
+  }
+}
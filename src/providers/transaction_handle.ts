@@ -0,0 +1,314 @@
+// Copyright © Aptos Foundation
+// SPDX-License-Identifier: Apache-2.0
+
+import * as Gen from "../generated/index";
+import { AptosApiError, AptosResponse, get, getHeader } from "../client";
+import { abortReason, DEFAULT_TXN_TIMEOUT_SEC, sleep } from "../utils";
+import { AptosClient, isUserTransaction, WaitForTransactionError } from "./aptos_client";
+
+/**
+ * @param pollIntervalMs - delay between two queries of the transaction. Defaults to 1000
+ * @param backoffMultiplier - factor the delay is multiplied by after every query. Defaults to 1, i.e. no backoff
+ * @param maxPollIntervalMs - upper bound of the delay between two queries. Defaults to 10000
+ * @param timeoutSecs - how long to wait for the transaction before giving up. Defaults to 20
+ * @param expirationTimestampSecs - expiration of the transaction, used to detect it expired before it is
+ * seen by the node. Taken from the pending transaction otherwise
+ * @param signal - a signal to stop waiting with, the same as calling `cancel`
+ */
+export type TransactionWatchOptions = {
+  pollIntervalMs?: number;
+  backoffMultiplier?: number;
+  maxPollIntervalMs?: number;
+  timeoutSecs?: number;
+  expirationTimestampSecs?: number;
+  signal?: AbortSignal;
+};
+
+/**
+ * Listeners of the events a `TransactionHandle` emits
+ *
+ * submitted - the node accepted the transaction
+ * pending - the transaction is still pending, emitted on every query
+ * committed - the transaction was committed and executed successfully
+ * failed - the transaction was committed but its execution failed
+ * expired - the ledger time passed the transaction expiration before it was committed
+ * timeout - the transaction was not committed within `timeoutSecs`
+ * error - the transaction was rejected or could not be queried
+ */
+export interface TransactionEvents {
+  submitted: (transaction: Gen.PendingTransaction) => void;
+  pending: (transaction: Gen.PendingTransaction) => void;
+  committed: (transaction: Gen.Transaction) => void;
+  failed: (transaction: Gen.Transaction) => void;
+  expired: (expiration: { expirationTimestampSecs: number; ledgerTimestampSecs: number }) => void;
+  timeout: (lastTransaction?: Gen.Transaction) => void;
+  error: (error: unknown) => void;
+}
+
+type TransactionEvent = keyof TransactionEvents;
+
+type TransactionListener<E extends TransactionEvent> = (...args: Parameters<TransactionEvents[E]>) => void;
+
+type TransactionListeners = { [E in TransactionEvent]: Set<TransactionListener<E>> };
+
+const MICROSECONDS_PER_SECOND = 1000000;
+
+/**
+ * Follows a transaction from its submission until it is committed, emitting an event at every step.
+ * Use `TransactionHandle.submit` or `TransactionHandle.watch` to create one.
+ *
+ * @example
+ * ```
+ * const handle = TransactionHandle.submit(client, signedTxn, { pollIntervalMs: 500, backoffMultiplier: 1.5 });
+ * handle.on("pending", () => console.log("still pending"));
+ * handle.on("expired", () => console.log("expired, submit it again"));
+ * const transaction = await handle.wait();
+ * ```
+ */
+export class TransactionHandle {
+  readonly hash: string;
+
+  readonly options: Required<Omit<TransactionWatchOptions, "expirationTimestampSecs" | "signal">>;
+
+  private readonly client: AptosClient;
+
+  private readonly controller = new AbortController();
+
+  private readonly listeners: TransactionListeners = {
+    submitted: new Set(),
+    pending: new Set(),
+    committed: new Set(),
+    failed: new Set(),
+    expired: new Set(),
+    timeout: new Set(),
+    error: new Set(),
+  };
+
+  private readonly result: Promise<Gen.Transaction>;
+
+  private expirationTimestampSecs?: number;
+
+  private lastTransaction?: Gen.Transaction;
+
+  /**
+   * Starts watching the transaction on the next tick, so that listeners can be added first.
+   *
+   * @param client The client to query the transaction with
+   * @param hash The hash of the transaction
+   * @param options see `TransactionWatchOptions`
+   * @param submit Submits the transaction, if it was not submitted yet
+   */
+  constructor(
+    client: AptosClient,
+    hash: string,
+    options?: TransactionWatchOptions,
+    submit?: () => Promise<Gen.PendingTransaction>,
+  ) {
+    this.client = client;
+    this.hash = hash;
+    this.options = {
+      pollIntervalMs: 1000,
+      backoffMultiplier: 1,
+      maxPollIntervalMs: 10000,
+      timeoutSecs: DEFAULT_TXN_TIMEOUT_SEC,
+      ...options,
+    };
+    this.expirationTimestampSecs = options?.expirationTimestampSecs;
+    options?.signal?.addEventListener("abort", () => this.cancel(), { once: true });
+
+    this.result = Promise.resolve().then(() => this.run(submit));
+    // Callers relying on the events only may never call `wait`
+    this.result.catch(() => undefined);
+  }
+
+  /**
+   * Submits a BCS signed transaction and follows it until it is committed.
+   *
+   * @param client The client to submit and query the transaction with
+   * @param signedTxn The BCS encoded signed transaction
+   * @param options see `TransactionWatchOptions`
+   * @returns A handle emitting the events of the transaction, starting with `submitted`
+   */
+  static submit(client: AptosClient, signedTxn: Uint8Array, options?: TransactionWatchOptions): TransactionHandle {
+    return new TransactionHandle(client, AptosClient.getTransactionHash(signedTxn), options, () =>
+      client.submitSignedBCSTransaction(signedTxn),
+    );
+  }
+
+  /**
+   * Follows a transaction previously submitted to the blockchain until it is committed.
+   *
+   * @param client The client to query the transaction with
+   * @param txnHash The hash of the transaction
+   * @param options see `TransactionWatchOptions`
+   * @returns A handle emitting the events of the transaction
+   */
+  static watch(client: AptosClient, txnHash: string, options?: TransactionWatchOptions): TransactionHandle {
+    return new TransactionHandle(client, txnHash, options);
+  }
+
+  /**
+   * Adds a listener of the given event. Adding the same listener twice has no effect.
+   */
+  on<E extends TransactionEvent>(event: E, listener: TransactionListener<E>): this {
+    this.listeners[event].add(listener);
+    return this;
+  }
+
+  /**
+   * Removes a listener previously added with `on`
+   */
+  off<E extends TransactionEvent>(event: E, listener: TransactionListener<E>): this {
+    this.listeners[event].delete(listener);
+    return this;
+  }
+
+  /**
+   * Stops waiting for the transaction. `wait` then rejects with an `AbortError`.
+   * The transaction itself may still be committed.
+   */
+  cancel() {
+    this.controller.abort();
+  }
+
+  /**
+   * @returns The committed transaction, whether its execution succeeded or failed.
+   * Rejects with a `WaitForTransactionError` once the transaction expired or timed out,
+   * and with the request error if the transaction was rejected.
+   */
+  async wait(): Promise<Gen.Transaction> {
+    return this.result;
+  }
+
+  private emit<E extends TransactionEvent>(event: E, ...args: Parameters<TransactionEvents[E]>) {
+    this.listeners[event].forEach((listener) => listener(...args));
+  }
+
+  private async run(submit?: () => Promise<Gen.PendingTransaction>): Promise<Gen.Transaction> {
+    const { signal } = this.controller;
+    const deadline = Date.now() + this.options.timeoutSecs * 1000;
+    try {
+      if (submit) {
+        const pending = await submit();
+        this.trackExpiration(pending);
+        this.emit("submitted", pending);
+      }
+      return await this.poll(this.options.pollIntervalMs, deadline);
+    } catch (e) {
+      if (signal.aborted) {
+        throw abortReason(signal);
+      }
+      if (!(e instanceof WaitForTransactionError)) {
+        this.emit("error", e);
+      }
+      throw e;
+    }
+  }
+
+  private async poll(intervalMs: number, deadline: number): Promise<Gen.Transaction> {
+    const { signal } = this.controller;
+    const response = await this.query();
+    const transaction = response?.data;
+    if (transaction && transaction.type !== "pending_transaction") {
+      return this.complete(transaction);
+    }
+
+    if (transaction) {
+      this.lastTransaction = transaction;
+      this.trackExpiration(transaction as Gen.PendingTransaction);
+      this.emit("pending", transaction as Gen.PendingTransaction);
+    }
+
+    const committed = await this.checkExpiration(response);
+    if (committed) {
+      return committed;
+    }
+
+    if (Date.now() + intervalMs >= deadline) {
+      this.emit("timeout", this.lastTransaction);
+      throw new WaitForTransactionError(
+        `Waiting for transaction ${this.hash} timed out after ${this.options.timeoutSecs} seconds`,
+        this.lastTransaction,
+      );
+    }
+
+    await sleep(intervalMs, signal);
+    const nextIntervalMs = Math.min(intervalMs * this.options.backoffMultiplier, this.options.maxPollIntervalMs);
+    return this.poll(nextIntervalMs, deadline);
+  }
+
+  private async query(): Promise<AptosResponse<{}, Gen.Transaction> | undefined> {
+    const { signal } = this.controller;
+    try {
+      return await get<{}, Gen.Transaction>({
+        url: this.client.nodeUrl,
+        endpoint: `transactions/by_hash/${this.hash}`,
+        originMethod: "watchTransaction",
+        overrides: { ...this.client.config, SIGNAL: signal },
+      });
+    } catch (e) {
+      // The node may not know about the transaction yet, or be unavailable for a moment
+      const isRequestError = e instanceof AptosApiError && e.status !== 404 && e.status >= 400 && e.status < 500;
+      if (signal.aborted || isRequestError) {
+        throw e;
+      }
+      return undefined;
+    }
+  }
+
+  private complete(transaction: Gen.Transaction): Gen.Transaction {
+    this.lastTransaction = transaction;
+    if (isUserTransaction(transaction) && !transaction.success) {
+      this.emit("failed", transaction);
+    } else {
+      this.emit("committed", transaction);
+    }
+    return transaction;
+  }
+
+  private trackExpiration(transaction: Gen.PendingTransaction) {
+    if (transaction.expiration_timestamp_secs !== undefined) {
+      this.expirationTimestampSecs = Number(transaction.expiration_timestamp_secs);
+    }
+  }
+
+  /**
+   * Throws once the ledger time passed the transaction expiration, as it can no longer be committed then
+   *
+   * @returns The transaction, if it turns out to be committed when checking its expiration
+   */
+  private async checkExpiration(response?: AptosResponse<{}, Gen.Transaction>): Promise<Gen.Transaction | undefined> {
+    if (this.expirationTimestampSecs === undefined) {
+      return undefined;
+    }
+    let ledgerTimestamp = response && getHeader(response.headers, "x-aptos-ledger-timestamp");
+    const isLaterLedger = !ledgerTimestamp;
+    if (!ledgerTimestamp) {
+      try {
+        ({ ledger_timestamp: ledgerTimestamp } = await this.client
+          .withConfig({ SIGNAL: this.controller.signal })
+          .getLedgerInfo());
+      } catch (e) {
+        if (this.controller.signal.aborted) {
+          throw e;
+        }
+        // Expiration is checked again on the next query
+        return undefined;
+      }
+    }
+
+    const ledgerTimestampSecs = Number(ledgerTimestamp) / MICROSECONDS_PER_SECOND;
+    if (ledgerTimestampSecs <= this.expirationTimestampSecs) {
+      return undefined;
+    }
+    if (isLaterLedger) {
+      // The transaction may have been committed between its query and the ledger info, so query it once more
+      const transaction = (await this.query())?.data;
+      if (transaction && transaction.type !== "pending_transaction") {
+        return this.complete(transaction);
+      }
+    }
+    this.emit("expired", { expirationTimestampSecs: this.expirationTimestampSecs, ledgerTimestampSecs });
+    throw new WaitForTransactionError(`Transaction ${this.hash} expired`, this.lastTransaction);
+  }
+}
@@ -0,0 +1,81 @@
+// Copyright © Aptos Foundation
+// SPDX-License-Identifier: Apache-2.0
+
+import { AptosClient } from "../../providers/aptos_client";
+import { getFaucetClient, longTestTimeout, NODE_URL } from "../unit/test_helper.test";
+import { AptosAccount } from "../../account/aptos_account";
+import { CoinClient } from "../../plugins/coin_client";
+import { MultisigAccountClient } from "../../plugins/multisig_account_client";
+
+test(
+  "creates a multisig account, proposes, approves and executes transactions",
+  async () => {
+    const client = new AptosClient(NODE_URL);
+    const faucetClient = getFaucetClient();
+    const coinClient = new CoinClient(client);
+    const multisig = new MultisigAccountClient(client);
+
+    const alice = new AptosAccount();
+    const bob = new AptosAccount();
+    const carol = new AptosAccount();
+    await faucetClient.fundAccount(alice.address(), 100_000_000);
+    await faucetClient.fundAccount(bob.address(), 100_000_000);
+    await faucetClient.fundAccount(carol.address(), 0);
+
+    const { hash, multisigAddress } = await multisig.createAccount(alice, [bob.address()], 2);
+    await client.waitForTransaction(hash, { checkSuccess: true });
+    expect(await multisig.getOwners(multisigAddress)).toHaveLength(2);
+    expect(await multisig.getNumSignaturesRequired(multisigAddress)).toBe(BigInt(2));
+    await client.waitForTransaction(await coinClient.transfer(alice, multisigAddress, 1000), { checkSuccess: true });
+
+    const transfer = { function: "0x1::aptos_account::transfer", type_arguments: [], arguments: [carol.address(), 42] };
+
+    // Full payload stored on chain
+    await client.waitForTransaction(await multisig.createTransaction(alice, multisigAddress, transfer), {
+      checkSuccess: true,
+    });
+    let [pending] = await multisig.getPendingTransactions(multisigAddress);
+    expect(pending.approvals).toEqual([alice.address().hex()]);
+    expect(pending.canBeExecuted).toBe(false);
+
+    await client.waitForTransaction(await multisig.approveTransaction(bob, multisigAddress, pending.sequenceNumber), {
+      checkSuccess: true,
+    });
+    [pending] = await multisig.getPendingTransactions(multisigAddress);
+    expect(pending.canBeExecuted).toBe(true);
+    await client.waitForTransaction(await multisig.executeTransaction(bob, multisigAddress), { checkSuccess: true });
+    expect(await coinClient.checkBalance(carol)).toBe(BigInt(42));
+
+    // Only the payload hash stored on chain
+    await client.waitForTransaction(await multisig.createTransactionWithHash(bob, multisigAddress, transfer), {
+      checkSuccess: true,
+    });
+    [pending] = await multisig.getPendingTransactions(multisigAddress);
+    expect(pending.payloadHash).toBeDefined();
+    await client.waitForTransaction(await multisig.approveTransaction(alice, multisigAddress, pending.sequenceNumber), {
+      checkSuccess: true,
+    });
+    await client.waitForTransaction(await multisig.executeTransaction(alice, multisigAddress, transfer), {
+      checkSuccess: true,
+    });
+    expect(await coinClient.checkBalance(carol)).toBe(BigInt(84));
+
+    // Rejected owner change
+    await client.waitForTransaction(await multisig.proposeAddOwners(alice, multisigAddress, [carol.address()]), {
+      checkSuccess: true,
+    });
+    [pending] = await multisig.getPendingTransactions(multisigAddress);
+    await client.waitForTransaction(await multisig.rejectTransaction(alice, multisigAddress, pending.sequenceNumber), {
+      checkSuccess: true,
+    });
+    await client.waitForTransaction(await multisig.rejectTransaction(bob, multisigAddress, pending.sequenceNumber), {
+      checkSuccess: true,
+    });
+    await client.waitForTransaction(await multisig.executeRejectedTransaction(bob, multisigAddress), {
+      checkSuccess: true,
+    });
+    expect(await multisig.getPendingTransactions(multisigAddress)).toHaveLength(0);
+    expect(await multisig.getOwners(multisigAddress)).toHaveLength(2);
+  },
+  longTestTimeout,
+);
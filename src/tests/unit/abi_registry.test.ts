@@ -0,0 +1,131 @@
+// Copyright © Aptos Foundation
+// SPDX-License-Identifier: Apache-2.0
+
+import fs from "fs";
+import os from "os";
+import path from "path";
+import * as Gen from "../../generated/index";
+import { AptosClient } from "../../providers";
+import { ABIRegistry, FileABIStore, TransactionBuilderRemoteABI, TxnBuilderTypes } from "../../transaction_builder";
+
+const vault: Gen.MoveModule = {
+  address: "0xcafe",
+  name: "vault",
+  friends: [],
+  structs: [],
+  exposed_functions: [
+    {
+      name: "deposit",
+      visibility: Gen.MoveFunctionVisibility.PUBLIC,
+      is_entry: true,
+      is_view: false,
+      generic_type_params: [],
+      params: ["&signer", "u64"],
+      return: [],
+    },
+    {
+      name: "balance",
+      visibility: Gen.MoveFunctionVisibility.PUBLIC,
+      is_entry: false,
+      is_view: true,
+      generic_type_params: [],
+      params: ["address"],
+      return: ["u64"],
+    },
+  ],
+};
+
+const config = { sender: "0xa11ce", sequenceNumber: "1", chainId: 4, gasUnitPrice: BigInt(100) };
+
+// A client that cannot reach any node
+function offlineClient() {
+  const fail = () => Promise.reject(new Error("offline"));
+  return {
+    getAccountModules: jest.fn(fail),
+    getAccountModule: jest.fn(fail),
+    getAccount: fail,
+    getChainId: fail,
+    estimateGasPrice: fail,
+    getLedgerInfo: async () => ({ ledger_timestamp: "1700000000000000" } as Gen.IndexResponse),
+  };
+}
+
+function entryFunctionOf(rawTxn: TxnBuilderTypes.RawTransaction) {
+  return (rawTxn.payload as TxnBuilderTypes.TransactionPayloadEntryFunction).value;
+}
+
+describe("ABIRegistry", () => {
+  test("builds transactions offline from saved and framework ABIs", async () => {
+    const client = offlineClient();
+    const registry = new ABIRegistry({ framework: true }).addJSON(JSON.stringify([{ bytecode: "0x00", abi: vault }]));
+    const builder = new TransactionBuilderRemoteABI(client, config, registry);
+
+    const deposit = await builder.build("0x000cafe::vault::deposit", [], [100]);
+    expect(entryFunctionOf(deposit).function_name.value).toBe("deposit");
+    const transfer = await builder.build("0x1::aptos_account::transfer", [], ["0xb0b", 100]);
+    expect(entryFunctionOf(transfer).args).toHaveLength(2);
+    const burn = await builder.build("0x4::aptos_token::burn", ["0x4::token::Token"], ["0xb0b"]);
+    expect(entryFunctionOf(burn).ty_args).toHaveLength(1);
+
+    await expect(builder.build("0xcafe::vault::balance", [], ["0xb0b"])).rejects.toThrow(
+      "0xcafe::vault::balance doesn't exist.",
+    );
+    await expect(builder.build("0xcafe::other::deposit", [], [100])).rejects.toThrow(
+      "The ABI of 0xcafe::other is not in the registry",
+    );
+    // The framework ABIs only cover what the SDK calls
+    await expect(builder.build("0x1::coin::freeze_coin_store", [], [])).rejects.toThrow(
+      "0x1::coin::freeze_coin_store doesn't exist.",
+    );
+    expect(client.getAccountModules).not.toHaveBeenCalled();
+    expect(client.getAccountModule).not.toHaveBeenCalled();
+  });
+
+  test("fetches single modules missing from the registry and persists them", async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "abi-registry-"));
+    const store = new FileABIStore(path.join(dir, "abis.json"));
+    const client = { getAccountModule: jest.fn().mockResolvedValue({ bytecode: "0x00", abi: vault }) };
+    try {
+      const registry = await ABIRegistry.open({ client, store, framework: true });
+      expect(registry.toJSON()).toEqual([]);
+
+      expect((await registry.fetchFunction("0xcafe::vault::deposit")).params).toEqual(["&signer", "u64"]);
+      expect(await registry.fetchModule("0x0cafe::vault")).toBe(vault);
+      expect(client.getAccountModule).toHaveBeenCalledTimes(1);
+      expect(client.getAccountModule).toHaveBeenCalledWith("0xcafe", "vault");
+
+      // Functions the framework ABIs lack are fetched with their whole module
+      const coin = { ...vault, address: "0x1", name: "coin" };
+      client.getAccountModule.mockResolvedValue({ bytecode: "0x00", abi: coin });
+      expect((await registry.fetchFunction("0x1::coin::deposit")).name).toBe("deposit");
+      expect(client.getAccountModule).toHaveBeenLastCalledWith("0x1", "coin");
+
+      const reopened = await ABIRegistry.open({ store });
+      expect(reopened.getModules()).toEqual([coin, vault]);
+      expect(reopened.getModule("0x1::aptos_account")).toBeUndefined();
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  test("is used by the builders of the client", async () => {
+    const client = new AptosClient("http://localhost:8080");
+    const getAccountModules = jest.spyOn(client, "getAccountModules");
+    jest.spyOn(client, "getChainId").mockResolvedValue(4);
+    jest.spyOn(client, "getLedgerInfo").mockResolvedValue({ ledger_timestamp: "1700000000000000" } as any);
+    client.setABIRegistry(new ABIRegistry({ modules: [vault] }));
+
+    const rawTxn = await client.generateTransaction(
+      "0xa11ce",
+      {
+        function: "0xcafe::vault::deposit",
+        type_arguments: [],
+        arguments: [100],
+      },
+      { sequence_number: "1", gas_unit_price: "100", max_gas_amount: "1000" },
+    );
+    expect(entryFunctionOf(rawTxn).module_name.name.value).toBe("vault");
+    expect(client.withConfig({ TIMEOUT: 1000 }).getABIRegistry()).toBe(client.getABIRegistry());
+    expect(getAccountModules).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,88 @@
+// Copyright © Aptos Foundation
+// SPDX-License-Identifier: Apache-2.0
+
+import { AptosAccount } from "../../account";
+import { Deserializer } from "../../bcs";
+import { TxnBuilderTypes } from "../../transaction_builder";
+import { AptosClient } from "../../providers";
+import { HexString } from "../../utils";
+import { startMockServer } from "./test_helper.test";
+
+function signedTransactions(count: number): Uint8Array[] {
+  const sender = new AptosAccount();
+  const payload = new TxnBuilderTypes.TransactionPayloadScript(new TxnBuilderTypes.Script(new Uint8Array(), [], []));
+  return [...Array(count)].map((_, i) =>
+    AptosClient.generateBCSTransaction(
+      sender,
+      new TxnBuilderTypes.RawTransaction(
+        TxnBuilderTypes.AccountAddress.fromHex(sender.address()),
+        BigInt(i),
+        payload,
+        BigInt(2000),
+        BigInt(100),
+        BigInt(1000),
+        new TxnBuilderTypes.ChainId(4),
+      ),
+    ),
+  );
+}
+
+describe("batch submission", () => {
+  test("computes transaction hashes", () => {
+    const [signedTxn] = signedTransactions(1);
+    const transaction = new TxnBuilderTypes.UserTransaction(
+      TxnBuilderTypes.SignedTransaction.deserialize(new Deserializer(signedTxn)),
+    );
+    expect(AptosClient.getTransactionHash(signedTxn)).toBe(HexString.fromUint8Array(transaction.hash()).hex());
+  });
+
+  test("submits a BCS vector and reports the result of every transaction", async () => {
+    const signedTxns = signedTransactions(3);
+    const server = await startMockServer([
+      {
+        status: 206,
+        body: {
+          transaction_failures: [
+            { transaction_index: 1, error: { message: "Invalid transaction", error_code: "vm_error" } },
+          ],
+        },
+      },
+    ]);
+    try {
+      const client = new AptosClient(server.url, undefined, true);
+      const results = await client.submitBatchBCSTransactions(signedTxns);
+
+      const [request] = server.requests;
+      expect(request.url).toBe("/transactions/batch");
+      expect(request.headers["content-type"]).toBe("application/x.aptos.signed_transaction+bcs");
+      const body = new Uint8Array(request.body);
+      expect(body[0]).toBe(3);
+      expect(body.slice(1)).toEqual(new Uint8Array(Buffer.concat(signedTxns)));
+
+      expect(results.map(({ index, accepted }) => ({ index, accepted }))).toEqual([
+        { index: 0, accepted: true },
+        { index: 1, accepted: false },
+        { index: 2, accepted: true },
+      ]);
+      expect(results[1].error?.error_code).toBe("vm_error");
+      expect(results[0].hash).toBe(AptosClient.getTransactionHash(signedTxns[0]));
+    } finally {
+      await server.close();
+    }
+  });
+
+  test("waits for all transactions concurrently", async () => {
+    const server = await startMockServer([
+      { status: 200, body: { type: "user_transaction", success: true, hash: "0x1" } },
+      { status: 400, body: { message: "bad hash" } },
+    ]);
+    try {
+      const client = new AptosClient(server.url, undefined, true);
+      const results = await client.waitForTransactionsWithResult(["0x1", "0x2"]);
+      expect(results.map(({ status }) => status).sort()).toEqual(["fulfilled", "rejected"]);
+      expect(server.requests).toHaveLength(2);
+    } finally {
+      await server.close();
+    }
+  });
+});
@@ -0,0 +1,269 @@
+// Copyright © Aptos Foundation
+// SPDX-License-Identifier: Apache-2.0
+
+import path from "path";
+import ts from "typescript";
+import {
+  callViewFunction,
+  entryFunctionPayload,
+  fetchModuleABIs,
+  generateModuleCode,
+  generateModules,
+  parseModuleABIs,
+} from "../../codegen";
+import * as Gen from "../../generated/index";
+import {
+  ArgumentABI,
+  EntryFunctionABI,
+  ModuleId,
+  optionStructTag,
+  stringStructTag,
+  TypeArgumentABI,
+  TypeTagAddress,
+  TypeTagStruct,
+  TypeTagU64,
+  TypeTagU8,
+  TypeTagVector,
+} from "../../aptos_types";
+import { bcsToBytes, Deserializer } from "../../bcs";
+import { TransactionBuilderABI } from "../../transaction_builder";
+import { HexString } from "../../utils";
+
+const fn = (name: string, fields: Partial<Gen.MoveFunction>): Gen.MoveFunction => ({
+  name,
+  visibility: "public" as Gen.MoveFunctionVisibility,
+  is_entry: false,
+  is_view: false,
+  generic_type_params: [],
+  params: [],
+  return: [],
+  ...fields,
+});
+
+const vault: Gen.MoveModule = {
+  address: "0x000000000000000000000000000000000000000000000000000000000000cafe",
+  name: "vault",
+  friends: [],
+  structs: [],
+  exposed_functions: [
+    fn("deposit", {
+      is_entry: true,
+      generic_type_params: [{ constraints: [] }],
+      params: ["&signer", "u64", "vector<u8>", "0x1::option::Option<0x1::string::String>", "vector<address>"],
+    }),
+    fn("withdraw_to", {
+      is_entry: true,
+      params: ["signer", "0x1::object::Object<0x1::fungible_asset::Metadata>", "u8"],
+    }),
+    fn("balance", {
+      is_view: true,
+      generic_type_params: [{ constraints: [] }],
+      params: ["address"],
+      return: ["u64", "0x1::option::Option<vector<u8>>", "0x1::object::Object<0x1::object::ObjectCore>"],
+    }),
+    fn("delete", { is_entry: true, is_view: true, return: ["bool"] }),
+    fn("merge", { is_entry: true, params: ["&signer", "0xcafe::vault::Receipt"] }),
+    fn("internal", { params: ["u64"] }),
+  ],
+};
+
+const wrapper: Gen.MoveModule = {
+  address: "0xcafe",
+  name: "wrapper",
+  friends: [],
+  structs: [],
+  exposed_functions: [
+    fn("wrap", {
+      is_entry: true,
+      generic_type_params: [{ constraints: [] }],
+      params: ["&signer", "T0", "vector<T0>"],
+    }),
+    fn("unwrap", {
+      is_view: true,
+      generic_type_params: [{ constraints: [] }],
+      params: ["address"],
+      return: ["T0", "0x1::option::Option<T0>"],
+    }),
+  ],
+};
+
+/**
+ * Type-checks generated modules along with the sources of the SDK, as if they were placed in `src/generated_check`
+ *
+ * @param files The source code of the modules, by file name
+ * @returns The messages of the type errors in the modules
+ */
+function typeCheck(files: Record<string, string>): string[] {
+  const root = path.resolve(__dirname, "../../..");
+  const { config } = ts.readConfigFile(path.join(root, "tsconfig.json"), ts.sys.readFile);
+  const { options } = ts.parseJsonConfigFileContent(config, ts.sys, root);
+  const directory = path.join(root, "src", "generated_check");
+  const sources = new Map(Object.entries(files).map(([name, code]) => [path.join(directory, name), code]));
+
+  const host = ts.createCompilerHost({ ...options, noEmit: true });
+  const { directoryExists, fileExists, readFile } = host;
+  host.directoryExists = (directoryName) => directoryName === directory || directoryExists!(directoryName);
+  host.fileExists = (fileName) => sources.has(fileName) || fileExists(fileName);
+  host.readFile = (fileName) => sources.get(fileName) ?? readFile(fileName);
+  const program = ts.createProgram([...sources.keys()], { ...options, noEmit: true }, host);
+  return [...sources.keys()]
+    .map((fileName) => program.getSourceFile(fileName)!)
+    .flatMap((sourceFile) => [
+      ...program.getSyntacticDiagnostics(sourceFile),
+      ...program.getSemanticDiagnostics(sourceFile),
+    ])
+    .map(({ messageText }) => ts.flattenDiagnosticMessageText(messageText, "\n"));
+}
+
+describe("Codegen", () => {
+  test("generates typed entry and view functions", () => {
+    const code = generateModuleCode(vault, { importPath: "aptos" });
+
+    expect(code).toContain(`import { Codegen, MaybeHexString, TxnBuilderTypes } from ${JSON.stringify("aptos")};`);
+    expect(code).toContain(`export const MODULE_ID = ${JSON.stringify("0xcafe::vault")};`);
+    expect(code).toContain(
+      [
+        "export function deposit(",
+        "  typeArgs: [string],",
+        "  arg0: bigint,",
+        "  arg1: Uint8Array,",
+        "  arg2: string | undefined,",
+        "  arg3: Array<MaybeHexString>,",
+        "): TxnBuilderTypes.TransactionPayloadEntryFunction {",
+      ].join("\n"),
+    );
+    expect(code).toContain(
+      ["u64", "vector<u8>", "0x1::option::Option<0x1::string::String>", "vector<address>"]
+        .map((type) => JSON.stringify(type))
+        .join(", "),
+    );
+    expect(code).toContain("export function withdraw_to(\n  arg0: MaybeHexString,\n  arg1: number,\n)");
+    expect(code).toContain(
+      [
+        "export async function balance(",
+        "  client: Codegen.ViewClient,",
+        "  typeArgs: [string],",
+        "  arg0: MaybeHexString,",
+        "  ledgerVersion?: string,",
+        "): Promise<[bigint, Uint8Array | undefined, string]> {",
+      ].join("\n"),
+    );
+    // Reserved words and functions that are both entry and view functions
+    expect(code).toContain("export function delete_(): TxnBuilderTypes.TransactionPayloadEntryFunction {");
+    expect(code).toContain(
+      "export async function deleteView(\n  client: Codegen.ViewClient,\n  ledgerVersion?: string,\n)",
+    );
+    expect(code).toContain("// merge is skipped, it takes struct arguments that cannot be passed to entry functions");
+    expect(code).not.toContain("internal");
+  });
+
+  test("generates modules that type-check", () => {
+    const code = generateModuleCode(wrapper, { importPath: ".." });
+    expect(code).toContain(
+      "export function wrap(\n  typeArgs: [string],\n  arg0: unknown,\n  arg1: Array<unknown>,\n)",
+    );
+    expect(code).toContain("): Promise<[unknown, unknown | undefined]> {");
+
+    // Values of generic types must be narrowed before use
+    const usage = `import { Codegen } from "..";
+import { unwrap, wrap } from "./wrapper";
+
+export async function use(client: Codegen.ViewClient): Promise<number> {
+  wrap(["u64"], BigInt(1), [BigInt(2)]);
+  const [value] = await unwrap(client, ["u64"], "0x1");
+  // @ts-expect-error
+  const unchecked: number = value;
+  return typeof value === "number" ? value : unchecked;
+}
+`;
+    expect(
+      typeCheck({
+        "vault.ts": generateModuleCode(vault, { importPath: ".." }),
+        "wrapper.ts": code,
+        "usage.ts": usage,
+      }),
+    ).toEqual([]);
+  }, 120000);
+
+  test("reads ABIs saved as JSON or fetched from a node", async () => {
+    const saved = JSON.stringify([{ bytecode: "0x00", abi: vault }]);
+    expect(parseModuleABIs(saved)).toEqual([vault]);
+    expect(parseModuleABIs(vault)).toEqual([vault]);
+    expect(() => parseModuleABIs([{ bytecode: "0x00" }])).toThrow("Expected Move module ABIs");
+
+    const client = { getAccountModules: jest.fn().mockResolvedValue([{ bytecode: "0x00", abi: vault }]) };
+    const modules = generateModules(await fetchModuleABIs(client, "0xcafe"));
+    expect(client.getAccountModules).toHaveBeenCalledWith("0xcafe");
+    expect(modules).toEqual([{ path: "0xcafe/vault.ts", code: generateModuleCode(vault) }]);
+    expect(modules[0].code).toContain(`from ${JSON.stringify("@martiandao/aptos-web3-bip44.js")};`);
+  });
+
+  test("builds the same payloads as the ABI builder", () => {
+    const typeArgs = ["0x1::aptos_coin::AptosCoin"];
+    const args = [BigInt(100), new Uint8Array([1, 2]), "memo", ["0x1", "0x2"]];
+    const payload = entryFunctionPayload(
+      "0xcafe::vault::deposit",
+      typeArgs,
+      ["u64", "vector<u8>", "0x1::option::Option<0x1::string::String>", "vector<address>"],
+      args,
+    );
+
+    const abi = new EntryFunctionABI(
+      "deposit",
+      ModuleId.fromStr("0xcafe::vault"),
+      "",
+      [new TypeArgumentABI("T0")],
+      [
+        new ArgumentABI("amount", new TypeTagU64()),
+        new ArgumentABI("data", new TypeTagVector(new TypeTagU8())),
+        new ArgumentABI("memo", new TypeTagStruct(optionStructTag(new TypeTagStruct(stringStructTag)))),
+        new ArgumentABI("recipients", new TypeTagVector(new TypeTagAddress())),
+      ],
+    );
+    const expected = new TransactionBuilderABI([bcsToBytes(abi)]).buildTransactionPayload(
+      "0xcafe::vault::deposit",
+      typeArgs,
+      args,
+    );
+    expect(payload).toEqual(expected);
+    expect(new Deserializer(payload.value.args[2]).deserializeUleb128AsU32()).toBe(1);
+
+    expect(() => entryFunctionPayload("0xcafe::vault::withdraw_to", [], ["address", "u8"], ["0x1"])).toThrow(
+      "0xcafe::vault::withdraw_to takes 2 arguments, got 1",
+    );
+  });
+
+  test("converts view function arguments and returned values", async () => {
+    const client = {
+      view: jest
+        .fn()
+        .mockResolvedValue(["18446744073709551615", { vec: ["0x0102"] }, { inner: "0xa" }, { vec: [] }, ["1", "2"]]),
+    };
+
+    const values = await callViewFunction(
+      client,
+      "0xcafe::vault::info",
+      ["0x1::aptos_coin::AptosCoin"],
+      ["address", "u128", "vector<u8>", "0x1::option::Option<u64>", "0x1::option::Option<u64>"],
+      ["u64", "0x1::option::Option<vector<u8>>", "0x1::object::Object<T0>", "0x1::option::Option<bool>", "vector<u64>"],
+      [HexString.ensure("0xb0b"), BigInt(2) ** BigInt(100), new Uint8Array([255]), BigInt(5), undefined],
+      "42",
+    );
+
+    expect(client.view).toHaveBeenCalledWith(
+      {
+        function: "0xcafe::vault::info",
+        type_arguments: ["0x1::aptos_coin::AptosCoin"],
+        arguments: ["0xb0b", "1267650600228229401496703205376", "0xff", { vec: ["5"] }, { vec: [] }],
+      },
+      "42",
+    );
+    expect(values).toEqual([
+      BigInt("18446744073709551615"),
+      new Uint8Array([1, 2]),
+      "0xa",
+      undefined,
+      [BigInt(1), BigInt(2)],
+    ]);
+  });
+});
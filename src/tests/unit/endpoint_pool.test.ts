@@ -0,0 +1,175 @@
+// Copyright © Aptos Foundation
+// SPDX-License-Identifier: Apache-2.0
+
+import { AptosApiError, EndpointPool, get, post } from "../../client";
+import { AptosClient, Provider } from "../../providers";
+import { MockReply, MockServer, startMockServer } from "./test_helper.test";
+
+const ledgerInfo = (version: number): MockReply => ({
+  status: 200,
+  body: { chain_id: 4, ledger_version: `${version}`, ledger_timestamp: "1" },
+});
+
+async function withServers(replies: MockReply[][], run: (servers: MockServer[]) => Promise<void>) {
+  const servers = await Promise.all(replies.map((reply) => startMockServer(reply)));
+  try {
+    await run(servers);
+  } finally {
+    await Promise.all(servers.map((server) => server.close()));
+  }
+}
+
+describe("EndpointPool", () => {
+  test("needs at least one url", () => {
+    expect(() => new EndpointPool([])).toThrow();
+  });
+
+  test("fails over on server errors and prefers the endpoints in order", async () => {
+    await withServers([[{ status: 503 }], [ledgerInfo(10)]], async ([a, b]) => {
+      const pool = new EndpointPool([a.url, b.url], { healthCheckIntervalMs: 0 });
+      const response = await get<{}, any>({ url: a.url, overrides: { ENDPOINT_POOL: pool } });
+      expect(response.data.ledger_version).toBe("10");
+      expect(a.requests).toHaveLength(1);
+      expect(b.requests).toHaveLength(1);
+      expect(pool.getStatus().map(({ healthy }) => healthy)).toEqual([false, true]);
+
+      // The failing endpoint is skipped while it cools down
+      await get({ url: a.url, overrides: { ENDPOINT_POOL: pool } });
+      expect(a.requests).toHaveLength(1);
+      expect(b.requests).toHaveLength(2);
+    });
+  });
+
+  test("fails over on connection errors", async () => {
+    await withServers([[ledgerInfo(1)], [ledgerInfo(2)]], async ([a, b]) => {
+      await a.close();
+      const client = new AptosClient(new EndpointPool([a.url, b.url], { healthCheckIntervalMs: 0 }));
+      expect(client.nodeUrl).toBe(a.url);
+      expect((await client.getLedgerInfo()).ledger_version).toBe("2");
+    });
+  });
+
+  test("does not fail over on client errors", async () => {
+    await withServers([[{ status: 404 }], [ledgerInfo(1)]], async ([a, b]) => {
+      const pool = new EndpointPool([a.url, b.url], { healthCheckIntervalMs: 0 });
+      await expect(get({ url: a.url, overrides: { ENDPOINT_POOL: pool } })).rejects.toBeInstanceOf(AptosApiError);
+      expect(b.requests).toHaveLength(0);
+      expect(pool.getStatus()[0].healthy).toBe(true);
+    });
+  });
+
+  test("throws the last error when every endpoint fails", async () => {
+    await withServers([[{ status: 500 }], [{ status: 502 }]], async ([a, b]) => {
+      const pool = new EndpointPool([a.url, b.url], { healthCheckIntervalMs: 0 });
+      await expect(get({ url: a.url, overrides: { ENDPOINT_POOL: pool } })).rejects.toMatchObject({ status: 502 });
+    });
+  });
+
+  test("spreads requests with round-robin", async () => {
+    await withServers([[ledgerInfo(1)], [ledgerInfo(1)], [ledgerInfo(1)]], async (servers) => {
+      const pool = new EndpointPool(
+        servers.map(({ url }) => url),
+        { strategy: "round-robin", healthCheckIntervalMs: 0 },
+      );
+      const client = new AptosClient(pool);
+      await Promise.all([...Array(6)].map(() => client.getLedgerInfo()));
+      expect(servers.map(({ requests }) => requests.length)).toEqual([2, 2, 2]);
+    });
+  });
+
+  test("prefers the lowest latency", async () => {
+    await withServers([[{ ...ledgerInfo(1), delayMs: 150 }], [ledgerInfo(1)]], async ([slow, fast]) => {
+      const pool = new EndpointPool([slow.url, fast.url], { strategy: "lowest-latency", healthCheckIntervalMs: 0 });
+      await pool.checkHealth();
+      expect(pool.getCandidates()).toEqual([fast.url, slow.url]);
+    });
+  });
+
+  test("skips endpoints lagging behind", async () => {
+    await withServers([[ledgerInfo(100)], [ledgerInfo(1000)]], async ([behind, ahead]) => {
+      const pool = new EndpointPool([behind.url, ahead.url], { maxLedgerLag: 500 });
+      const client = new AptosClient(pool);
+      // The first request waits for the health check the pool started, which finds the lagging endpoint
+      await client.getLedgerInfo();
+      expect(pool.getStatus().map(({ lagging }) => lagging)).toEqual([true, false]);
+      expect(pool.getCandidates()).toEqual([ahead.url]);
+      expect(behind.requests).toHaveLength(1);
+      expect(ahead.requests).toHaveLength(2);
+    });
+  });
+
+  test("does not fail over transaction submissions unless asked to", async () => {
+    await withServers([[{ status: 503 }], [{ status: 202, body: { hash: "0x1" } }]], async ([a, b]) => {
+      const submit = (pool: EndpointPool) =>
+        post({ url: a.url, endpoint: "transactions", body: new Uint8Array([1]), overrides: { ENDPOINT_POOL: pool } });
+
+      await expect(submit(new EndpointPool([a.url, b.url], { healthCheckIntervalMs: 0 }))).rejects.toMatchObject({
+        status: 503,
+      });
+      expect(b.requests).toHaveLength(0);
+
+      const pool = new EndpointPool([a.url, b.url], { healthCheckIntervalMs: 0, failoverWrites: true });
+      expect((await submit(pool)).data).toEqual({ hash: "0x1" });
+      expect(b.requests).toHaveLength(1);
+    });
+  });
+
+  test("fails over read only POST requests", async () => {
+    await withServers([[{ status: 503 }], [{ status: 200, body: ["1"] }]], async ([a, b]) => {
+      const pool = new EndpointPool([a.url, b.url], { healthCheckIntervalMs: 0 });
+      const response = await post<{}, any>({
+        url: a.url,
+        endpoint: "view",
+        body: {},
+        overrides: { ENDPOINT_POOL: pool },
+      });
+      expect(response.data).toEqual(["1"]);
+      expect(b.requests).toHaveLength(1);
+    });
+  });
+
+  test("checks the endpoints health when built", async () => {
+    await withServers([[ledgerInfo(100)], [ledgerInfo(1000)]], async ([behind, ahead]) => {
+      const pool = new EndpointPool([behind.url, ahead.url], { maxLedgerLag: 500 });
+      expect(pool.getCandidates()).toEqual([behind.url, ahead.url]);
+
+      // The request waits for the health check started by the pool, without running another one
+      await post({
+        url: ahead.url,
+        endpoint: "transactions",
+        body: new Uint8Array([1]),
+        overrides: { ENDPOINT_POOL: pool },
+      });
+      expect(pool.getCandidates()).toEqual([ahead.url]);
+      expect(ahead.requests).toHaveLength(1);
+      // Lagging endpoints still accept transactions
+      expect(behind.requests.map(({ method }) => method)).toEqual(["GET", "POST"]);
+    });
+  });
+
+  test("records ledger versions from response headers", async () => {
+    await withServers([[{ status: 200, headers: { "x-aptos-ledger-version": "42" } }]], async ([a]) => {
+      const pool = new EndpointPool([a.url], { healthCheckIntervalMs: 0 });
+      await get({ url: a.url, overrides: { ENDPOINT_POOL: pool } });
+      expect(pool.getStatus()[0].ledgerVersion).toBe(BigInt(42));
+    });
+  });
+
+  test("leaves requests to other urls alone", async () => {
+    await withServers([[ledgerInfo(1)], [{ status: 200 }]], async ([node, faucet]) => {
+      const pool = new EndpointPool([node.url], { healthCheckIntervalMs: 0 });
+      await get({ url: faucet.url, overrides: { ENDPOINT_POOL: pool } });
+      expect(node.requests).toHaveLength(0);
+      expect(faucet.requests).toHaveLength(1);
+    });
+  });
+
+  test("is built from a list of urls", async () => {
+    await withServers([[{ status: 503 }], [ledgerInfo(7)]], async ([a, b]) => {
+      const provider = new Provider({ fullnodeUrl: [a.url, b.url], indexerUrl: a.url }, undefined, true);
+      expect(provider.aptosClient.config?.ENDPOINT_POOL?.urls).toEqual([a.url, b.url]);
+      expect(provider.indexerClient.config?.ENDPOINT_POOL).toBeUndefined();
+      expect(new AptosClient(["https://test.com"]).nodeUrl).toBe("https://test.com/v1");
+    });
+  });
+});
@@ -0,0 +1,130 @@
+// Copyright © Aptos Foundation
+// SPDX-License-Identifier: Apache-2.0
+
+import nacl from "tweetnacl";
+import { AptosAccount } from "../../account";
+import { bcsToBytes, Deserializer } from "../../bcs";
+import { TransactionBuilder, TxnBuilderTypes } from "../../transaction_builder";
+import { AptosClient } from "../../providers";
+import { startMockServer } from "./test_helper.test";
+
+const {
+  AccountAddress,
+  AccountAuthenticator,
+  AccountAuthenticatorEd25519,
+  AccountAuthenticatorMultiEd25519,
+  ChainId,
+  FeePayerRawTransaction,
+  MultiEd25519PublicKey,
+  RawTransaction,
+  Script,
+  SignedTransaction,
+  TransactionAuthenticatorFeePayer,
+  TransactionPayloadScript,
+} = TxnBuilderTypes;
+
+const sender = new AptosAccount();
+const secondarySigner = new AptosAccount();
+const feePayer = new AptosAccount();
+
+function feePayerTransaction(): TxnBuilderTypes.FeePayerRawTransaction {
+  const rawTxn = new RawTransaction(
+    AccountAddress.fromHex(sender.address()),
+    BigInt(0),
+    new TransactionPayloadScript(new Script(new Uint8Array(), [], [])),
+    BigInt(2000),
+    BigInt(100),
+    BigInt(1000),
+    new ChainId(4),
+  );
+  return new FeePayerRawTransaction(
+    rawTxn,
+    [AccountAddress.fromHex(secondarySigner.address())],
+    AccountAddress.fromHex(feePayer.address()),
+  );
+}
+
+function decodeAuthenticator(signedTxn: Uint8Array): TxnBuilderTypes.TransactionAuthenticatorFeePayer {
+  const { authenticator } = SignedTransaction.deserialize(new Deserializer(signedTxn));
+  expect(authenticator).toBeInstanceOf(TransactionAuthenticatorFeePayer);
+  return authenticator as TxnBuilderTypes.TransactionAuthenticatorFeePayer;
+}
+
+describe("fee payer transactions", () => {
+  const client = new AptosClient("http://localhost:8080", undefined, true);
+
+  test("signs with detached authenticators", async () => {
+    const feePayerTxn = feePayerTransaction();
+    const authenticator = await client.signMultiTransaction(feePayer, feePayerTxn);
+
+    // Authenticators can be exchanged as BCS between the signers
+    const received = AccountAuthenticator.deserialize(new Deserializer(bcsToBytes(authenticator)));
+    expect(received).toBeInstanceOf(AccountAuthenticatorEd25519);
+    const { public_key: publicKey, signature } = received as TxnBuilderTypes.AccountAuthenticatorEd25519;
+    expect(publicKey.value).toEqual(feePayer.pubKey().toUint8Array());
+    expect(
+      nacl.sign.detached.verify(TransactionBuilder.getSigningMessage(feePayerTxn), signature.value, publicKey.value),
+    ).toBe(true);
+  });
+
+  test("assembles the signed transaction", async () => {
+    const feePayerTxn = feePayerTransaction();
+    const signedTxn = AptosClient.generateFeePayerBCSTransaction(
+      feePayerTxn,
+      await client.signMultiTransaction(sender, feePayerTxn),
+      await client.signMultiTransaction(feePayer, feePayerTxn),
+      [await client.signMultiTransaction(secondarySigner, feePayerTxn)],
+    );
+
+    const authenticator = decodeAuthenticator(signedTxn);
+    expect(authenticator.fee_payer.address).toEqual(feePayerTxn.fee_payer_address);
+    expect(authenticator.secondary_signer_addresses).toEqual(feePayerTxn.secondary_signer_addresses);
+    expect((authenticator.sender as TxnBuilderTypes.AccountAuthenticatorEd25519).public_key.value).toEqual(
+      sender.pubKey().toUint8Array(),
+    );
+    expect(
+      (authenticator.secondary_signers[0] as TxnBuilderTypes.AccountAuthenticatorEd25519).public_key.value,
+    ).toEqual(secondarySigner.pubKey().toUint8Array());
+  });
+
+  test("requires an authenticator for every secondary signer", async () => {
+    const feePayerTxn = feePayerTransaction();
+    const senderAuthenticator = await client.signMultiTransaction(sender, feePayerTxn);
+    const feePayerAuthenticator = await client.signMultiTransaction(feePayer, feePayerTxn);
+    expect(() =>
+      AptosClient.generateFeePayerBCSTransaction(feePayerTxn, senderAuthenticator, feePayerAuthenticator),
+    ).toThrow("Expected 1 secondary signer authenticators, got 0");
+  });
+
+  test("simulates with public keys only", async () => {
+    const server = await startMockServer([{ status: 200, body: [{ success: true, gas_used: "10" }] }]);
+    try {
+      const feePayerTxn = feePayerTransaction();
+      const multiKey = new MultiEd25519PublicKey(
+        [sender, feePayer].map((account) => new TxnBuilderTypes.Ed25519PublicKey(account.pubKey().toUint8Array())),
+        1,
+      );
+      const [result] = await new AptosClient(server.url, undefined, true).simulateFeePayerTransaction(
+        feePayerTxn,
+        sender.pubKey(),
+        multiKey,
+        [secondarySigner],
+        { estimateMaxGasAmount: true },
+      );
+      expect(result.success).toBe(true);
+
+      const [request] = server.requests;
+      expect(request.url).toBe(
+        "/transactions/simulate?estimate_gas_unit_price=false&estimate_max_gas_amount=true" +
+          "&estimate_prioritized_gas_unit_price=false",
+      );
+      const authenticator = decodeAuthenticator(new Uint8Array(request.body));
+      const senderAuthenticator = authenticator.sender as TxnBuilderTypes.AccountAuthenticatorEd25519;
+      expect(senderAuthenticator.public_key.value).toEqual(sender.pubKey().toUint8Array());
+      expect(senderAuthenticator.signature.value).toEqual(new Uint8Array(64));
+      expect(authenticator.fee_payer.authenticator).toBeInstanceOf(AccountAuthenticatorMultiEd25519);
+    } finally {
+      await server.close();
+    }
+  });
+});
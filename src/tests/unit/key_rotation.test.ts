@@ -0,0 +1,189 @@
+// Copyright © Aptos Foundation
+// SPDX-License-Identifier: Apache-2.0
+
+import {
+  AptosAccount,
+  MultiEd25519Account,
+  RotationProof,
+  RotationProofBuilder,
+  Secp256k1Account,
+  verifyRotationProof,
+} from "../../account";
+import { Deserializer } from "../../bcs";
+import { ApiError, AptosClient } from "../../providers";
+import { TxnBuilderTypes } from "../../transaction_builder";
+import { HexString } from "../../utils";
+import { WalletClient } from "../../wallet_client";
+
+const { SignedTransaction } = TxnBuilderTypes;
+
+const mnemonic = "shoot island position soft burden budget tooth cruel issue economy destroy above";
+
+const [alice, bob, carol] = [new AptosAccount(), new AptosAccount(), new AptosAccount()];
+const multi = MultiEd25519Account.fromPublicKeys([alice.pubKey(), bob.pubKey(), carol.pubKey()], 2);
+
+function mockSubmission(client: AptosClient, sequenceNumber: string, authKey: HexString) {
+  jest
+    .spyOn(client, "getAccount")
+    .mockResolvedValue({ sequence_number: sequenceNumber, authentication_key: authKey.hex() });
+  jest.spyOn(client, "getChainId").mockResolvedValue(4);
+  jest.spyOn(client, "estimateGasPrice").mockResolvedValue({ gas_estimate: 100 });
+  return jest.spyOn(client, "submitSignedBCSTransaction").mockResolvedValue({ hash: "0x1" } as any);
+}
+
+function submittedArgs(submit: jest.SpyInstance) {
+  const { raw_txn: rawTxn } = SignedTransaction.deserialize(new Deserializer(submit.mock.calls[0][0]));
+  const entryFunction = (rawTxn.payload as TxnBuilderTypes.TransactionPayloadEntryFunction).value;
+  expect(entryFunction.function_name.value).toBe("rotate_authentication_key");
+  return { rawTxn, args: entryFunction.args };
+}
+
+describe("Key rotation", () => {
+  const client = new AptosClient("http://localhost:8080", undefined, true);
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test("builds a rotation proof to a multi Ed25519 key from partial signatures", async () => {
+    const builder = new RotationProofBuilder("0xa11ce", 3, alice.authKey(), alice, multi);
+    await builder.signWithCurrentKey(alice);
+    expect(() => builder.build()).toThrow("A rotation proof needs the signatures of both the current and the new key");
+
+    // The keys of the multi Ed25519 account sign apart
+    const challenge = builder.challenge();
+    const partialSignatures = [multi.partialSign(carol, challenge), multi.partialSign(bob, challenge)];
+    builder.addNewKeySignature(multi.combineSignatures(challenge, partialSignatures).toBytes());
+
+    const proof = JSON.parse(JSON.stringify(builder.build())) as RotationProof;
+    expect(proof).toMatchObject({ address: "0xa11ce", sequenceNumber: "3", fromScheme: "ed25519" });
+    expect(verifyRotationProof(proof)).toBe(true);
+
+    const tampered: RotationProof[] = [
+      { ...proof, sequenceNumber: "4" },
+      { ...proof, address: "0xb0b" },
+      { ...proof, toPublicKey: bob.pubKey().hex(), toScheme: "ed25519" },
+      { ...proof, signedByCurrentKey: proof.signedByNewKey },
+      { ...proof, currentAuthKey: bob.authKey().hex() },
+    ];
+    tampered.forEach((t) => expect(verifyRotationProof(t)).toBe(false));
+  });
+
+  test("rejects invalid signatures and keys", async () => {
+    const builder = new RotationProofBuilder("0xa11ce", 3, alice.authKey(), alice, bob);
+    expect(() => builder.addCurrentKeySignature(bob.signBuffer(builder.challenge()).toUint8Array())).toThrow(
+      "Invalid rotation proof signature of the current key",
+    );
+    await expect(builder.signWithNewKey(carol)).rejects.toThrow("Invalid rotation proof signature of the new key");
+
+    expect(() => new RotationProofBuilder("0xa11ce", 3, bob.authKey(), alice, bob)).toThrow(
+      `The current key is not the auth key ${bob.authKey().hex()}`,
+    );
+    expect(() => new RotationProofBuilder("0xa11ce", 3, alice.authKey(), alice, new Secp256k1Account())).toThrow(
+      "Cannot rotate auth keys from or to secp256k1_ecdsa keys",
+    );
+  });
+
+  test("rotates a multi Ed25519 account to a single key", async () => {
+    const account = MultiEd25519Account.fromPublicKeys([alice.pubKey(), bob.pubKey(), carol.pubKey()], 2, {
+      address: "0xa11ce",
+      signers: [alice, carol],
+    });
+    const submit = mockSubmission(client, "7", account.authKey());
+
+    await client.rotateAuthKey(account, bob);
+
+    const { rawTxn, args } = submittedArgs(submit);
+    expect(rawTxn.sequence_number).toBe(BigInt(7));
+    const [fromScheme, fromPublicKey, toScheme, toPublicKey] = args;
+    expect(fromScheme).toEqual(new Uint8Array([1]));
+    expect(new Deserializer(fromPublicKey).deserializeBytes()).toEqual(account.publicKeyBytes());
+    expect(toScheme).toEqual(new Uint8Array([0]));
+    expect(new Deserializer(toPublicKey).deserializeBytes()).toEqual(bob.publicKeyBytes());
+  });
+
+  test("sends rotation proofs signed beforehand", async () => {
+    const builder = new RotationProofBuilder(alice.address(), 3, alice.authKey(), alice, bob);
+    await builder.signWithCurrentKey(alice);
+    await builder.signWithNewKey(bob);
+    const proof = builder.build();
+
+    await expect(client.rotateAuthKeyWithProof(carol, proof)).rejects.toThrow(
+      `The rotation proof of ${alice.address().hex()} cannot be sent by ${carol.address().hex()}`,
+    );
+    await expect(client.rotateAuthKeyWithProof(alice, { ...proof, toPublicKey: carol.pubKey().hex() })).rejects.toThrow(
+      "Invalid rotation proof",
+    );
+
+    mockSubmission(client, "4", alice.authKey());
+    await expect(client.rotateAuthKeyWithProof(alice, proof)).rejects.toThrow(
+      "The rotation proof was made at sequence number 3, the transaction is at 4",
+    );
+
+    jest.restoreAllMocks();
+    const submit = mockSubmission(client, "3", alice.authKey());
+    await client.rotateAuthKeyWithProof(alice, proof);
+    expect(new Deserializer(submittedArgs(submit).args[5]).deserializeBytes()).toEqual(
+      new HexString(proof.signedByNewKey).toUint8Array(),
+    );
+  });
+
+  test("rotates the key of a wallet account to the next address index", async () => {
+    const walletClient = new WalletClient("http://localhost:8080", "http://localhost:8081");
+    const first = AptosAccount.fromDerivePath("m/44'/637'/0'/0'/0'", mnemonic);
+    const second = AptosAccount.fromDerivePath("m/44'/637'/0'/0'/1'", mnemonic);
+    const third = AptosAccount.fromDerivePath("m/44'/637'/0'/0'/2'", mnemonic);
+    // The second key already has an account of its own
+    const accounts = new Map([
+      [first.address().hex(), first.authKey()],
+      [second.address().hex(), second.authKey()],
+    ]);
+    const originalAddresses = new Map<string, HexString>();
+
+    jest.spyOn(walletClient.aptosClient, "lookupOriginalAddress").mockImplementation(async (authKey) => {
+      const address = originalAddresses.get(HexString.ensure(authKey).hex());
+      if (!address) throw new ApiError(404, "Table Item not found");
+      return address;
+    });
+    jest.spyOn(walletClient.aptosClient, "getAccount").mockImplementation(async (address) => {
+      const authKey = accounts.get(HexString.ensure(address).hex());
+      if (!authKey) throw new ApiError(404, "Account not found");
+      return { sequence_number: "0", authentication_key: authKey.hex() };
+    });
+    const rotate = jest
+      .spyOn(walletClient.aptosClient, "rotateAuthKey")
+      .mockImplementation(async (forAccount, toAccount) => {
+        accounts.set(forAccount.address().hex(), (toAccount as AptosAccount).authKey());
+        originalAddresses.set((toAccount as AptosAccount).authKey().hex(), forAccount.address());
+        return { hash: "0x1" } as any;
+      });
+    jest
+      .spyOn(walletClient.aptosClient, "waitForTransactionWithResult")
+      .mockResolvedValue({ success: true, vm_status: "Executed successfully" } as any);
+
+    const { accounts: before } = await walletClient.importWallet(mnemonic, { gapLimit: 1, addressGapLimit: 2 });
+    const result = await walletClient.rotateAuthKey(mnemonic, before[0]);
+
+    const [forAccount, toAccount] = rotate.mock.calls[0];
+    expect(forAccount.address().hex()).toBe(first.address().hex());
+    expect(toAccount.publicKeyBytes()).toEqual(third.publicKeyBytes());
+    expect(result).toEqual({
+      authkey: third.authKey().hex(),
+      success: true,
+      vm_status: "Executed successfully",
+      metaData: {
+        derivationPath: "m/44'/637'/0'/0'/2'",
+        address: first.address().hex(),
+        publicKey: third.pubKey().hex(),
+      },
+    });
+
+    // The account keeps its address, signs with its new key, and the old key is no longer discovered
+    const rotated = WalletClient.getAccountFromMetaData(mnemonic, result.metaData);
+    expect(rotated.address().hex()).toBe(first.address().hex());
+    expect(rotated.pubKey().hex()).toBe(third.pubKey().hex());
+    const { accounts: after } = await walletClient.importWallet(mnemonic, { gapLimit: 1, addressGapLimit: 2 });
+    expect(after.map(({ derivationPath }) => derivationPath)).toEqual(["m/44'/637'/0'/0'/1'", "m/44'/637'/0'/0'/2'"]);
+    expect(after[1]).toEqual(result.metaData);
+  });
+});
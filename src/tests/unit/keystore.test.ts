@@ -0,0 +1,100 @@
+// Copyright © Aptos Foundation
+// SPDX-License-Identifier: Apache-2.0
+
+import { AptosAccount, Keystore, KeystoreOptions } from "../../account";
+import { WalletClient } from "../../wallet_client";
+
+// Cheap parameters, the defaults are deliberately slow
+const scrypt: KeystoreOptions = { n: 1024 };
+const pbkdf2: KeystoreOptions = { kdf: "pbkdf2", c: 1000 };
+
+const mnemonic = "shoot island position soft burden budget tooth cruel issue economy destroy above";
+
+function tamper(hex: string): string {
+  return `${hex.slice(0, -2)}${hex.slice(-2) === "00" ? "01" : "00"}`;
+}
+
+describe("Keystore", () => {
+  test.each([
+    ["scrypt", scrypt],
+    ["pbkdf2", pbkdf2],
+  ])("exports and imports an account with %s", async (kdf, options) => {
+    const account = new AptosAccount(undefined, "0x1234");
+    const keystore = await account.toKeystore("hunter2", options);
+
+    expect(keystore).toMatchObject({ version: 1, type: "aptos_account", address: "0x1234", crypto: { kdf } });
+    expect(keystore.id).toMatch(/^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/);
+    const json = JSON.stringify(keystore);
+    expect(json).not.toContain(account.toPrivateKeyObject().privateKeyHex.slice(2));
+
+    const imported = await AptosAccount.fromKeystore(json, "hunter2");
+    expect(imported.toPrivateKeyObject()).toEqual(account.toPrivateKeyObject());
+    expect((await WalletClient.getAccountFromKeystore(keystore, "hunter2")).address().hex()).toBe("0x1234");
+  });
+
+  test("rejects wrong passwords", async () => {
+    const keystore = await new AptosAccount().toKeystore("hunter2", scrypt);
+    await expect(AptosAccount.fromKeystore(keystore, "hunter3")).rejects.toThrow(
+      "Invalid password or corrupted keystore",
+    );
+  });
+
+  test("rejects tampered keystores", async () => {
+    const keystore = await new AptosAccount().toKeystore("hunter2", scrypt);
+    const tampered: Keystore[] = [
+      { ...keystore, crypto: { ...keystore.crypto, ciphertext: tamper(keystore.crypto.ciphertext) } },
+      { ...keystore, crypto: { ...keystore.crypto, cipherparams: { iv: tamper(keystore.crypto.cipherparams.iv) } } },
+      { ...keystore, address: "0x1" },
+    ];
+    await Promise.all(
+      tampered.map((t) =>
+        expect(AptosAccount.fromKeystore(t, "hunter2")).rejects.toThrow("Invalid password or corrupted keystore"),
+      ),
+    );
+
+    await expect(AptosAccount.fromKeystore({ ...keystore, version: 2 }, "hunter2")).rejects.toThrow(
+      "Unsupported keystore version 2",
+    );
+  });
+
+  test("rejects key derivation parameters too costly or invalid", async () => {
+    const keystore = await new AptosAccount().toKeystore("hunter2", scrypt);
+    const { kdfparams } = keystore.crypto;
+    const withParams = (params: object): Keystore => ({
+      ...keystore,
+      crypto: { ...keystore.crypto, kdfparams: { ...kdfparams, ...params } },
+    });
+
+    await expect(AptosAccount.fromKeystore(withParams({ n: 2 ** 40 }), "hunter2")).rejects.toThrow(
+      "Unsupported scrypt parameter n=1099511627776",
+    );
+    await expect(AptosAccount.fromKeystore(withParams({ n: 1000 }), "hunter2")).rejects.toThrow(
+      "expected a power of two",
+    );
+    await expect(AptosAccount.fromKeystore(withParams({ r: 8, p: 1000 }), "hunter2")).rejects.toThrow(
+      "Unsupported scrypt parameters r=8 and p=1000",
+    );
+    await expect(AptosAccount.fromKeystore(withParams({ dklen: 16 }), "hunter2")).rejects.toThrow(
+      "Unsupported derived key length 16, expected 32",
+    );
+    await expect(new AptosAccount().toKeystore("hunter2", { kdf: "pbkdf2", c: 1e9 })).rejects.toThrow(
+      "Unsupported PBKDF2 iteration count 1000000000",
+    );
+  });
+
+  test("exports and imports a wallet", async () => {
+    const walletClient = new WalletClient("http://localhost:8080", "http://localhost:8081");
+    const wallet = { code: mnemonic, accounts: [walletClient.createNewAccount(mnemonic, 0)] };
+    const keystore = await WalletClient.exportWalletKeystore(wallet, "hunter2", pbkdf2);
+
+    expect(keystore.type).toBe("wallet");
+    expect(keystore.address).toBeUndefined();
+    expect(JSON.stringify(keystore)).not.toContain("shoot");
+    expect(await WalletClient.importWalletKeystore(JSON.stringify(keystore), "hunter2")).toEqual(wallet);
+
+    await expect(WalletClient.importWalletKeystore(keystore, "hunter3")).rejects.toThrow("Invalid password");
+    await expect(AptosAccount.fromKeystore(keystore, "hunter2")).rejects.toThrow(
+      "Expected a keystore of type aptos_account, got wallet",
+    );
+  });
+});
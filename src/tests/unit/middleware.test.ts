@@ -0,0 +1,108 @@
+// Copyright © Aptos Foundation
+// SPDX-License-Identifier: Apache-2.0
+
+import { AptosApiError, AptosRequest, ClientMiddleware, get } from "../../client";
+import { AptosClient, IndexerClient } from "../../providers";
+import { startMockServer } from "./test_helper.test";
+
+describe("client middleware", () => {
+  test("runs hooks around a request in onion order", async () => {
+    const server = await startMockServer([{ status: 200, body: { ok: true } }]);
+    const calls: string[] = [];
+    const track = (name: string): ClientMiddleware => ({
+      beforeRequest: () => {
+        calls.push(`${name}:before`);
+      },
+      afterResponse: () => {
+        calls.push(`${name}:after`);
+      },
+    });
+    try {
+      await get({ url: server.url, overrides: { MIDDLEWARE: [track("a"), track("b")] } });
+      expect(calls).toEqual(["a:before", "b:before", "b:after", "a:after"]);
+    } finally {
+      await server.close();
+    }
+  });
+
+  test("can inject headers and rewrite urls", async () => {
+    const server = await startMockServer([{ status: 200 }]);
+    const requestId: ClientMiddleware = {
+      beforeRequest: (request) => ({
+        ...request,
+        overrides: { ...request.overrides, HEADERS: { ...request.overrides?.HEADERS, "x-request-id": "42" } },
+      }),
+    };
+    const proxy: ClientMiddleware = {
+      beforeRequest: (request) => ({
+        ...request,
+        url: request.url.replace("https://fullnode.example.com", server.url),
+      }),
+    };
+    try {
+      const client = new AptosClient("https://fullnode.example.com/v1", { MIDDLEWARE: [requestId, proxy] });
+      await client.getAccount("0x1");
+      expect(server.requests).toHaveLength(1);
+      expect(server.requests[0].url).toBe("/v1/accounts/0x1");
+      expect(server.requests[0].headers["x-request-id"]).toBe("42");
+    } finally {
+      await server.close();
+    }
+  });
+
+  test("passes the origin method and can modify the response", async () => {
+    const server = await startMockServer([{ status: 200, body: { chain_id: 1 } }]);
+    const seen: AptosRequest[] = [];
+    const middleware: ClientMiddleware = {
+      beforeRequest: (request) => {
+        seen.push(request);
+      },
+      afterResponse: (_, response) => ({ ...response, data: { ...response.data, chain_id: 2 } }),
+    };
+    try {
+      const client = new AptosClient(server.url, { MIDDLEWARE: [middleware] }, true);
+      const info = await client.getLedgerInfo();
+      expect(info.chain_id).toBe(2);
+      expect(seen[0].originMethod).toBe("getLedgerInfo");
+    } finally {
+      await server.close();
+    }
+  });
+
+  test("notifies errors and rethrows them", async () => {
+    const server = await startMockServer([{ status: 400, body: { message: "bad" } }]);
+    const errors: unknown[] = [];
+    const afterResponse = jest.fn();
+    const middleware: ClientMiddleware = {
+      afterResponse,
+      onError: (request, error) => {
+        errors.push(error);
+        expect(request.originMethod).toBe("queryIndexer");
+      },
+    };
+    try {
+      const client = new IndexerClient(server.url, { MIDDLEWARE: [middleware] });
+      await expect(client.getIndexerLedgerInfo()).rejects.toBeInstanceOf(AptosApiError);
+      expect(errors).toHaveLength(1);
+      expect((errors[0] as AptosApiError).status).toBe(400);
+      expect(afterResponse).not.toHaveBeenCalled();
+    } finally {
+      await server.close();
+    }
+  });
+
+  test("runs once per call when retrying", async () => {
+    const server = await startMockServer([{ status: 503 }, { status: 200 }]);
+    const beforeRequest = jest.fn();
+    try {
+      await get({
+        url: server.url,
+        overrides: { MIDDLEWARE: [{ beforeRequest }], RETRY: { baseDelayMs: 1, jitter: false } },
+      });
+      expect(server.requests).toHaveLength(2);
+      expect(beforeRequest).toHaveBeenCalledTimes(1);
+    } finally {
+      await server.close();
+    }
+  });
+});
@@ -0,0 +1,96 @@
+// Copyright © Aptos Foundation
+// SPDX-License-Identifier: Apache-2.0
+
+import { ApiError, FailedTransactionError } from "../../providers";
+import * as Gen from "../../generated/index";
+import {
+  decodeMoveAbort,
+  decodeMoveAbortCode,
+  MOVE_ERROR_CATEGORIES,
+  registerMoveErrorMap,
+  unregisterMoveErrorMap,
+} from "../../utils";
+
+describe("Move abort decoding", () => {
+  afterEach(() => {
+    unregisterMoveErrorMap("0xcafe::marketplace");
+  });
+
+  test("decodes a named abort", () => {
+    expect(decodeMoveAbort("Move abort in 0x1::coin: EINSUFFICIENT_BALANCE(0x10006)")).toEqual({
+      module: "0x1::coin",
+      reason: "EINSUFFICIENT_BALANCE",
+      reasonCode: 6,
+      category: "INVALID_ARGUMENT",
+      categoryCode: 1,
+      code: BigInt(0x10006),
+      description: MOVE_ERROR_CATEGORIES[1].description,
+    });
+  });
+
+  test("keeps the description reported by the node", () => {
+    const abort = decodeMoveAbort(
+      "Move abort in 0x1::coin: EINSUFFICIENT_BALANCE(0x10006): Not enough coins to complete transaction",
+    );
+    expect(abort?.description).toBe("Not enough coins to complete transaction");
+  });
+
+  test("decodes unnamed aborts with registered error maps", () => {
+    expect(decodeMoveAbort("Move abort in 0xcafe::marketplace: 0x60001")).toMatchObject({
+      module: "0xcafe::marketplace",
+      reason: undefined,
+      category: "NOT_FOUND",
+      description: MOVE_ERROR_CATEGORIES[6].description,
+    });
+
+    registerMoveErrorMap("0x000cafe::marketplace", {
+      1: { name: "ELISTING_NOT_FOUND", description: "The listing does not exist" },
+    });
+    expect(decodeMoveAbort("Move abort in 0xcafe::marketplace: 0x60001")).toMatchObject({
+      reason: "ELISTING_NOT_FOUND",
+      reasonCode: 1,
+      category: "NOT_FOUND",
+      categoryCode: 6,
+      description: "The listing does not exist",
+    });
+    expect(decodeMoveAbortCode("0xcafe::marketplace", 1).reason).toBe("ELISTING_NOT_FOUND");
+  });
+
+  test("decodes codes outside of the framework categories", () => {
+    expect(decodeMoveAbort("Move abort in 0xcafe::marketplace: 42")).toMatchObject({
+      reasonCode: 42,
+      category: undefined,
+      categoryCode: 0,
+      code: BigInt(42),
+      description: undefined,
+    });
+  });
+
+  test("ignores other statuses", () => {
+    expect(decodeMoveAbort("Executed successfully")).toBeUndefined();
+    expect(decodeMoveAbort("Out of gas")).toBeUndefined();
+    expect(decodeMoveAbort(undefined)).toBeUndefined();
+  });
+
+  test("is exposed by errors", () => {
+    const transaction = {
+      type: "user_transaction",
+      success: false,
+      vm_status: "Move abort in 0x1::coin: EINSUFFICIENT_BALANCE(0x10006): Not enough coins",
+    } as unknown as Gen.Transaction;
+    expect(new FailedTransactionError("failed", transaction).moveAbort?.reason).toBe("EINSUFFICIENT_BALANCE");
+    const blockMetadata = { ...transaction, type: "block_metadata_transaction" } as Gen.Transaction;
+    expect(new FailedTransactionError("failed", blockMetadata).moveAbort).toBeUndefined();
+
+    const apiError = new ApiError(
+      400,
+      JSON.stringify({
+        message: "Error in function 0x1::coin::balance: Move abort in 0x1::coin: ECOIN_STORE_NOT_PUBLISHED(0x60005)",
+        error_code: "invalid_input",
+      }),
+      "invalid_input",
+    );
+    expect(apiError.moveAbort).toMatchObject({ reason: "ECOIN_STORE_NOT_PUBLISHED", category: "NOT_FOUND" });
+    expect(new ApiError(404, "Account not found").moveAbort).toBeUndefined();
+  });
+});
@@ -0,0 +1,132 @@
+// Copyright © Aptos Foundation
+// SPDX-License-Identifier: Apache-2.0
+
+import nacl from "tweetnacl";
+import { AptosAccount } from "../../account";
+import { bcsToBytes, Deserializer } from "../../bcs";
+import { TransactionBuilder, TxnBuilderTypes } from "../../transaction_builder";
+import { AptosClient } from "../../providers";
+import { startMockServer } from "./test_helper.test";
+
+const {
+  AccountAddress,
+  AccountAuthenticator,
+  AccountAuthenticatorEd25519,
+  ChainId,
+  MultiAgentRawTransaction,
+  RawTransaction,
+  Script,
+  SignedTransaction,
+  TransactionAuthenticatorMultiAgent,
+  TransactionPayloadScript,
+} = TxnBuilderTypes;
+
+const sender = new AptosAccount();
+const secondarySigners = [new AptosAccount(), new AptosAccount()];
+
+function multiAgentTransaction(): TxnBuilderTypes.MultiAgentRawTransaction {
+  const rawTxn = new RawTransaction(
+    AccountAddress.fromHex(sender.address()),
+    BigInt(0),
+    new TransactionPayloadScript(new Script(new Uint8Array(), [], [])),
+    BigInt(2000),
+    BigInt(100),
+    BigInt(1000),
+    new ChainId(4),
+  );
+  return new MultiAgentRawTransaction(
+    rawTxn,
+    secondarySigners.map((signer) => AccountAddress.fromHex(signer.address())),
+  );
+}
+
+function decodeAuthenticator(signedTxn: Uint8Array): TxnBuilderTypes.TransactionAuthenticatorMultiAgent {
+  const { authenticator } = SignedTransaction.deserialize(new Deserializer(signedTxn));
+  expect(authenticator).toBeInstanceOf(TransactionAuthenticatorMultiAgent);
+  return authenticator as TxnBuilderTypes.TransactionAuthenticatorMultiAgent;
+}
+
+describe("multi agent transactions", () => {
+  const client = new AptosClient("http://localhost:8080", undefined, true);
+
+  test("combines detached authenticators into a signed transaction", async () => {
+    const multiAgentTxn = multiAgentTransaction();
+    const signingMessage = TransactionBuilder.getSigningMessage(multiAgentTxn);
+
+    // Every signer signs on its own and sends back its BCS encoded authenticator
+    const [senderAuthenticator, ...secondaryAuthenticators] = await Promise.all(
+      [sender, ...secondarySigners].map(async (signer) =>
+        bcsToBytes(await client.signMultiTransaction(signer, multiAgentTxn)),
+      ),
+    );
+    const signedTxn = AptosClient.generateMultiAgentBCSTransaction(
+      multiAgentTxn,
+      AccountAuthenticator.deserialize(new Deserializer(senderAuthenticator)),
+      secondaryAuthenticators.map((bytes) => AccountAuthenticator.deserialize(new Deserializer(bytes))),
+    );
+
+    const authenticator = decodeAuthenticator(signedTxn);
+    expect(authenticator.secondary_signer_addresses).toEqual(multiAgentTxn.secondary_signer_addresses);
+    [authenticator.sender, ...authenticator.secondary_signers].forEach((accountAuthenticator, i) => {
+      expect(accountAuthenticator).toBeInstanceOf(AccountAuthenticatorEd25519);
+      const { public_key: publicKey, signature } = accountAuthenticator as TxnBuilderTypes.AccountAuthenticatorEd25519;
+      expect(publicKey.value).toEqual([sender, ...secondarySigners][i].pubKey().toUint8Array());
+      expect(nacl.sign.detached.verify(signingMessage, signature.value, publicKey.value)).toBe(true);
+    });
+  });
+
+  test("requires an authenticator for every secondary signer", async () => {
+    const multiAgentTxn = multiAgentTransaction();
+    const senderAuthenticator = await client.signMultiTransaction(sender, multiAgentTxn);
+    expect(() => AptosClient.generateMultiAgentBCSTransaction(multiAgentTxn, senderAuthenticator, [])).toThrow(
+      "Expected 2 secondary signer authenticators, got 0",
+    );
+  });
+
+  test("submits the signed transaction", async () => {
+    const server = await startMockServer([{ status: 202, body: { type: "pending_transaction", hash: "0x1" } }]);
+    try {
+      const multiAgentTxn = multiAgentTransaction();
+      const senderAuthenticator = await client.signMultiTransaction(sender, multiAgentTxn);
+      const secondaryAuthenticators = await Promise.all(
+        secondarySigners.map((signer) => client.signMultiTransaction(signer, multiAgentTxn)),
+      );
+      const pending = await new AptosClient(server.url, undefined, true).submitMultiAgentTransaction(
+        multiAgentTxn,
+        senderAuthenticator,
+        secondaryAuthenticators,
+      );
+      expect(pending.hash).toBe("0x1");
+
+      const [request] = server.requests;
+      expect(request.url).toBe("/transactions");
+      expect(new Uint8Array(request.body)).toEqual(
+        AptosClient.generateMultiAgentBCSTransaction(multiAgentTxn, senderAuthenticator, secondaryAuthenticators),
+      );
+    } finally {
+      await server.close();
+    }
+  });
+
+  test("simulates with public keys only", async () => {
+    const server = await startMockServer([{ status: 200, body: [{ success: true, gas_used: "10" }] }]);
+    try {
+      const [result] = await new AptosClient(server.url, undefined, true).simulateMultiAgentTransaction(
+        multiAgentTransaction(),
+        sender,
+        secondarySigners.map((signer) => signer.pubKey().hex()),
+      );
+      expect(result.success).toBe(true);
+
+      const authenticator = decodeAuthenticator(new Uint8Array(server.requests[0].body));
+      authenticator.secondary_signers.forEach((accountAuthenticator, i) => {
+        const { public_key: publicKey, signature } =
+          accountAuthenticator as TxnBuilderTypes.AccountAuthenticatorEd25519;
+        expect(publicKey.value).toEqual(secondarySigners[i].pubKey().toUint8Array());
+        expect(signature.value).toEqual(new Uint8Array(64));
+      });
+    } finally {
+      await server.close();
+    }
+  });
+});
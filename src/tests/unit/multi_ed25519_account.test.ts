@@ -0,0 +1,149 @@
+// Copyright © Aptos Foundation
+// SPDX-License-Identifier: Apache-2.0
+
+import nacl from "tweetnacl";
+import { AptosAccount, MultiEd25519Account, MultiEd25519PartialSignature } from "../../account";
+import { bcsToBytes, Deserializer } from "../../bcs";
+import { TransactionBuilder, TxnBuilderTypes } from "../../transaction_builder";
+import { AptosClient } from "../../providers";
+
+const {
+  AccountAddress,
+  AuthenticationKey,
+  ChainId,
+  MultiEd25519Signature,
+  RawTransaction,
+  RotationProofChallenge,
+  Script,
+  SignedTransaction,
+  TransactionAuthenticatorMultiEd25519,
+  TransactionPayloadScript,
+} = TxnBuilderTypes;
+
+const [alice, bob, carol] = [new AptosAccount(), new AptosAccount(), new AptosAccount()];
+const publicKeys = [alice.pubKey(), bob.pubKey(), carol.pubKey()];
+
+function rawTransaction(sender: MultiEd25519Account): TxnBuilderTypes.RawTransaction {
+  return new RawTransaction(
+    AccountAddress.fromHex(sender.address()),
+    BigInt(0),
+    new TransactionPayloadScript(new Script(new Uint8Array(), [], [])),
+    BigInt(2000),
+    BigInt(100),
+    BigInt(1000),
+    new ChainId(4),
+  );
+}
+
+function verify(
+  account: MultiEd25519Account,
+  message: Uint8Array,
+  signature: TxnBuilderTypes.MultiEd25519Signature,
+  expectedSigners: AptosAccount[],
+) {
+  const expectedIndices = expectedSigners.map((signer) => account.indexOf(signer.pubKey()));
+  expect(signature.bitmap).toEqual(MultiEd25519Signature.createBitmap(expectedIndices));
+  signature.signatures.forEach(({ value }, i) => {
+    expect(nacl.sign.detached.verify(message, value, expectedSigners[i].signingKey.publicKey)).toBe(true);
+  });
+}
+
+describe("MultiEd25519Account", () => {
+  test("derives its address from its keys", () => {
+    const account = MultiEd25519Account.fromPublicKeys(publicKeys, 2);
+    const authKey = AuthenticationKey.fromMultiEd25519PublicKey(account.publicKey).derivedAddress();
+    expect(account.authKey().hex()).toBe(authKey.hex());
+    expect(account.address().hex()).toBe(authKey.hex());
+    expect(account.threshold).toBe(2);
+    expect(MultiEd25519Account.fromPublicKeys(publicKeys, 2, { address: "0x1" }).address().hex()).toBe("0x1");
+    expect(() => MultiEd25519Account.fromPublicKeys(publicKeys, 4)).toThrow("Invalid threshold");
+  });
+
+  test("combines partial signatures collected in any order", () => {
+    const account = MultiEd25519Account.fromPublicKeys(publicKeys, 2);
+    const message = new TextEncoder().encode("hello");
+
+    // Partial signatures travel as JSON between the signers
+    const partialSignatures: MultiEd25519PartialSignature[] = JSON.parse(
+      JSON.stringify([account.partialSign(carol, message), account.partialSign(alice, message)]),
+    );
+    verify(account, message, account.combineSignatures(message, partialSignatures), [alice, carol]);
+
+    // Duplicates count once, and extra signatures are dropped
+    const all = [bob, carol, carol, alice].map((signer) => account.partialSign(signer, message));
+    verify(account, message, account.combineSignatures(message, all), [alice, bob]);
+  });
+
+  test("rejects invalid partial signatures", () => {
+    const account = MultiEd25519Account.fromPublicKeys(publicKeys, 2);
+    const message = new TextEncoder().encode("hello");
+    const outsider = new AptosAccount();
+
+    expect(() => account.partialSign(outsider, message)).toThrow("is not a key of the multi Ed25519 account");
+    expect(() => account.combineSignatures(message, [account.partialSign(alice, message)])).toThrow(
+      "Expected at least 2 signatures, got 1",
+    );
+    const forged = { ...account.partialSign(alice, message), signature: bob.signBuffer(message).hex() };
+    expect(() => account.combineSignatures(message, [forged, account.partialSign(bob, message)])).toThrow(
+      "Invalid signature",
+    );
+  });
+
+  test("signs transactions with local signers and partial signatures", async () => {
+    const account = MultiEd25519Account.fromPublicKeys(publicKeys, 2, { signers: [bob] });
+    const rawTxn = rawTransaction(account);
+    const signedTxn = account.generateBCSTransaction(rawTxn, [account.partialSignTransaction(carol, rawTxn)]);
+
+    const { authenticator } = SignedTransaction.deserialize(new Deserializer(signedTxn));
+    expect(authenticator).toBeInstanceOf(TransactionAuthenticatorMultiEd25519);
+    const { public_key: publicKey, signature } = authenticator as TxnBuilderTypes.TransactionAuthenticatorMultiEd25519;
+    expect(publicKey.toBytes()).toEqual(account.publicKey.toBytes());
+    verify(account, TransactionBuilder.getSigningMessage(rawTxn), signature, [bob, carol]);
+
+    // Not enough local signers on their own
+    const client = new AptosClient("http://localhost:8080", undefined, true);
+    await expect(client.signTransaction(account, rawTxn)).rejects.toThrow("Expected at least 2 signatures");
+    const fullyLocal = MultiEd25519Account.fromPublicKeys(publicKeys, 2, { signers: [alice, carol] });
+    expect(await client.signTransaction(fullyLocal, rawTxn)).toEqual(
+      fullyLocal.generateBCSTransaction(rawTxn, [
+        fullyLocal.partialSignTransaction(carol, rawTxn),
+        fullyLocal.partialSignTransaction(alice, rawTxn),
+      ]),
+    );
+  });
+
+  test("rotates the auth key of an account to a multi Ed25519 key", async () => {
+    const client = new AptosClient("http://localhost:8080", undefined, true);
+    const account = MultiEd25519Account.fromPublicKeys(publicKeys, 2, { signers: [alice, bob] });
+    jest
+      .spyOn(client, "getAccount")
+      .mockResolvedValue({ sequence_number: "3", authentication_key: alice.authKey().hex() });
+    jest.spyOn(client, "getChainId").mockResolvedValue(4);
+    jest.spyOn(client, "estimateGasPrice").mockResolvedValue({ gas_estimate: 100 });
+    const submit = jest.spyOn(client, "submitSignedBCSTransaction").mockResolvedValue({ hash: "0x1" } as any);
+
+    await client.rotateAuthKey(alice, account);
+
+    const { raw_txn: rawTxn } = SignedTransaction.deserialize(new Deserializer(submit.mock.calls[0][0]));
+    const entryFunction = (rawTxn.payload as TxnBuilderTypes.TransactionPayloadEntryFunction).value;
+    expect(entryFunction.function_name.value).toBe("rotate_authentication_key");
+    const [fromScheme, , toScheme, toPublicKey, , capUpdateTable] = entryFunction.args;
+    expect(fromScheme).toEqual(new Uint8Array([AuthenticationKey.ED25519_SCHEME]));
+    expect(toScheme).toEqual(new Uint8Array([AuthenticationKey.MULTI_ED25519_SCHEME]));
+    expect(new Deserializer(toPublicKey).deserializeBytes()).toEqual(account.publicKey.toBytes());
+
+    // The new keys sign the rotation proof with a multi Ed25519 signature
+    const challenge = bcsToBytes(
+      new RotationProofChallenge(
+        AccountAddress.CORE_CODE_ADDRESS,
+        "account",
+        "RotationProofChallenge",
+        BigInt(3),
+        AccountAddress.fromHex(alice.address()),
+        AccountAddress.fromHex(alice.authKey()),
+        account.publicKey.toBytes(),
+      ),
+    );
+    verify(account, challenge, MultiEd25519Signature.deserialize(new Deserializer(capUpdateTable)), [alice, bob]);
+  });
+});
@@ -0,0 +1,142 @@
+// Copyright © Aptos Foundation
+// SPDX-License-Identifier: Apache-2.0
+
+import { AptosAccount } from "../../account";
+import { bcsSerializeUint64 } from "../../bcs";
+import { MultisigAccountClient } from "../../plugins";
+import { AptosClient } from "../../providers";
+import { TxnBuilderTypes } from "../../transaction_builder";
+import * as Gen from "../../generated/index";
+
+const MULTISIG_ADDRESS = "0xabc";
+const ALICE = "0xa";
+const BOB = "0xb";
+const CAROL = "0xc";
+
+const transaction = (votes: [string, boolean][], payload?: string) => ({
+  payload: { vec: payload ? [payload] : [] },
+  payload_hash: { vec: payload ? [] : ["0x1234"] },
+  votes: { data: votes.map(([key, value]) => ({ key, value })) },
+  creator: ALICE,
+  creation_time_secs: "1700000000",
+});
+
+function mockViews(client: AptosClient, results: Record<string, Gen.MoveValue[]>) {
+  jest.spyOn(client, "getLedgerInfo").mockResolvedValue({ ledger_version: "1000" } as Gen.IndexResponse);
+  return jest
+    .spyOn(client, "view")
+    .mockImplementation(async ({ function: func }) => results[func.replace("0x1::multisig_account::", "")]);
+}
+
+describe("MultisigAccountClient", () => {
+  const client = new AptosClient("http://localhost:8080", undefined, true);
+  const multisig = new MultisigAccountClient(client);
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test("derives the address of created multisig accounts", () => {
+    const seed = new Uint8Array([
+      ...new TextEncoder().encode("aptos_framework::multisig_account"),
+      ...bcsSerializeUint64(5),
+    ]);
+    expect(MultisigAccountClient.getMultisigAccountAddress(ALICE, 5).hex()).toBe(
+      AptosAccount.getResourceAccountAddress(ALICE, seed).hex(),
+    );
+    expect(MultisigAccountClient.getMultisigAccountAddress(ALICE, 5).hex()).not.toBe(
+      MultisigAccountClient.getMultisigAccountAddress(ALICE, 6).hex(),
+    );
+  });
+
+  test("lists pending transactions with their votes", async () => {
+    const view = mockViews(client, {
+      get_pending_transactions: [
+        [
+          transaction(
+            [
+              [ALICE, true],
+              [BOB, true],
+            ],
+            "0x00",
+          ),
+          transaction([
+            [ALICE, true],
+            [BOB, false],
+            [CAROL, false],
+          ]),
+        ],
+      ],
+      num_signatures_required: ["2"],
+      last_resolved_sequence_number: ["3"],
+    });
+
+    const [next, following] = await multisig.getPendingTransactions(MULTISIG_ADDRESS);
+    expect(view).toHaveBeenCalledWith(
+      {
+        function: "0x1::multisig_account::get_pending_transactions",
+        type_arguments: [],
+        arguments: ["0xabc"],
+      },
+      "1000",
+    );
+    // Every view reads the same ledger version, so that they agree with each other
+    expect(view).toHaveBeenCalledTimes(3);
+    view.mock.calls.forEach(([, ledgerVersion]) => expect(ledgerVersion).toBe("1000"));
+    expect(next).toMatchObject({
+      sequenceNumber: BigInt(4),
+      creator: ALICE,
+      creationTimeSecs: BigInt(1700000000),
+      payload: new Uint8Array([0]),
+      payloadHash: undefined,
+      approvals: [ALICE, BOB],
+      rejections: [],
+      canBeExecuted: true,
+      canBeRejected: false,
+    });
+    // Enough rejections, but the previous transaction has to be resolved first
+    expect(following).toMatchObject({
+      sequenceNumber: BigInt(5),
+      payload: undefined,
+      payloadHash: new Uint8Array([0x12, 0x34]),
+      approvals: [ALICE],
+      rejections: [BOB, CAROL],
+      canBeExecuted: false,
+      canBeRejected: false,
+    });
+  });
+
+  test("gets a single transaction", async () => {
+    const view = mockViews(client, {
+      get_transaction: [transaction([[ALICE, false]])],
+      num_signatures_required: ["1"],
+      last_resolved_sequence_number: ["9"],
+    });
+    expect(await multisig.getTransaction(MULTISIG_ADDRESS, 10)).toMatchObject({
+      sequenceNumber: BigInt(10),
+      canBeExecuted: false,
+      canBeRejected: true,
+    });
+    expect(view).toHaveBeenCalledWith(
+      {
+        function: "0x1::multisig_account::get_transaction",
+        type_arguments: [],
+        arguments: ["0xabc", "10"],
+      },
+      "1000",
+    );
+    view.mock.calls.forEach(([, ledgerVersion]) => expect(ledgerVersion).toBe("1000"));
+  });
+
+  test("executes transactions whose payload is stored on chain", async () => {
+    const owner = new AptosAccount();
+    const submit = jest.spyOn(client, "generateSignSubmitTransaction").mockResolvedValue("0x1");
+    expect(await multisig.executeTransaction(owner, MULTISIG_ADDRESS)).toBe("0x1");
+
+    const [sender, payload] = submit.mock.calls[0];
+    expect(sender).toBe(owner);
+    const { value } = payload as TxnBuilderTypes.TransactionPayloadMultisig;
+    expect(value.multisig_address).toEqual(TxnBuilderTypes.AccountAddress.fromHex(MULTISIG_ADDRESS));
+    expect(value.transaction_payload).toBeUndefined();
+  });
+});
@@ -0,0 +1,114 @@
+// Copyright © Aptos Foundation
+// SPDX-License-Identifier: Apache-2.0
+
+import { AptosAccount, verifySignature } from "../../account";
+import { SignedTransaction, TransactionAuthenticatorEd25519 } from "../../aptos_types";
+import { Deserializer } from "../../bcs";
+import { AptosClient } from "../../providers";
+import {
+  ABIRegistry,
+  buildOfflineTransaction,
+  createTransactionBundle,
+  readTransactionBundle,
+  signedTransactionBytes,
+  signTransactionBundle,
+  TransactionBuilder,
+} from "../../transaction_builder";
+
+const sender = new AptosAccount();
+const config = {
+  sender: sender.address(),
+  sequenceNumber: "0",
+  chainId: 1,
+  gasUnitPrice: "100",
+  maxGasAmount: "2000",
+  expirationTimestampSecs: "1700000600",
+};
+
+describe("Offline transactions", () => {
+  test("builds transactions without a node", async () => {
+    const registry = new ABIRegistry({ framework: true });
+    const rawTxn = await buildOfflineTransaction(
+      registry,
+      config,
+      "0x1::coin::transfer",
+      ["0x1::aptos_coin::AptosCoin"],
+      ["0xb0b", 1000],
+    );
+    expect(rawTxn.sequence_number).toBe(BigInt(0));
+    expect(rawTxn.expiration_timestamp_secs).toBe(BigInt(1700000600));
+
+    const bundle = createTransactionBundle(rawTxn);
+    expect(bundle.summary).toEqual({
+      sender: sender.address().hex(),
+      sequenceNumber: "0",
+      chainId: 1,
+      maxGasAmount: "2000",
+      gasUnitPrice: "100",
+      expirationTimestampSecs: "1700000600",
+      payload: {
+        type: "entry_function",
+        function: "0x1::coin::transfer",
+        typeArguments: ["0x1::aptos_coin::AptosCoin"],
+        arguments: [`0x${"0".repeat(60)}0b0b`, "0xe803000000000000"],
+      },
+    });
+
+    await expect(buildOfflineTransaction(registry, config, "0xcafe::vault::deposit", [], [1])).rejects.toThrow(
+      "The ABI of 0xcafe::vault is not in the registry",
+    );
+    const { sequenceNumber, ...withoutSequenceNumber } = config;
+    await expect(
+      buildOfflineTransaction(registry, withoutSequenceNumber as any, "0x1::aptos_account::transfer", [], ["0xb0b", 1]),
+    ).rejects.toThrow("The sequence number is required offline");
+  });
+
+  test("signs bundles and submits them later", async () => {
+    const rawTxn = await buildOfflineTransaction(
+      new ABIRegistry({ framework: true }),
+      config,
+      "0x1::aptos_account::transfer",
+      [],
+      ["0xb0b", 1000],
+    );
+    const json = JSON.stringify(createTransactionBundle(rawTxn));
+
+    const signed = await signTransactionBundle(sender, json);
+    const signedTxn = signedTransactionBytes(JSON.stringify(signed));
+    const { raw_txn: signedRawTxn, authenticator } = SignedTransaction.deserialize(new Deserializer(signedTxn));
+    expect(signedRawTxn).toEqual(rawTxn);
+    expect(
+      verifySignature(
+        "ed25519",
+        sender.pubKey().toUint8Array(),
+        TransactionBuilder.getSigningMessage(rawTxn),
+        (authenticator as TransactionAuthenticatorEd25519).signature.value,
+      ),
+    ).toBe(true);
+
+    const client = new AptosClient("http://localhost:8080");
+    const submit = jest.spyOn(client, "submitSignedBCSTransaction").mockResolvedValue({ hash: "0x1" } as any);
+    await client.submitTransactionBundle(signed);
+    expect(submit).toHaveBeenCalledWith(signedTxn);
+
+    await expect(signTransactionBundle(new AptosAccount(), json)).rejects.toThrow("not by the signer");
+  });
+
+  test("rejects bundles whose summary doesn't match their transaction", async () => {
+    const rawTxn = await buildOfflineTransaction(
+      new ABIRegistry({ framework: true }),
+      config,
+      "0x1::aptos_account::transfer",
+      [],
+      ["0xb0b", 1000],
+    );
+    const bundle = createTransactionBundle(rawTxn);
+    expect(readTransactionBundle(bundle)).toEqual(rawTxn);
+
+    const tampered = { ...bundle, summary: { ...bundle.summary, gasUnitPrice: "1" } };
+    expect(() => readTransactionBundle(tampered)).toThrow(
+      "The summary of the transaction bundle doesn't match its transaction",
+    );
+    expect(() => readTransactionBundle({ ...bundle, version: 2 })).toThrow("Unsupported transaction bundle version 2");
+  });
+});
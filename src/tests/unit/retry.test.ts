@@ -0,0 +1,159 @@
+// Copyright © Aptos Foundation
+// SPDX-License-Identifier: Apache-2.0
+
+import { AptosApiError, get, getHeader, getRetryDelay, parseRetryAfter, post, resolveRetryConfig } from "../../client";
+import { AptosClient } from "../../providers";
+import { startMockServer } from "./test_helper.test";
+
+const fastRetry = { baseDelayMs: 1, maxDelayMs: 50, jitter: false };
+
+describe("retry policy", () => {
+  test("resolves defaults", () => {
+    expect(resolveRetryConfig().maxAttempts).toBe(1);
+    expect(resolveRetryConfig({}).maxAttempts).toBe(3);
+    expect(resolveRetryConfig({ maxAttempts: 5 }).retryableMethods).toEqual(["GET"]);
+  });
+
+  test("parses Retry-After", () => {
+    const now = Date.parse("Wed, 21 Oct 2015 07:28:00 GMT");
+    expect(parseRetryAfter("2")).toBe(2000);
+    expect(parseRetryAfter("Wed, 21 Oct 2015 07:28:03 GMT", now)).toBe(3000);
+    expect(parseRetryAfter("Wed, 21 Oct 2015 07:27:00 GMT", now)).toBe(0);
+    expect(parseRetryAfter("soon")).toBeUndefined();
+    expect(parseRetryAfter(undefined)).toBeUndefined();
+  });
+
+  test("computes exponential backoff", () => {
+    const config = resolveRetryConfig({ baseDelayMs: 100, maxDelayMs: 1000, jitter: false });
+    expect(getRetryDelay(1, config)).toBe(100);
+    expect(getRetryDelay(2, config)).toBe(200);
+    expect(getRetryDelay(3, config)).toBe(400);
+    expect(getRetryDelay(10, config)).toBe(1000);
+    expect(getRetryDelay(1, config, "0.5")).toBe(500);
+    expect(getRetryDelay(1, config, "30")).toBe(1000);
+    expect(getRetryDelay(1, { ...config, respectRetryAfter: false }, "0.5")).toBe(100);
+
+    const jittered = resolveRetryConfig({ baseDelayMs: 100 });
+    for (let i = 0; i < 20; i += 1) {
+      const delay = getRetryDelay(2, jittered);
+      expect(delay).toBeGreaterThanOrEqual(0);
+      expect(delay).toBeLessThan(200);
+    }
+  });
+});
+
+describe("response headers", () => {
+  test("are a plain object keyed by lowercase names", async () => {
+    const server = await startMockServer([{ status: 200, body: [], headers: { "X-Aptos-Cursor": "0x2" } }]);
+    try {
+      const { headers } = await get({ url: server.url, endpoint: "accounts/0x1/modules" });
+      expect(headers["x-aptos-cursor"]).toBe("0x2");
+      expect(getHeader(headers, "X-Aptos-Cursor")).toBe("0x2");
+      expect(getHeader(undefined, "x-aptos-cursor")).toBeUndefined();
+    } finally {
+      await server.close();
+    }
+  });
+});
+
+describe("aptosRequest retries", () => {
+  test("does not retry without a policy", async () => {
+    const server = await startMockServer([{ status: 429 }, { status: 200 }]);
+    try {
+      await expect(get({ url: server.url, endpoint: "accounts/0x1" })).rejects.toBeInstanceOf(AptosApiError);
+      expect(server.requests).toHaveLength(1);
+    } finally {
+      await server.close();
+    }
+  });
+
+  test("retries rate limited and failed GET requests", async () => {
+    const server = await startMockServer([
+      { status: 429 },
+      { status: 503 },
+      { status: 200, body: { sequence_number: "7" } },
+    ]);
+    try {
+      const response = await get<{}, any>({
+        url: server.url,
+        endpoint: "accounts/0x1",
+        overrides: { RETRY: fastRetry },
+      });
+      expect(response.status).toBe(200);
+      expect(response.data.sequence_number).toBe("7");
+      expect(server.requests).toHaveLength(3);
+    } finally {
+      await server.close();
+    }
+  });
+
+  test("gives up after maxAttempts", async () => {
+    const server = await startMockServer([{ status: 500 }]);
+    try {
+      const promise = get({ url: server.url, overrides: { RETRY: { ...fastRetry, maxAttempts: 4 } } });
+      await expect(promise).rejects.toMatchObject({ status: 500, message: "Internal Server Error" });
+      expect(server.requests).toHaveLength(4);
+    } finally {
+      await server.close();
+    }
+  });
+
+  test("does not retry client errors", async () => {
+    const server = await startMockServer([{ status: 404 }, { status: 200 }]);
+    try {
+      await expect(get({ url: server.url, overrides: { RETRY: fastRetry } })).rejects.toMatchObject({ status: 404 });
+      expect(server.requests).toHaveLength(1);
+    } finally {
+      await server.close();
+    }
+  });
+
+  test("honors Retry-After", async () => {
+    const server = await startMockServer([{ status: 429, headers: { "retry-after": "0.3" } }, { status: 200 }]);
+    try {
+      await get({ url: server.url, overrides: { RETRY: { ...fastRetry, maxDelayMs: 1000 } } });
+      expect(server.requests).toHaveLength(2);
+      expect(server.requests[1].time - server.requests[0].time).toBeGreaterThanOrEqual(250);
+    } finally {
+      await server.close();
+    }
+  });
+
+  test("only retries POST when allowed", async () => {
+    const server = await startMockServer([{ status: 503 }, { status: 503 }, { status: 200 }]);
+    try {
+      await expect(post({ url: server.url, body: {}, overrides: { RETRY: fastRetry } })).rejects.toMatchObject({
+        status: 503,
+      });
+      expect(server.requests).toHaveLength(1);
+
+      await post({ url: server.url, body: {}, overrides: { RETRY: { ...fastRetry, retryableMethods: ["POST"] } } });
+      expect(server.requests).toHaveLength(3);
+    } finally {
+      await server.close();
+    }
+  });
+
+  test("retries network errors", async () => {
+    const server = await startMockServer([{ status: 200 }]);
+    await server.close();
+    await expect(get({ url: server.url, overrides: { RETRY: { ...fastRetry, maxAttempts: 2 } } })).rejects.toThrow(
+      "Network Error",
+    );
+  });
+
+  test("is used by AptosClient", async () => {
+    const server = await startMockServer([
+      { status: 502 },
+      { status: 200, body: { chain_id: 4, ledger_version: "1", ledger_timestamp: "1" } },
+    ]);
+    try {
+      const client = new AptosClient(server.url, { RETRY: fastRetry }, true);
+      await client.getLedgerInfo();
+      expect(server.requests).toHaveLength(2);
+      expect(server.requests.every((request) => request.method === "GET")).toBe(true);
+    } finally {
+      await server.close();
+    }
+  });
+});
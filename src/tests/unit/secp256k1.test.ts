@@ -0,0 +1,132 @@
+// Copyright © Aptos Foundation
+// SPDX-License-Identifier: Apache-2.0
+
+import * as secp from "@noble/secp256k1";
+import { keccak_256 as keccak256, sha3_256 as sha3Hash } from "@noble/hashes/sha3";
+import { Secp256k1Account, verifySignature } from "../../account";
+import {
+  AccountAddress,
+  AccountAuthenticator,
+  AccountAuthenticatorSingleKey,
+  AnyPublicKey,
+  AnyPublicKeySecp256k1Ecdsa,
+  AnySignatureSecp256k1Ecdsa,
+  ChainId,
+  EntryFunction,
+  RawTransaction,
+  Secp256k1PublicKey,
+  Secp256k1Signature,
+  SignedTransaction,
+  TransactionAuthenticatorSingleSender,
+  TransactionPayloadEntryFunction,
+} from "../../aptos_types";
+import { bcsToBytes, Deserializer } from "../../bcs";
+import { AptosClient } from "../../providers";
+import { TransactionBuilder } from "../../transaction_builder";
+import { HexString } from "../../utils";
+
+// The well known development mnemonic of EVM tooling, whose first account is 0xf39F...2266
+const mnemonic = "test test test test test test test test test test test junk";
+const EVM_PATH = "m/44'/60'/0'/0/0";
+
+const rawTxn = () =>
+  new RawTransaction(
+    AccountAddress.fromHex("0x1"),
+    BigInt(0),
+    new TransactionPayloadEntryFunction(EntryFunction.natural("0x1::aptos_account", "transfer", [], [])),
+    BigInt(2000),
+    BigInt(100),
+    BigInt(Math.floor(Date.now() / 1000) + 10),
+    new ChainId(4),
+  );
+
+describe("Secp256k1Account", () => {
+  test("derives the keys of EVM wallets", () => {
+    const account = Secp256k1Account.fromDerivePath(EVM_PATH, mnemonic);
+    expect(account.toPrivateKeyObject().privateKeyHex).toBe(
+      "0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80",
+    );
+    const evmAddress = HexString.fromUint8Array(keccak256(account.publicKeyBytes().slice(1)).slice(12)).hex();
+    expect(evmAddress).toBe("0xf39fd6e51aad88f6f4ce6ab8827279cfffb92266");
+
+    expect(() => Secp256k1Account.fromDerivePath("m/44'/60'/0'", mnemonic)).toThrow("Invalid derivation path");
+  });
+
+  test("derives the auth key of a single key account", () => {
+    const account = new Secp256k1Account();
+    const anyPublicKey = new AnyPublicKeySecp256k1Ecdsa(account.publicKey);
+    const expected = sha3Hash
+      .create()
+      .update(bcsToBytes(anyPublicKey))
+      .update(new Uint8Array([2]))
+      .digest();
+
+    expect(account.authKey().hex()).toBe(HexString.fromUint8Array(expected).hex());
+    expect(account.address().hex()).toBe(account.authKey().hex());
+    expect(new Secp256k1Account(undefined, "0x1234").address().hex()).toBe("0x1234");
+
+    const restored = Secp256k1Account.fromAptosAccountObject(account.toPrivateKeyObject());
+    expect(restored.toPrivateKeyObject()).toEqual(account.toPrivateKeyObject());
+  });
+
+  test("signs with a low s", async () => {
+    const account = new Secp256k1Account();
+    const message = new TextEncoder().encode("hello");
+    const signature = await account.sign(message);
+    const hex = HexString.fromUint8Array;
+
+    expect(signature.length).toBe(Secp256k1Signature.LENGTH);
+    const { s } = secp.Signature.fromCompact(signature);
+    expect(s <= secp.CURVE.n / BigInt(2)).toBe(true);
+    expect(account.verifySignature(hex(message), hex(signature))).toBe(true);
+    expect(account.verifySignature(hex(new TextEncoder().encode("world")), hex(signature))).toBe(false);
+    // The chain rejects the high s twin of a signature, to prevent malleability
+    const { r } = secp.Signature.fromCompact(signature);
+    const highS = new secp.Signature(r, secp.CURVE.n - s).toCompactRawBytes();
+    expect(account.verifySignature(hex(message), hex(highS))).toBe(false);
+    expect(verifySignature("secp256k1_ecdsa", account.publicKeyBytes(), message, highS)).toBe(false);
+  });
+
+  test("serializes its keys, signatures and authenticators", () => {
+    const account = new Secp256k1Account();
+    const signature = new Secp256k1Signature(account.signBuffer(new Uint8Array([1, 2, 3])).toUint8Array());
+
+    const publicKey = Secp256k1PublicKey.deserialize(new Deserializer(bcsToBytes(account.publicKey)));
+    expect(publicKey.value).toEqual(account.publicKey.value);
+    expect(Secp256k1Signature.deserialize(new Deserializer(bcsToBytes(signature))).value).toEqual(signature.value);
+
+    const anyPublicKey = AnyPublicKey.deserialize(
+      new Deserializer(bcsToBytes(new AnyPublicKeySecp256k1Ecdsa(publicKey))),
+    );
+    expect(anyPublicKey).toBeInstanceOf(AnyPublicKeySecp256k1Ecdsa);
+
+    const authenticator = new AccountAuthenticatorSingleKey(
+      new AnyPublicKeySecp256k1Ecdsa(publicKey),
+      new AnySignatureSecp256k1Ecdsa(signature),
+    );
+    const bytes = bcsToBytes(authenticator);
+    expect(bcsToBytes(AccountAuthenticator.deserialize(new Deserializer(bytes)))).toEqual(bytes);
+
+    expect(() => new Secp256k1PublicKey(new Uint8Array(33))).toThrow();
+    expect(() => new Secp256k1Signature(new Uint8Array(65))).toThrow();
+  });
+
+  test("signs transactions through the transaction builders", async () => {
+    const client = new AptosClient("http://localhost:8080");
+    const account = Secp256k1Account.fromDerivePath(EVM_PATH, mnemonic);
+    const txn = rawTxn();
+
+    const signed = await client.signTransaction(account, txn);
+    expect(signed).toEqual(AptosClient.generateBCSTransaction(account, txn));
+
+    const { authenticator } = SignedTransaction.deserialize(new Deserializer(signed));
+    expect(authenticator).toBeInstanceOf(TransactionAuthenticatorSingleSender);
+    const { sender } = authenticator as TransactionAuthenticatorSingleSender;
+    const { public_key: anyPublicKey, signature } = sender as AccountAuthenticatorSingleKey;
+    expect((anyPublicKey as AnyPublicKeySecp256k1Ecdsa).value.value).toEqual(account.publicKeyBytes());
+
+    const signingMessage = HexString.fromUint8Array(TransactionBuilder.getSigningMessage(txn));
+    const signatureBytes = (signature as AnySignatureSecp256k1Ecdsa).value.value;
+    expect(account.verifySignature(signingMessage, HexString.fromUint8Array(signatureBytes))).toBe(true);
+  });
+});
@@ -0,0 +1,170 @@
+// Copyright © Aptos Foundation
+// SPDX-License-Identifier: Apache-2.0
+
+import { AptosAccount } from "../../account";
+import { TxnBuilderTypes } from "../../transaction_builder";
+import { ApiError, AptosClient, isSequenceNumberError, SequenceNumberManager } from "../../providers";
+import { AptosApiError } from "../../client";
+import { HexString } from "../../utils";
+import { MockReply, startMockServer } from "./test_helper.test";
+
+const account = (sequenceNumber: number): MockReply => ({
+  status: 200,
+  // Also answers the ledger info requests, the mock server replies regardless of the path
+  body: { sequence_number: `${sequenceNumber}`, authentication_key: "0x1", chain_id: 4 },
+});
+
+const fastPolling = { pollIntervalMs: 10 };
+
+describe("SequenceNumberManager", () => {
+  test("hands out consecutive sequence numbers", async () => {
+    const server = await startMockServer([account(5)]);
+    try {
+      const manager = new SequenceNumberManager(new AptosClient(server.url, undefined, true), "0x1");
+      const numbers = await Promise.all([...Array(3)].map(() => manager.nextSequenceNumber()));
+      expect(numbers).toEqual([BigInt(5), BigInt(6), BigInt(7)]);
+      expect(manager.getInFlight()).toBe(3);
+      expect(server.requests).toHaveLength(1);
+    } finally {
+      await server.close();
+    }
+  });
+
+  test("waits for commits once too many transactions are in flight", async () => {
+    const server = await startMockServer([account(0), account(0), account(1)]);
+    try {
+      const client = new AptosClient(server.url, undefined, true);
+      const manager = new SequenceNumberManager(client, "0x1", { ...fastPolling, maxInFlight: 2 });
+      const numbers = await Promise.all([...Array(3)].map(() => manager.nextSequenceNumber()));
+      expect(numbers).toEqual([BigInt(0), BigInt(1), BigInt(2)]);
+      expect(server.requests).toHaveLength(3);
+      expect(manager.getInFlight()).toBe(2);
+    } finally {
+      await server.close();
+    }
+  });
+
+  test("starts over when transactions in flight never commit", async () => {
+    const server = await startMockServer([account(0)]);
+    try {
+      const client = new AptosClient(server.url, undefined, true);
+      const manager = new SequenceNumberManager(client, "0x1", { ...fastPolling, maxInFlight: 1, maxWaitMs: 30 });
+      expect(await manager.nextSequenceNumber()).toBe(BigInt(0));
+      expect(await manager.nextSequenceNumber()).toBe(BigInt(0));
+    } finally {
+      await server.close();
+    }
+  });
+
+  test("follows transactions sent by someone else", async () => {
+    const server = await startMockServer([account(0), account(10)]);
+    try {
+      const manager = new SequenceNumberManager(new AptosClient(server.url, undefined, true), "0x1");
+      expect(await manager.nextSequenceNumber()).toBe(BigInt(0));
+      await manager.synchronize();
+      expect(manager.getInFlight()).toBe(0);
+      expect(await manager.nextSequenceNumber()).toBe(BigInt(10));
+    } finally {
+      await server.close();
+    }
+  });
+
+  test("resyncs on sequence number errors", async () => {
+    const server = await startMockServer([account(3), account(4)]);
+    try {
+      const manager = new SequenceNumberManager(new AptosClient(server.url, undefined, true), "0x1");
+      await manager.nextSequenceNumber();
+      await manager.nextSequenceNumber();
+      await manager.nextSequenceNumber();
+
+      expect(await manager.handleError(new ApiError(400, "Account not found"))).toBe(false);
+      const tooOld = new ApiError(
+        400,
+        JSON.stringify({ message: "Invalid transaction: Type: Validation Code: SEQUENCE_NUMBER_TOO_OLD" }),
+        "vm_error",
+      );
+      expect(await manager.handleError(tooOld)).toBe(true);
+      expect(await manager.nextSequenceNumber()).toBe(BigInt(4));
+    } finally {
+      await server.close();
+    }
+  });
+
+  test("recognizes sequence number errors", () => {
+    expect(isSequenceNumberError(new Error("Code: TRANSACTION_EXPIRED"))).toBe(true);
+    expect(isSequenceNumberError(new Error("Code: SEQUENCE_NUMBER_TOO_OLD"))).toBe(true);
+    expect(isSequenceNumberError(new Error("Code: INSUFFICIENT_BALANCE_FOR_TRANSACTION_FEE"))).toBe(false);
+    expect(isSequenceNumberError("SEQUENCE_NUMBER_TOO_OLD")).toBe(false);
+
+    const response = { status: 400, data: { message: "Code: SEQUENCE_NUMBER_TOO_OLD", error_code: "vm_error" } };
+    expect(isSequenceNumberError(new AptosApiError({} as any, response as any, "Bad Request"))).toBe(true);
+  });
+
+  test("is used by generateRawTransaction", async () => {
+    const server = await startMockServer([account(5)]);
+    const sender = new AptosAccount();
+    const payload = new TxnBuilderTypes.TransactionPayloadScript(new TxnBuilderTypes.Script(new Uint8Array(), [], []));
+    try {
+      const client = new AptosClient(server.url, undefined, true);
+      const manager = new SequenceNumberManager(client, sender.address());
+      const args = { gasUnitPrice: BigInt(100), sequenceNumberManager: manager };
+      const transactions = await Promise.all([
+        client.generateRawTransaction(sender.address(), payload, args),
+        client.generateRawTransaction(sender.address(), payload, args),
+      ]);
+      expect(transactions.map(({ sequence_number }) => sequence_number)).toEqual([BigInt(5), BigInt(6)]);
+
+      await expect(client.generateRawTransaction(new HexString("0x2"), payload, args)).rejects.toThrow(
+        "cannot be used",
+      );
+    } finally {
+      await server.close();
+    }
+  });
+
+  test("hands out the sequence number of transactions that failed before reaching the node again", async () => {
+    const server = await startMockServer([account(5)]);
+    const sender = new AptosAccount();
+    const payload = new TxnBuilderTypes.TransactionPayloadScript(new TxnBuilderTypes.Script(new Uint8Array(), [], []));
+    try {
+      const client = new AptosClient(server.url, undefined, true);
+      const manager = new SequenceNumberManager(client, sender.address());
+      const args = { gasUnitPrice: BigInt(100), sequenceNumberManager: manager };
+
+      jest.spyOn(client, "getChainId").mockRejectedValueOnce(new Error("Network Error"));
+      await expect(client.generateRawTransaction(sender.address(), payload, args)).rejects.toThrow("Network Error");
+      expect(manager.getInFlight()).toBe(0);
+
+      jest.spyOn(client, "signTransaction").mockRejectedValueOnce(new Error("Signing failed"));
+      await expect(client.generateSignSubmitTransaction(sender, payload, args)).rejects.toThrow("Signing failed");
+      expect(manager.getInFlight()).toBe(0);
+
+      const submit = jest.spyOn(client, "submitSignedBCSTransaction").mockRejectedValueOnce(new Error("Bad Gateway"));
+      await expect(client.generateSignSubmitTransaction(sender, payload, args)).rejects.toThrow("Bad Gateway");
+      expect(submit).toHaveBeenCalledTimes(1);
+
+      const transaction = await client.generateRawTransaction(sender.address(), payload, args);
+      expect(transaction.sequence_number).toBe(BigInt(5));
+      expect(manager.getInFlight()).toBe(1);
+    } finally {
+      jest.restoreAllMocks();
+      await server.close();
+    }
+  });
+
+  test("hands out released sequence numbers first", async () => {
+    const server = await startMockServer([account(5)]);
+    try {
+      const manager = new SequenceNumberManager(new AptosClient(server.url, undefined, true), "0x1");
+      const numbers = await Promise.all([...Array(3)].map(() => manager.nextSequenceNumber()));
+      await manager.release(numbers[1]);
+      await manager.release(numbers[1]);
+      await manager.release(BigInt(8));
+      expect(manager.getInFlight()).toBe(2);
+      expect(await manager.nextSequenceNumber()).toBe(BigInt(6));
+      expect(await manager.nextSequenceNumber()).toBe(BigInt(8));
+    } finally {
+      await server.close();
+    }
+  });
+});
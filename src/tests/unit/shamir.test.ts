@@ -0,0 +1,159 @@
+// Copyright © Aptos Foundation
+// SPDX-License-Identifier: Apache-2.0
+
+import { AptosAccount, combineShamirShares, decodeShamirShare, splitShamirShares } from "../../account";
+import { HexString } from "../../utils";
+import { WalletClient } from "../../wallet_client";
+
+const mnemonic = "shoot island position soft burden budget tooth cruel issue economy destroy above";
+
+const secret = Uint8Array.from({ length: 16 }, (_, i) => i);
+
+// Cheap encryption, the default is deliberately slow
+const iterationExponent = 0;
+
+describe("Shamir secret sharing", () => {
+  test("recovers the secret from any threshold of shares", () => {
+    const [shares] = splitShamirShares(secret, [{ threshold: 2, count: 3 }], { iterationExponent });
+
+    expect(shares).toHaveLength(3);
+    shares.forEach((share) => expect(share.split(" ")).toHaveLength(20));
+    expect(combineShamirShares([shares[0], shares[1]])).toEqual(secret);
+    expect(combineShamirShares([shares[2], shares[0]])).toEqual(secret);
+    expect(combineShamirShares(shares)).toEqual(secret);
+    expect(() => combineShamirShares([shares[1]])).toThrow("1 complete groups of shares are needed");
+  });
+
+  test("recovers the secret from any threshold of groups", () => {
+    const groups = splitShamirShares(
+      secret,
+      [
+        { threshold: 1, count: 1 },
+        { threshold: 2, count: 3 },
+        { threshold: 3, count: 5 },
+      ],
+      { groupThreshold: 2, iterationExponent },
+    );
+
+    expect(groups.map((shares) => shares.length)).toEqual([1, 3, 5]);
+    expect(decodeShamirShare(groups[2][4])).toMatchObject({
+      groupIndex: 2,
+      groupThreshold: 2,
+      groupCount: 3,
+      memberIndex: 4,
+      memberThreshold: 3,
+    });
+    expect(combineShamirShares([groups[0][0], groups[1][2], groups[1][0]])).toEqual(secret);
+    expect(combineShamirShares([groups[2][1], groups[1][1], groups[2][3], groups[1][2], groups[2][0]])).toEqual(secret);
+    expect(() => combineShamirShares([groups[0][0], groups[1][2], groups[2][3], groups[2][0]])).toThrow(
+      "2 complete groups of shares are needed to recover the secret, got 1",
+    );
+  });
+
+  test("encrypts the secret with the passphrase", () => {
+    const [shares] = splitShamirShares(secret, [{ threshold: 2, count: 2 }], {
+      passphrase: "TREZOR",
+      iterationExponent,
+    });
+
+    expect(combineShamirShares(shares, "TREZOR")).toEqual(secret);
+    // Any passphrase decrypts to a secret, to leave no way of telling the right one
+    expect(combineShamirShares(shares, "trezor")).not.toEqual(secret);
+  });
+
+  // From https://github.com/trezor/python-shamir-mnemonic/blob/master/vectors.json, encrypted with "TREZOR"
+  test("recovers the secret of the SLIP-39 test vectors", () => {
+    expect(
+      combineShamirShares(
+        [
+          "duckling enlarge academic academic agency result length solution fridge kidney coal piece deal husband " +
+            "erode duke ajar critical decision keyboard",
+        ],
+        "TREZOR",
+      ),
+    ).toEqual(HexString.ensure("bb54aac4b89dc868ba37d9cc21b2cece").toUint8Array());
+
+    const shares = [
+      "shadow pistol academic always adequate wildlife fancy gross oasis cylinder mustang wrist rescue view short " +
+        "owner flip making coding armed",
+      "shadow pistol academic acid actress prayer class unknown daughter sweater depict flip twice unkind craft " +
+        "early superior advocate guest smoking",
+    ];
+    expect(decodeShamirShare(shares[0])).toMatchObject({ extendable: false, memberThreshold: 2, memberIndex: 2 });
+    expect(combineShamirShares(shares, "TREZOR")).toEqual(
+      HexString.ensure("b43ceb7e57a0ea8766221624d01b0864").toUint8Array(),
+    );
+
+    const extendable = [
+      "enemy favorite academic acid cowboy phrase havoc level response walnut budget painting inside trash adjust " +
+        "froth kitchen learn tidy punish",
+      "enemy favorite academic always academic sniff script carpet romp kind promise scatter center unfair training " +
+        "emphasis evening belong fake enforce",
+    ];
+    expect(decodeShamirShare(extendable[0])).toMatchObject({ extendable: true });
+    expect(combineShamirShares(extendable, "TREZOR")).toEqual(
+      HexString.ensure("48b1a4b80b8c209ad42c33672bdaa428").toUint8Array(),
+    );
+
+    expect(() =>
+      combineShamirShares([
+        "duckling enlarge academic academic agency result length solution fridge kidney coal piece deal husband " +
+          "erode duke ajar critical decision kidney",
+      ]),
+    ).toThrow("Invalid share checksum");
+  });
+
+  test("splits extendable shares", () => {
+    const [shares] = splitShamirShares(secret, [{ threshold: 2, count: 3 }], { iterationExponent, extendable: true });
+
+    expect(decodeShamirShare(shares[1])).toMatchObject({ extendable: true, iterationExponent });
+    expect(combineShamirShares([shares[2], shares[1]])).toEqual(secret);
+  });
+
+  test("rejects invalid shares", () => {
+    const [shares] = splitShamirShares(secret, [{ threshold: 2, count: 3 }], { iterationExponent });
+    const [other] = splitShamirShares(secret, [{ threshold: 2, count: 3 }], { iterationExponent });
+    const words = shares[0].split(" ");
+    const typo = [...words.slice(0, 10), words[10] === "academic" ? "acid" : "academic", ...words.slice(11)];
+
+    expect(() => combineShamirShares([typo.join(" "), shares[1]])).toThrow("Invalid share checksum");
+    expect(() => combineShamirShares([shares[0], "zoo".concat(shares[1].slice(shares[1].indexOf(" ")))])).toThrow(
+      "Invalid share word zoo",
+    );
+    expect(() => combineShamirShares([shares[0], other[1]])).toThrow("The shares do not belong to the same secret");
+    expect(() => splitShamirShares(secret.slice(1), [{ threshold: 2, count: 3 }])).toThrow(
+      "The secret must be an even number of at least 16 bytes",
+    );
+    expect(() => splitShamirShares(secret, [{ threshold: 4, count: 3 }])).toThrow("Threshold must be between 1 and 3");
+    expect(() => splitShamirShares(secret, [{ threshold: 1, count: 3 }])).toThrow(
+      "Groups with a threshold of 1 must have a single share",
+    );
+  });
+
+  test("splits and recovers an account", () => {
+    const account = new AptosAccount(undefined, "0x1234");
+    const [shares] = account.toShamirShares([{ threshold: 2, count: 3 }], { iterationExponent });
+
+    expect(shares[0].split(" ")).toHaveLength(33);
+    const recovered = AptosAccount.fromShamirShares([shares[2], shares[1]], undefined, "0x1234");
+    expect(recovered.toPrivateKeyObject()).toEqual(account.toPrivateKeyObject());
+    expect(AptosAccount.fromShamirShares(shares.slice(1)).address().hex()).toBe(account.authKey().hex());
+  });
+
+  test("splits and recovers a wallet mnemonic", async () => {
+    const [shares] = WalletClient.splitMnemonicToShares(mnemonic, [{ threshold: 3, count: 5 }], {
+      passphrase: "hunter2",
+      iterationExponent,
+    });
+
+    expect(WalletClient.recoverMnemonicFromShares([shares[4], shares[0], shares[2]], "hunter2")).toBe(mnemonic);
+
+    const walletClient = new WalletClient("http://localhost:8080", "http://localhost:8081");
+    const wallet = { code: mnemonic, accounts: [walletClient.createNewAccount(mnemonic, 0)] };
+    const importWallet = jest.spyOn(walletClient, "importWallet").mockResolvedValue(wallet);
+    await expect(walletClient.importWalletFromShares(shares.slice(2), "hunter2", { gapLimit: 1 })).resolves.toBe(
+      wallet,
+    );
+    expect(importWallet).toHaveBeenCalledWith(mnemonic, { gapLimit: 1 });
+  });
+});
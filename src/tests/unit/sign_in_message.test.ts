@@ -0,0 +1,173 @@
+// Copyright © Aptos Foundation
+// SPDX-License-Identifier: Apache-2.0
+
+import {
+  AptosAccount,
+  MultiEd25519Account,
+  Secp256k1Account,
+  SignedSignInMessage,
+  SignInMessage,
+  SignInMessageBuilder,
+  signSignInMessage,
+  verifySignedSignInMessage,
+} from "../../account";
+import { ApiError, AptosClient } from "../../providers";
+import { HexString } from "../../utils";
+import { WalletClient } from "../../wallet_client";
+
+const issuedAt = new Date("2023-10-19T16:25:24.000Z");
+const during = new Date("2023-10-19T16:30:00.000Z");
+
+const build = (account: { address(): HexString }) =>
+  new SignInMessageBuilder("example.com", account.address())
+    .statement("I accept the Terms of Service of example.com")
+    .application("Example")
+    .uri("https://example.com/login")
+    .chainId(4)
+    .nonce("32891756")
+    .issuedAt(issuedAt)
+    .expiresIn(600)
+    .resources(["https://example.com/terms"])
+    .build();
+
+/**
+ * Mocks the on-chain auth keys of accounts, accounts not in `authKeys` do not exist
+ */
+function mockChain(client: AptosClient, authKeys: Record<string, HexString>) {
+  jest.spyOn(client, "getChainId").mockResolvedValue(4);
+  jest.spyOn(client, "getAccount").mockImplementation(async (address) => {
+    const authKey = authKeys[HexString.ensure(address).hex()];
+    if (!authKey) {
+      throw new ApiError(404, "Account not found");
+    }
+    return { sequence_number: "1", authentication_key: authKey.hex() };
+  });
+}
+
+describe("SignInMessage", () => {
+  const client = new AptosClient("http://localhost:8080");
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test("serializes canonically", () => {
+    const message = build(new AptosAccount(undefined, "0x1"));
+    const text = message.toString();
+
+    expect(text).toBe(
+      [
+        "example.com wants you to sign in with your Aptos account:",
+        "0x0000000000000000000000000000000000000000000000000000000000000001",
+        "",
+        "I accept the Terms of Service of example.com",
+        "",
+        "Application: Example",
+        "URI: https://example.com/login",
+        "Version: 1",
+        "Chain ID: 4",
+        "Nonce: 32891756",
+        "Issued At: 2023-10-19T16:25:24.000Z",
+        "Expiration Time: 2023-10-19T16:35:24.000Z",
+        "Resources:",
+        "- https://example.com/terms",
+      ].join("\n"),
+    );
+    expect(SignInMessage.parse(text).fields).toEqual(message.fields);
+
+    const minimal = new SignInMessageBuilder("example.com", "0x1").chainId(1).build();
+    expect(minimal.fields.nonce).toMatch(/^[0-9a-f]{32}$/);
+    expect(SignInMessage.parse(minimal.toString()).fields).toEqual(minimal.fields);
+
+    expect(() => SignInMessage.parse(text.replace(".000Z", "Z"))).toThrow("Sign in message is not canonical");
+    expect(() => SignInMessage.parse(text.replace("Nonce: 32891756\n", ""))).toThrow("Sign in message misses Nonce");
+    expect(() => new SignInMessageBuilder("example.com", "0x1").build()).toThrow("chain id is required");
+    expect(() => new SignInMessageBuilder("example.com", "0x1").chainId(1).statement("a\nb").build()).toThrow(
+      "Sign in message statement must be a non empty single line",
+    );
+  });
+
+  test("signs and verifies with every signing scheme", async () => {
+    const signers = [new AptosAccount(), new Secp256k1Account()];
+    const keys = [new AptosAccount(), new AptosAccount(), new AptosAccount()];
+    const multi = MultiEd25519Account.fromPublicKeys(
+      keys.map((key) => key.pubKey()),
+      2,
+      { signers: [keys[0], keys[2]] },
+    );
+
+    await Promise.all(
+      [...signers, multi].map(async (signer) => {
+        const signed = await WalletClient.signSignInMessage(signer, build(signer));
+        expect(signed.scheme).toBe(signer.scheme);
+        expect(verifySignedSignInMessage(signed, { domain: "example.com", nonce: "32891756", time: during })).toEqual(
+          build(signer),
+        );
+      }),
+    );
+  });
+
+  test("rejects messages that do not match what the server expects", async () => {
+    const account = new AptosAccount();
+    const signed = await signSignInMessage(account, build(account));
+
+    expect(() => verifySignedSignInMessage(signed, { domain: "evil.com", time: during })).toThrow(
+      "Expected a sign in to evil.com, got example.com",
+    );
+    expect(() => verifySignedSignInMessage(signed, { nonce: "12345678", time: during })).toThrow(
+      "Sign in message nonce does not match",
+    );
+    expect(() => verifySignedSignInMessage(signed, { chainId: 1, time: during })).toThrow(
+      "Expected a sign in on chain 1, got 4",
+    );
+    expect(() => verifySignedSignInMessage(signed)).toThrow("Sign in message has expired");
+    expect(() => verifySignedSignInMessage(signed, { time: new Date("2023-10-19T16:35:24.000Z") })).toThrow(
+      "Sign in message has expired",
+    );
+    // Some clock skew between the wallet and the server is tolerated
+    const beforeIssued = new Date("2023-10-19T16:24:00.000Z");
+    expect(verifySignedSignInMessage(signed, { time: beforeIssued })).toEqual(build(account));
+    expect(() => verifySignedSignInMessage(signed, { time: new Date("2023-10-19T16:15:00.000Z") })).toThrow(
+      "Sign in message is issued in the future",
+    );
+
+    const tampered: SignedSignInMessage = { ...signed, message: signed.message.replace("Example", "Exemple") };
+    expect(() => verifySignedSignInMessage(tampered, { time: during })).toThrow("Invalid sign in message signature");
+    const otherKey: SignedSignInMessage = { ...signed, publicKey: new AptosAccount().pubKey().hex() };
+    expect(() => verifySignedSignInMessage(otherKey, { time: during })).toThrow("Invalid sign in message signature");
+
+    await expect(signSignInMessage(new AptosAccount(), build(account))).rejects.toThrow("Cannot sign in as");
+  });
+
+  test("checks the on-chain auth key, including after key rotation", async () => {
+    const original = new AptosAccount();
+    const rotatedKey = new AptosAccount();
+    const rotated = new AptosAccount(rotatedKey.signingKey.secretKey, original.address());
+    const unused = new AptosAccount();
+    mockChain(client, { [original.address().hex()]: rotatedKey.authKey() });
+
+    const signed = await signSignInMessage(rotated, build(rotated));
+    expect((await client.verifySignInMessage(signed, { time: during })).address.hex()).toBe(original.address().hex());
+
+    await expect(
+      client.verifySignInMessage(await signSignInMessage(original, build(original)), { time: during }),
+    ).rejects.toThrow(`The key the sign in message was signed with is not the auth key of ${original.address().hex()}`);
+
+    // Not created on chain yet
+    const signedByUnused = await signSignInMessage(unused, build(unused));
+    await expect(client.verifySignInMessage(signedByUnused, { time: during })).resolves.toEqual(build(unused));
+    const impostor = await signSignInMessage(
+      new AptosAccount(new AptosAccount().signingKey.secretKey, unused.address()),
+      build(unused),
+    );
+    await expect(client.verifySignInMessage(impostor, { time: during })).rejects.toThrow("is not the auth key");
+
+    jest.spyOn(client, "getChainId").mockResolvedValue(1);
+    await expect(client.verifySignInMessage(signed, { time: during })).rejects.toThrow(
+      "Expected a sign in on chain 1, got 4",
+    );
+    await expect(client.verifySignInMessage(signed, { time: during, chainId: undefined })).rejects.toThrow(
+      "Expected a sign in on chain 1, got 4",
+    );
+  });
+});
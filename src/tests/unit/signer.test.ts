@@ -0,0 +1,173 @@
+// Copyright © Aptos Foundation
+// SPDX-License-Identifier: Apache-2.0
+
+import { ChildProcess, spawn } from "child_process";
+import { createInterface } from "readline";
+import { AptosAccount, isSigner, MultiEd25519Account, Signer } from "../../account";
+import { bcsToBytes, Deserializer } from "../../bcs";
+import { TxnBuilderTypes } from "../../transaction_builder";
+import { AptosClient } from "../../providers";
+import { HexString, MaybeHexString } from "../../utils";
+import { WalletClient } from "../../wallet_client";
+
+const {
+  AccountAddress,
+  AccountAuthenticatorEd25519,
+  ChainId,
+  MultiAgentRawTransaction,
+  RawTransaction,
+  Script,
+  SignedTransaction,
+  TransactionPayloadScript,
+} = TxnBuilderTypes;
+
+// Holds the private key and signs the messages it reads on stdin, one JSON object per line
+const SIGNER_PROCESS = `
+const nacl = require("tweetnacl");
+const { secretKey } = nacl.sign.keyPair.fromSeed(Buffer.from(process.env.SIGNER_SEED, "hex"));
+require("readline")
+  .createInterface({ input: process.stdin })
+  .on("line", (line) => {
+    const { id, message } = JSON.parse(line);
+    const signature = Buffer.from(nacl.sign.detached(Buffer.from(message, "hex"), secretKey)).toString("hex");
+    process.stdout.write(JSON.stringify({ id, signature }) + "\\n");
+  });
+`;
+
+/**
+ * A signer whose key lives in another process, like a hardware wallet or a KMS would hold it
+ */
+class ProcessSigner implements Signer {
+  readonly scheme = "ed25519";
+
+  private readonly child: ChildProcess;
+
+  private readonly pending = new Map<number, (signature: Uint8Array) => void>();
+
+  private nextId = 0;
+
+  constructor(seed: Uint8Array, private readonly publicKey: Uint8Array, private readonly accountAddress: HexString) {
+    this.child = spawn(process.execPath, ["-e", SIGNER_PROCESS], {
+      env: { ...process.env, SIGNER_SEED: HexString.fromUint8Array(seed).noPrefix() },
+      stdio: ["pipe", "pipe", "inherit"],
+    });
+    createInterface({ input: this.child.stdout! }).on("line", (line) => {
+      const { id, signature } = JSON.parse(line);
+      this.pending.get(id)!(new HexString(signature).toUint8Array());
+      this.pending.delete(id);
+    });
+  }
+
+  address(): HexString {
+    return this.accountAddress;
+  }
+
+  publicKeyBytes(): Uint8Array {
+    return this.publicKey;
+  }
+
+  sign(message: Uint8Array): Promise<Uint8Array> {
+    const id = this.nextId;
+    this.nextId += 1;
+    return new Promise((resolve) => {
+      this.pending.set(id, resolve);
+      this.child.stdin!.write(`${JSON.stringify({ id, message: HexString.fromUint8Array(message).noPrefix() })}\n`);
+    });
+  }
+
+  close(): Promise<void> {
+    return new Promise((resolve) => {
+      this.child.on("exit", () => resolve());
+      this.child.stdin!.end();
+    });
+  }
+}
+
+const account = new AptosAccount();
+const signer = new ProcessSigner(
+  account.signingKey.secretKey.slice(0, 32),
+  account.signingKey.publicKey,
+  account.address(),
+);
+
+function rawTransaction(sender: MaybeHexString): TxnBuilderTypes.RawTransaction {
+  return new RawTransaction(
+    AccountAddress.fromHex(sender),
+    BigInt(0),
+    new TransactionPayloadScript(new Script(new Uint8Array(), [], [])),
+    BigInt(2000),
+    BigInt(100),
+    BigInt(1000),
+    new ChainId(4),
+  );
+}
+
+describe("Signer", () => {
+  const client = new AptosClient("http://localhost:8080", undefined, true);
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  afterAll(async () => {
+    await signer.close();
+  });
+
+  test("accounts are signers", async () => {
+    const multiAccount = MultiEd25519Account.fromPublicKeys([account.pubKey(), new AptosAccount().pubKey()], 1, {
+      signers: [account],
+    });
+    [account, multiAccount, signer].forEach((s) => expect(isSigner(s)).toBe(true));
+    [account.address(), account.address().hex(), multiAccount.publicKey].forEach((s) =>
+      expect(isSigner(s)).toBe(false),
+    );
+
+    const rawTxn = rawTransaction(account.address());
+    expect(await client.signTransaction(account, rawTxn)).toEqual(AptosClient.generateBCSTransaction(account, rawTxn));
+    const multiRawTxn = rawTransaction(multiAccount.address());
+    expect(await client.signTransaction(multiAccount, multiRawTxn)).toEqual(
+      AptosClient.generateBCSTransaction(multiAccount, multiRawTxn),
+    );
+  });
+
+  test("signs and submits transactions with a key held by another process", async () => {
+    const rawTxn = rawTransaction(account.address());
+    expect(await client.signTransaction(signer, rawTxn)).toEqual(AptosClient.generateBCSTransaction(account, rawTxn));
+
+    jest.spyOn(client, "getAccount").mockResolvedValue({ sequence_number: "0", authentication_key: "0x0" });
+    jest.spyOn(client, "getChainId").mockResolvedValue(4);
+    jest.spyOn(client, "estimateGasPrice").mockResolvedValue({ gas_estimate: 100 });
+    const submit = jest.spyOn(client, "submitSignedBCSTransaction").mockResolvedValue({ hash: "0x1" } as any);
+    const payload = new TransactionPayloadScript(new Script(new Uint8Array(), [], []));
+
+    expect(await client.generateSignSubmitTransaction(signer, payload)).toBe("0x1");
+    const { raw_txn: submitted } = SignedTransaction.deserialize(new Deserializer(submit.mock.calls[0][0]));
+    expect(submitted.sender).toEqual(AccountAddress.fromHex(account.address()));
+    expect(submit.mock.calls[0][0]).toEqual(AptosClient.generateBCSTransaction(account, submitted));
+  });
+
+  test("signs multi agent transactions and messages", async () => {
+    const secondarySigner = new AptosAccount();
+    const multiAgentTxn = new MultiAgentRawTransaction(rawTransaction(account.address()), [
+      AccountAddress.fromHex(secondarySigner.address()),
+    ]);
+
+    const authenticator = await client.signMultiTransaction(signer, multiAgentTxn);
+    expect(authenticator).toBeInstanceOf(AccountAuthenticatorEd25519);
+    expect(bcsToBytes(authenticator)).toEqual(bcsToBytes(await client.signMultiTransaction(account, multiAgentTxn)));
+
+    expect(await WalletClient.signMessage(signer, "hello")).toBe(await WalletClient.signMessage(account, "hello"));
+  });
+
+  test("simulates transactions without signing them", async () => {
+    const sign = jest.spyOn(signer, "sign");
+    const simulate = jest.spyOn(client, "submitBCSSimulation").mockResolvedValue([]);
+
+    await client.simulateTransaction(signer, rawTransaction(account.address()));
+    expect(sign).not.toHaveBeenCalled();
+    const { authenticator } = SignedTransaction.deserialize(new Deserializer(simulate.mock.calls[0][0]));
+    const { public_key: publicKey, signature } = authenticator as TxnBuilderTypes.TransactionAuthenticatorEd25519;
+    expect(publicKey.value).toEqual(account.signingKey.publicKey);
+    expect(signature.value).toEqual(new Uint8Array(64));
+  });
+});
@@ -1,3 +1,5 @@
+import http from "http";
+import { AddressInfo } from "net";
 import { AptosAccount } from "../../account";
 import { bcsToBytes, bcsSerializeUint64 } from "../../bcs";
 import { ClientConfig } from "../../client";
@@ -53,6 +55,67 @@ export async function getTransaction(): Promise<Uint8Array> {
   return bcsTxn;
 }
 
+export type MockReply = { status: number; body?: any; headers?: Record<string, string>; delayMs?: number };
+
+export type MockRequest = {
+  method?: string;
+  url?: string;
+  headers: http.IncomingHttpHeaders;
+  body: Buffer;
+  time: number;
+};
+
+export type MockServer = {
+  url: string;
+  requests: MockRequest[];
+  close: () => Promise<void>;
+};
+
+/**
+ * Starts a local server answering requests with the given replies, in order.
+ * The last reply is repeated once the list is exhausted.
+ */
+export async function startMockServer(replies: MockReply[]): Promise<MockServer> {
+  const requests: MockRequest[] = [];
+  const timers = new Set<NodeJS.Timeout>();
+  const server = http.createServer((req, res) => {
+    const reply = replies[Math.min(requests.length, replies.length - 1)];
+    const request: MockRequest = {
+      method: req.method,
+      url: req.url,
+      headers: req.headers,
+      body: Buffer.alloc(0),
+      time: Date.now(),
+    };
+    requests.push(request);
+    const chunks: Buffer[] = [];
+    req.on("data", (chunk) => chunks.push(chunk));
+    req.on("end", () => {
+      request.body = Buffer.concat(chunks);
+      const timer = setTimeout(() => {
+        timers.delete(timer);
+        res.writeHead(reply.status, { "content-type": "application/json", ...reply.headers });
+        res.end(JSON.stringify(reply.body ?? {}));
+      }, reply.delayMs ?? 0);
+      timers.add(timer);
+    });
+  });
+  await new Promise<void>((resolve) => {
+    server.listen(0, "127.0.0.1", resolve);
+  });
+  const { port } = server.address() as AddressInfo;
+  return {
+    url: `http://127.0.0.1:${port}`,
+    requests,
+    close: () =>
+      new Promise<void>((resolve) => {
+        timers.forEach((timer) => clearTimeout(timer));
+        server.close(() => resolve());
+        server.closeAllConnections();
+      }),
+  };
+}
+
 test("noop", () => {
   // All TS files are compiled by default into the npm package
   // Adding this empty test allows us to:
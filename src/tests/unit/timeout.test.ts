@@ -0,0 +1,157 @@
+// Copyright © Aptos Foundation
+// SPDX-License-Identifier: Apache-2.0
+
+import { AptosApiError, AptosTimeoutError, EndpointPool, get } from "../../client";
+import { AptosClient, WaitForTransactionError } from "../../providers";
+import { sleep } from "../../utils";
+import { startMockServer } from "./test_helper.test";
+
+const pendingTransaction = { status: 200, body: { type: "pending_transaction", hash: "0x1" } };
+
+describe("request timeouts", () => {
+  test("fails with a dedicated error", async () => {
+    const server = await startMockServer([{ status: 200, delayMs: 500 }]);
+    try {
+      const promise = get({ url: server.url, overrides: { TIMEOUT: 50 } });
+      await expect(promise).rejects.toBeInstanceOf(AptosTimeoutError);
+      await expect(promise).rejects.not.toBeInstanceOf(AptosApiError);
+      await expect(promise).rejects.toMatchObject({ timeoutMs: 50, url: `${server.url}/` });
+    } finally {
+      await server.close();
+    }
+  });
+
+  test("does not time out fast responses", async () => {
+    const server = await startMockServer([{ status: 200, body: { ok: true } }]);
+    try {
+      const response = await get<{}, any>({ url: server.url, overrides: { TIMEOUT: 1000 } });
+      expect(response.data.ok).toBe(true);
+    } finally {
+      await server.close();
+    }
+  });
+
+  test("applies to every attempt of a retried request", async () => {
+    const server = await startMockServer([{ status: 200, delayMs: 500 }, { status: 200 }]);
+    try {
+      await get({ url: server.url, overrides: { TIMEOUT: 50, RETRY: { baseDelayMs: 1, jitter: false } } });
+      expect(server.requests).toHaveLength(2);
+    } finally {
+      await server.close();
+    }
+  });
+
+  test("fails over to the next endpoint of a pool", async () => {
+    const slow = await startMockServer([{ status: 200, delayMs: 500 }]);
+    const fast = await startMockServer([{ status: 200, body: { ledger_version: "1" } }]);
+    try {
+      const pool = new EndpointPool([slow.url, fast.url], { healthCheckIntervalMs: 0 });
+      const response = await get<{}, any>({ url: slow.url, overrides: { ENDPOINT_POOL: pool, TIMEOUT: 50 } });
+      expect(response.data.ledger_version).toBe("1");
+      expect(pool.getStatus()[0].healthy).toBe(false);
+    } finally {
+      await Promise.all([slow.close(), fast.close()]);
+    }
+  });
+});
+
+describe("request cancellation", () => {
+  test("rejects with the signal reason", async () => {
+    const server = await startMockServer([{ status: 200, delayMs: 500 }]);
+    const controller = new AbortController();
+    try {
+      const promise = get({ url: server.url, overrides: { SIGNAL: controller.signal } });
+      setTimeout(() => controller.abort(), 20);
+      await expect(promise).rejects.toMatchObject({ name: "AbortError" });
+      await expect(promise).rejects.not.toBeInstanceOf(AptosTimeoutError);
+    } finally {
+      await server.close();
+    }
+  });
+
+  test("does not send requests with an aborted signal", async () => {
+    const server = await startMockServer([{ status: 200 }]);
+    const controller = new AbortController();
+    controller.abort();
+    try {
+      await expect(get({ url: server.url, overrides: { SIGNAL: controller.signal } })).rejects.toMatchObject({
+        name: "AbortError",
+      });
+      expect(server.requests).toHaveLength(0);
+    } finally {
+      await server.close();
+    }
+  });
+
+  test("stops retrying", async () => {
+    const server = await startMockServer([{ status: 503 }]);
+    const controller = new AbortController();
+    try {
+      const promise = get({
+        url: server.url,
+        overrides: { SIGNAL: controller.signal, RETRY: { baseDelayMs: 5000, jitter: false } },
+      });
+      await sleep(50);
+      controller.abort();
+      await expect(promise).rejects.toMatchObject({ name: "AbortError" });
+      expect(server.requests).toHaveLength(1);
+    } finally {
+      await server.close();
+    }
+  });
+
+  test("sleep can be cancelled", async () => {
+    const controller = new AbortController();
+    const start = Date.now();
+    const promise = sleep(5000, controller.signal);
+    controller.abort();
+    await expect(promise).rejects.toMatchObject({ name: "AbortError" });
+    expect(Date.now() - start).toBeLessThan(1000);
+  });
+});
+
+describe("AptosClient", () => {
+  test("withConfig overrides the config of a copy", async () => {
+    const server = await startMockServer([{ status: 200, delayMs: 300 }]);
+    try {
+      const client = new AptosClient(server.url, { TOKEN: "token" }, true);
+      const copy = client.withConfig({ TIMEOUT: 50 });
+      expect(copy).toBeInstanceOf(AptosClient);
+      expect(copy.config).toEqual({ TOKEN: "token", TIMEOUT: 50 });
+      expect(client.config).toEqual({ TOKEN: "token" });
+      await expect(copy.getAccount("0x1")).rejects.toBeInstanceOf(AptosTimeoutError);
+      expect(server.requests[0].headers.authorization).toBe("Bearer token");
+    } finally {
+      await server.close();
+    }
+  });
+
+  test("stops waiting for a transaction when a request hangs", async () => {
+    const server = await startMockServer([{ ...pendingTransaction, delayMs: 3000 }]);
+    try {
+      const client = new AptosClient(server.url, undefined, true);
+      const start = Date.now();
+      await expect(client.waitForTransactionWithResult("0x1", { timeoutSecs: 1 })).rejects.toBeInstanceOf(
+        WaitForTransactionError,
+      );
+      expect(Date.now() - start).toBeLessThan(2000);
+    } finally {
+      await server.close();
+    }
+  });
+
+  test("stops waiting for a transaction when aborted", async () => {
+    const server = await startMockServer([pendingTransaction]);
+    const controller = new AbortController();
+    try {
+      const client = new AptosClient(server.url, undefined, true);
+      const promise = client.waitForTransactionWithResult("0x1", { timeoutSecs: 20, signal: controller.signal });
+      await sleep(100);
+      controller.abort();
+      await expect(promise).rejects.toMatchObject({ name: "AbortError" });
+      expect(server.requests).toHaveLength(1);
+    } finally {
+      await server.close();
+    }
+  });
+});
@@ -0,0 +1,200 @@
+// Copyright © Aptos Foundation
+// SPDX-License-Identifier: Apache-2.0
+
+import * as Gen from "../../generated/index";
+import {
+  AccountAddress,
+  AccountAuthenticatorEd25519,
+  ChainId,
+  Ed25519PublicKey,
+  Ed25519Signature,
+  FeePayerRawTransaction,
+  MultiAgentRawTransaction,
+  RawTransaction,
+  Script,
+  SignedTransaction,
+  TransactionArgumentAddress,
+  TransactionArgumentU64,
+  TransactionArgumentU8Vector,
+  TransactionAuthenticatorEd25519,
+  TransactionAuthenticatorFeePayer,
+  TransactionPayloadScript,
+} from "../../aptos_types";
+import { bcsToBytes } from "../../bcs";
+import { ABIRegistry, buildOfflineTransaction, decodeTransaction } from "../../transaction_builder";
+
+const vault: Gen.MoveModule = {
+  address: "0xcafe",
+  name: "vault",
+  friends: [],
+  structs: [],
+  exposed_functions: [
+    {
+      name: "deposit",
+      visibility: Gen.MoveFunctionVisibility.PUBLIC,
+      is_entry: true,
+      is_view: false,
+      generic_type_params: [{ constraints: [] }],
+      params: [
+        "&signer",
+        "u8",
+        "u128",
+        "bool",
+        "vector<u8>",
+        "0x1::option::Option<0x1::string::String>",
+        "0x1::option::Option<u64>",
+        "vector<address>",
+        "0x1::object::Object<T0>",
+      ],
+      return: [],
+    },
+  ],
+};
+
+const registry = new ABIRegistry({ modules: [vault], framework: true });
+const config = {
+  sender: "0xa11ce",
+  sequenceNumber: "7",
+  chainId: 2,
+  gasUnitPrice: "100",
+  maxGasAmount: "2000",
+  expirationTimestampSecs: "1700000600",
+};
+const address = (short: string) => `0x${short.padStart(64, "0")}`;
+
+function transfer(): Promise<RawTransaction> {
+  return buildOfflineTransaction(registry, config, "0x1::aptos_account::transfer", [], ["0xb0b", 1000]);
+}
+
+function ed25519Authenticator() {
+  return new AccountAuthenticatorEd25519(
+    new Ed25519PublicKey(new Uint8Array(32)),
+    new Ed25519Signature(new Uint8Array(64)),
+  );
+}
+
+describe("decodeTransaction", () => {
+  test("decodes entry function arguments after their ABI", async () => {
+    const rawTxn = await buildOfflineTransaction(
+      registry,
+      config,
+      "0xcafe::vault::deposit",
+      ["0x1::fungible_asset::Metadata"],
+      [7, BigInt(2) ** BigInt(100), true, new Uint8Array([1, 2]), "memo", undefined, ["0x1", "0x2"], "0xa"],
+    );
+
+    const decoded = await decodeTransaction(bcsToBytes(rawTxn), registry);
+    expect(decoded).toEqual({
+      format: "raw_transaction",
+      sender: address("a11ce"),
+      sequenceNumber: "7",
+      chainId: 2,
+      maxGasAmount: "2000",
+      gasUnitPrice: "100",
+      expirationTimestampSecs: "1700000600",
+      secondarySignerAddresses: [],
+      payload: {
+        type: "entry_function",
+        function: "0xcafe::vault::deposit",
+        typeArguments: ["0x1::fungible_asset::Metadata"],
+        arguments: [
+          { type: "u8", value: 7 },
+          { type: "u128", value: "1267650600228229401496703205376" },
+          { type: "bool", value: true },
+          { type: "vector<u8>", value: "0x0102" },
+          { type: "0x1::option::Option<0x1::string::String>", value: "memo" },
+          { type: "0x1::option::Option<u64>", value: null },
+          { type: "vector<address>", value: [address("1"), address("2")] },
+          { type: "0x1::object::Object<T0>", value: address("a") },
+        ],
+      },
+    });
+  });
+
+  test("decodes signed, multi agent and fee payer transactions", async () => {
+    const rawTxn = await transfer();
+    const args = [
+      { type: "address", value: address("b0b") },
+      { type: "u64", value: "1000" },
+    ];
+
+    const signed = new SignedTransaction(
+      rawTxn,
+      new TransactionAuthenticatorEd25519(
+        new Ed25519PublicKey(new Uint8Array(32)),
+        new Ed25519Signature(new Uint8Array(64)),
+      ),
+    );
+    const decodedSigned = await decodeTransaction(bcsToBytes(signed), registry);
+    expect(decodedSigned.format).toBe("signed_transaction");
+    expect(decodedSigned.payload.arguments).toEqual(args);
+
+    const secondary = AccountAddress.fromHex("0xc0ffee");
+    const multiAgent = await decodeTransaction(bcsToBytes(new MultiAgentRawTransaction(rawTxn, [secondary])), registry);
+    expect(multiAgent.format).toBe("raw_transaction_with_data");
+    expect(multiAgent.secondarySignerAddresses).toEqual([address("c0ffee")]);
+    expect(multiAgent.feePayerAddress).toBeUndefined();
+
+    const feePayer = AccountAddress.fromHex("0xfee");
+    const feePayerRawTxn = await decodeTransaction(
+      bcsToBytes(new FeePayerRawTransaction(rawTxn, [], feePayer)),
+      registry,
+    );
+    expect(feePayerRawTxn.feePayerAddress).toBe(address("fee"));
+
+    const feePayerSigned = new SignedTransaction(
+      rawTxn,
+      new TransactionAuthenticatorFeePayer(ed25519Authenticator(), [secondary], [ed25519Authenticator()], {
+        address: feePayer,
+        authenticator: ed25519Authenticator(),
+      }),
+    );
+    const decodedFeePayer = await decodeTransaction(bcsToBytes(feePayerSigned), registry);
+    expect(decodedFeePayer).toMatchObject({
+      format: "signed_transaction",
+      secondarySignerAddresses: [address("c0ffee")],
+      feePayerAddress: address("fee"),
+      payload: { function: "0x1::aptos_account::transfer", arguments: args },
+    });
+  });
+
+  test("decodes script arguments and rejects other bytes", async () => {
+    const rawTxn = await transfer();
+    const script = new RawTransaction(
+      rawTxn.sender,
+      rawTxn.sequence_number,
+      new TransactionPayloadScript(
+        new Script(
+          new Uint8Array([0xa1, 0x1c]),
+          [],
+          [
+            new TransactionArgumentAddress(AccountAddress.fromHex("0xb0b")),
+            new TransactionArgumentU64(BigInt(5)),
+            new TransactionArgumentU8Vector(new Uint8Array([0xff])),
+          ],
+        ),
+      ),
+      rawTxn.max_gas_amount,
+      rawTxn.gas_unit_price,
+      rawTxn.expiration_timestamp_secs,
+      new ChainId(2),
+    );
+    expect((await decodeTransaction(bcsToBytes(script), registry)).payload).toEqual({
+      type: "script",
+      typeArguments: [],
+      arguments: [
+        { type: "address", value: address("b0b") },
+        { type: "u64", value: "5" },
+        { type: "vector<u8>", value: "0xff" },
+      ],
+    });
+
+    const bytes = bcsToBytes(rawTxn);
+    await expect(decodeTransaction(bytes.slice(0, bytes.length - 1), registry)).rejects.toThrow(
+      "The bytes are not a BCS encoded transaction",
+    );
+    await expect(decodeTransaction(bcsToBytes(rawTxn), new ABIRegistry())).rejects.toThrow(
+      "The ABI of 0x1::aptos_account is not in the registry",
+    );
+  });
+});
@@ -0,0 +1,351 @@
+// Copyright © Aptos Foundation
+// SPDX-License-Identifier: Apache-2.0
+
+/**
+ * Property based round trip tests: randomly generated transactions, authenticators and payloads deserialize back to
+ * themselves, and serialize back to the same bytes.
+ */
+
+/* eslint-disable no-bitwise */
+import {
+  AccountAddress,
+  AccountAuthenticator,
+  AccountAuthenticatorEd25519,
+  AccountAuthenticatorMultiEd25519,
+  AccountAuthenticatorSingleKey,
+  AnyPublicKeyEd25519,
+  AnyPublicKeySecp256k1Ecdsa,
+  AnySignatureEd25519,
+  AnySignatureSecp256k1Ecdsa,
+  BlockMetadataTransaction,
+  ChainId,
+  Ed25519PublicKey,
+  Ed25519Signature,
+  EntryFunction,
+  FeePayerRawTransaction,
+  Identifier,
+  ModuleId,
+  MultiAgentRawTransaction,
+  MultiEd25519PublicKey,
+  MultiEd25519Signature,
+  MultiSig,
+  MultiSigTransactionPayload,
+  RawTransaction,
+  RawTransactionWithData,
+  Script,
+  Secp256k1PublicKey,
+  Secp256k1Signature,
+  SignedTransaction,
+  StateCheckpointTransaction,
+  StructTag,
+  Transaction,
+  TransactionArgument,
+  TransactionArgumentAddress,
+  TransactionArgumentBool,
+  TransactionArgumentU128,
+  TransactionArgumentU16,
+  TransactionArgumentU256,
+  TransactionArgumentU32,
+  TransactionArgumentU64,
+  TransactionArgumentU8,
+  TransactionArgumentU8Vector,
+  TransactionAuthenticator,
+  TransactionAuthenticatorEd25519,
+  TransactionAuthenticatorFeePayer,
+  TransactionAuthenticatorMultiAgent,
+  TransactionAuthenticatorMultiEd25519,
+  TransactionAuthenticatorSingleSender,
+  TransactionPayload,
+  TransactionPayloadEntryFunction,
+  TransactionPayloadMultisig,
+  TransactionPayloadScript,
+  TypeTag,
+  TypeTagAddress,
+  TypeTagBool,
+  TypeTagSigner,
+  TypeTagStruct,
+  TypeTagU128,
+  TypeTagU16,
+  TypeTagU256,
+  TypeTagU32,
+  TypeTagU64,
+  TypeTagU8,
+  TypeTagVector,
+  UserTransaction,
+} from "../../aptos_types";
+import { bcsToBytes, Deserializer, Serializer } from "../../bcs";
+
+const RUNS = 100;
+
+// A seeded PRNG (mulberry32), so that failures can be reproduced
+function random(seed: number) {
+  let state = seed;
+  const next = () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t ^= t + Math.imul(t ^ (t >>> 7), 61 | t);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+  const int = (max: number) => Math.floor(next() * max);
+  const bytes = (length: number) => Uint8Array.from({ length }, () => int(256));
+  const bigint = (bits: number) =>
+    Array.from(bytes(bits / 8)).reduce((acc, byte) => (acc << BigInt(8)) | BigInt(byte), BigInt(0));
+  const pick = <T>(...choices: Array<() => T>): T => choices[int(choices.length)]();
+  const list = <T>(max: number, item: () => T): T[] => Array.from({ length: int(max + 1) }, item);
+  return { int, bytes, bigint, pick, list };
+}
+
+type Random = ReturnType<typeof random>;
+
+const address = (r: Random) => new AccountAddress(r.bytes(32));
+const identifier = (r: Random) =>
+  new Identifier(`f${r.list(8, () => "abcdefghijklmnopqrstuvwxyz_"[r.int(27)]).join("")}`);
+
+function typeTag(r: Random, depth = 0): TypeTag {
+  const primitives = [
+    () => new TypeTagBool(),
+    () => new TypeTagU8(),
+    () => new TypeTagU16(),
+    () => new TypeTagU32(),
+    () => new TypeTagU64(),
+    () => new TypeTagU128(),
+    () => new TypeTagU256(),
+    () => new TypeTagAddress(),
+    () => new TypeTagSigner(),
+  ];
+  if (depth >= 2) {
+    return r.pick(...primitives);
+  }
+  return r.pick(
+    ...primitives,
+    () => new TypeTagVector(typeTag(r, depth + 1)),
+    () =>
+      new TypeTagStruct(
+        new StructTag(
+          address(r),
+          identifier(r),
+          identifier(r),
+          r.list(2, () => typeTag(r, depth + 1)),
+        ),
+      ),
+  );
+}
+
+function transactionArgument(r: Random): TransactionArgument {
+  return r.pick<TransactionArgument>(
+    () => new TransactionArgumentU8(r.int(256)),
+    () => new TransactionArgumentU16(r.int(65536)),
+    () => new TransactionArgumentU32(r.int(4294967296)),
+    () => new TransactionArgumentU64(r.bigint(64)),
+    () => new TransactionArgumentU128(r.bigint(128)),
+    () => new TransactionArgumentU256(r.bigint(256)),
+    () => new TransactionArgumentAddress(address(r)),
+    () => new TransactionArgumentU8Vector(r.bytes(r.int(40))),
+    () => new TransactionArgumentBool(r.int(2) === 1),
+  );
+}
+
+const entryFunction = (r: Random) =>
+  new EntryFunction(
+    new ModuleId(address(r), identifier(r)),
+    identifier(r),
+    r.list(3, () => typeTag(r)),
+    r.list(4, () => r.bytes(r.int(40))),
+  );
+
+function payload(r: Random): TransactionPayload {
+  return r.pick<TransactionPayload>(
+    () =>
+      new TransactionPayloadScript(
+        new Script(
+          r.bytes(r.int(100)),
+          r.list(3, () => typeTag(r)),
+          r.list(4, () => transactionArgument(r)),
+        ),
+      ),
+    () => new TransactionPayloadEntryFunction(entryFunction(r)),
+    () =>
+      new TransactionPayloadMultisig(
+        new MultiSig(address(r), r.int(2) === 1 ? new MultiSigTransactionPayload(entryFunction(r)) : undefined),
+      ),
+  );
+}
+
+const rawTransaction = (r: Random) =>
+  new RawTransaction(
+    address(r),
+    r.bigint(64),
+    payload(r),
+    r.bigint(64),
+    r.bigint(64),
+    r.bigint(64),
+    new ChainId(r.int(256)),
+  );
+
+const ed25519PublicKey = (r: Random) => new Ed25519PublicKey(r.bytes(Ed25519PublicKey.LENGTH));
+const ed25519Signature = (r: Random) => new Ed25519Signature(r.bytes(Ed25519Signature.LENGTH));
+
+function multiEd25519(r: Random): [MultiEd25519PublicKey, MultiEd25519Signature] {
+  const publicKeys = Array.from({ length: 1 + r.int(4) }, () => ed25519PublicKey(r));
+  const signatures = Array.from({ length: 1 + r.int(publicKeys.length) }, () => ed25519Signature(r));
+  return [
+    new MultiEd25519PublicKey(publicKeys, 1 + r.int(publicKeys.length)),
+    new MultiEd25519Signature(signatures, r.bytes(MultiEd25519Signature.BITMAP_LEN)),
+  ];
+}
+
+function accountAuthenticator(r: Random): AccountAuthenticator {
+  return r.pick<AccountAuthenticator>(
+    () => new AccountAuthenticatorEd25519(ed25519PublicKey(r), ed25519Signature(r)),
+    () => new AccountAuthenticatorMultiEd25519(...multiEd25519(r)),
+    () =>
+      new AccountAuthenticatorSingleKey(
+        new AnyPublicKeyEd25519(ed25519PublicKey(r)),
+        new AnySignatureEd25519(ed25519Signature(r)),
+      ),
+    () =>
+      new AccountAuthenticatorSingleKey(
+        new AnyPublicKeySecp256k1Ecdsa(new Secp256k1PublicKey(r.bytes(Secp256k1PublicKey.LENGTH))),
+        new AnySignatureSecp256k1Ecdsa(new Secp256k1Signature(r.bytes(Secp256k1Signature.LENGTH))),
+      ),
+  );
+}
+
+function transactionAuthenticator(r: Random): TransactionAuthenticator {
+  return r.pick<TransactionAuthenticator>(
+    () => new TransactionAuthenticatorEd25519(ed25519PublicKey(r), ed25519Signature(r)),
+    () => new TransactionAuthenticatorMultiEd25519(...multiEd25519(r)),
+    () => {
+      const secondarySigners = r.list(3, () => address(r));
+      return new TransactionAuthenticatorMultiAgent(
+        accountAuthenticator(r),
+        secondarySigners,
+        secondarySigners.map(() => accountAuthenticator(r)),
+      );
+    },
+    () => {
+      const secondarySigners = r.list(3, () => address(r));
+      return new TransactionAuthenticatorFeePayer(
+        accountAuthenticator(r),
+        secondarySigners,
+        secondarySigners.map(() => accountAuthenticator(r)),
+        { address: address(r), authenticator: accountAuthenticator(r) },
+      );
+    },
+    () => new TransactionAuthenticatorSingleSender(accountAuthenticator(r)),
+  );
+}
+
+const signedTransaction = (r: Random) => new SignedTransaction(rawTransaction(r), transactionAuthenticator(r));
+
+function transaction(r: Random): Transaction {
+  return r.pick<Transaction>(
+    () => new UserTransaction(signedTransaction(r)),
+    () =>
+      new BlockMetadataTransaction(
+        r.bytes(32),
+        r.bigint(64),
+        r.bigint(64),
+        address(r),
+        r.bytes(r.int(20)),
+        r.list(4, () => r.int(4294967296)),
+        r.bigint(64),
+      ),
+    () => new StateCheckpointTransaction(r.bytes(32)),
+  );
+}
+
+function rawTransactionWithData(r: Random): RawTransactionWithData {
+  return r.pick<RawTransactionWithData>(
+    () =>
+      new MultiAgentRawTransaction(
+        rawTransaction(r),
+        r.list(3, () => address(r)),
+      ),
+    () =>
+      new FeePayerRawTransaction(
+        rawTransaction(r),
+        r.list(3, () => address(r)),
+        address(r),
+      ),
+  );
+}
+
+interface Serializable {
+  serialize(serializer: Serializer): void;
+}
+
+/**
+ * Checks that values generated from many seeds deserialize back to themselves
+ */
+function roundTrip<T extends Serializable>(generate: (r: Random) => T, deserialize: (d: Deserializer) => T) {
+  for (let seed = 0; seed < RUNS; seed += 1) {
+    const value = generate(random(seed));
+    const bytes = bcsToBytes(value);
+    const deserializer = new Deserializer(bytes);
+    const deserialized = deserialize(deserializer);
+    expect(deserializer.remaining()).toBe(0);
+    expect(deserialized).toEqual(value);
+    expect(bcsToBytes(deserialized)).toEqual(bytes);
+  }
+}
+
+function bytesOf(write: (serializer: Serializer) => void): Uint8Array {
+  const serializer = new Serializer();
+  write(serializer);
+  return serializer.getBytes();
+}
+
+describe("BCS deserialization", () => {
+  test("round trips type tags and payloads", () => {
+    roundTrip(typeTag, TypeTag.deserialize);
+    roundTrip(transactionArgument, TransactionArgument.deserialize);
+    roundTrip(payload, TransactionPayload.deserialize);
+  });
+
+  test("round trips authenticators", () => {
+    roundTrip(accountAuthenticator, AccountAuthenticator.deserialize);
+    roundTrip(transactionAuthenticator, TransactionAuthenticator.deserialize);
+  });
+
+  test("round trips raw, multi agent, fee payer and signed transactions", () => {
+    roundTrip(rawTransaction, RawTransaction.deserialize);
+    roundTrip(rawTransactionWithData, RawTransactionWithData.deserialize);
+    roundTrip(signedTransaction, SignedTransaction.deserialize);
+    roundTrip(transaction, Transaction.deserialize);
+  });
+
+  test("deserializes fee payer authenticators to their own class", () => {
+    const r = random(0);
+    const authenticator = new TransactionAuthenticatorFeePayer(accountAuthenticator(r), [], [], {
+      address: address(r),
+      authenticator: accountAuthenticator(r),
+    });
+    expect(TransactionAuthenticator.deserialize(new Deserializer(bcsToBytes(authenticator)))).toBeInstanceOf(
+      TransactionAuthenticatorFeePayer,
+    );
+  });
+
+  test("rejects unknown variants and malformed keys", () => {
+    const variant = (index: number) => new Deserializer(bytesOf((s) => s.serializeU32AsUleb128(index)));
+    expect(() => TransactionAuthenticator.deserialize(variant(5))).toThrow(
+      "Unknown variant index for TransactionAuthenticator: 5",
+    );
+    expect(() => AccountAuthenticator.deserialize(variant(3))).toThrow(
+      "Unknown variant index for AccountAuthenticator: 3",
+    );
+    expect(() => TransactionPayload.deserialize(variant(1))).toThrow(
+      "Module bundle payloads are deprecated and not supported",
+    );
+    expect(() => Transaction.deserialize(variant(1))).toThrow("Genesis transactions are not supported");
+    expect(() => Transaction.deserialize(variant(4))).toThrow("Unknown variant index for Transaction: 4");
+    expect(() => MultiSigTransactionPayload.deserialize(variant(1))).toThrow(
+      "Unknown variant index for MultiSigTransactionPayload: 1",
+    );
+
+    const keys = new Deserializer(bytesOf((s) => s.serializeBytes(new Uint8Array(40))));
+    expect(() => MultiEd25519PublicKey.deserialize(keys)).toThrow("Invalid MultiEd25519PublicKey length 40");
+    const signatures = new Deserializer(bytesOf((s) => s.serializeBytes(new Uint8Array(70))));
+    expect(() => MultiEd25519Signature.deserialize(signatures)).toThrow("Invalid MultiEd25519Signature length 70");
+  });
+});
@@ -0,0 +1,173 @@
+// Copyright © Aptos Foundation
+// SPDX-License-Identifier: Apache-2.0
+
+import { AptosClient, TransactionHandle, WaitForTransactionError } from "../../providers";
+import { MockReply, startMockServer } from "./test_helper.test";
+
+const NOW_SECS = 1700000000;
+
+const pending = (expiration = NOW_SECS + 60): MockReply => ({
+  status: 202,
+  body: { type: "pending_transaction", hash: "0x1", expiration_timestamp_secs: `${expiration}` },
+  headers: { "x-aptos-ledger-timestamp": `${NOW_SECS * 1000000}` },
+});
+
+const committed = (success = true): MockReply => ({
+  status: 200,
+  body: { type: "user_transaction", hash: "0x1", success, version: "10" },
+});
+
+const ledgerInfo: MockReply = {
+  status: 200,
+  body: { chain_id: 4, ledger_version: "1", ledger_timestamp: `${NOW_SECS * 1000000}` },
+};
+
+const fast = { pollIntervalMs: 10 };
+
+function recordEvents(handle: TransactionHandle): string[] {
+  const events: string[] = [];
+  (["submitted", "pending", "committed", "failed", "expired", "timeout", "error"] as const).forEach((event) =>
+    handle.on(event, () => {
+      events.push(event);
+    }),
+  );
+  return events;
+}
+
+describe("TransactionHandle", () => {
+  test("emits the lifecycle of a submitted transaction", async () => {
+    const server = await startMockServer([pending(), pending(), committed()]);
+    try {
+      const client = new AptosClient(server.url, undefined, true);
+      const handle = TransactionHandle.submit(client, new Uint8Array([1, 2, 3]), fast);
+      const events = recordEvents(handle);
+
+      const transaction = await handle.wait();
+      expect(transaction.type).toBe("user_transaction");
+      expect(events).toEqual(["submitted", "pending", "committed"]);
+      expect(handle.hash).toBe(AptosClient.getTransactionHash(new Uint8Array([1, 2, 3])));
+      expect(server.requests.map(({ method }) => method)).toEqual(["POST", "GET", "GET"]);
+      expect(server.requests[1].url).toBe(`/transactions/by_hash/${handle.hash}`);
+    } finally {
+      await server.close();
+    }
+  });
+
+  test("emits failed for a committed transaction whose execution failed", async () => {
+    const server = await startMockServer([committed(false)]);
+    try {
+      const handle = TransactionHandle.watch(new AptosClient(server.url, undefined, true), "0x1", fast);
+      const events = recordEvents(handle);
+      expect((await handle.wait()).hash).toBe("0x1");
+      expect(events).toEqual(["failed"]);
+    } finally {
+      await server.close();
+    }
+  });
+
+  test("detects expiration against the ledger time", async () => {
+    const server = await startMockServer([pending(NOW_SECS - 1)]);
+    try {
+      const handle = TransactionHandle.watch(new AptosClient(server.url, undefined, true), "0x1", fast);
+      const expired = jest.fn();
+      handle.on("expired", expired);
+      await expect(handle.wait()).rejects.toBeInstanceOf(WaitForTransactionError);
+      expect(expired).toHaveBeenCalledWith({ expirationTimestampSecs: NOW_SECS - 1, ledgerTimestampSecs: NOW_SECS });
+    } finally {
+      await server.close();
+    }
+  });
+
+  test("detects expiration of transactions the node does not know", async () => {
+    const server = await startMockServer([{ status: 404 }, ledgerInfo, { status: 404 }]);
+    try {
+      const handle = TransactionHandle.watch(new AptosClient(server.url, undefined, true), "0x1", {
+        ...fast,
+        expirationTimestampSecs: NOW_SECS - 10,
+      });
+      const events = recordEvents(handle);
+      await expect(handle.wait()).rejects.toThrow("expired");
+      expect(events).toEqual(["expired"]);
+    } finally {
+      await server.close();
+    }
+  });
+
+  test("does not expire transactions committed before the ledger info", async () => {
+    const server = await startMockServer([{ status: 404 }, ledgerInfo, committed()]);
+    try {
+      const handle = TransactionHandle.watch(new AptosClient(server.url, undefined, true), "0x1", {
+        ...fast,
+        expirationTimestampSecs: NOW_SECS - 10,
+      });
+      const events = recordEvents(handle);
+      expect((await handle.wait()).type).toBe("user_transaction");
+      expect(events).toEqual(["committed"]);
+      expect(server.requests.map(({ url }) => url)).toEqual([
+        "/transactions/by_hash/0x1",
+        "/",
+        "/transactions/by_hash/0x1",
+      ]);
+    } finally {
+      await server.close();
+    }
+  });
+
+  test("times out", async () => {
+    const server = await startMockServer([pending()]);
+    try {
+      const client = new AptosClient(server.url, undefined, true);
+      const handle = TransactionHandle.watch(client, "0x1", { ...fast, timeoutSecs: 0.1 });
+      const events = recordEvents(handle);
+      await expect(handle.wait()).rejects.toThrow("timed out");
+      expect(events[events.length - 1]).toBe("timeout");
+    } finally {
+      await server.close();
+    }
+  });
+
+  test("backs off between queries", async () => {
+    const server = await startMockServer([pending(), pending(), pending(), committed()]);
+    try {
+      const client = new AptosClient(server.url, undefined, true);
+      await TransactionHandle.watch(client, "0x1", { pollIntervalMs: 20, backoffMultiplier: 3 }).wait();
+      const [first, second, third] = server.requests
+        .slice(1)
+        .map((request, i) => request.time - server.requests[i].time);
+      expect(first).toBeGreaterThanOrEqual(15);
+      expect(second).toBeGreaterThanOrEqual(55);
+      expect(third).toBeGreaterThanOrEqual(175);
+    } finally {
+      await server.close();
+    }
+  });
+
+  test("can be cancelled", async () => {
+    const server = await startMockServer([pending()]);
+    const controller = new AbortController();
+    try {
+      const client = new AptosClient(server.url, undefined, true);
+      const handle = TransactionHandle.watch(client, "0x1", { pollIntervalMs: 1000, signal: controller.signal });
+      const events = recordEvents(handle);
+      handle.on("pending", () => controller.abort());
+      await expect(handle.wait()).rejects.toMatchObject({ name: "AbortError" });
+      expect(events).toEqual(["pending"]);
+      expect(server.requests).toHaveLength(1);
+    } finally {
+      await server.close();
+    }
+  });
+
+  test("emits errors of rejected transactions", async () => {
+    const server = await startMockServer([{ status: 400, body: { message: "Invalid transaction" } }]);
+    try {
+      const client = new AptosClient(server.url, undefined, true);
+      const handle = TransactionHandle.submit(client, new Uint8Array([1]), fast);
+      const events = recordEvents(handle);
+      await expect(handle.wait()).rejects.toThrow("Invalid transaction");
+      expect(events).toEqual(["error"]);
+    } finally {
+      await server.close();
+    }
+  });
+});
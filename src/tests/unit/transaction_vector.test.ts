@@ -39,7 +39,11 @@ import {
   TransactionArgumentAddress,
   TransactionArgumentU8Vector,
   TransactionArgumentU128,
+  SignedTransaction,
+  Transaction,
+  UserTransaction,
 } from "../../aptos_types";
+import { bcsToBytes, Deserializer } from "../../bcs";
 import { HexString } from "../../utils";
 import { TransactionBuilderEd25519 } from "../../transaction_builder/builder";
 
@@ -186,6 +190,15 @@ function verify(
   const signedTxn = sign(rawTxn, private_key);
 
   expect(signedTxn).toBe(expected_output);
+
+  // The signed transaction deserializes back to the same transaction, and serializes back to the same bytes
+  const bytes = new HexString(expected_output).toUint8Array();
+  const deserialized = SignedTransaction.deserialize(new Deserializer(bytes));
+  expect(deserialized.raw_txn).toEqual(rawTxn);
+  expect(bytesToHex(bcsToBytes(deserialized))).toBe(expected_output);
+
+  const userTxn = new UserTransaction(deserialized);
+  expect(Transaction.deserialize(new Deserializer(bcsToBytes(userTxn)))).toEqual(userTxn);
 }
 
 describe("Transaction builder vector test", () => {
@@ -0,0 +1,66 @@
+// Copyright © Aptos Foundation
+// SPDX-License-Identifier: Apache-2.0
+
+import { AptosAccount } from "../../account";
+import { expectedVanityAttempts, findVanityAccount, findVanityResourceAccountSeed, VanityProgress } from "../../node";
+
+describe("vanity addresses", () => {
+  test("finds accounts matching a prefix and a suffix", async () => {
+    const { account, attempts } = await findVanityAccount({ prefix: "0xA", suffix: "b", workers: 2 });
+
+    expect(account.address().hex()).toMatch(/^0xa[0-9a-f]{62}b$/);
+    expect(account.address().hex()).toBe(account.authKey().hex());
+    expect(AptosAccount.fromAptosAccountObject(account.toPrivateKeyObject()).address()).toEqual(account.address());
+    expect(attempts).toBeGreaterThan(0);
+  });
+
+  test("finds resource account seeds", async () => {
+    const { seed, address } = await findVanityResourceAccountSeed("0x1234", {
+      suffix: "ca",
+      seedPrefix: "deployer-",
+      workers: 1,
+    });
+
+    expect(new TextDecoder().decode(seed)).toMatch(/^deployer-[0-9]+$/);
+    expect(address.hex()).toMatch(/ca$/);
+    expect(AptosAccount.getResourceAccountAddress("0x1234", seed)).toEqual(address);
+  });
+
+  test("reports progress and can be cancelled", async () => {
+    const controller = new AbortController();
+    const reports: VanityProgress[] = [];
+    const result = findVanityAccount({
+      prefix: "0123456789",
+      workers: 1,
+      progressIntervalMs: 50,
+      signal: controller.signal,
+      onProgress: (progress) => {
+        // Workers take a moment to start
+        if (progress.attempts > 0) {
+          reports.push(progress);
+          controller.abort();
+        }
+      },
+    });
+
+    await expect(result).rejects.toThrow("aborted");
+    expect(reports).toHaveLength(1);
+    expect(reports[0]).toMatchObject({ expectedAttempts: 16 ** 10 });
+    expect(reports[0].attemptsPerSecond).toBeGreaterThan(0);
+    expect(reports[0].probability).toBeGreaterThan(0);
+    expect(reports[0].probability).toBeLessThan(1);
+  });
+
+  test("gives up after the maximum attempts", async () => {
+    await expect(findVanityAccount({ suffix: "0123456789", workers: 1, maxAttempts: 2000 })).rejects.toThrow(
+      "No vanity address found in 2000 attempts",
+    );
+  });
+
+  test("validates patterns", async () => {
+    expect(expectedVanityAttempts("ab", "c")).toBe(4096);
+    await expect(findVanityAccount({})).rejects.toThrow("Vanity search needs a prefix or a suffix");
+    await expect(findVanityAccount({ prefix: "xyz" })).rejects.toThrow("Vanity prefix must be hex, got xyz");
+    await expect(findVanityAccount({ suffix: "a".repeat(65) })).rejects.toThrow("cannot be longer than 64");
+  });
+});
@@ -0,0 +1,99 @@
+// Copyright © Aptos Foundation
+// SPDX-License-Identifier: Apache-2.0
+
+import { AptosAccount } from "../../account";
+import { ApiError } from "../../providers";
+import { HexString, sleep } from "../../utils";
+import { WalletClient } from "../../wallet_client";
+
+const mnemonic = "shoot island position soft burden budget tooth cruel issue economy destroy above";
+const ROTATED_ADDRESS = "0xabc";
+
+const authKey = (path: string) => AptosAccount.fromDerivePath(path, mnemonic).authKey().hex();
+
+/**
+ * Mocks the chain state: `used` are the paths of the accounts that exist at their derived address,
+ * `rotated` the ones whose key now controls the account at ROTATED_ADDRESS
+ */
+function mockChain(walletClient: WalletClient, used: string[], rotated: string[] = []) {
+  const existing = new Set([...used.map(authKey), ROTATED_ADDRESS]);
+  const originalAddresses = new Map(rotated.map((path) => [authKey(path), ROTATED_ADDRESS]));
+  let inFlight = 0;
+  const stats = { lookups: 0, maxInFlight: 0 };
+
+  jest.spyOn(walletClient.aptosClient, "lookupOriginalAddress").mockImplementation(async (key) => {
+    const address = originalAddresses.get(HexString.ensure(key).hex());
+    if (!address) {
+      throw new ApiError(404, "Table Item not found");
+    }
+    return new HexString(address);
+  });
+  jest.spyOn(walletClient.aptosClient, "getAccount").mockImplementation(async (address) => {
+    stats.lookups += 1;
+    inFlight += 1;
+    stats.maxInFlight = Math.max(stats.maxInFlight, inFlight);
+    await sleep(5);
+    inFlight -= 1;
+    if (!existing.has(HexString.ensure(address).hex())) {
+      throw new ApiError(404, "Account not found");
+    }
+    return { sequence_number: "1", authentication_key: HexString.ensure(address).hex() };
+  });
+  return stats;
+}
+
+describe("WalletClient.importWallet", () => {
+  const walletClient = new WalletClient("http://localhost:8080", "http://localhost:8081");
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test("returns the first account of an unused wallet", async () => {
+    const stats = mockChain(walletClient, []);
+    const { accounts } = await walletClient.importWallet(mnemonic, { gapLimit: 3 });
+    expect(accounts).toEqual([walletClient.createNewAccount(mnemonic, 0)]);
+    expect(stats.lookups).toBe(3);
+  });
+
+  test("discovers accounts up to the gap limit, including rotated ones", async () => {
+    const stats = mockChain(walletClient, ["m/44'/637'/0'/0'/0'", "m/44'/637'/3'/0'/0'"], ["m/44'/637'/5'/0'/0'"]);
+    const { accounts } = await walletClient.importWallet(mnemonic, { gapLimit: 3, concurrency: 2 });
+
+    expect(accounts.map(({ derivationPath }) => derivationPath)).toEqual(
+      [0, 1, 2, 3, 4, 5].map((i) => `m/44'/637'/${i}'/0'/0'`),
+    );
+    expect(accounts.slice(0, 5)).toEqual([0, 1, 2, 3, 4].map((i) => walletClient.createNewAccount(mnemonic, i)));
+    expect(accounts[5].address).toBe(ROTATED_ADDRESS);
+    expect(accounts[5].publicKey).toBe(AptosAccount.fromDerivePath("m/44'/637'/5'/0'/0'", mnemonic).pubKey().hex());
+    // Accounts 0 to 8, stopping after 6, 7 and 8, plus the second address of the used accounts 0, 3 and 5
+    expect(stats.lookups).toBe(12);
+    expect(stats.maxInFlight).toBe(2);
+  });
+
+  test("discovers the address index and change levels", async () => {
+    mockChain(walletClient, [
+      "m/44'/637'/0'/0'/0'",
+      "m/44'/637'/0'/0'/2'",
+      "m/44'/637'/0'/1'/0'",
+      "m/44'/637'/1'/1'/0'",
+    ]);
+    const { accounts } = await walletClient.importWallet(mnemonic, {
+      gapLimit: 2,
+      addressGapLimit: 2,
+      changeIndices: [0, 1],
+    });
+
+    expect(accounts.map(({ derivationPath }) => derivationPath)).toEqual([
+      "m/44'/637'/0'/0'/0'",
+      "m/44'/637'/0'/0'/2'",
+      "m/44'/637'/0'/1'/0'",
+      "m/44'/637'/1'/1'/0'",
+    ]);
+  });
+
+  test("fails on other API errors", async () => {
+    jest.spyOn(walletClient.aptosClient, "lookupOriginalAddress").mockRejectedValue(new ApiError(500, "Internal"));
+    await expect(walletClient.importWallet(mnemonic)).rejects.toThrow("Internal");
+  });
+});
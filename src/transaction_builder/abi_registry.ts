@@ -0,0 +1,224 @@
+// Copyright © Aptos Foundation
+// SPDX-License-Identifier: Apache-2.0
+
+import * as Gen from "../generated/index";
+import { parseModuleABIs } from "../codegen/generator";
+import { HexString, MaybeHexString } from "../utils";
+import { FRAMEWORK_ABIS } from "./framework_abis";
+
+export { FRAMEWORK_ABIS } from "./framework_abis";
+
+/**
+ * Where an ABI registry fetches the modules missing from it, e.g. an AptosClient
+ */
+export interface ABIRegistryClient {
+  getAccountModule(accountAddress: MaybeHexString, moduleName: string): Promise<Gen.MoveModuleBytecode>;
+}
+
+/**
+ * Where an ABI registry persists the modules it holds
+ */
+export interface ABIStore {
+  load(): Promise<Gen.MoveModule[]>;
+  save(modules: Gen.MoveModule[]): Promise<void>;
+}
+
+/**
+ * Persists ABIs to a JSON file. Only available in Node.js.
+ */
+export class FileABIStore implements ABIStore {
+  constructor(readonly path: string) {}
+
+  async load(): Promise<Gen.MoveModule[]> {
+    const { promises: fs } = await import("fs");
+    try {
+      return parseModuleABIs(await fs.readFile(this.path, "utf8"));
+    } catch (e: any) {
+      if (e?.code === "ENOENT") {
+        return [];
+      }
+      throw e;
+    }
+  }
+
+  async save(modules: Gen.MoveModule[]): Promise<void> {
+    const { promises: fs } = await import("fs");
+    await fs.writeFile(this.path, JSON.stringify(modules, null, 2));
+  }
+}
+
+export interface ABIRegistryOptions {
+  /**
+   * Fetches the modules missing from the registry, one module at a time. Without it, the registry works offline.
+   */
+  client?: ABIRegistryClient;
+  /**
+   * Modules to seed the registry with, e.g. read with `parseModuleABIs` from saved JSON
+   */
+  modules?: Array<Gen.MoveModule | Gen.MoveModuleBytecode>;
+  /**
+   * Whether to seed the registry with `FRAMEWORK_ABIS`, the framework functions the SDK calls
+   */
+  framework?: boolean;
+  /**
+   * Persists the modules the registry fetches
+   */
+  store?: ABIStore;
+}
+
+function normalizeModuleId(address: MaybeHexString, name: string): string {
+  return `${HexString.ensure(address).toShortString()}::${name}`;
+}
+
+function splitModuleId(moduleId: string): [string, string] {
+  const parts = moduleId.split("::");
+  if (parts.length !== 2) {
+    throw new Error(`'${moduleId}' needs to be a module id in format <address>::<module>, e.g. 0x1::coin`);
+  }
+  return [parts[0], parts[1]];
+}
+
+/**
+ * Holds the ABIs of Move modules, so that transactions can be built without fetching them from a node.
+ * Modules missing from the registry are fetched one at a time with `getAccountModule`, if it has a client.
+ *
+ * @example
+ * ```
+ * const registry = await ABIRegistry.open({ framework: true, store: new FileABIStore("abis.json") });
+ * const builder = new TransactionBuilderRemoteABI(client, { sender, ...config }, registry);
+ * ```
+ */
+export class ABIRegistry {
+  private readonly abis = new Map<string, Gen.MoveModule>();
+
+  // Modules the registry holds only some functions of, i.e. the bundled framework ABIs
+  private readonly partial = new Set<string>();
+
+  private readonly client?: ABIRegistryClient;
+
+  private readonly store?: ABIStore;
+
+  constructor(options: ABIRegistryOptions = {}) {
+    this.client = options.client;
+    this.store = options.store;
+    if (options.framework) {
+      FRAMEWORK_ABIS.forEach((abi) => {
+        const moduleId = normalizeModuleId(abi.address, abi.name);
+        this.abis.set(moduleId, abi);
+        this.partial.add(moduleId);
+      });
+    }
+    this.addModules(options.modules ?? []);
+  }
+
+  /**
+   * Creates a registry seeded with the modules of its store
+   */
+  static async open(options: ABIRegistryOptions & { store: ABIStore }): Promise<ABIRegistry> {
+    const registry = new ABIRegistry(options);
+    return registry.addModules(await options.store.load());
+  }
+
+  /**
+   * Adds modules to the registry, replacing the ones with the same id
+   */
+  addModules(modules: Array<Gen.MoveModule | Gen.MoveModuleBytecode>): this {
+    parseModuleABIs(modules).forEach((abi) => {
+      const moduleId = normalizeModuleId(abi.address, abi.name);
+      this.abis.set(moduleId, abi);
+      this.partial.delete(moduleId);
+    });
+    return this;
+  }
+
+  /**
+   * Adds modules saved as JSON, see `parseModuleABIs`
+   */
+  addJSON(json: string | object): this {
+    return this.addModules(parseModuleABIs(json));
+  }
+
+  /**
+   * @param moduleId Module id in format <address>::<module>, e.g. 0x1::coin
+   * @returns The ABI of the module, if the registry holds it
+   */
+  getModule(moduleId: string): Gen.MoveModule | undefined {
+    const [address, name] = splitModuleId(moduleId);
+    return this.abis.get(normalizeModuleId(address, name));
+  }
+
+  /**
+   * @returns The ABIs the registry holds
+   */
+  getModules(): Gen.MoveModule[] {
+    return Array.from(this.abis.values());
+  }
+
+  /**
+   * Gets the ABI of a module, fetching it if the registry does not hold it
+   *
+   * @param moduleId Module id in format <address>::<module>, e.g. 0x1::coin
+   * @returns The ABI of the module
+   */
+  async fetchModule(moduleId: string): Promise<Gen.MoveModule> {
+    const [address, name] = splitModuleId(moduleId);
+    return this.abis.get(normalizeModuleId(address, name)) ?? this.download(address, name);
+  }
+
+  /**
+   * Gets the ABI of a function, fetching its module if the registry does not hold the function
+   *
+   * @param func Fully qualified function name in format <address>::<module>::<function>, e.g. 0x1::coin::transfer
+   * @returns The ABI of the function
+   */
+  async fetchFunction(func: string): Promise<Gen.MoveFunction> {
+    const parts = func.split("::");
+    if (parts.length !== 3) {
+      throw new Error(
+        // eslint-disable-next-line max-len
+        "'func' needs to be a fully qualified function name in format <address>::<module>::<function>, e.g. 0x1::coin::transfer",
+      );
+    }
+    const [address, name, functionName] = parts;
+    const find = (abi: Gen.MoveModule) => abi.exposed_functions.find((f) => f.name === functionName);
+
+    let found = find(await this.fetchModule(`${address}::${name}`));
+    // The bundled framework ABIs may lack a function of the module
+    if (!found && this.partial.has(normalizeModuleId(address, name)) && this.client) {
+      found = find(await this.download(address, name));
+    }
+    if (!found) {
+      throw new Error(`${func} doesn't exist.`);
+    }
+    return found;
+  }
+
+  /**
+   * Persists the modules of the registry to its store, except the bundled framework ABIs
+   */
+  async save(): Promise<void> {
+    await this.store?.save(this.toJSON());
+  }
+
+  /**
+   * @returns The modules of the registry, except the bundled framework ABIs, to save as JSON
+   */
+  toJSON(): Gen.MoveModule[] {
+    return Array.from(this.abis.entries())
+      .filter(([moduleId]) => !this.partial.has(moduleId))
+      .map(([, abi]) => abi);
+  }
+
+  private async download(address: string, name: string): Promise<Gen.MoveModule> {
+    if (!this.client) {
+      throw new Error(`The ABI of ${normalizeModuleId(address, name)} is not in the registry`);
+    }
+    const { abi } = await this.client.getAccountModule(address, name);
+    if (!abi) {
+      throw new Error(`The module ${normalizeModuleId(address, name)} has no ABI`);
+    }
+    this.addModules([abi]);
+    await this.save();
+    return abi;
+  }
+}
@@ -7,10 +7,16 @@ import {
   Ed25519Signature,
   MultiEd25519PublicKey,
   MultiEd25519Signature,
+  Secp256k1PublicKey,
+  Secp256k1Signature,
+  AccountAuthenticatorSingleKey,
+  AnyPublicKeySecp256k1Ecdsa,
+  AnySignatureSecp256k1Ecdsa,
   RawTransaction,
   SignedTransaction,
   TransactionAuthenticatorEd25519,
   TransactionAuthenticatorMultiEd25519,
+  TransactionAuthenticatorSingleSender,
   SigningMessage,
   MultiAgentRawTransaction,
   FeePayerRawTransaction,
@@ -50,6 +56,7 @@ import {
   MaybeHexString,
   MemoizeExpiring,
 } from "../utils";
+import { ABIRegistry } from "./abi_registry";
 
 export { TypeTagParser } from "../aptos_types";
 
@@ -67,7 +74,7 @@ type AnyRawTransaction =
  */
 export type SigningFn = (
   txn: SigningMessage
-) => Ed25519Signature | MultiEd25519Signature;
+) => Ed25519Signature | MultiEd25519Signature | Secp256k1Signature;
 
 export class TransactionBuilder<F extends SigningFn> {
   protected readonly signingFunction: F;
@@ -180,6 +187,38 @@ export class TransactionBuilderMultiEd25519 extends TransactionBuilder<SigningFn
   }
 }
 
+/**
+ * Provides signing method for signing a raw transaction with a Secp256k1
+ * ECDSA public key, as a single key account.
+ */
+export class TransactionBuilderSecp256k1 extends TransactionBuilder<SigningFn> {
+  private readonly publicKey: Secp256k1PublicKey;
+
+  constructor(signingFunction: SigningFn, publicKey: Secp256k1PublicKey) {
+    super(signingFunction);
+    this.publicKey = publicKey;
+  }
+
+  rawToSigned(rawTxn: RawTransaction): SignedTransaction {
+    const signingMessage = TransactionBuilder.getSigningMessage(rawTxn);
+    const signature = this.signingFunction(signingMessage);
+
+    const authenticator = new TransactionAuthenticatorSingleSender(
+      new AccountAuthenticatorSingleKey(
+        new AnyPublicKeySecp256k1Ecdsa(this.publicKey),
+        new AnySignatureSecp256k1Ecdsa(signature as Secp256k1Signature)
+      )
+    );
+
+    return new SignedTransaction(rawTxn, authenticator);
+  }
+
+  /** Signs a raw transaction and returns a bcs serialized transaction. */
+  sign(rawTxn: RawTransaction): Bytes {
+    return bcsToBytes(this.rawToSigned(rawTxn));
+  }
+}
+
 /**
  * Config for creating raw transactions.
  */
@@ -393,7 +432,7 @@ export type RemoteABIBuilderConfig = Partial<
   sender: MaybeHexString | AccountAddress;
 };
 
-interface AptosClientInterface {
+export interface AptosClientInterface {
   getAccountModules: (
     accountAddress: MaybeHexString
   ) => Promise<Gen.MoveModuleBytecode[]>;
@@ -401,17 +440,22 @@ interface AptosClientInterface {
   getChainId: () => Promise<number>;
   estimateGasPrice: () => Promise<Gen.GasEstimation>;
   getLedgerInfo: () => Promise<Gen.IndexResponse>;
+  getABIRegistry?: () => ABIRegistry | undefined;
 }
 
 /**
  * This transaction builder downloads JSON ABIs from the fullnodes.
  * It then translates the JSON ABIs to the format that is accepted by TransactionBuilderABI
+ *
+ * With an ABI registry, either given or the one of the client, the builder takes the ABIs
+ * from the registry instead, which only fetches the modules it does not hold.
  */
 export class TransactionBuilderRemoteABI {
   // We don't want the builder to depend on the actual AptosClient. There might be circular dependencies.
   constructor(
     private readonly aptosClient: AptosClientInterface,
-    private readonly builderConfig: RemoteABIBuilderConfig
+    private readonly builderConfig: RemoteABIBuilderConfig,
+    private readonly abiRegistry?: ABIRegistry
   ) {}
 
   // Cache for 10 minutes
@@ -440,6 +484,33 @@ export class TransactionBuilderRemoteABI {
     return abiMap;
   }
 
+  /**
+   * Builds an entry function out of its remote ABI, without the transaction
+   * around it. For instance to propose the entry function to a multisig account.
+   *
+   * @param func fully qualified function name in format <address>::<module>::<function>, e.g. 0x1::coin::transfer
+   * @param ty_tags
+   * @param args
+   * @returns EntryFunction
+   */
+  async buildEntryFunction(
+    func: Gen.EntryFunctionId,
+    ty_tags: Gen.MoveType[],
+    args: any[]
+  ): Promise<EntryFunction> {
+    const { func: normalizedFunc, entryFunctionABI } =
+      await this.fetchEntryFunctionABI(func, ty_tags);
+    const builderABI = new TransactionBuilderABI([
+      bcsToBytes(entryFunctionABI),
+    ]);
+    const payload = builderABI.buildTransactionPayload(
+      normalizedFunc,
+      ty_tags,
+      args
+    ) as TransactionPayloadEntryFunction;
+    return payload.value;
+  }
+
   /**
    * Builds a raw transaction. Only support script function a.k.a entry function payloads
    *
@@ -453,6 +524,61 @@ export class TransactionBuilderRemoteABI {
     ty_tags: Gen.MoveType[],
     args: any[]
   ): Promise<RawTransaction> {
+    const { func: normalizedFunc, entryFunctionABI } =
+      await this.fetchEntryFunctionABI(func, ty_tags);
+
+    const { sender, ...rest } = this.builderConfig;
+
+    const senderAddress =
+      sender instanceof AccountAddress
+        ? HexString.fromUint8Array(sender.address)
+        : sender;
+
+    const [
+      { sequence_number: sequenceNumber },
+      chainId,
+      { gas_estimate: gasUnitPrice },
+    ] = await Promise.all([
+      rest?.sequenceNumber !== undefined
+        ? Promise.resolve({ sequence_number: rest?.sequenceNumber })
+        : this.aptosClient.getAccount(senderAddress),
+      rest?.chainId !== undefined
+        ? Promise.resolve(rest?.chainId)
+        : this.aptosClient.getChainId(),
+      rest?.gasUnitPrice !== undefined
+        ? Promise.resolve({ gas_estimate: rest?.gasUnitPrice })
+        : this.aptosClient.estimateGasPrice(),
+    ]);
+
+    // An explicit expiration doesn't need the ledger timestamp, e.g. when building offline
+    let expTimestampSec = rest?.expTimestampSec;
+    if (expTimestampSec === undefined) {
+      const getLedgerInfo = await this.aptosClient.getLedgerInfo();
+      // ledger_timestamp is in microseconds ("1662987117698998")
+      expTimestampSec = BigInt(
+        Math.floor(parseInt(getLedgerInfo.ledger_timestamp, 10) / 1000000)
+      );
+    }
+
+    const builderABI = new TransactionBuilderABI(
+      [bcsToBytes(entryFunctionABI)],
+      {
+        sender,
+        sequenceNumber,
+        chainId,
+        gasUnitPrice: BigInt(gasUnitPrice),
+        expTimestampSec,
+        ...rest,
+      }
+    );
+
+    return builderABI.build(normalizedFunc, ty_tags, args);
+  }
+
+  private async fetchEntryFunctionABI(
+    func: Gen.EntryFunctionId,
+    ty_tags: Gen.MoveType[]
+  ): Promise<{ func: string; entryFunctionABI: EntryFunctionABI }> {
     /* eslint no-param-reassign: ["off"] */
     const normlize = (s: string) => s.replace(/^0[xX]0*/g, "0x");
     func = normlize(func);
@@ -466,13 +592,7 @@ export class TransactionBuilderRemoteABI {
 
     const [addr, module] = func.split("::");
 
-    // Downloads the JSON abi
-    const abiMap = await this.fetchABI(addr);
-    if (!abiMap.has(func)) {
-      throw new Error(`${func} doesn't exist.`);
-    }
-
-    const funcAbi = abiMap.get(func);
+    const funcAbi = await this.fetchFunctionABI(addr, func);
 
     // Remove all `signer` and `&signer` from argument list because the Move VM injects those arguments. Clients do not
     // need to care about those args. `signer` and `&signer` are required be in the front of the argument list. But we
@@ -498,47 +618,27 @@ export class TransactionBuilderRemoteABI {
       typeArgABIs
     );
 
-    const { sender, ...rest } = this.builderConfig;
-
-    const senderAddress =
-      sender instanceof AccountAddress
-        ? HexString.fromUint8Array(sender.address)
-        : sender;
-
-    const [
-      { sequence_number: sequenceNumber },
-      chainId,
-      { gas_estimate: gasUnitPrice },
-    ] = await Promise.all([
-      rest?.sequenceNumber
-        ? Promise.resolve({ sequence_number: rest?.sequenceNumber })
-        : this.aptosClient.getAccount(senderAddress),
-      rest?.chainId
-        ? Promise.resolve(rest?.chainId)
-        : this.aptosClient.getChainId(),
-      rest?.gasUnitPrice
-        ? Promise.resolve({ gas_estimate: rest?.gasUnitPrice })
-        : this.aptosClient.estimateGasPrice(),
-    ]);
-
-    const getLedgerInfo = await this.aptosClient.getLedgerInfo();
-    // ledger_timestamp is in microseconds ("1662987117698998")
-    const expTimestampSec = BigInt(
-      Math.floor(parseInt(getLedgerInfo.ledger_timestamp, 10) / 1000000)
-    );
+    return { func, entryFunctionABI };
+  }
 
-    const builderABI = new TransactionBuilderABI(
-      [bcsToBytes(entryFunctionABI)],
-      {
-        sender,
-        sequenceNumber,
-        chainId,
-        gasUnitPrice: BigInt(gasUnitPrice),
-        expTimestampSec,
-        ...rest,
+  private async fetchFunctionABI(
+    addr: string,
+    func: string
+  ): Promise<Gen.MoveFunction> {
+    const abiRegistry = this.abiRegistry ?? this.aptosClient.getABIRegistry?.();
+    if (abiRegistry) {
+      const funcAbi = await abiRegistry.fetchFunction(func);
+      if (!funcAbi.is_entry) {
+        throw new Error(`${func} doesn't exist.`);
       }
-    );
+      return funcAbi;
+    }
 
-    return builderABI.build(func, ty_tags, args);
+    // Downloads the JSON abi
+    const abiMap = await this.fetchABI(addr);
+    if (!abiMap.has(func)) {
+      throw new Error(`${func} doesn't exist.`);
+    }
+    return abiMap.get(func)!;
   }
 }
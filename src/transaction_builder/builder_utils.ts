@@ -26,7 +26,7 @@ import {
   TransactionArgumentU8,
   TransactionArgumentU8Vector,
 } from "../aptos_types";
-import { Serializer } from "../bcs";
+import { Deserializer, Serializer } from "../bcs";
 
 function assertType(val: any, types: string[] | string, message?: string) {
   if (!types?.includes(typeof val)) {
@@ -210,6 +210,107 @@ function serializeOption(
   }
 }
 
+/**
+ * Deserializes a BCS encoded argument into JSON, the reverse of `serializeArg`:
+ * u8, u16 and u32 become numbers, u64, u128 and u256 strings, addresses and
+ * objects hex strings, vector<u8> a hex string, strings strings and options
+ * their value or null.
+ *
+ * @param deserializer The deserializer of the argument
+ * @param argType The type of the argument
+ * @returns The argument, as JSON
+ */
+export function deserializeArg(
+  deserializer: Deserializer,
+  argType: TypeTag
+): any {
+  return deserializeArgInner(deserializer, argType);
+}
+
+function deserializeAddress(deserializer: Deserializer): string {
+  return HexString.fromUint8Array(
+    AccountAddress.deserialize(deserializer).address
+  ).hex();
+}
+
+function deserializeArgInner(
+  deserializer: Deserializer,
+  argType: TypeTag
+): any {
+  if (argType instanceof TypeTagBool) {
+    return deserializer.deserializeBool();
+  }
+  if (argType instanceof TypeTagU8) {
+    return deserializer.deserializeU8();
+  }
+  if (argType instanceof TypeTagU16) {
+    return deserializer.deserializeU16();
+  }
+  if (argType instanceof TypeTagU32) {
+    return deserializer.deserializeU32();
+  }
+  if (argType instanceof TypeTagU64) {
+    return deserializer.deserializeU64().toString();
+  }
+  if (argType instanceof TypeTagU128) {
+    return deserializer.deserializeU128().toString();
+  }
+  if (argType instanceof TypeTagU256) {
+    return deserializer.deserializeU256().toString();
+  }
+  if (argType instanceof TypeTagAddress) {
+    return deserializeAddress(deserializer);
+  }
+  if (argType instanceof TypeTagVector) {
+    if (argType.value instanceof TypeTagU8) {
+      return HexString.fromUint8Array(deserializer.deserializeBytes()).hex();
+    }
+    const length = deserializer.deserializeUleb128AsU32();
+    return Array.from({ length }, () =>
+      deserializeArgInner(deserializer, argType.value)
+    );
+  }
+  if (argType instanceof TypeTagStruct) {
+    return deserializeStruct(deserializer, argType);
+  }
+  throw new Error("Unsupported arg type.");
+}
+
+function deserializeStruct(
+  deserializer: Deserializer,
+  argType: TypeTagStruct
+): any {
+  const {
+    address,
+    module_name: moduleName,
+    name,
+    type_args: typeArgs,
+  } = argType.value;
+  const structType = `${HexString.fromUint8Array(
+    address.address
+  ).toShortString()}::${moduleName.value}::${name.value}`;
+  if (structType === "0x1::string::String") {
+    return deserializer.deserializeStr();
+  }
+  if (structType === "0x1::object::Object") {
+    return deserializeAddress(deserializer);
+  }
+  if (structType === "0x1::option::Option") {
+    if (typeArgs.length !== 1) {
+      throw new Error(
+        `Option has the wrong number of type arguments ${typeArgs.length}`
+      );
+    }
+    // Options are vectors of at most one element
+    const length = deserializer.deserializeUleb128AsU32();
+    if (length > 1) {
+      throw new Error(`Option has ${length} elements`);
+    }
+    return length === 0 ? null : deserializeArgInner(deserializer, typeArgs[0]);
+  }
+  throw new Error("Unsupported struct type in function argument");
+}
+
 export function argToTransactionArgument(
   argVal: any,
   argType: TypeTag
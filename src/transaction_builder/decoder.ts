@@ -0,0 +1,229 @@
+// Copyright © Aptos Foundation
+// SPDX-License-Identifier: Apache-2.0
+
+import {
+  AccountAddress,
+  EntryFunction,
+  FeePayerRawTransaction,
+  MultiAgentRawTransaction,
+  RawTransaction,
+  RawTransactionWithData,
+  SignedTransaction,
+  TransactionArgument,
+  TransactionArgumentAddress,
+  TransactionArgumentBool,
+  TransactionArgumentU128,
+  TransactionArgumentU16,
+  TransactionArgumentU256,
+  TransactionArgumentU32,
+  TransactionArgumentU64,
+  TransactionArgumentU8,
+  TransactionArgumentU8Vector,
+  TransactionAuthenticatorFeePayer,
+  TransactionAuthenticatorMultiAgent,
+  TransactionPayloadEntryFunction,
+  TransactionPayloadMultisig,
+  TransactionPayloadScript,
+  TypeTagParser,
+} from "../aptos_types";
+import { Deserializer } from "../bcs";
+import { HexString } from "../utils";
+import { ABIRegistry } from "./abi_registry";
+import { deserializeArg } from "./builder_utils";
+import { describeRawTransaction, TransactionSummary } from "./offline";
+
+/**
+ * What the decoded bytes encode: a raw transaction, a multi agent or fee payer raw transaction, or a signed
+ * transaction of any kind
+ */
+export type EncodedTransactionFormat = "raw_transaction" | "raw_transaction_with_data" | "signed_transaction";
+
+export interface DecodedArgument {
+  /**
+   * The Move type of the argument, as declared by the function
+   */
+  type: string;
+  /**
+   * The argument as JSON: u8, u16 and u32 are numbers, u64, u128 and u256 strings, addresses, objects and
+   * vector<u8> hex strings, and options their value or null
+   */
+  value: any;
+}
+
+/**
+ * A transaction decoded from its BCS bytes, to show what it does before signing it
+ */
+export interface DecodedTransaction extends Omit<TransactionSummary, "payload"> {
+  format: EncodedTransactionFormat;
+  /**
+   * The secondary signers of multi agent and fee payer transactions
+   */
+  secondarySignerAddresses: string[];
+  /**
+   * The fee payer of fee payer transactions, 0x0 if it was not known when the sender signed
+   */
+  feePayerAddress?: string;
+  payload: Omit<TransactionSummary["payload"], "arguments"> & { arguments: DecodedArgument[] };
+}
+
+interface EncodedTransaction {
+  format: EncodedTransactionFormat;
+  rawTxn: RawTransaction;
+  secondarySignerAddresses: AccountAddress[];
+  feePayerAddress?: AccountAddress;
+}
+
+function deserializeAll<T>(bytes: Uint8Array, deserialize: (deserializer: Deserializer) => T): T | undefined {
+  try {
+    const deserializer = new Deserializer(bytes);
+    const value = deserialize(deserializer);
+    return deserializer.remaining() === 0 ? value : undefined;
+  } catch (e) {
+    return undefined;
+  }
+}
+
+function readTransaction(bytes: Uint8Array): EncodedTransaction {
+  const signedTxn = deserializeAll(bytes, SignedTransaction.deserialize);
+  if (signedTxn) {
+    const { raw_txn: rawTxn, authenticator } = signedTxn;
+    if (authenticator instanceof TransactionAuthenticatorFeePayer) {
+      return {
+        format: "signed_transaction",
+        rawTxn,
+        secondarySignerAddresses: authenticator.secondary_signer_addresses,
+        feePayerAddress: authenticator.fee_payer.address,
+      };
+    }
+    if (authenticator instanceof TransactionAuthenticatorMultiAgent) {
+      return {
+        format: "signed_transaction",
+        rawTxn,
+        secondarySignerAddresses: authenticator.secondary_signer_addresses,
+      };
+    }
+    return { format: "signed_transaction", rawTxn, secondarySignerAddresses: [] };
+  }
+
+  const rawTxn = deserializeAll(bytes, RawTransaction.deserialize);
+  if (rawTxn) {
+    return { format: "raw_transaction", rawTxn, secondarySignerAddresses: [] };
+  }
+
+  const rawTxnWithData = deserializeAll(bytes, RawTransactionWithData.deserialize);
+  if (rawTxnWithData instanceof FeePayerRawTransaction) {
+    return {
+      format: "raw_transaction_with_data",
+      rawTxn: rawTxnWithData.raw_txn,
+      secondarySignerAddresses: rawTxnWithData.secondary_signer_addresses,
+      feePayerAddress: rawTxnWithData.fee_payer_address,
+    };
+  }
+  if (rawTxnWithData instanceof MultiAgentRawTransaction) {
+    return {
+      format: "raw_transaction_with_data",
+      rawTxn: rawTxnWithData.raw_txn,
+      secondarySignerAddresses: rawTxnWithData.secondary_signer_addresses,
+    };
+  }
+  throw new Error("The bytes are not a BCS encoded transaction");
+}
+
+function decodeScriptArgument(arg: TransactionArgument): DecodedArgument {
+  if (arg instanceof TransactionArgumentBool) {
+    return { type: "bool", value: arg.value };
+  }
+  if (arg instanceof TransactionArgumentU8) {
+    return { type: "u8", value: arg.value };
+  }
+  if (arg instanceof TransactionArgumentU16) {
+    return { type: "u16", value: arg.value };
+  }
+  if (arg instanceof TransactionArgumentU32) {
+    return { type: "u32", value: arg.value };
+  }
+  if (arg instanceof TransactionArgumentU64) {
+    return { type: "u64", value: arg.value.toString() };
+  }
+  if (arg instanceof TransactionArgumentU128) {
+    return { type: "u128", value: arg.value.toString() };
+  }
+  if (arg instanceof TransactionArgumentU256) {
+    return { type: "u256", value: arg.value.toString() };
+  }
+  if (arg instanceof TransactionArgumentAddress) {
+    return { type: "address", value: HexString.fromUint8Array(arg.value.address).hex() };
+  }
+  if (arg instanceof TransactionArgumentU8Vector) {
+    return { type: "vector<u8>", value: HexString.fromUint8Array(arg.value).hex() };
+  }
+  throw new Error("Unknown transaction argument");
+}
+
+async function decodeEntryFunctionArguments(
+  abiRegistry: ABIRegistry,
+  func: string,
+  typeArgs: string[],
+  entryFunction: EntryFunction,
+): Promise<DecodedArgument[]> {
+  const funcAbi = await abiRegistry.fetchFunction(func);
+  // The Move VM passes the signers, they are not part of the payload
+  const params = funcAbi.params.filter((param) => param !== "signer" && param !== "&signer");
+  if (params.length !== entryFunction.args.length) {
+    throw new Error(`${func} takes ${params.length} arguments, the transaction has ${entryFunction.args.length}`);
+  }
+  return params.map((type, i) => {
+    const deserializer = new Deserializer(entryFunction.args[i]);
+    const value = deserializeArg(deserializer, new TypeTagParser(type, typeArgs).parseTypeTag());
+    if (deserializer.remaining() !== 0) {
+      throw new Error(`Argument ${i} of ${func} isn't a ${type}`);
+    }
+    return { type, value };
+  });
+}
+
+/**
+ * Decodes a BCS encoded transaction into JSON, including its arguments, e.g. so that a wallet can show what the
+ * user is about to sign. Entry function arguments are decoded after the ABI of the function.
+ *
+ * @param bytes A BCS encoded raw transaction, multi agent or fee payer raw transaction, or signed transaction
+ * @param abiRegistry Holds or fetches the ABIs of the called functions
+ * @returns The decoded transaction
+ *
+ * @example
+ * ```
+ * const registry = new ABIRegistry({ client, framework: true });
+ * const { payload } = await decodeTransaction(bytes, registry);
+ * // { type: "entry_function", function: "0x1::aptos_account::transfer", typeArguments: [],
+ * //   arguments: [{ type: "address", value: "0x...b0b" }, { type: "u64", value: "1000" }] }
+ * ```
+ */
+export async function decodeTransaction(bytes: Uint8Array, abiRegistry: ABIRegistry): Promise<DecodedTransaction> {
+  const { format, rawTxn, secondarySignerAddresses, feePayerAddress } = readTransaction(bytes);
+  const { payload: summary, ...fields } = describeRawTransaction(rawTxn);
+
+  let args: DecodedArgument[] = [];
+  const { payload } = rawTxn;
+  if (payload instanceof TransactionPayloadScript) {
+    args = payload.value.args.map(decodeScriptArgument);
+  } else if (payload instanceof TransactionPayloadEntryFunction) {
+    args = await decodeEntryFunctionArguments(abiRegistry, summary.function!, summary.typeArguments, payload.value);
+  } else if (payload instanceof TransactionPayloadMultisig && payload.value.transaction_payload) {
+    args = await decodeEntryFunctionArguments(
+      abiRegistry,
+      summary.function!,
+      summary.typeArguments,
+      payload.value.transaction_payload.transaction_payload,
+    );
+  }
+
+  return {
+    format,
+    ...fields,
+    secondarySignerAddresses: secondarySignerAddresses.map((address) =>
+      HexString.fromUint8Array(address.address).hex(),
+    ),
+    ...(feePayerAddress ? { feePayerAddress: HexString.fromUint8Array(feePayerAddress.address).hex() } : {}),
+    payload: { ...summary, arguments: args },
+  };
+}
@@ -0,0 +1,198 @@
+// Copyright © Aptos Foundation
+// SPDX-License-Identifier: Apache-2.0
+
+import * as Gen from "../generated/index";
+
+const STRING = "0x1::string::String";
+
+function func(
+  name: string,
+  kind: "entry" | "view",
+  params: Gen.MoveType[],
+  returns: Gen.MoveType[] = [],
+  genericTypeParams = 0,
+): Gen.MoveFunction {
+  return {
+    name,
+    visibility: Gen.MoveFunctionVisibility.PUBLIC,
+    is_entry: kind === "entry",
+    is_view: kind === "view",
+    generic_type_params: Array.from({ length: genericTypeParams }, () => ({ constraints: [] })),
+    params,
+    return: returns,
+  };
+}
+
+function module(address: string, name: string, exposedFunctions: Gen.MoveFunction[]): Gen.MoveModule {
+  return { address, name, friends: [], exposed_functions: exposedFunctions, structs: [] };
+}
+
+/**
+ * ABIs of the framework functions the clients of this SDK call, at 0x1, 0x3 and 0x4. They only cover these
+ * functions, not whole modules, so that the SDK can build its own transactions offline.
+ */
+export const FRAMEWORK_ABIS: Gen.MoveModule[] = [
+  module("0x1", "account", [
+    func("rotate_authentication_key", "entry", [
+      "&signer",
+      "u8",
+      "vector<u8>",
+      "u8",
+      "vector<u8>",
+      "vector<u8>",
+      "vector<u8>",
+    ]),
+    func("offer_signer_capability", "entry", ["&signer", "vector<u8>", "u8", "vector<u8>", "address"]),
+    func("revoke_signer_capability", "entry", ["&signer", "address"]),
+    func("exists_at", "view", ["address"], ["bool"]),
+    func("get_authentication_key", "view", ["address"], ["vector<u8>"]),
+    func("get_sequence_number", "view", ["address"], ["u64"]),
+  ]),
+  module("0x1", "aptos_account", [
+    func("batch_transfer", "entry", ["&signer", "vector<address>", "vector<u64>"]),
+    func("batch_transfer_coins", "entry", ["&signer", "vector<address>", "vector<u64>"], [], 1),
+    func("create_account", "entry", ["address"]),
+    func("set_allow_direct_coin_transfers", "entry", ["&signer", "bool"]),
+    func("transfer", "entry", ["&signer", "address", "u64"]),
+    func("transfer_coins", "entry", ["&signer", "address", "u64"], [], 1),
+    func("can_receive_direct_coin_transfers", "view", ["address"], ["bool"]),
+  ]),
+  module("0x1", "coin", [
+    func("transfer", "entry", ["&signer", "address", "u64"], [], 1),
+    func("balance", "view", ["address"], ["u64"], 1),
+    func("decimals", "view", [], ["u8"], 1),
+    func("is_account_registered", "view", ["address"], ["bool"], 1),
+    func("name", "view", [], [STRING], 1),
+    func("supply", "view", [], ["0x1::option::Option<u128>"], 1),
+    func("symbol", "view", [], [STRING], 1),
+  ]),
+  module("0x1", "managed_coin", [
+    func("burn", "entry", ["&signer", "u64"], [], 1),
+    func("initialize", "entry", ["&signer", "vector<u8>", "vector<u8>", "u8", "bool"], [], 1),
+    func("mint", "entry", ["&signer", "address", "u64"], [], 1),
+    func("register", "entry", ["&signer"], [], 1),
+  ]),
+  module("0x1", "multisig_account", [
+    func("add_owners", "entry", ["&signer", "vector<address>"]),
+    func("approve_transaction", "entry", ["&signer", "address", "u64"]),
+    func("create_transaction", "entry", ["&signer", "address", "vector<u8>"]),
+    func("create_transaction_with_hash", "entry", ["&signer", "address", "vector<u8>"]),
+    func("create_with_owners", "entry", [
+      "&signer",
+      "vector<address>",
+      "u64",
+      `vector<${STRING}>`,
+      "vector<vector<u8>>",
+    ]),
+    func("execute_rejected_transaction", "entry", ["&signer", "address"]),
+    func("reject_transaction", "entry", ["&signer", "address", "u64"]),
+    func("remove_owners", "entry", ["&signer", "vector<address>"]),
+    func("update_signatures_required", "entry", ["&signer", "u64"]),
+    func("get_pending_transactions", "view", ["address"], ["vector<0x1::multisig_account::MultisigTransaction>"]),
+    func("get_transaction", "view", ["address", "u64"], ["0x1::multisig_account::MultisigTransaction"]),
+    func("last_resolved_sequence_number", "view", ["address"], ["u64"]),
+    func("num_signatures_required", "view", ["address"], ["u64"]),
+    func("owners", "view", ["address"], ["vector<address>"]),
+  ]),
+  module("0x1", "object", [
+    func("transfer", "entry", ["&signer", "0x1::object::Object<T0>", "address"], [], 1),
+    func("transfer_call", "entry", ["&signer", "address", "address"]),
+  ]),
+  module("0x1", "primary_fungible_store", [
+    func("transfer", "entry", ["&signer", "0x1::object::Object<T0>", "address", "u64"], [], 1),
+    func("balance", "view", ["address", "0x1::object::Object<T0>"], ["u64"], 1),
+  ]),
+  module("0x3", "token", [
+    func("burn", "entry", ["&signer", "address", STRING, STRING, "u64", "u64"]),
+    func("burn_by_creator", "entry", ["&signer", "address", STRING, STRING, "u64", "u64"]),
+    func("create_collection_script", "entry", ["&signer", STRING, STRING, STRING, "u64", "vector<bool>"]),
+    func("create_token_script", "entry", [
+      "&signer",
+      STRING,
+      STRING,
+      STRING,
+      "u64",
+      "u64",
+      STRING,
+      "address",
+      "u64",
+      "u64",
+      "vector<bool>",
+      `vector<${STRING}>`,
+      "vector<vector<u8>>",
+      `vector<${STRING}>`,
+    ]),
+    func("direct_transfer_script", "entry", ["&signer", "&signer", "address", STRING, STRING, "u64", "u64"]),
+    func("mutate_token_properties", "entry", [
+      "&signer",
+      "address",
+      "address",
+      STRING,
+      STRING,
+      "u64",
+      "u64",
+      `vector<${STRING}>`,
+      "vector<vector<u8>>",
+      `vector<${STRING}>`,
+    ]),
+    func("opt_in_direct_transfer", "entry", ["&signer", "bool"]),
+    func("transfer_with_opt_in", "entry", ["&signer", "address", STRING, STRING, "u64", "address", "u64"]),
+  ]),
+  module("0x3", "token_transfers", [
+    func("cancel_offer_script", "entry", ["signer", "address", "address", STRING, STRING, "u64"]),
+    func("claim_script", "entry", ["signer", "address", "address", STRING, STRING, "u64"]),
+    func("offer_script", "entry", ["signer", "address", "address", STRING, STRING, "u64", "u64"]),
+  ]),
+  module("0x4", "aptos_token", [
+    func("add_property", "entry", ["&signer", "0x1::object::Object<T0>", STRING, STRING, "vector<u8>"], [], 1),
+    func("add_typed_property", "entry", ["&signer", "0x1::object::Object<T0>", STRING, "T1"], [], 2),
+    func("burn", "entry", ["&signer", "0x1::object::Object<T0>"], [], 1),
+    func("create_collection", "entry", [
+      "&signer",
+      STRING,
+      "u64",
+      STRING,
+      STRING,
+      "bool",
+      "bool",
+      "bool",
+      "bool",
+      "bool",
+      "bool",
+      "bool",
+      "bool",
+      "bool",
+      "u64",
+      "u64",
+    ]),
+    func("freeze_transfer", "entry", ["&signer", "0x1::object::Object<T0>"], [], 1),
+    func("mint", "entry", [
+      "&signer",
+      STRING,
+      STRING,
+      STRING,
+      STRING,
+      `vector<${STRING}>`,
+      `vector<${STRING}>`,
+      "vector<vector<u8>>",
+    ]),
+    func("mint_soul_bound", "entry", [
+      "&signer",
+      STRING,
+      STRING,
+      STRING,
+      STRING,
+      `vector<${STRING}>`,
+      `vector<${STRING}>`,
+      "vector<vector<u8>>",
+      "address",
+    ]),
+    func("remove_property", "entry", ["&signer", "0x1::object::Object<T0>", STRING], [], 1),
+    func("set_description", "entry", ["&signer", "0x1::object::Object<T0>", STRING], [], 1),
+    func("set_name", "entry", ["&signer", "0x1::object::Object<T0>", STRING], [], 1),
+    func("set_uri", "entry", ["&signer", "0x1::object::Object<T0>", STRING], [], 1),
+    func("unfreeze_transfer", "entry", ["&signer", "0x1::object::Object<T0>"], [], 1),
+    func("update_property", "entry", ["&signer", "0x1::object::Object<T0>", STRING, STRING, "vector<u8>"], [], 1),
+    func("update_typed_property", "entry", ["&signer", "0x1::object::Object<T0>", STRING, "T1"], [], 2),
+  ]),
+];
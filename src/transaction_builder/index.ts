@@ -2,4 +2,7 @@
 // SPDX-License-Identifier: Apache-2.0
 
 export * from "./builder";
+export * from "./abi_registry";
+export * from "./offline";
+export * from "./decoder";
 export * as TxnBuilderTypes from "../aptos_types";
@@ -0,0 +1,264 @@
+// Copyright © Aptos Foundation
+// SPDX-License-Identifier: Apache-2.0
+
+import * as Gen from "../generated/index";
+import {
+  AccountAddress,
+  EntryFunction,
+  RawTransaction,
+  SignedTransaction,
+  TransactionPayload,
+  TransactionPayloadEntryFunction,
+  TransactionPayloadMultisig,
+  TransactionPayloadScript,
+  typeTagToString,
+} from "../aptos_types";
+import { bcsToBytes, Deserializer, Uint64, Uint8 } from "../bcs";
+import { generateSignedTransaction, Signer } from "../account/signer";
+import { HexString, MaybeHexString } from "../utils";
+import { ABIRegistry } from "./abi_registry";
+import { AptosClientInterface, TransactionBuilderRemoteABI } from "./builder";
+
+/**
+ * The version of the transaction bundle format
+ */
+export const TRANSACTION_BUNDLE_VERSION = 1;
+
+/**
+ * Everything a transaction needs that is otherwise fetched from a node
+ */
+export interface OfflineTransactionConfig {
+  sender: MaybeHexString | AccountAddress;
+  sequenceNumber: Uint64 | string;
+  chainId: Uint8 | string;
+  gasUnitPrice: Uint64 | string;
+  maxGasAmount?: Uint64 | string;
+  /**
+   * The absolute expiration of the transaction, in seconds since the Unix epoch
+   */
+  expirationTimestampSecs: Uint64 | string;
+}
+
+/**
+ * A human readable description of a transaction, to review it before signing
+ */
+export interface TransactionSummary {
+  sender: string;
+  sequenceNumber: string;
+  chainId: number;
+  maxGasAmount: string;
+  gasUnitPrice: string;
+  expirationTimestampSecs: string;
+  payload: {
+    type: "entry_function" | "script" | "multisig";
+    /**
+     * The called function, for entry function and multisig payloads
+     */
+    function?: string;
+    typeArguments: string[];
+    /**
+     * The BCS encoded arguments, hex encoded
+     */
+    arguments: string[];
+    multisigAddress?: string;
+  };
+}
+
+/**
+ * A transaction to sign on another machine, e.g. an air-gapped one. Plain JSON, to be moved around as a file.
+ */
+export interface UnsignedTransactionBundle {
+  version: number;
+  /**
+   * The BCS encoded raw transaction, hex encoded
+   */
+  rawTransaction: string;
+  summary: TransactionSummary;
+}
+
+/**
+ * A signed transaction to submit later, see `AptosClient.submitTransactionBundle`
+ */
+export interface SignedTransactionBundle {
+  version: number;
+  /**
+   * The BCS encoded signed transaction, hex encoded
+   */
+  signedTransaction: string;
+  summary: TransactionSummary;
+}
+
+const offlineClient: AptosClientInterface = {
+  getAccountModules: () => Promise.reject(new Error("Fetching ABIs is not available offline")),
+  getAccount: () => Promise.reject(new Error("The sequence number is required offline")),
+  getChainId: () => Promise.reject(new Error("The chain id is required offline")),
+  estimateGasPrice: () => Promise.reject(new Error("The gas unit price is required offline")),
+  getLedgerInfo: () => Promise.reject(new Error("The expiration timestamp is required offline")),
+};
+
+/**
+ * Builds an entry function transaction without reaching a node. The ABI of the function comes from the registry,
+ * which fetches nothing unless it was given a client.
+ *
+ * @param abiRegistry Holds the ABI of the function, e.g. modules saved with `FileABIStore`
+ * @param config The sender, sequence number, chain id, gas unit price and expiration of the transaction
+ * @param func Fully qualified function name in format <address>::<module>::<function>, e.g. 0x1::coin::transfer
+ * @param typeArgs Type arguments of the function
+ * @param args Arguments of the function, as taken by `TransactionBuilderRemoteABI`
+ * @returns The raw transaction
+ *
+ * @example
+ * ```
+ * const rawTxn = await buildOfflineTransaction(
+ *   new ABIRegistry({ framework: true }),
+ *   { sender, sequenceNumber: "12", chainId: 1, gasUnitPrice: "100", expirationTimestampSecs: "1700000600" },
+ *   "0x1::aptos_account::transfer",
+ *   [],
+ *   [recipient, 1000],
+ * );
+ * fs.writeFileSync("txn.json", JSON.stringify(createTransactionBundle(rawTxn)));
+ * ```
+ */
+export async function buildOfflineTransaction(
+  abiRegistry: ABIRegistry,
+  config: OfflineTransactionConfig,
+  func: Gen.EntryFunctionId,
+  typeArgs: Gen.MoveType[],
+  args: any[],
+): Promise<RawTransaction> {
+  const { expirationTimestampSecs, ...rest } = config;
+  const builder = new TransactionBuilderRemoteABI(
+    offlineClient,
+    { ...rest, expTimestampSec: BigInt(expirationTimestampSecs), expSecFromNow: 0 },
+    abiRegistry,
+  );
+  return builder.build(func, typeArgs, args);
+}
+
+function describeEntryFunction(entryFunction: EntryFunction) {
+  const { module_name: moduleName, function_name: functionName, ty_args: tyArgs, args } = entryFunction;
+  return {
+    function: `${HexString.fromUint8Array(moduleName.address.address).toShortString()}::${moduleName.name.value}::${
+      functionName.value
+    }`,
+    typeArguments: tyArgs.map(typeTagToString),
+    arguments: args.map((arg) => HexString.fromUint8Array(arg).hex()),
+  };
+}
+
+function describePayload(payload: TransactionPayload): TransactionSummary["payload"] {
+  if (payload instanceof TransactionPayloadEntryFunction) {
+    return { type: "entry_function", ...describeEntryFunction(payload.value) };
+  }
+  if (payload instanceof TransactionPayloadScript) {
+    return {
+      type: "script",
+      typeArguments: payload.value.ty_args.map(typeTagToString),
+      arguments: payload.value.args.map((arg) => HexString.fromUint8Array(bcsToBytes(arg)).hex()),
+    };
+  }
+  if (payload instanceof TransactionPayloadMultisig) {
+    const { multisig_address: multisigAddress, transaction_payload: transactionPayload } = payload.value;
+    return {
+      type: "multisig",
+      multisigAddress: HexString.fromUint8Array(multisigAddress.address).hex(),
+      // The payload may already be stored on chain
+      ...(transactionPayload
+        ? describeEntryFunction(transactionPayload.transaction_payload)
+        : { typeArguments: [], arguments: [] }),
+    };
+  }
+  throw new Error("Unknown transaction payload");
+}
+
+/**
+ * @returns A human readable description of a raw transaction
+ */
+export function describeRawTransaction(rawTxn: RawTransaction): TransactionSummary {
+  return {
+    sender: HexString.fromUint8Array(rawTxn.sender.address).hex(),
+    sequenceNumber: rawTxn.sequence_number.toString(),
+    chainId: rawTxn.chain_id.value,
+    maxGasAmount: rawTxn.max_gas_amount.toString(),
+    gasUnitPrice: rawTxn.gas_unit_price.toString(),
+    expirationTimestampSecs: rawTxn.expiration_timestamp_secs.toString(),
+    payload: describePayload(rawTxn.payload),
+  };
+}
+
+/**
+ * Wraps a raw transaction into a bundle to sign elsewhere, see `signTransactionBundle`
+ */
+export function createTransactionBundle(rawTxn: RawTransaction): UnsignedTransactionBundle {
+  return {
+    version: TRANSACTION_BUNDLE_VERSION,
+    rawTransaction: HexString.fromUint8Array(bcsToBytes(rawTxn)).hex(),
+    summary: describeRawTransaction(rawTxn),
+  };
+}
+
+function parseBundle<T extends { version: number; summary: TransactionSummary }>(bundle: T | string): T {
+  const parsed: T = typeof bundle === "string" ? JSON.parse(bundle) : bundle;
+  if (parsed.version !== TRANSACTION_BUNDLE_VERSION) {
+    throw new Error(`Unsupported transaction bundle version ${parsed.version}`);
+  }
+  return parsed;
+}
+
+function checkSummary(summary: TransactionSummary, rawTxn: RawTransaction) {
+  // The summary is what gets reviewed, so it must not differ from what gets signed
+  if (JSON.stringify(summary) !== JSON.stringify(describeRawTransaction(rawTxn))) {
+    throw new Error("The summary of the transaction bundle doesn't match its transaction");
+  }
+}
+
+/**
+ * Reads the raw transaction of a bundle, checking that the summary of the bundle describes it
+ *
+ * @param bundle The bundle, or its JSON
+ * @returns The raw transaction
+ */
+export function readTransactionBundle(bundle: UnsignedTransactionBundle | string): RawTransaction {
+  const { rawTransaction, summary } = parseBundle(bundle);
+  const rawTxn = RawTransaction.deserialize(new Deserializer(new HexString(rawTransaction).toUint8Array()));
+  checkSummary(summary, rawTxn);
+  return rawTxn;
+}
+
+/**
+ * Signs the transaction of a bundle. Needs no network, e.g. to sign on an air-gapped machine.
+ *
+ * @param signer The sender of the transaction
+ * @param bundle The bundle, or its JSON
+ * @returns The signed transaction, to submit with `AptosClient.submitTransactionBundle`
+ */
+export async function signTransactionBundle(
+  signer: Signer,
+  bundle: UnsignedTransactionBundle | string,
+): Promise<SignedTransactionBundle> {
+  const rawTxn = readTransactionBundle(bundle);
+  if (signer.address().toShortString() !== HexString.fromUint8Array(rawTxn.sender.address).toShortString()) {
+    throw new Error(
+      `The transaction is sent by ${HexString.fromUint8Array(rawTxn.sender.address).hex()}, not by the signer`,
+    );
+  }
+  const signedTxn = await generateSignedTransaction(signer, rawTxn);
+  return {
+    version: TRANSACTION_BUNDLE_VERSION,
+    signedTransaction: HexString.fromUint8Array(signedTxn).hex(),
+    summary: describeRawTransaction(rawTxn),
+  };
+}
+
+/**
+ * Reads the signed transaction of a bundle, checking that the summary of the bundle describes it
+ *
+ * @param bundle The signed bundle, or its JSON
+ * @returns The BCS encoded signed transaction, e.g. to compute its hash with `AptosClient.getTransactionHash`
+ */
+export function signedTransactionBytes(bundle: SignedTransactionBundle | string): Uint8Array {
+  const { signedTransaction, summary } = parseBundle(bundle);
+  const signedTxn = new HexString(signedTransaction).toUint8Array();
+  checkSummary(summary, SignedTransaction.deserialize(new Deserializer(signedTxn)).raw_txn);
+  return signedTxn;
+}
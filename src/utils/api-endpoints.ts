@@ -1,3 +1,5 @@
+import type { EndpointPool } from "../client/endpoint_pool";
+
 export const NetworkToIndexerAPI: Record<string, string> = {
   mainnet: "https://indexer.mainnet.aptoslabs.com/v1/graphql",
   testnet: "https://indexer-testnet.staging.gcp.aptosdev.com/v1/graphql",
@@ -23,6 +25,6 @@ export enum Network {
 }
 
 export interface CustomEndpoints {
-  fullnodeUrl: string;
+  fullnodeUrl: string | string[] | EndpointPool;
   indexerUrl?: string;
 }
@@ -3,3 +3,4 @@ export * from "./memoize-decorator";
 export * from "./pagination_helpers";
 export * from "./api-endpoints";
 export * from "./hex_string";
+export * from "./move_abort";
@@ -7,9 +7,41 @@ export type Nullable<T> = { [P in keyof T]: T[P] | null };
 
 export type AnyObject = { [key: string]: any };
 
-export async function sleep(timeMs: number): Promise<null> {
-  return new Promise((resolve) => {
-    setTimeout(resolve, timeMs);
+/**
+ * @returns the error to throw for an aborted signal, i.e. its reason when the environment sets one
+ */
+export function abortReason(signal: AbortSignal): Error {
+  if (signal.reason instanceof Error) {
+    return signal.reason;
+  }
+  const error = new Error("This operation was aborted");
+  error.name = "AbortError";
+  return error;
+}
+
+/**
+ * Resolves after `timeMs`, or rejects as soon as `signal` is aborted
+ */
+export async function sleep(timeMs: number, signal?: AbortSignal): Promise<null> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(abortReason(signal));
+      return;
+    }
+    let onAbort: (() => void) | undefined;
+    const timer = setTimeout(() => {
+      if (onAbort) {
+        signal?.removeEventListener("abort", onAbort);
+      }
+      resolve(null);
+    }, timeMs);
+    if (signal) {
+      onAbort = () => {
+        clearTimeout(timer);
+        reject(abortReason(signal));
+      };
+      signal.addEventListener("abort", onAbort, { once: true });
+    }
   });
 }
 
@@ -0,0 +1,154 @@
+// Copyright © Aptos Foundation
+// SPDX-License-Identifier: Apache-2.0
+
+/* eslint-disable no-bitwise */
+import { HexString } from "./hex_string";
+
+/**
+ * A Move abort, decoded from its `vm_status`
+ *
+ * @param module - the module that aborted, e.g. `0x1::coin`
+ * @param reason - the name of the error constant, e.g. `EINSUFFICIENT_BALANCE`, if known
+ * @param reasonCode - the module specific part of the abort code, i.e. its lowest 16 bits
+ * @param category - the name of the `std::error` category, e.g. `INVALID_ARGUMENT`, if known
+ * @param categoryCode - the category part of the abort code, i.e. its bits 16 to 23
+ * @param code - the full abort code
+ * @param description - what the error means, if known
+ */
+export type MoveAbortDetails = {
+  module: string;
+  reason?: string;
+  reasonCode: number;
+  category?: string;
+  categoryCode: number;
+  code: bigint;
+  description?: string;
+};
+
+/**
+ * The name and description of an error constant of a Move module
+ */
+export type MoveErrorInfo = {
+  name: string;
+  description?: string;
+};
+
+/**
+ * The error categories of the framework, as defined by `std::error`
+ */
+export const MOVE_ERROR_CATEGORIES: Record<number, MoveErrorInfo> = {
+  0x1: { name: "INVALID_ARGUMENT", description: "Caller specified an invalid argument" },
+  0x2: { name: "OUT_OF_RANGE", description: "An input or result of a computation is out of range" },
+  0x3: { name: "INVALID_STATE", description: "The system is not in a state where the operation can be performed" },
+  0x4: {
+    name: "UNAUTHENTICATED",
+    description: "Request not authenticated due to missing, invalid, or expired auth token",
+  },
+  0x5: { name: "PERMISSION_DENIED", description: "Client does not have sufficient permission" },
+  0x6: { name: "NOT_FOUND", description: "A specified resource is not found" },
+  0x7: { name: "ABORTED", description: "Concurrency conflict, such as read-modify-write conflict" },
+  0x8: { name: "ALREADY_EXISTS", description: "The resource that a client tried to create already exists" },
+  0x9: { name: "RESOURCE_EXHAUSTED", description: "Out of gas or other forms of quota" },
+  0xa: { name: "CANCELLED", description: "Request cancelled by the client" },
+  0xb: { name: "INTERNAL", description: "Internal error" },
+  0xc: { name: "NOT_IMPLEMENTED", description: "Feature not implemented" },
+  0xd: { name: "UNAVAILABLE", description: "The service is currently unavailable" },
+};
+
+// Error maps registered for specific modules, keyed by normalized module id, then reason code
+const errorMaps = new Map<string, Map<number, MoveErrorInfo>>();
+
+// e.g. "Move abort in 0x1::coin: EINSUFFICIENT_BALANCE(0x10006): Not enough coins to complete transaction"
+// or "Move abort in 0x1::coin: 0x10006" when the node has no error map for the module
+const MOVE_ABORT_PATTERN =
+  /Move abort in (0x[0-9a-fA-F]+)::(\w+): (?:(\w+)\((0x[0-9a-fA-F]+|\d+)\)|(0x[0-9a-fA-F]+|\d+))(?:: ([^"\n]*))?/;
+
+function normalizeModuleId(moduleId: string): string {
+  const [address, name] = moduleId.split("::");
+  if (!address || !name) {
+    throw new Error(`Invalid module id ${moduleId}, expected <address>::<module>`);
+  }
+  return `${new HexString(address).toShortString()}::${name}`;
+}
+
+/**
+ * Registers the error constants of a Move module, so that its aborts decode to named reasons.
+ * Registering a module again adds to, and overrides, its previous error map.
+ *
+ * @param moduleId The module the errors belong to, e.g. `0xcafe::marketplace`
+ * @param errors The errors of the module keyed by their reason code, i.e. the value of the error constant
+ *
+ * @example
+ * ```
+ * registerMoveErrorMap("0xcafe::marketplace", {
+ *   1: { name: "ELISTING_NOT_FOUND", description: "The listing does not exist" },
+ *   2: { name: "EPRICE_TOO_LOW" },
+ * });
+ * ```
+ */
+export function registerMoveErrorMap(moduleId: string, errors: Record<number, MoveErrorInfo>) {
+  const key = normalizeModuleId(moduleId);
+  const errorMap = errorMaps.get(key) ?? new Map<number, MoveErrorInfo>();
+  Object.entries(errors).forEach(([reasonCode, info]) => errorMap.set(Number(reasonCode), info));
+  errorMaps.set(key, errorMap);
+}
+
+/**
+ * Removes the error map registered for a module
+ */
+export function unregisterMoveErrorMap(moduleId: string) {
+  errorMaps.delete(normalizeModuleId(moduleId));
+}
+
+/**
+ * Decodes an abort code raised by a Move module.
+ *
+ * @param moduleId The module that aborted, e.g. `0x1::coin`
+ * @param code The abort code
+ * @returns The decoded abort, the reason being looked up in the registered error maps
+ */
+export function decodeMoveAbortCode(moduleId: string, code: bigint | number | string): MoveAbortDetails {
+  const module = normalizeModuleId(moduleId);
+  const abortCode = BigInt(code);
+  const reasonCode = Number(abortCode & BigInt(0xffff));
+  const categoryCode = Number((abortCode >> BigInt(16)) & BigInt(0xff));
+  const category = MOVE_ERROR_CATEGORIES[categoryCode];
+  const reason = errorMaps.get(module)?.get(reasonCode);
+  return {
+    module,
+    reason: reason?.name,
+    reasonCode,
+    category: category?.name,
+    categoryCode,
+    code: abortCode,
+    description: reason?.description ?? category?.description,
+  };
+}
+
+/**
+ * Decodes a Move abort out of a `vm_status`, or any message containing one such as an API error message.
+ *
+ * @param vmStatus e.g. `Move abort in 0x1::coin: EINSUFFICIENT_BALANCE(0x10006): Not enough coins`
+ * @returns The decoded abort, or undefined if the status is not a Move abort
+ *
+ * @example
+ * ```
+ * decodeMoveAbort("Move abort in 0x1::coin: EINSUFFICIENT_BALANCE(0x10006)");
+ * // { module: "0x1::coin", reason: "EINSUFFICIENT_BALANCE", reasonCode: 6, category: "INVALID_ARGUMENT",
+ * //   categoryCode: 1, code: 65542n, description: "Caller specified an invalid argument" }
+ * ```
+ */
+export function decodeMoveAbort(vmStatus: string | undefined | null): MoveAbortDetails | undefined {
+  const match = vmStatus?.match(MOVE_ABORT_PATTERN);
+  if (!match) {
+    return undefined;
+  }
+  const [, address, name, reason, namedCode, bareCode, description] = match;
+  const details = decodeMoveAbortCode(`${address}::${name}`, namedCode ?? bareCode);
+  return {
+    ...details,
+    // The names and descriptions reported by the node take precedence, they come from the deployed module
+    reason: reason ?? details.reason,
+    description: description?.trim() || details.description,
+  };
+}
@@ -3,10 +3,35 @@ import * as bip39 from "@scure/bip39";
 import * as english from "@scure/bip39/wordlists/english";
 import fetch from "isomorphic-fetch";
 import assert from "assert";
-import { TxnBuilderTypes } from "./transaction_builder";
-import { AptosAccount } from "./account";
+import {
+  ABIRegistry,
+  DecodedTransaction,
+  decodeTransaction,
+  TxnBuilderTypes,
+} from "./transaction_builder";
+import {
+  AptosAccount,
+  combineShamirShares,
+  decryptKeystore,
+  encryptKeystore,
+  generateSignedTransaction,
+  Keystore,
+  KeystoreOptions,
+  ShamirGroup,
+  ShamirOptions,
+  SignedSignInMessage,
+  Signer,
+  SignInMessage,
+  signSignInMessage,
+  splitShamirShares,
+} from "./account";
 import { TokenClient, FaucetClient } from "./plugins";
-import { AptosClient, OptionalTransactionArgs } from "./providers";
+import {
+  ApiError,
+  AptosClient,
+  OptionalTransactionArgs,
+  SequenceNumberManager,
+} from "./providers";
 import { HexString, MaybeHexString } from "./utils";
 import { RawTransaction } from "./aptos_types";
 import cache from "./utils/cache";
@@ -48,6 +73,66 @@ export interface Wallet {
   accounts: AccountMetaData[];
 }
 
+export interface WalletDiscoveryOptions {
+  // consecutive unused accounts after which the discovery stops, 20 by default
+  gapLimit?: number;
+  // consecutive unused address indices after which the addresses of an
+  // account stop being looked up, 1 by default, i.e. only the first address
+  // of unused accounts is looked up
+  addressGapLimit?: number;
+  // change levels looked up for each account, [0] by default
+  changeIndices?: number[];
+  // maximum number of addresses looked up at the same time, 5 by default
+  concurrency?: number;
+}
+
+// Runs at most `concurrency` tasks at the same time
+function limitConcurrency(concurrency: number) {
+  let active = 0;
+  const queue: (() => void)[] = [];
+  return async <T>(task: () => Promise<T>): Promise<T> => {
+    if (active < concurrency) {
+      active += 1;
+    } else {
+      // the slot is handed over by the task finishing
+      await new Promise<void>((resolve) => {
+        queue.push(resolve);
+      });
+    }
+    try {
+      return await task();
+    } finally {
+      const next = queue.shift();
+      if (next) next();
+      else active -= 1;
+    }
+  };
+}
+
+// Probes indices 0, 1, ... by batches until `gapLimit` consecutive ones are
+// unused, and returns the results of all probed indices
+async function scanWithGapLimit<T extends { used: boolean }>(
+  gapLimit: number,
+  batchSize: number,
+  probe: (index: number) => Promise<T>
+): Promise<T[]> {
+  const results: T[] = [];
+  let gap = 0;
+  while (gap < gapLimit) {
+    const start = results.length;
+    const size = Math.min(batchSize, gapLimit - gap);
+    // eslint-disable-next-line no-await-in-loop
+    const batch = await Promise.all(
+      Array.from({ length: size }, (_, i) => probe(start + i))
+    );
+    for (let i = 0; i < batch.length; i += 1) {
+      results.push(batch[i]);
+      gap = batch[i].used ? 0 : gap + 1;
+    }
+  }
+  return results;
+}
+
 export class WalletClient {
   faucetClient: FaucetClient;
 
@@ -62,7 +147,7 @@ export class WalletClient {
   }
 
   async submitTransactionHelper(
-    account: AptosAccount,
+    account: Signer,
     payload: Gen.EntryFunctionPayload,
     options = { max_gas_amount: "4000" }
   ) {
@@ -89,60 +174,134 @@ export class WalletClient {
    * Wallet can contain multiple accounts
    * An account corresponds to a key pair + address
    *
-   * Get all the accounts of a user from their mnemonic phrase
+   * Get all the accounts of a user from their mnemonic phrase, following the
+   * BIP-44 account discovery: accounts m/44'/637'/account'/change'/index' are
+   * looked up until `gapLimit` consecutive accounts are unused. Accounts whose
+   * auth key was rotated to a key of the wallet are found at their original
+   * address.
+   *
+   * The returned accounts are a flat list, in the order of the account
+   * indices up to the last used one, or of the first account if none is used:
+   * - a used account contributes every used address of each change index
+   *   in `changeIndices`, except the ones whose auth key was rotated away;
+   * - an unused account contributes its first address, change index
+   *   `changeIndices[0]`;
+   * - a used account whose addresses were all rotated away contributes
+   *   nothing.
+   * So the position in the list does not tell the account index, read it
+   * from the `derivationPath` of each account instead.
    *
    * @param code The mnemonic phrase (12 word)
+   * @param options Options of the discovery, see `WalletDiscoveryOptions`
    * @returns Wallet object containing all accounts of a user
    */
-  async importWallet(code: string): Promise<Wallet> {
-    let address = "";
-    let publicKey = "";
-    let derivationPath = "";
-    const accountsInBc = [];
-
-    const accountMetaData: AccountMetaData[] = [];
-    for (let i = 0; i < MAX_ACCOUNTS; i += 1) {
-      // create derivation path
-      derivationPath = `m/44'/${COIN_TYPE}'/${i}'/0'/0'`;
-
-      // get account from derivation path
-      const account = AptosAccount.fromDerivePath(derivationPath, code);
-
-      // assign address and publicKey
-      address = HexString.ensure(account.address()).toString();
-      publicKey = account.pubKey().toString();
-
-      // check if account is present in configured network or not
-      /* eslint-disable no-await-in-loop */
-      const response = await fetch(
-        `${this.aptosClient.nodeUrl}/accounts/${address}`,
-        {
-          method: "GET",
-        }
+  async importWallet(
+    code: string,
+    options: WalletDiscoveryOptions = {}
+  ): Promise<Wallet> {
+    const {
+      gapLimit = MAX_ACCOUNTS,
+      addressGapLimit = 1,
+      changeIndices = [0],
+      concurrency = 5,
+    } = options;
+    if (gapLimit < 1 || addressGapLimit < 1 || concurrency < 1) {
+      throw new Error("Gap limits and concurrency must be at least 1");
+    }
+    if (changeIndices.length === 0) {
+      throw new Error("At least one change index is required");
+    }
+    const limit = limitConcurrency(concurrency);
+    const lookup = (accountIndex: number, change: number, index: number) =>
+      limit(() =>
+        this.lookupDerivedAccount(
+          code,
+          `m/44'/${COIN_TYPE}'/${accountIndex}'/${change}'/${index}'`
+        )
       );
 
-      // if not present add account id in list
-      if (response.status !== 404) {
-        accountsInBc.push(i);
+    const discovered = await scanWithGapLimit(
+      gapLimit,
+      concurrency,
+      async (accountIndex) => {
+        const changes = await Promise.all(
+          changeIndices.map((change) =>
+            scanWithGapLimit(addressGapLimit, concurrency, (index) =>
+              lookup(accountIndex, change, index)
+            )
+          )
+        );
+        const used = changes.flat().filter((account) => account.used);
+        return {
+          used: used.length > 0,
+          accounts:
+            used.length > 0
+              ? used
+                  .filter(({ rotatedAway }) => !rotatedAway)
+                  .map(({ metaData }) => metaData)
+              : [changes[0][0].metaData],
+        };
       }
-
-      // push all account in account metadata object
-      accountMetaData.push({
-        derivationPath,
-        address,
-        publicKey,
-      });
-    }
+    );
 
     // if no account is present in blockchain, return 1st account
-    if (accountsInBc.length === 0 && accountMetaData.length > 0)
-      return { code, accounts: [accountMetaData[0]] };
+    const lastUsed = discovered.map(({ used }) => used).lastIndexOf(true);
+    return {
+      code,
+      accounts: discovered
+        .slice(0, Math.max(lastUsed, 0) + 1)
+        .flatMap(({ accounts }) => accounts),
+    };
+  }
+
+  /**
+   * Looks up the account of a key of the wallet, at its original address if
+   * its auth key was rotated to the key. Keys whose account was rotated to
+   * another key are used, but rotated away.
+   */
+  private async lookupDerivedAccount(
+    code: string,
+    derivationPath: string
+  ): Promise<{
+    used: boolean;
+    rotatedAway: boolean;
+    metaData: AccountMetaData;
+  }> {
+    const account = AptosAccount.fromDerivePath(derivationPath, code);
+    const authKey = account.authKey();
+
+    let address = authKey;
+    let rotatedTo = false;
+    try {
+      address = await this.aptosClient.lookupOriginalAddress(authKey);
+      rotatedTo = true;
+    } catch (err) {
+      if (!(err instanceof ApiError && err.status === 404)) throw err;
+    }
 
-    // find max of ids
-    const maxAccountIdInBc = Math.max(...accountsInBc);
+    let used = true;
+    let rotatedAway = false;
+    try {
+      const { authentication_key: currentAuthKey } =
+        await this.aptosClient.getAccount(address);
+      rotatedAway =
+        !rotatedTo &&
+        HexString.ensure(currentAuthKey).toShortString() !==
+          authKey.toShortString();
+    } catch (err) {
+      if (!(err instanceof ApiError && err.status === 404)) throw err;
+      used = false;
+    }
 
-    // return accounts till max id
-    return { code, accounts: accountMetaData.slice(0, maxAccountIdInBc + 1) };
+    return {
+      used,
+      rotatedAway,
+      metaData: {
+        derivationPath,
+        address: address.toString(),
+        publicKey: account.pubKey().toString(),
+      },
+    };
   }
 
   /**
@@ -225,6 +384,22 @@ export class WalletClient {
     return RawTransaction.deserialize(deserializer);
   }
 
+  /**
+   * Decodes a BCS encoded transaction, e.g. to show users what they are
+   * signing. Entry function arguments are decoded after the ABI of the
+   * function, from the ABI registry of the client if it has one.
+   *
+   * @param bytes A BCS encoded raw transaction, multi agent or fee payer raw
+   * transaction, or signed transaction
+   * @returns The decoded transaction, with its arguments as JSON
+   */
+  async decodeTransaction(bytes: Uint8Array): Promise<DecodedTransaction> {
+    const abiRegistry =
+      this.aptosClient.getABIRegistry() ??
+      new ABIRegistry({ client: this.aptosClient, framework: true });
+    return decodeTransaction(bytes, abiRegistry);
+  }
+
   /**
    * returns an AptosAccount object given a private key and
    * address of the account
@@ -256,7 +431,117 @@ export class WalletClient {
    * @returns
    */
   static getAccountFromMetaData(code: string, metaData: AccountMetaData) {
-    return AptosAccount.fromDerivePath(metaData.derivationPath, code);
+    const account = AptosAccount.fromDerivePath(metaData.derivationPath, code);
+    // the address differs from the auth key once the auth key was rotated
+    return new AptosAccount(
+      account.signingKey.secretKey,
+      metaData.address ?? account.address()
+    );
+  }
+
+  /**
+   * returns an AptosAccount object given a keystore exported with
+   * `AptosAccount.toKeystore`
+   *
+   * @param keystore keystore of the account, or its JSON
+   * @param password password the keystore was encrypted with
+   * @returns AptosAccount object
+   */
+  static getAccountFromKeystore(keystore: Keystore | string, password: string) {
+    return AptosAccount.fromKeystore(keystore, password);
+  }
+
+  /**
+   * encrypts the mnemonic and accounts of a wallet with a password
+   *
+   * @param wallet wallet to export
+   * @param password password to encrypt the wallet with
+   * @param options key derivation function and its parameters
+   * @returns keystore of the wallet, to be stored as JSON
+   */
+  static exportWalletKeystore(
+    wallet: Wallet,
+    password: string,
+    options?: KeystoreOptions
+  ): Promise<Keystore> {
+    const secret = new TextEncoder().encode(
+      JSON.stringify({ code: wallet.code, accounts: wallet.accounts })
+    );
+    return encryptKeystore("wallet", secret, password, options);
+  }
+
+  /**
+   * decrypts a wallet exported with `exportWalletKeystore`
+   *
+   * @param keystore keystore of the wallet, or its JSON
+   * @param password password the keystore was encrypted with
+   * @returns Wallet object
+   */
+  static async importWalletKeystore(
+    keystore: Keystore | string,
+    password: string
+  ): Promise<Wallet> {
+    const secret = await decryptKeystore(keystore, password, "wallet");
+    return JSON.parse(new TextDecoder().decode(secret));
+  }
+
+  /**
+   * splits the mnemonic of a wallet into groups of shares, any
+   * `groupThreshold` groups of which recover it, each with `threshold`
+   * of its shares
+   *
+   * @param code mnemonic phrase of the wallet
+   * @param groups threshold and number of shares of each group
+   * @param options group threshold and passphrase
+   * @returns mnemonics of the shares of each group
+   */
+  static splitMnemonicToShares(
+    code: string,
+    groups: ShamirGroup[],
+    options?: ShamirOptions
+  ): string[][] {
+    const entropy = bip39.mnemonicToEntropy(
+      code.trim().toLowerCase().split(/\s+/).join(" "),
+      english.wordlist
+    );
+    return splitShamirShares(entropy, groups, options);
+  }
+
+  /**
+   * recovers a mnemonic split with `splitMnemonicToShares`
+   *
+   * @param shares mnemonics of enough shares, of any group
+   * @param passphrase passphrase the mnemonic was split with
+   * @returns mnemonic phrase of the wallet
+   */
+  static recoverMnemonicFromShares(
+    shares: string[],
+    passphrase?: string
+  ): string {
+    return bip39.entropyToMnemonic(
+      combineShamirShares(shares, passphrase),
+      english.wordlist
+    );
+  }
+
+  /**
+   * restores a wallet from shares of its mnemonic, discovering its accounts
+   * like `importWallet`
+   *
+   * @param shares mnemonics of enough shares, of any group
+   * @param passphrase passphrase the mnemonic was split with
+   * @param options Options of the discovery, see `WalletDiscoveryOptions`
+   * @returns Wallet object containing all accounts of a user
+   */
+  async importWalletFromShares(
+    shares: string[],
+    passphrase?: string,
+    options?: WalletDiscoveryOptions
+  ): Promise<Wallet> {
+    return this.importWallet(
+      WalletClient.recoverMnemonicFromShares(shares, passphrase),
+      options
+    );
   }
 
   /**
@@ -323,7 +608,7 @@ export class WalletClient {
    * @returns transaction hash
    */
   async transfer(
-    account: AptosAccount,
+    account: Signer,
     recipient_address: string | HexString,
     amount: number
   ) {
@@ -402,7 +687,7 @@ export class WalletClient {
    * @returns transaction hash
    */
   async createCollection(
-    account: AptosAccount,
+    account: Signer,
     name: string,
     description: string,
     uri: string,
@@ -435,7 +720,7 @@ export class WalletClient {
    */
 
   async createToken(
-    account: AptosAccount,
+    account: Signer,
     collection_name: string,
     name: string,
     description: string,
@@ -482,7 +767,7 @@ export class WalletClient {
    * @returns transaction hash
    */
   async offerToken(
-    account: AptosAccount,
+    account: Signer,
     receiver_address: string,
     creator_address: string,
     collection_name: string,
@@ -516,7 +801,7 @@ export class WalletClient {
    * @returns transaction hash
    */
   async cancelTokenOffer(
-    account: AptosAccount,
+    account: Signer,
     receiver_address: string,
     creator_address: string,
     collection_name: string,
@@ -548,7 +833,7 @@ export class WalletClient {
    * @returns transaction hash
    */
   async claimToken(
-    account: AptosAccount,
+    account: Signer,
     sender_address: string,
     creator_address: string,
     collection_name: string,
@@ -576,7 +861,7 @@ export class WalletClient {
    * @param opt_in Boolean value of whether to opt in or not
    * @returns The hash of the transaction submitted to the API
    */
-  async optInDirectTransfer(account: AptosAccount, opt_in: Boolean) {
+  async optInDirectTransfer(account: Signer, opt_in: Boolean) {
     try {
       const payload: Gen.EntryFunctionPayload = {
         function: "0x3::token::opt_in_direct_transfer",
@@ -615,7 +900,7 @@ export class WalletClient {
    * @returns The hash of the transaction submitted to the API
    */
   async transferWithOptIn(
-    sender: AptosAccount,
+    sender: Signer,
     receiver: MaybeHexString,
     creator: MaybeHexString,
     collectionName: string,
@@ -664,7 +949,7 @@ export class WalletClient {
    * @returns transaction hash
    */
   async signGenericTransaction(
-    account: AptosAccount,
+    account: Signer,
     func: string,
     args: string[],
     type_args: string[]
@@ -685,7 +970,7 @@ export class WalletClient {
   }
 
   async signAndSubmitTransaction(
-    account: AptosAccount,
+    account: Signer,
     txnRequest: TxnBuilderTypes.RawTransaction
   ) {
     const signedTxn = await this.aptosClient.signTransaction(
@@ -698,10 +983,47 @@ export class WalletClient {
   }
 
   // sign and submit multiple transactions
+  // with a sequence number manager, the transactions are submitted concurrently
   async signAndSubmitTransactions(
-    account: AptosAccount,
-    txnRequests: TxnRequestRaw[]
+    account: Signer,
+    txnRequests: TxnRequestRaw[],
+    sequenceNumberManager?: SequenceNumberManager
   ) {
+    if (sequenceNumberManager) {
+      return Promise.all(
+        txnRequests.map(async (rawTxn) => {
+          try {
+            const sequenceNumber =
+              await sequenceNumberManager.nextSequenceNumber();
+            let res: Gen.PendingTransaction;
+            try {
+              const txnRequest = await this.aptosClient.generateTransaction(
+                rawTxn.sender,
+                rawTxn.payload,
+                {
+                  ...rawTxn.options,
+                  sequence_number: sequenceNumber.toString(),
+                }
+              );
+              const signedTxn = await this.aptosClient.signTransaction(
+                account,
+                txnRequest
+              );
+              res = await this.aptosClient.submitTransaction(signedTxn);
+            } catch (err) {
+              // Until the node accepts the transaction, its sequence number can be handed out again
+              await sequenceNumberManager.handleError(err, sequenceNumber);
+              throw err;
+            }
+            await this.aptosClient.waitForTransaction(res.hash);
+            return res.hash;
+          } catch (err) {
+            return err.message as string;
+          }
+        })
+      );
+    }
+
     const hashs = [];
     // eslint-disable-next-line no-restricted-syntax
     for (const rawTxn of txnRequests) {
@@ -729,7 +1051,7 @@ export class WalletClient {
   }
 
   async signTransaction(
-    account: AptosAccount,
+    account: Signer,
     txnRequest: TxnBuilderTypes.RawTransaction
   ): Promise<Uint8Array> {
     return Promise.resolve(
@@ -817,10 +1139,10 @@ export class WalletClient {
   }
 
   static generateBCSTransaction(
-    account: AptosAccount,
+    account: Signer,
     rawTxn: RawTransaction
   ): Promise<Uint8Array> {
-    return Promise.resolve(AptosClient.generateBCSTransaction(account, rawTxn));
+    return generateSignedTransaction(account, rawTxn);
   }
 
   static generateBCSSimulation(
@@ -844,61 +1166,86 @@ export class WalletClient {
     return Promise.resolve(await this.aptosClient.submitBCSSimulation(bcsBody));
   }
 
-  static signMessage(account: AptosAccount, message: string): Promise<string> {
-    return Promise.resolve(account.signBuffer(Buffer.from(message)).hex());
+  static async signMessage(account: Signer, message: string): Promise<string> {
+    const signature = await account.sign(Buffer.from(message));
+    return HexString.fromUint8Array(signature).hex();
+  }
+
+  /**
+   * signs a "Sign in with Aptos" message, to be verified by the server with
+   * `AptosClient.verifySignInMessage`
+   *
+   * @param account account signing in
+   * @param message message built with `SignInMessageBuilder`, or its text
+   * @returns signed message along with the public key of the account
+   */
+  static async signSignInMessage(
+    account: Signer,
+    message: SignInMessage | string
+  ): Promise<SignedSignInMessage> {
+    return signSignInMessage(account, message);
   }
 
   /**
-   * Rotates the auth key
-   * Disabled
+   * Rotates the auth key of an account of the wallet to the key of the next
+   * unused address index of its derivation path, keeping its address
    *
    * @param code mnemonic phrase for the desired wallet
    * @param metaData metadata for the desired account
-   * @returns status object
+   * @param extraArgs extra args for building the transaction
+   * @returns status object, along with the metadata of the account, with its
+   * new derivation path if the rotation succeeded
    */
-  /* eslint-disable */
-  async rotateAuthKey(code: string, metaData: AccountMetaData) {
-    // const account: AptosAccount = await WalletClient.getAccountFromMetaData(
-    //   code,
-    //   metaData
-    // );
-    // const pathSplit = metaData.derivationPath.split("/");
-    // const addressIndex = Number(pathSplit[pathSplit.length - 1].slice(0, -1));
-    // if (addressIndex >= ADDRESS_GAP - 1) {
-    //   throw new Error("Maximum key rotation reached");
-    // }
-    // const newDerivationPath = `${pathSplit
-    //   .slice(0, pathSplit.length - 1)
-    //   .join("/")}/${addressIndex + 1}'`;
-    // const newAccount = await WalletClient.getAccountFromMetaData(code, {
-    //   address: metaData.address,
-    //   derivationPath: newDerivationPath,
-    // });
-    // const newAuthKey = newAccount.authKey().noPrefix();
-    // const transactionStatus = await this.signGenericTransaction(
-    //   account,
-    //   "0x1::account::rotate_authentication_key_25519",
-    //   [account.pubKey().toString(), account.],
-    //   []
-    // );
-
-    // if (!transactionStatus.success) {
-    //   return {
-    //     authkey: "",
-    //     success: false,
-    //     vm_status: transactionStatus.vm_status,
-    //   };
-    // }
+  async rotateAuthKey(
+    code: string,
+    metaData: AccountMetaData,
+    extraArgs?: OptionalTransactionArgs
+  ) {
+    const account = WalletClient.getAccountFromMetaData(code, metaData);
+    const pathSplit = metaData.derivationPath.split("/");
+    const addressIndex = Number(pathSplit[pathSplit.length - 1].slice(0, -1));
+
+    let newMetaData: AccountMetaData | undefined;
+    for (
+      let index = addressIndex + 1;
+      !newMetaData && index <= addressIndex + MAX_ACCOUNTS;
+      index += 1
+    ) {
+      // eslint-disable-next-line no-await-in-loop
+      const { used, metaData: derived } = await this.lookupDerivedAccount(
+        code,
+        `${pathSplit.slice(0, -1).join("/")}/${index}'`
+      );
+      if (!used) {
+        newMetaData = { ...derived, address: metaData.address };
+      }
+    }
+    if (!newMetaData) {
+      throw new Error("No unused key to rotate to");
+    }
+
+    const newAccount = AptosAccount.fromDerivePath(
+      newMetaData.derivationPath,
+      code
+    );
+    const pendingTxn = await this.aptosClient.rotateAuthKey(
+      account,
+      newAccount,
+      extraArgs
+    );
+    // The hash is the one of the submitted rotation, i.e. of a user transaction
+    const txn = (await this.aptosClient.waitForTransactionWithResult(
+      pendingTxn.hash
+    )) as Gen.UserTransaction;
 
     return {
-      authkey: "0x",
-      success: false,
-      vm_status: "disabled",
+      authkey: newAccount.authKey().hex(),
+      success: txn.success,
+      vm_status: txn.vm_status,
+      metaData: txn.success ? newMetaData : metaData,
     };
   }
 
-  /* eslint-enable */
-
   async getEventStream(
     address: string,
     eventHandleStruct: string,
@@ -1293,7 +1640,7 @@ export class WalletClient {
    * @returns transaction hash
    */
   async initializeCoin(
-    account: AptosAccount,
+    account: Signer,
     coin_type_path: string, // coin_type_path: something like 0x${coinTypeAddress}::moon_coin::MoonCoin
     name: string,
     symbol: string,
@@ -1323,7 +1670,7 @@ export class WalletClient {
    * @param coin_type_path address path of the desired coin
    * @returns transaction hash
    */
-  async registerCoin(account: AptosAccount, coin_type_path: string) {
+  async registerCoin(account: Signer, coin_type_path: string) {
     const token = new TxnBuilderTypes.TypeTagStruct(
       TxnBuilderTypes.StructTag.fromString(coin_type_path)
     );
@@ -1343,7 +1690,7 @@ export class WalletClient {
       entryFunctionPayload
     );
 
-    const bcsTxn = AptosClient.generateBCSTransaction(account, rawTxn);
+    const bcsTxn = await this.aptosClient.signTransaction(account, rawTxn);
     const transactionRes = await this.aptosClient.submitSignedBCSTransaction(
       bcsTxn
     );
@@ -1370,7 +1717,7 @@ export class WalletClient {
    * @returns transaction hash
    */
   async mintCoin(
-    account: AptosAccount,
+    account: Signer,
     coin_type_path: string, // coin_type_path: something like 0x${coinTypeAddress}::moon_coin::MoonCoin
     dst_address: string,
     amount: number
@@ -1401,7 +1748,7 @@ export class WalletClient {
       entryFunctionPayload
     );
 
-    const bcsTxn = AptosClient.generateBCSTransaction(account, rawTxn);
+    const bcsTxn = await this.aptosClient.signTransaction(account, rawTxn);
     const transactionRes = await this.aptosClient.submitSignedBCSTransaction(
       bcsTxn
     );
@@ -1424,7 +1771,7 @@ export class WalletClient {
    * @returns transaction hash
    */
   async transferCoin(
-    account: AptosAccount,
+    account: Signer,
     coin_type_path: string, // coin_type_path: something like 0x${coinTypeAddress}::moon_coin::MoonCoin
     to_address: string,
     amount: number
@@ -1455,7 +1802,7 @@ export class WalletClient {
       entryFunctionPayload
     );
 
-    const bcsTxn = AptosClient.generateBCSTransaction(account, rawTxn);
+    const bcsTxn = await this.aptosClient.signTransaction(account, rawTxn);
     const transactionRes = await this.aptosClient.submitSignedBCSTransaction(
       bcsTxn
     );
@@ -1536,7 +1883,7 @@ export class WalletClient {
   }
 
   async publishModule(
-    sender: AptosAccount,
+    sender: Signer,
     packageMetadataHex: string,
     moduleHex: string,
     extraArgs?: OptionalTransactionArgs